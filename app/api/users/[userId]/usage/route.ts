@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenBudget } from '@/lib/usage';
+import { createServerClientInstance } from '@/lib/supabase';
+import { logger } from '@/lib/utils/logger';
+
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/users/[userId]/usage
+ * Summarizes a user's Claude token usage by phase and by day
+ *
+ * Query: ?days=30 - number of days to summarize, including today
+ * Requires authentication; users can only read their own usage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const supabase = await createServerClientInstance();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { userId } = params;
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    if (user.id !== userId) {
+      return NextResponse.json(
+        { error: "You do not have access to this user's usage" },
+        { status: 403 }
+      );
+    }
+
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const days = daysParam === null ? 30 : Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be an integer between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const usage = await getTokenBudget().getUserUsage(userId, days);
+    return NextResponse.json(usage);
+  } catch (error) {
+    logger.error('Failed to load token usage:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { sessionManager } from "@/lib/services/session-manager";
+import { sessionEvents } from "@/lib/events/session-events";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import { cancellationRegistry } from "@/lib/utils/cancellation";
+import { authorizeSessionOwner } from "@/lib/auth";
+import { logger } from "@/lib/utils/logger";
+import type { WorkflowOperation } from "@/types/workflow";
+
+/**
+ * POST /api/workflow/[sessionId]/cancel
+ * Stops an in-flight workflow generation and marks the session cancelled
+ *
+ * Aborts the Claude and MCP calls of a phase running in this server
+ * process and cancels any queued or running phase jobs. Cancelled
+ * sessions can be picked up again with POST /resume. Requires
+ * authentication; only the session's owner can cancel it.
+ *
+ * Body: { reason?: string }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSessionOwner(sessionId);
+    if (access.response) return access.response;
+
+    const { reason } = await request.json().catch(() => ({}));
+    if (reason !== undefined && typeof reason !== "string") {
+      return NextResponse.json(
+        { error: "reason must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const { phase } = session.state;
+    if (phase === "complete" || phase === "cancelled") {
+      return NextResponse.json(
+        { error: `Workflow is already ${phase}` },
+        { status: 409 }
+      );
+    }
+
+    const stoppedInFlight = cancellationRegistry.cancel(sessionId, reason);
+    const cancelledJobs = isPhaseJobsEnabled()
+      ? await getPhaseJobQueue().cancelForSession(sessionId)
+      : 0;
+
+    const operations: WorkflowOperation[] = [
+      { type: "cancelSession", fromPhase: phase, reason },
+    ];
+    await sessionManager.applyOperations(sessionId, operations);
+    sessionEvents.publishOperations(sessionId, operations);
+
+    logger.info(`Cancelled ${sessionId} in ${phase} phase`, {
+      reason,
+      stoppedInFlight,
+      cancelledJobs,
+    });
+
+    return NextResponse.json({
+      sessionId,
+      status: "cancelled",
+      cancelledPhase: phase,
+      stoppedInFlight,
+      cancelledJobs,
+    });
+  } catch (error) {
+    logger.error("Failed to cancel workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel workflow session" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,10 +2,16 @@ import { NextResponse } from "next/server";
 import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
 import { isMockEnabled, mockClarifyResponse } from "@/lib/mocks/workflow";
 import { logger } from "@/lib/utils/logger";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import type { ClarificationAnswer } from "@/types/workflow";
 
 /**
  * POST /api/workflow/[sessionId]/clarify
  * Handles clarification responses from the user
+ *
+ * Body: { answers: [{ questionId, value }] } answering the pending round,
+ * where value is an option value, a list of option values (multi_choice)
+ * or text. { questionId, response } answers a single question.
  */
 export async function POST(
   request: Request,
@@ -16,7 +22,12 @@ export async function POST(
       return NextResponse.json(mockClarifyResponse());
     }
     const { sessionId } = params;
-    const { questionId, response } = await request.json();
+    const body = await request.json();
+    const answers: ClarificationAnswer[] | undefined = Array.isArray(body?.answers)
+      ? body.answers
+      : body?.questionId && body?.response
+      ? [{ questionId: body.questionId, value: body.response }]
+      : undefined;
 
     if (!sessionId) {
       return NextResponse.json(
@@ -25,9 +36,13 @@ export async function POST(
       );
     }
 
-    if (!questionId || !response) {
+    if (
+      !answers ||
+      answers.length === 0 ||
+      answers.some((answer) => !answer || typeof answer.questionId !== "string")
+    ) {
       return NextResponse.json(
-        { error: "Question ID and response are required" },
+        { error: "Answers with a question ID are required" },
         { status: 400 }
       );
     }
@@ -38,53 +53,59 @@ export async function POST(
     // Handle the clarification response
     const result = await orchestrator.handleClarificationResponse(
       sessionId,
-      questionId,
-      response
+      answers
     );
 
+    if (!result.success && result.error?.code === "INVALID_CLARIFICATION") {
+      return NextResponse.json(
+        {
+          error: result.error.userMessage,
+          details: result.error.message,
+          pendingClarifications: result.pendingClarifications,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Answers to configuration questions finish configuring their nodes,
+    // so the remaining phases continue from building
+    const answeredConfiguration = result.phase === "configuration";
+    const readyToContinue =
+      !result.pendingClarifications &&
+      (answeredConfiguration ? result.success : result.selectedNodeIds?.length > 0);
+
     // Continue with remaining phases if no more clarifications needed
-    if (!result.pendingClarification && result.selectedNodeIds?.length > 0) {
+    if (isPhaseJobsEnabled() && readyToContinue) {
+      const phase = answeredConfiguration ? "building" : "configuration";
+      const job = await getPhaseJobQueue().enqueue({ sessionId, phase });
+      logger.info(`Queued ${phase} job ${job.id} for ${sessionId}`);
+    } else if (readyToContinue) {
       logger.info(`Continuing workflow for ${sessionId} after clarification`);
 
-      // Continue processing phases in background with timeout protection
+      // Don't await - let it run in background
       orchestrator
-        .runConfigurationPhase(sessionId)
-        .then(async () => {
-          try {
-            await orchestrator.runBuildingPhase(sessionId);
-            
-            // Add timeout for validation phase to prevent infinite loops
-            const validationTimeout = new Promise((_, reject) => {
-              setTimeout(() => reject(new Error('Validation phase timeout')), 120000); // 2 minutes
-            });
-            
-            const validationPromise = orchestrator.runValidationPhase(sessionId);
-            
-            try {
-              await Promise.race([validationPromise, validationTimeout]);
-              await orchestrator.runDocumentationPhase(sessionId);
-            } catch (validationError) {
-              logger.warn(`Validation phase failed/timeout for ${sessionId}, continuing to documentation:`, validationError);
-              // Continue to documentation even if validation fails
-              await orchestrator.runDocumentationPhase(sessionId);
-            }
-          } catch (phaseError) {
-            logger.error(
-              `Phase processing failed for ${sessionId}:`,
-              phaseError
-            );
-          }
+        .runPipelineFrom(
+          sessionId,
+          answeredConfiguration ? "building" : "configuration"
+        )
+        .then((pipeline) => {
+          logger.info(`Pipeline result for ${sessionId}:`, {
+            success: pipeline.success,
+            completedPhases: pipeline.completedPhases,
+            failedPhase: pipeline.failedPhase,
+            pendingClarifications: pipeline.pendingClarifications?.length ?? 0,
+          });
         })
         .catch((error) => {
-          logger.error(`Configuration phase failed for ${sessionId}:`, error);
+          logger.error(`Background processing failed for ${sessionId}:`, error);
         });
     }
 
     return NextResponse.json({
       success: true,
       selectedNodes: result.selectedNodeIds?.length || 0,
-      pendingClarification: result.pendingClarification,
-      message: result.pendingClarification
+      pendingClarifications: result.pendingClarifications ?? [],
+      message: result.pendingClarifications
         ? "Additional clarification needed"
         : "Thanks for the clarification! Processing your workflow...",
     });
@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { sessionManager } from "@/lib/services/session-manager";
+import { authorizeSessionOwner } from "@/lib/auth";
+import {
+  DeploymentError,
+  getDeployProfiles,
+  getWorkflowDeployer,
+} from "@/lib/deployments";
+import { logger } from "@/lib/utils/logger";
+import type { CredentialMapping } from "@/types/deployments";
+
+/**
+ * POST /api/workflow/[sessionId]/deploy
+ * Deploys the completed workflow to an n8n instance
+ *
+ * Credentials are mapped from the variables in the session's config
+ * analysis (missingCredentials) to credentials that exist in n8n. The
+ * first deployment to a profile creates the workflow; redeploying
+ * updates it and records a new version.
+ *
+ * Body: {
+ *   profile?: string,  // n8n instance profile, see getDeployTargets()
+ *   credentials?: { [variable]: string | { id: string, name?: string } },
+ *   name?: string
+ * }
+ * Requires authentication; only the session's owner can deploy it
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSessionOwner(sessionId);
+    if (access.response) return access.response;
+
+    const body = await request.json().catch(() => ({}));
+    const profiles = getDeployProfiles();
+    if (profiles.length === 0) {
+      return NextResponse.json(
+        { error: "No n8n deployment targets are configured" },
+        { status: 503 }
+      );
+    }
+    const profile = body.profile ?? profiles[0];
+    if (typeof profile !== "string" || !profiles.includes(profile)) {
+      return NextResponse.json(
+        { error: `profile must be one of: ${profiles.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+      return NextResponse.json(
+        { error: "name must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = parseCredentials(body.credentials);
+    if (!credentials) {
+      return NextResponse.json(
+        {
+          error:
+            "credentials must map each variable to a credential ID or { id, name }",
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    if (session.state.phase !== "complete") {
+      return NextResponse.json(
+        { error: "Workflow is not yet complete" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getWorkflowDeployer().deploy(session, {
+      profile,
+      credentials,
+      name: body.name?.trim(),
+    });
+
+    return NextResponse.json(result, {
+      status: result.deployment.action === "created" ? 201 : 200,
+    });
+  } catch (error) {
+    if (error instanceof DeploymentError) {
+      logger.warn(`Deployment of ${params.sessionId} failed:`, error.message);
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.code === "INVALID_CREDENTIALS" ? 400 : 502 }
+      );
+    }
+    logger.error("Failed to deploy workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to deploy workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/workflow/[sessionId]/deploy
+ * Lists the session's deployments, newest first
+ * Requires authentication; only the session's owner can list them
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSessionOwner(sessionId);
+    if (access.response) return access.response;
+
+    const deployments = await getWorkflowDeployer().listDeployments(sessionId);
+    return NextResponse.json({ sessionId, deployments });
+  } catch (error) {
+    logger.error("Failed to list deployments:", error);
+    return NextResponse.json(
+      { error: "Failed to list deployments" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Accepts a bare credential ID or { id, name } per variable
+ */
+function parseCredentials(value: unknown): CredentialMapping | null {
+  if (value === undefined) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const mapping: CredentialMapping = {};
+  for (const [variable, credential] of Object.entries(value)) {
+    if (typeof credential === "string" && credential) {
+      mapping[variable] = { id: credential };
+    } else if (
+      credential &&
+      typeof credential === "object" &&
+      typeof credential.id === "string" &&
+      credential.id &&
+      (credential.name === undefined || typeof credential.name === "string")
+    ) {
+      mapping[variable] = { id: credential.id, name: credential.name };
+    } else {
+      return null;
+    }
+  }
+  return mapping;
+}
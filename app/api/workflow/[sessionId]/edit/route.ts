@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import { sessionManager } from "@/lib/services/session-manager";
+import { authorizeSessionOwner } from "@/lib/auth";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * POST /api/workflow/[sessionId]/edit
+ * Applies a natural-language change to a completed workflow and re-runs
+ * only validation and documentation on the result
+ *
+ * Requires authentication; only the session's owner can edit it.
+ *
+ * Body: { request: string } - e.g. "also post the summary to Teams"
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSessionOwner(sessionId);
+    if (access.response) return access.response;
+
+    const { request: change } = await request.json().catch(() => ({}));
+
+    if (typeof change !== "string" || !change.trim()) {
+      return NextResponse.json(
+        { error: "request must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Claim the session so a concurrent edit of it gets a 409
+    const claimed =
+      session.state.phase === "complete" &&
+      (await sessionManager.claimPhase(sessionId, "complete", "validation"));
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "Only completed workflows can be edited" },
+        { status: 409 }
+      );
+    }
+
+    const orchestrator = new WorkflowOrchestrator();
+    const release = () =>
+      sessionManager.claimPhase(sessionId, "validation", "complete");
+
+    let result;
+    try {
+      result = await orchestrator.runEditPhase(sessionId, change.trim());
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    if (!result.success) {
+      await release();
+      const status =
+        result.error?.code === "NO_EDIT_OPERATIONS" ||
+        result.error?.code === "NO_WORKFLOW"
+          ? 422
+          : 502;
+      return NextResponse.json(
+        {
+          error: result.error?.userMessage || "Failed to apply the change",
+          code: result.error?.code,
+        },
+        { status }
+      );
+    }
+
+    logger.info(
+      `Applied ${result.editOperations} edit operations to ${sessionId}, re-running validation`
+    );
+
+    if (isPhaseJobsEnabled()) {
+      const job = await getPhaseJobQueue().enqueue({
+        sessionId,
+        phase: "validation",
+        payload: { prompt: session.state.userPrompt },
+      });
+      logger.info(`Queued validation job ${job.id} for ${sessionId}`);
+    } else {
+      // Don't await - let it run in background
+      orchestrator
+        .runPipelineFrom(sessionId, "validation", {
+          prompt: session.state.userPrompt,
+        })
+        .then((pipeline) => {
+          logger.info(`Edit pipeline result for ${sessionId}:`, {
+            success: pipeline.success,
+            completedPhases: pipeline.completedPhases,
+            failedPhase: pipeline.failedPhase,
+          });
+        })
+        .catch((error) => {
+          logger.error(`Edit processing failed for ${sessionId}:`, error);
+        });
+    }
+
+    return NextResponse.json({
+      sessionId,
+      operations: result.editOperations,
+      skippedOperations: result.skippedOperations,
+      reasoning: result.reasoning,
+      status: isPhaseJobsEnabled() ? "queued" : "processing",
+    });
+  } catch (error) {
+    logger.error("Failed to edit workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to edit workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse, NextRequest } from "next/server";
+import { sessionManager } from "@/lib/services/session-manager";
+import { sessionEvents } from "@/lib/events/session-events";
+import { logger } from "@/lib/utils/logger";
+import type { SessionEvent } from "@/types/events";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/workflow/[sessionId]/events
+ * Streams phase progress and operations as Server-Sent Events
+ *
+ * Sends a `snapshot` event with the current phase first, then every
+ * session event as it happens. Reconnecting clients send Last-Event-ID
+ * (or ?lastEventId=) to receive the buffered events they missed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const lastEventId = Number(
+      request.headers.get("last-event-id") ??
+        request.nextUrl.searchParams.get("lastEventId") ??
+        0
+    );
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // Stream already closed
+            cleanup();
+          }
+        };
+        const sendEvent = (event: SessionEvent) =>
+          send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+        send(
+          `event: snapshot\ndata: ${JSON.stringify({
+            sessionId,
+            phase: session.state.phase,
+            operationCount: session.state.operationHistory?.length || 0,
+            pendingClarifications: session.state.pendingClarifications?.length || 0,
+          })}\n\n`
+        );
+
+        for (const event of sessionEvents.getRecent(
+          sessionId,
+          Number.isFinite(lastEventId) ? lastEventId : 0
+        )) {
+          sendEvent(event);
+        }
+
+        const unsubscribe = sessionEvents.subscribe(sessionId, sendEvent);
+        const heartbeat = setInterval(
+          () => send(": heartbeat\n\n"),
+          HEARTBEAT_INTERVAL_MS
+        );
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        request.signal.addEventListener("abort", () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to open session event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open session event stream" },
+      { status: 500 }
+    );
+  }
+}
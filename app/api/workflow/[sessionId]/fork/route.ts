@@ -0,0 +1,174 @@
+import { NextResponse } from "next/server";
+import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import {
+  SessionAccessError,
+  sessionManager,
+} from "@/lib/services/session-manager";
+import { generateSessionId } from "@/lib/session-utils";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import { createServerClientInstance } from "@/lib/supabase";
+import { logger } from "@/lib/utils/logger";
+import type { WorkflowPhase } from "@/types/workflow";
+
+const FORKABLE_PHASES: WorkflowPhase[] = [
+  "discovery",
+  "configuration",
+  "building",
+  "validation",
+  "documentation",
+];
+
+/**
+ * POST /api/workflow/[sessionId]/fork
+ * Copies a session's state up to an operation index (or the start of a phase)
+ * into a new session and resumes the pipeline from there
+ *
+ * Body: { atOperation?: number, phase?: WorkflowPhase, prompt?: string, resume?: boolean }
+ * Requires authentication; only the session's owner can fork it
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const supabase = await createServerClientInstance();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = params;
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const {
+      atOperation,
+      phase,
+      prompt,
+      resume = true,
+    } = await request.json().catch(() => ({}));
+
+    if (atOperation !== undefined && phase !== undefined) {
+      return NextResponse.json(
+        { error: "Provide either atOperation or phase, not both" },
+        { status: 400 }
+      );
+    }
+    if (
+      atOperation !== undefined &&
+      (!Number.isInteger(atOperation) || atOperation < 0)
+    ) {
+      return NextResponse.json(
+        { error: "atOperation must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    if (phase !== undefined && !FORKABLE_PHASES.includes(phase)) {
+      return NextResponse.json(
+        { error: `phase must be one of: ${FORKABLE_PHASES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (prompt !== undefined && (typeof prompt !== "string" || !prompt.trim())) {
+      return NextResponse.json(
+        { error: "prompt must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const newSessionId = generateSessionId();
+    const fork = await sessionManager.forkSession(sessionId, newSessionId, {
+      atOperation,
+      phase,
+      userId: user.id,
+    });
+
+    if (!fork) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // A new prompt replaces the inherited one for the rerun
+    if (prompt) {
+      await sessionManager.applyOperations(newSessionId, [
+        { type: "setUserPrompt", prompt, reason: "user_edit" },
+      ]);
+    }
+
+    const willResume = resume !== false && fork.resumePhase !== "complete";
+    if (willResume && isPhaseJobsEnabled()) {
+      const job = await getPhaseJobQueue().enqueue({
+        sessionId: newSessionId,
+        phase: fork.resumePhase,
+        payload: {
+          prompt: prompt || fork.session.state.userPrompt,
+          userId: user.id,
+        },
+      });
+      logger.info(
+        `Queued ${fork.resumePhase} job ${job.id} for fork ${newSessionId}`
+      );
+    } else if (willResume) {
+      const orchestrator = new WorkflowOrchestrator();
+
+      // Don't await - let it run in background
+      orchestrator
+        .runPipelineFrom(newSessionId, fork.resumePhase, {
+          prompt,
+          userId: user.id,
+        })
+        .then((result) => {
+          logger.info(`Forked pipeline result for ${newSessionId}:`, {
+            success: result.success,
+            completedPhases: result.completedPhases,
+            failedPhase: result.failedPhase,
+          });
+        })
+        .catch((error) => {
+          logger.error(
+            `Background processing failed for fork ${newSessionId}:`,
+            error
+          );
+        });
+    }
+
+    return NextResponse.json({
+      sessionId: newSessionId,
+      parentSessionId: sessionId,
+      forkPoint: {
+        operationIndex: fork.operationIndex,
+        phase: fork.resumePhase,
+      },
+      status: !willResume
+        ? "forked"
+        : isPhaseJobsEnabled()
+        ? "queued"
+        : "processing",
+    });
+  } catch (error) {
+    if (error instanceof SessionAccessError) {
+      return NextResponse.json(
+        { error: "You do not have access to this session" },
+        { status: 403 }
+      );
+    }
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error("Failed to fork workflow session:", error);
+    return NextResponse.json(
+      { error: "Failed to fork workflow session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse, NextRequest } from "next/server";
+import { sessionManager } from "@/lib/services/session-manager";
+import { serializeSessionState } from "@/lib/services/session-state-reducer";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * GET /api/workflow/[sessionId]/history
+ * Lists the operation history of a session
+ *
+ * GET /api/workflow/[sessionId]/history?at=N
+ * Rebuilds the session state as it was after the first N operations
+ * (at=0 is the initial state, at=<total> is the current state)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const atParam = request.nextUrl.searchParams.get("at");
+
+    if (atParam === null) {
+      const session = await sessionManager.loadSession(sessionId);
+      if (!session) {
+        return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      }
+
+      const history = session.state.operationHistory || [];
+      return NextResponse.json({
+        sessionId,
+        phase: session.state.phase,
+        totalOperations: history.length,
+        operations: history.map((op, index) => ({
+          index,
+          type: op.type,
+          timestamp: op.timestamp ?? null,
+          reasoning: op.reasoning ?? null,
+        })),
+      });
+    }
+
+    const at = Number(atParam);
+    if (!Number.isInteger(at) || at < 0) {
+      return NextResponse.json(
+        { error: "Query parameter 'at' must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    const replayed = await sessionManager.replayTo(sessionId, at);
+    if (!replayed) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const history = replayed.state.operationHistory;
+    return NextResponse.json({
+      sessionId,
+      at,
+      phase: replayed.state.phase,
+      lastOperation: history.length > 0 ? history[history.length - 1] : null,
+      state: serializeSessionState(replayed.state),
+    });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error("Failed to replay session history:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve session history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import { sessionManager } from "@/lib/services/session-manager";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import { cancellationRegistry } from "@/lib/utils/cancellation";
+import { authorizeSessionOwner } from "@/lib/auth";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * POST /api/workflow/[sessionId]/resume
+ * Re-runs the pipeline of a failed or cancelled session from the phase it
+ * stopped in, keeping the results of every phase that already succeeded
+ *
+ * Body: { force?: boolean } - resume even if no failure was recorded
+ * Responds 409 while the session may still be running, including when
+ * another resume call already picked up the failure. Requires
+ * authentication; only the session's owner can resume it.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeSessionOwner(sessionId);
+    if (access.response) return access.response;
+
+    const { force = false } = await request.json().catch(() => ({}));
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const { phase, pendingClarifications } = session.state;
+
+    if (phase === "complete") {
+      return NextResponse.json(
+        { error: "Workflow is already complete" },
+        { status: 409 }
+      );
+    }
+
+    if (pendingClarifications?.length > 0) {
+      return NextResponse.json(
+        { error: "Session is waiting for a clarification response" },
+        { status: 409 }
+      );
+    }
+
+    // A cancelled session resumes from the phase the cancel interrupted
+    const cancellation =
+      phase === "cancelled"
+        ? await sessionManager.getCancellation(sessionId)
+        : null;
+    if (phase === "cancelled" && !cancellation) {
+      return NextResponse.json(
+        { error: "No cancellation recorded for this session" },
+        { status: 409 }
+      );
+    }
+
+    // Without a recorded failure the pipeline may still be running
+    const lastError = await sessionManager.getLastError(sessionId);
+    if (!lastError && !cancellation && !force) {
+      return NextResponse.json(
+        {
+          error:
+            "No failure recorded for this session; it may still be processing",
+        },
+        { status: 409 }
+      );
+    }
+
+    const resumePhase = cancellation
+      ? cancellation.fromPhase
+      : lastError?.phase ?? phase;
+
+    // Clearing what stopped the session claims the resume, so a second
+    // resume call can't start a parallel run
+    const stop = cancellation
+      ? { key: "cancelled" as const, timestamp: cancellation.timestamp }
+      : lastError
+      ? { key: "lastError" as const, timestamp: lastError.timestamp }
+      : null;
+    if (
+      stop &&
+      !(await sessionManager.clearMetadataEntry(
+        sessionId,
+        stop.key,
+        stop.timestamp
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Session is already being resumed" },
+        { status: 409 }
+      );
+    }
+    logger.info(`Resuming ${sessionId} from ${resumePhase} phase`, {
+      lastError,
+      cancellation,
+    });
+
+    if (cancellation && lastError) {
+      await sessionManager.updateMetadata(sessionId, { lastError: undefined });
+    }
+    if (cancellation) {
+      await sessionManager.applyOperations(sessionId, [
+        { type: "setPhase", phase: resumePhase },
+      ]);
+      cancellationRegistry.reset(sessionId);
+    }
+
+    if (isPhaseJobsEnabled()) {
+      const job = await getPhaseJobQueue().enqueue({
+        sessionId,
+        phase: resumePhase,
+        payload: { prompt: session.state.userPrompt },
+      });
+      logger.info(`Queued ${resumePhase} job ${job.id} for ${sessionId}`);
+    } else {
+      const orchestrator = new WorkflowOrchestrator();
+
+      // Don't await - let it run in background
+      orchestrator
+        .runPipelineFrom(sessionId, resumePhase, {
+          prompt: session.state.userPrompt,
+        })
+        .then((result) => {
+          logger.info(`Resumed pipeline result for ${sessionId}:`, {
+            success: result.success,
+            completedPhases: result.completedPhases,
+            failedPhase: result.failedPhase,
+          });
+        })
+        .catch((error) => {
+          logger.error(`Resumed processing failed for ${sessionId}:`, error);
+        });
+    }
+
+    return NextResponse.json({
+      sessionId,
+      resumedFrom: resumePhase,
+      lastError,
+      cancellation,
+      status: isPhaseJobsEnabled() ? "queued" : "processing",
+    });
+  } catch (error) {
+    logger.error("Failed to resume workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to resume workflow session" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { DiscoveredNode } from "@/types/workflow";
 import { isMockEnabled, mockStateResponse } from "@/lib/mocks/workflow";
 import { logger } from "@/lib/utils/logger";
 import { perfTracker } from "@/lib/utils/performance-tracker";
+import { estimateSessionCost } from "@/lib/usage/cost";
+import { toClarificationQuestion } from "@/lib/orchestrator/helpers/clarifications";
 
 /**
  * GET /api/workflow/[sessionId]/state
@@ -38,14 +40,16 @@ export async function GET(
     }
 
     // Check for pending clarifications
-    const pendingClarifications = session.state.pendingClarifications || [];
-    const pendingClarification =
-      pendingClarifications.length > 0 ? pendingClarifications[0] : null;
+    const pendingClarifications = (session.state.pendingClarifications || []).map(
+      toClarificationQuestion
+    );
 
     const selectedNodes = session.state.selected
       .map((nodeId) => session.state.discovered.find((d) => d.id === nodeId))
       .filter(Boolean) as DiscoveredNode[];
 
+    const tokenUsage = session.state.tokenUsage;
+
     // Return current phase and basic stats
     return NextResponse.json({
       sessionId,
@@ -63,15 +67,19 @@ export async function GET(
         nodeType: node.type,
         name: node.displayName || node.type,
       })),
+      // Tokens and estimated USD cost so far
+      usage: {
+        totalTokens: tokenUsage?.total ?? 0,
+        tokensByPhase: tokenUsage?.byPhase ?? {},
+        estimatedCost: estimateSessionCost(tokenUsage),
+      },
       // Include prompt for display
       prompt: session.state.userPrompt,
-      // Include pending clarification if any
-      pendingClarification: pendingClarification
-        ? {
-            questionId: pendingClarification.questionId,
-            question: pendingClarification.question,
-          }
-        : null,
+      // The pending round of clarification questions, and earlier answers
+      pendingClarifications,
+      clarificationHistory: (session.state.clarificationHistory || []).map(
+        ({ questionId, question, response }) => ({ questionId, question, response })
+      ),
     });
   } catch (error) {
     logger.error("Failed to get session state:", error);
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { sessionManager } from "@/lib/services/session-manager";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * GET /api/workflow/[sessionId]/validation
+ * Returns the workflow with the report of its last validation run,
+ * including each node's parameters before and after every fix attempt
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await sessionManager.loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId,
+      phase: session.state.phase,
+      workflow: session.state.workflow,
+      validationReport: session.state.validationReport ?? null,
+    });
+  } catch (error) {
+    logger.error("Failed to get validation report:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve validation report" },
+      { status: 500 }
+    );
+  }
+}
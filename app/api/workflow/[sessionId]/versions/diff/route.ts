@@ -0,0 +1,91 @@
+import { NextResponse, NextRequest } from "next/server";
+import {
+  diffWorkflows,
+  getWorkflowVersionStore,
+  isWorkflowVersioningEnabled,
+  toVersionSummary,
+} from "@/lib/versions";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * GET /api/workflow/[sessionId]/versions/diff?from=N&to=M
+ * Reports added, removed and changed nodes (down to single parameters)
+ * and connection changes between two versions of a session's workflow
+ *
+ * `to` defaults to the latest version and `from` to the one before `to`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isWorkflowVersioningEnabled()) {
+      return NextResponse.json(
+        { error: "Workflow versioning requires Supabase state persistence" },
+        { status: 503 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    for (const [name, value] of [
+      ["from", fromParam],
+      ["to", toParam],
+    ]) {
+      if (value !== null && !(Number.isInteger(Number(value)) && Number(value) > 0)) {
+        return NextResponse.json(
+          { error: `Query parameter '${name}' must be a positive integer` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const store = getWorkflowVersionStore();
+    let toVersion = Number(toParam);
+    if (toParam === null) {
+      const versions = await store.listForSession(sessionId);
+      if (versions.length === 0) {
+        return NextResponse.json(
+          { error: "No versions recorded for this session" },
+          { status: 404 }
+        );
+      }
+      toVersion = versions[versions.length - 1].version;
+    }
+    const fromVersion = fromParam !== null ? Number(fromParam) : toVersion - 1;
+
+    const [from, to] = await Promise.all([
+      store.get(sessionId, fromVersion),
+      store.get(sessionId, toVersion),
+    ]);
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Version ${!from ? fromVersion : toVersion} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      sessionId,
+      from: toVersionSummary(from),
+      to: toVersionSummary(to),
+      diff: diffWorkflows(from.workflow, to.workflow),
+    });
+  } catch (error) {
+    logger.error("Failed to diff workflow versions:", error);
+    return NextResponse.json(
+      { error: "Failed to diff workflow versions" },
+      { status: 500 }
+    );
+  }
+}
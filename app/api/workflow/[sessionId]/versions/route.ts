@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  getWorkflowVersionStore,
+  isWorkflowVersioningEnabled,
+  toVersionSummary,
+} from "@/lib/versions";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * GET /api/workflow/[sessionId]/versions
+ * Lists the snapshots taken of a session's workflow after building,
+ * validation, documentation and follow-up edits, oldest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isWorkflowVersioningEnabled()) {
+      return NextResponse.json(
+        { error: "Workflow versioning requires Supabase state persistence" },
+        { status: 503 }
+      );
+    }
+
+    const versions = await getWorkflowVersionStore().listForSession(sessionId);
+
+    return NextResponse.json({
+      sessionId,
+      versions: versions.map(toVersionSummary),
+    });
+  } catch (error) {
+    logger.error("Failed to list workflow versions:", error);
+    return NextResponse.json(
+      { error: "Failed to list workflow versions" },
+      { status: 500 }
+    );
+  }
+}
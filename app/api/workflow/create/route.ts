@@ -5,6 +5,7 @@ import { nanoid } from "nanoid";
 import { logger } from "@/lib/utils/logger";
 import { perfTracker } from "@/lib/utils/performance-tracker";
 import { createServerClientInstance } from "@/lib/supabase";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
 
 /**
  * POST /api/workflow/create
@@ -48,64 +49,40 @@ export async function POST(request: Request) {
       return `wf_${timestamp}_${random}`;
     })();
 
+    // Hand the pipeline to the phase worker when the job queue is enabled
+    if (isPhaseJobsEnabled()) {
+      const job = await getPhaseJobQueue().enqueue({
+        sessionId,
+        phase: "discovery",
+        payload: { prompt, userId: user.id },
+      });
+      logger.info(`Queued discovery job ${job.id} for ${sessionId}`);
+
+      return NextResponse.json({
+        sessionId,
+        message: "Workflow creation queued",
+        status: "queued",
+      });
+    }
+
     // Create orchestrator
     const orchestrator = new WorkflowOrchestrator();
 
-    // Start discovery phase asynchronously
+    // Run the pipeline from discovery asynchronously
     // Don't await - let it run in background
     orchestrator
-      .runDiscoveryPhase(sessionId, prompt, user.id)
-      .then(async (result) => {
-        logger.info(`Discovery phase result for ${sessionId}:`, {
+      .runPipelineFrom(sessionId, "discovery", { prompt, userId: user.id })
+      .then((result) => {
+        logger.info(`Pipeline result for ${sessionId}:`, {
           success: result.success,
-          selectedNodeIds: result.selectedNodeIds,
-          pendingClarification: result.pendingClarification,
-          phase: result.phase,
+          completedPhases: result.completedPhases,
+          failedPhase: result.failedPhase,
+          pendingClarifications: result.pendingClarifications?.length ?? 0,
         });
 
-        // After discovery, continue with other phases automatically
-        if (
-          !result.pendingClarification &&
-          result.selectedNodeIds?.length > 0
-        ) {
-          logger.info(
-            `Starting configuration phase for ${sessionId} with ${result.selectedNodeIds.length} nodes`
-          );
-          // Continue processing phases in background with timeout protection
-          try {
-            await orchestrator.runConfigurationPhase(sessionId);
-            await orchestrator.runBuildingPhase(sessionId);
-            
-            // Add timeout for validation phase to prevent infinite loops
-            const validationTimeout = new Promise((_, reject) => {
-              setTimeout(() => reject(new Error('Validation phase timeout')), 120000); // 2 minutes
-            });
-            
-            const validationPromise = orchestrator.runValidationPhase(sessionId);
-            
-            try {
-              await Promise.race([validationPromise, validationTimeout]);
-              await orchestrator.runDocumentationPhase(sessionId);
-            } catch (validationError) {
-              logger.warn(`Validation phase failed/timeout for ${sessionId}, continuing to documentation:`, validationError);
-              // Continue to documentation even if validation fails
-              await orchestrator.runDocumentationPhase(sessionId);
-            }
-            
-            // Log total workflow completion time
-            perfTracker.end('Workflow_Total', { sessionId });
-          } catch (phaseError) {
-            logger.error(
-              `Phase processing failed for ${sessionId}:`,
-              phaseError
-            );
-          }
-        } else {
-          logger.info(
-            `Skipping automatic phase progression for ${sessionId}: pendingClarification=${!!result.pendingClarification}, selectedNodes=${
-              result.selectedNodeIds?.length || 0
-            }`
-          );
+        // Log total workflow completion time
+        if (result.success && !result.pendingClarifications) {
+          perfTracker.end('Workflow_Total', { sessionId });
         }
       })
       .catch((error) => {
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import { sessionManager } from "@/lib/services/session-manager";
+import {
+  IMPORT_START_PHASES,
+  WorkflowImportError,
+  createImportOperations,
+  parseN8nWorkflowExport,
+} from "@/lib/services/workflow-import";
+import { generateSessionId } from "@/lib/session-utils";
+import { getPhaseJobQueue, isPhaseJobsEnabled } from "@/lib/jobs";
+import { createServerClientInstance } from "@/lib/supabase";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * POST /api/workflow/import
+ * Creates a session from an existing n8n workflow and runs the pipeline
+ * from validation (default) or documentation
+ *
+ * Body: { workflow: n8n export JSON, startPhase?: "validation" | "documentation", prompt?: string }
+ * Requires authentication
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createServerClientInstance();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const {
+      workflow: exported,
+      startPhase = "validation",
+      prompt,
+    } = await request.json().catch(() => ({}));
+
+    if (exported === undefined) {
+      return NextResponse.json(
+        { error: "workflow is required" },
+        { status: 400 }
+      );
+    }
+    if (!IMPORT_START_PHASES.includes(startPhase)) {
+      return NextResponse.json(
+        { error: `startPhase must be one of: ${IMPORT_START_PHASES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (prompt !== undefined && (typeof prompt !== "string" || !prompt.trim())) {
+      return NextResponse.json(
+        { error: "prompt must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const workflow = parseN8nWorkflowExport(exported);
+    const userPrompt = prompt || `Improve the n8n workflow "${workflow.name}"`;
+
+    const sessionId = generateSessionId();
+    await sessionManager.createSession(sessionId, userPrompt, user.id);
+    await sessionManager.applyOperations(
+      sessionId,
+      createImportOperations(workflow, startPhase)
+    );
+    logger.info(
+      `Imported "${workflow.name}" (${workflow.nodes.length} nodes) into ${sessionId}, starting at ${startPhase}`
+    );
+
+    if (isPhaseJobsEnabled()) {
+      const job = await getPhaseJobQueue().enqueue({
+        sessionId,
+        phase: startPhase,
+        payload: { prompt: userPrompt, userId: user.id },
+      });
+      logger.info(`Queued ${startPhase} job ${job.id} for ${sessionId}`);
+    } else {
+      const orchestrator = new WorkflowOrchestrator();
+
+      // Don't await - let it run in background
+      orchestrator
+        .runPipelineFrom(sessionId, startPhase, { userId: user.id })
+        .then((result) => {
+          logger.info(`Imported pipeline result for ${sessionId}:`, {
+            success: result.success,
+            completedPhases: result.completedPhases,
+            failedPhase: result.failedPhase,
+          });
+        })
+        .catch((error) => {
+          logger.error(
+            `Background processing failed for import ${sessionId}:`,
+            error
+          );
+        });
+    }
+
+    return NextResponse.json(
+      {
+        sessionId,
+        name: workflow.name,
+        nodeCount: workflow.nodes.length,
+        startPhase,
+        status: isPhaseJobsEnabled() ? "queued" : "processing",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WorkflowImportError) {
+      return NextResponse.json(
+        { error: "Invalid n8n workflow", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    logger.error("Failed to import workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to import workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,16 +7,19 @@ import {
   CheckCircle,
   XCircle,
   Download,
-  HelpCircle,
   Wand2,
 } from "lucide-react";
 import { ProgressChips } from "@/components/ProgressChips";
 import { NodeGrid } from "@/components/NodeGrid";
 import type { NodeCardProps } from "@/components/NodeCard";
 import { Toast } from "@/components/Toast";
+import { ClarificationSheet } from "@/components/ClarificationSheet";
 import { resolveIconName } from "@/lib/icon-aliases";
 import { createClient } from "@/lib/supabase-client";
 import { N8NPulseLoader } from "@/components/ui/n8n-pulse-loader";
+import { WorkflowViewer } from "@/components/WorkflowViewer";
+import type { ValidationPhaseReport } from "@/types/validation";
+import type { ClarificationAnswer, ClarificationQuestion } from "@/types/workflow";
 
 /**
  * Workflow Status Page
@@ -59,18 +62,15 @@ export default function WorkflowStatusPage() {
     current: "discovery",
     message: "Starting workflow discovery...",
   });
-  const [pendingClarification, setPendingClarification] = useState<{
-    questionId: string;
-    question: string;
-  } | null>(null);
-  const [clarifications, setClarifications] = useState<string[]>([]);
-  const [clarifyResponseById, setClarifyResponseById] = useState<
-    Record<string, string>
-  >({});
+  const [pendingClarifications, setPendingClarifications] = useState<
+    ClarificationQuestion[]
+  >([]);
+  const [clarifications, setClarifications] = useState<
+    { questionId: string; question: string; response: string }[]
+  >([]);
   const [submittedClarifyIds, setSubmittedClarifyIds] = useState<string[]>([]);
-  const [submittingClarifyIds, setSubmittingClarifyIds] = useState<string[]>(
-    []
-  );
+  const [submittingClarifications, setSubmittingClarifications] =
+    useState(false);
 
   type SelectedNode = {
     id: string;
@@ -95,6 +95,10 @@ export default function WorkflowStatusPage() {
   const [discoveryIcons, setDiscoveryIcons] = useState<string[]>([]);
   const [currentDiscoveryIcon, setCurrentDiscoveryIcon] = useState<string>("");
   const discoveryIconTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [validationView, setValidationView] = useState<{
+    workflow: any;
+    validationReport: ValidationPhaseReport | null;
+  } | null>(null);
 
   // Handle pending workflow creation for authenticated users
   const handlePendingWorkflow = useCallback(async () => {
@@ -364,7 +368,8 @@ export default function WorkflowStatusPage() {
 
       updatePhaseProgress(newPhase, isComplete, processedNodeCount, data);
       setPrompt(data.prompt || "");
-      setPendingClarification(data.pendingClarification);
+      setPendingClarifications(data.pendingClarifications || []);
+      setClarifications(data.clarificationHistory || []);
       
       // Handle selectedNodes - ensure it's always an array
       const nodes = Array.isArray(data.selectedNodes) 
@@ -457,6 +462,71 @@ export default function WorkflowStatusPage() {
     return () => clearInterval(interval);
   }, [sessionId, complete, phase, selectedNodes.length, fetchStatus]);
 
+  // Refresh as soon as the server reports progress; polling above stays as the fallback
+  const fetchStatusRef = useRef(fetchStatus);
+  fetchStatusRef.current = fetchStatus;
+  useEffect(() => {
+    if (!sessionId || complete || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`/api/workflow/${sessionId}/events`);
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Events arrive in bursts when a phase finishes, so refresh once per burst
+    const scheduleRefresh = () => {
+      if (refreshTimer) return;
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null;
+        fetchStatusRef.current();
+      }, 300);
+    };
+
+    [
+      "phase_started",
+      "phase_completed",
+      "phase_failed",
+      "node_discovered",
+      "node_configured",
+      "validation_attempt",
+      "sticky_notes_added",
+      "workflow_updated",
+      "clarification_requested",
+      "session_cancelled",
+    ].forEach((type) => source.addEventListener(type, scheduleRefresh));
+
+    return () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
+      source.close();
+    };
+  }, [sessionId, complete]);
+
+  // Load what the validation phase changed once the workflow is complete
+  useEffect(() => {
+    if (!sessionId || !complete) return;
+
+    let cancelled = false;
+    fetch(`/api/workflow/${sessionId}/validation`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setValidationView({
+            // Sticky notes added by documentation aren't nodes to review
+            workflow: {
+              ...data.workflow,
+              nodes: (data.workflow?.nodes || []).filter(
+                (n: any) => n.type !== "n8n-nodes-base.stickyNote"
+              ),
+            },
+            validationReport: data.validationReport,
+          });
+        }
+      })
+      .catch((err) => console.error("Failed to load validation report:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, complete]);
+
   // Load discovery icons - use session nodes when available, fallback to common icons
   useEffect(() => {
     const loadDiscoveryIcons = () => {
@@ -815,37 +885,30 @@ export default function WorkflowStatusPage() {
 
   // Icons are rendered via NodeIcon in NodeCard
 
-  const handleClarificationSubmit = async (questionId: string) => {
-    const responseText = clarifyResponseById[questionId]?.trim();
-    if (!responseText) return;
-    setSubmittingClarifyIds((prev) => [...prev, questionId]);
-
-    // Optimistic UX: close instantly and show toast immediately
-    setPendingClarification(null);
-    setToastMessage("Thanks!");
-    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
-    toastTimerRef.current = setTimeout(() => setToastMessage(""), 1600);
-    setSubmittedClarifyIds((prev) => [...prev, questionId]);
-    setClarifyResponseById((prev) => ({ ...prev, [questionId]: "" }));
+  const handleClarificationSubmit = async (answers: ClarificationAnswer[]) => {
+    const questionIds = pendingClarifications.map((q) => q.questionId);
+    setSubmittingClarifications(true);
 
     try {
       const response = await fetch(`/api/workflow/${sessionId}/clarify`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ questionId, response: responseText }),
+        body: JSON.stringify({ answers }),
       });
       if (!response.ok) throw new Error("Failed to submit clarification");
-      // Record submitted clarification for context
-      setClarifications((prev) => [...prev, responseText]);
+      // Hide the answered round until the next state refresh drops it
+      setSubmittedClarifyIds((prev) => [...prev, ...questionIds]);
+      setToastMessage("Thanks!");
+      if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+      toastTimerRef.current = setTimeout(() => setToastMessage(""), 1600);
     } catch (err) {
       console.error("Failed to submit clarification:", err);
-      // Non-blocking error: inform user and allow retry by unmarking submitted
+      // Non-blocking error: keep the answers in the sheet so the user can retry
       setToastMessage("Submission failed. Please try again.");
       if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
       toastTimerRef.current = setTimeout(() => setToastMessage(""), 2000);
-      setSubmittedClarifyIds((prev) => prev.filter((id) => id !== questionId));
     } finally {
-      setSubmittingClarifyIds((prev) => prev.filter((id) => id !== questionId));
+      setSubmittingClarifications(false);
     }
   };
 
@@ -940,12 +1003,12 @@ export default function WorkflowStatusPage() {
 
             {clarifications.length > 0 && (
               <div className="mt-2 mb-6 space-y-1">
-                {clarifications.map((c, i) => (
-                  <div key={i} className="text-sm text-neutral-800">
+                {clarifications.map((c) => (
+                  <div key={c.questionId} className="text-sm text-neutral-800">
                     <span className="text-emerald-700 font-medium">
-                      Clarification:
+                      {c.question}
                     </span>{" "}
-                    {c}
+                    {c.response}
                   </div>
                 ))}
               </div>
@@ -1077,6 +1140,21 @@ export default function WorkflowStatusPage() {
               </div>
             )}
 
+            {/* Validation fixes per node */}
+            {complete &&
+              validationView?.workflow?.nodes?.length > 0 &&
+              (validationView?.validationReport?.fixesApplied?.length ?? 0) > 0 && (
+                <div className="mb-6 rounded-lg border border-neutral-200 bg-white p-4">
+                  <h3 className="text-sm font-medium text-neutral-700 mb-4">
+                    Changes made during validation
+                  </h3>
+                  <WorkflowViewer
+                    workflow={validationView!.workflow}
+                    validationReport={validationView!.validationReport}
+                  />
+                </div>
+              )}
+
             {/* Discovery Node Grid */}
             {stagedNodes.length > 0 && (
               <div className="mb-6">
@@ -1085,79 +1163,13 @@ export default function WorkflowStatusPage() {
             )}
 
             {/* Clarification Section */}
-            {(() => {
-              const baseItems = Array.isArray(pendingClarification)
-                ? pendingClarification
-                : pendingClarification
-                ? [pendingClarification]
-                : [];
-              const items = baseItems.filter(
-                (pc) => !submittedClarifyIds.includes(pc.questionId)
-              );
-              if (items.length === 0) return null;
-              return (
-                <div className="mb-8">
-                  <div className="fixed inset-x-0 bottom-0 z-50 mx-auto w-full max-w-screen-sm rounded-t-2xl border border-neutral-200 bg-white p-4 shadow-2xl animate-slide-up">
-                    <div className="flex items-center gap-2 mb-2">
-                      <div className="inline-flex h-7 w-7 items-center justify-center rounded-full bg-emerald-100 text-emerald-700">
-                        <HelpCircle className="h-4 w-4" />
-                      </div>
-                      <div className="text-base font-semibold text-neutral-900">
-                        Quick clarification
-                      </div>
-                    </div>
-
-                    <div className="space-y-3">
-                      {items.map((pc) => {
-                        const submitting = submittingClarifyIds.includes(
-                          pc.questionId
-                        );
-                        const val = clarifyResponseById[pc.questionId] ?? "";
-                        return (
-                          <div
-                            key={pc.questionId}
-                            className="rounded-lg border border-neutral-200 p-3"
-                          >
-                            <div className="text-sm text-neutral-700 mb-2">
-                              {pc.question}
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <input
-                                value={val}
-                                onChange={(e) =>
-                                  setClarifyResponseById((prev) => ({
-                                    ...prev,
-                                    [pc.questionId]: e.target.value,
-                                  }))
-                                }
-                                placeholder="Your answer…"
-                                className="flex-1 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                              />
-                              <button
-                                onClick={() =>
-                                  handleClarificationSubmit(pc.questionId)
-                                }
-                                disabled={submitting || !val.trim()}
-                                className="inline-flex items-center justify-center rounded-md bg-emerald-600 text-white px-4 py-2 text-sm font-medium hover:bg-emerald-700 disabled:bg-neutral-400"
-                              >
-                                {submitting ? (
-                                  <>
-                                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                                    Sending
-                                  </>
-                                ) : (
-                                  "Send"
-                                )}
-                              </button>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                </div>
-              );
-            })()}
+            <ClarificationSheet
+              questions={pendingClarifications.filter(
+                (q) => !submittedClarifyIds.includes(q.questionId)
+              )}
+              submitting={submittingClarifications}
+              onSubmit={handleClarificationSubmit}
+            />
 
           </>
         )}
@@ -1,47 +1,230 @@
 "use client";
-import React, { useState } from "react";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
-import { Input } from "./ui/input";
-import { Button } from "./ui/button";
+import React, { useEffect, useState } from "react";
+import { HelpCircle, Loader2 } from "lucide-react";
+import type { ClarificationAnswer, ClarificationQuestion } from "@/types/workflow";
 
+type Values = Record<string, string | string[]>;
+
+function isAnswered(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value.length > 0 : !!value?.trim();
+}
+
+/**
+ * Bottom sheet with one round of clarification questions, answered
+ * together: radio buttons for single choice, checkboxes for multi choice,
+ * service chips with an "other" field, and text for free text.
+ */
 export function ClarificationSheet({
-  open,
-  question,
+  questions,
+  submitting = false,
   onSubmit,
 }: {
-  open: boolean;
-  question: string;
-  onSubmit: (value: string) => void;
+  questions: ClarificationQuestion[];
+  submitting?: boolean;
+  onSubmit: (answers: ClarificationAnswer[]) => void;
 }) {
-  const [value, setValue] = useState("");
+  const [values, setValues] = useState<Values>({});
+  const roundKey = questions.map((q) => q.questionId).join(",");
+
+  // Start each round with empty answers
+  useEffect(() => setValues({}), [roundKey]);
+
+  if (questions.length === 0) return null;
+
+  const setValue = (questionId: string, value: string | string[]) =>
+    setValues((prev) => ({ ...prev, [questionId]: value }));
+
+  const complete = questions.every(
+    (q) => !q.required || isAnswered(values[q.questionId])
+  );
+
+  const submit = () => {
+    if (!complete || submitting) return;
+    onSubmit(
+      questions
+        .filter((q) => isAnswered(values[q.questionId]))
+        .map((q) => {
+          const value = values[q.questionId];
+          return {
+            questionId: q.questionId,
+            value: Array.isArray(value) ? value : value.trim(),
+          };
+        })
+    );
+  };
+
   return (
-    <Dialog open={open}>
-      <DialogContent className="fixed inset-x-0 bottom-0 mx-auto w-full max-w-screen-sm rounded-t-2xl border border-neutral-200 bg-white p-4 shadow-2xl">
-        <DialogHeader>
-          <DialogTitle className="text-base font-medium text-neutral-900">
-            Quick question
-          </DialogTitle>
-        </DialogHeader>
-        <div className="text-sm text-neutral-600 mb-3">{question}</div>
-        <div className="flex items-center gap-2">
-          <Input
-            value={value}
-            onChange={(e) => setValue(e.target.value)}
-            placeholder="Your answer…"
-            className="flex-1"
-            autoFocus
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && value.trim()) onSubmit(value.trim());
-            }}
-          />
-          <Button
-            onClick={() => value.trim() && onSubmit(value.trim())}
-            disabled={!value.trim()}
+    <div className="fixed inset-x-0 bottom-0 z-50 mx-auto w-full max-w-screen-sm rounded-t-2xl border border-neutral-200 bg-white p-4 shadow-2xl animate-slide-up">
+      <div className="flex items-center gap-2 mb-3">
+        <div className="inline-flex h-7 w-7 items-center justify-center rounded-full bg-emerald-100 text-emerald-700">
+          <HelpCircle className="h-4 w-4" />
+        </div>
+        <div className="text-base font-semibold text-neutral-900">
+          {questions.length > 1 ? "A few quick questions" : "Quick clarification"}
+        </div>
+      </div>
+
+      <form
+        className="space-y-3 max-h-[60vh] overflow-y-auto"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        {questions.map((q) => (
+          <fieldset
+            key={q.questionId}
+            className="rounded-lg border border-neutral-200 p-3"
+            disabled={submitting}
           >
-            Continue
-          </Button>
+            <legend className="sr-only">{q.question}</legend>
+            {q.context?.nodeName && (
+              <div className="text-xs font-medium text-emerald-700 mb-1">
+                {q.context.nodeName}
+              </div>
+            )}
+            <div className="text-sm text-neutral-700 mb-2">
+              {q.question}
+              {!q.required && (
+                <span className="ml-1 text-xs text-neutral-400">(optional)</span>
+              )}
+            </div>
+            <QuestionInput
+              question={q}
+              value={values[q.questionId]}
+              onChange={(value) => setValue(q.questionId, value)}
+            />
+          </fieldset>
+        ))}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={submitting || !complete}
+            className="inline-flex items-center justify-center rounded-md bg-emerald-600 text-white px-4 py-2 text-sm font-medium hover:bg-emerald-700 disabled:bg-neutral-400"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Sending
+              </>
+            ) : (
+              "Continue"
+            )}
+          </button>
         </div>
-      </DialogContent>
-    </Dialog>
+      </form>
+    </div>
   );
 }
+
+function QuestionInput({
+  question,
+  value,
+  onChange,
+}: {
+  question: ClarificationQuestion;
+  value: string | string[] | undefined;
+  onChange: (value: string | string[]) => void;
+}) {
+  const options = question.options || [];
+
+  switch (question.answerType) {
+    case "single_choice":
+      return (
+        <div className="space-y-1">
+          {options.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-sm text-neutral-800">
+              <input
+                type="radio"
+                name={question.questionId}
+                value={option.value}
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+                className="mt-0.5 accent-emerald-600"
+              />
+              <span>
+                {option.label}
+                {option.description && (
+                  <span className="block text-xs text-neutral-500">{option.description}</span>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      );
+
+    case "multi_choice": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-1">
+          {options.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-sm text-neutral-800">
+              <input
+                type="checkbox"
+                value={option.value}
+                checked={selected.includes(option.value)}
+                onChange={(e) =>
+                  onChange(
+                    e.target.checked
+                      ? [...selected, option.value]
+                      : selected.filter((v) => v !== option.value)
+                  )
+                }
+                className="mt-0.5 accent-emerald-600"
+              />
+              <span>
+                {option.label}
+                {option.description && (
+                  <span className="block text-xs text-neutral-500">{option.description}</span>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case "service": {
+      const current = typeof value === "string" ? value : "";
+      const isOption = options.some((option) => option.value === current);
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {options.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                title={option.description}
+                onClick={() => onChange(current === option.value ? "" : option.value)}
+                className={`rounded-full border px-3 py-1 text-sm ${
+                  current === option.value
+                    ? "border-emerald-600 bg-emerald-50 text-emerald-800"
+                    : "border-neutral-300 text-neutral-700 hover:border-neutral-400"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            value={isOption ? "" : current}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={options.length > 0 ? "Another service…" : "Service name…"}
+            className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Your answer…"
+          className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+      );
+  }
+}
@@ -3,7 +3,9 @@
 "use client";
 
 import { WorkflowNode, WorkflowConnection } from "@/types/workflow";
-import { NodeIcon } from "./NodeIcon";
+import type { ValidationPhaseReport } from "@/types/validation";
+import { NodeIcon } from "@/components/ui/node-icon";
+import { ValidationFixDiff } from "@/components/workflow/validation-fix-diff";
 import { resolveIconName } from "@/lib/icon-aliases";
 
 interface WorkflowViewerProps {
@@ -12,13 +14,15 @@ interface WorkflowViewerProps {
     connections: WorkflowConnection[];
     settings?: any;
   };
+  // Shows what the validation phase changed on each node
+  validationReport?: ValidationPhaseReport | null;
 }
 
 /**
  * Read-only workflow viewer component
  * Displays workflow structure in a clean, organized way
  */
-export function WorkflowViewer({ workflow }: WorkflowViewerProps) {
+export function WorkflowViewer({ workflow, validationReport }: WorkflowViewerProps) {
   if (!workflow || !workflow.nodes) {
     return (
       <div className="text-center py-8 text-neutral-500">
@@ -45,7 +49,11 @@ export function WorkflowViewer({ workflow }: WorkflowViewerProps) {
       {sortedRows.map((row, rowIndex) => (
         <div key={rowIndex} className="flex flex-wrap gap-4">
           {row.map((node) => (
-            <WorkflowNodeCard key={node.id} node={node} />
+            <WorkflowNodeCard
+              key={node.id}
+              node={node}
+              fixes={validationReport?.fixesApplied}
+            />
           ))}
         </div>
       ))}
@@ -72,7 +80,13 @@ export function WorkflowViewer({ workflow }: WorkflowViewerProps) {
 /**
  * Individual node card component
  */
-function WorkflowNodeCard({ node }: { node: WorkflowNode }) {
+function WorkflowNodeCard({
+  node,
+  fixes,
+}: {
+  node: WorkflowNode;
+  fixes?: ValidationPhaseReport["fixesApplied"];
+}) {
   // Extract icon name from node type
   const getIconName = (nodeType: string) => {
     const base = nodeType
@@ -113,6 +127,10 @@ function WorkflowNodeCard({ node }: { node: WorkflowNode }) {
           </div>
         </div>
       )}
+
+      {fixes && fixes.length > 0 && (
+        <ValidationFixDiff nodeId={node.id} fixes={fixes} />
+      )}
     </div>
   );
 }
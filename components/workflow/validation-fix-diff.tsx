@@ -0,0 +1,144 @@
+"use client";
+
+import React from "react";
+import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
+import { WrenchIcon } from "lucide-react";
+import type { ValidationPhaseFix } from "@/types/validation";
+
+export interface ValidationFixDiffProps {
+  nodeId: string;
+  fixes: ValidationPhaseFix[];
+}
+
+type ParameterRow = {
+  path: string;
+  before?: string;
+  after?: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+};
+
+/**
+ * Side-by-side view of a node's parameters before and after each
+ * validation attempt that replaced it
+ */
+export function ValidationFixDiff({ nodeId, fixes }: ValidationFixDiffProps) {
+  const attempts = fixes
+    .map((fix) => ({ fix, node: fix.nodes?.find((n) => n.nodeId === nodeId) }))
+    .filter((entry) => entry.node);
+
+  if (attempts.length === 0) return null;
+
+  return (
+    <Collapsible className="mt-3 border-t border-neutral-100">
+      <CollapsibleTrigger className="w-full pt-3 text-left">
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-700">
+          <WrenchIcon className="h-3 w-3" />
+          Fixed in validation ({attempts.length} attempt{attempts.length > 1 ? "s" : ""})
+        </span>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <div className="mt-2 space-y-4">
+          {attempts.map(({ fix, node }) => {
+            const rows = diffParameters(node!.before, node!.after);
+            return (
+              <div key={fix.attempt}>
+                <div className="text-xs font-medium text-neutral-700 mb-1">
+                  Attempt {fix.attempt}
+                </div>
+                {fix.reasoning?.length > 0 && (
+                  <p className="text-xs text-neutral-500 mb-2">
+                    {fix.reasoning.join(" ")}
+                  </p>
+                )}
+                <table className="w-full table-fixed text-xs font-mono border border-neutral-200 rounded">
+                  <thead>
+                    <tr className="bg-neutral-50 text-neutral-600">
+                      <th className="w-1/4 px-2 py-1 text-left font-medium">Parameter</th>
+                      <th className="px-2 py-1 text-left font-medium">Before</th>
+                      <th className="px-2 py-1 text-left font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.path} className="border-t border-neutral-100 align-top">
+                        <td className="px-2 py-1 text-neutral-700 break-all">{row.path}</td>
+                        <td
+                          className={`px-2 py-1 break-all ${
+                            row.status === "removed" || row.status === "changed"
+                              ? "bg-red-50 text-red-700"
+                              : "text-neutral-500"
+                          }`}
+                        >
+                          {row.before ?? ""}
+                        </td>
+                        <td
+                          className={`px-2 py-1 break-all ${
+                            row.status === "added" || row.status === "changed"
+                              ? "bg-green-50 text-green-700"
+                              : "text-neutral-500"
+                          }`}
+                        >
+                          {row.after ?? ""}
+                        </td>
+                      </tr>
+                    ))}
+                    {rows.length === 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-2 py-1 text-neutral-500">
+                          No parameter changes
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/**
+ * Flatten both parameter sets to dot paths and line them up, changed
+ * rows first
+ */
+function diffParameters(
+  before: Record<string, any>,
+  after: Record<string, any>
+): ParameterRow[] {
+  const left = flatten(before || {});
+  const right = flatten(after || {});
+  const paths = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+
+  const rows: ParameterRow[] = paths.map((path) => {
+    const status: ParameterRow["status"] =
+      !(path in left) ? "added"
+      : !(path in right) ? "removed"
+      : left[path] !== right[path] ? "changed"
+      : "unchanged";
+    return { path, before: left[path], after: right[path], status };
+  });
+
+  return rows.sort(
+    (a, b) => Number(a.status === "unchanged") - Number(b.status === "unchanged")
+  );
+}
+
+function flatten(
+  value: Record<string, any>,
+  prefix = "",
+  result: Record<string, string> = {}
+): Record<string, string> {
+  for (const [key, entry] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (entry && typeof entry === "object" && !Array.isArray(entry) && Object.keys(entry).length > 0) {
+      flatten(entry, path, result);
+    } else {
+      result[path] = JSON.stringify(entry);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,70 @@
+// lib/auth/index.ts
+
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createServerClientInstance } from "@/lib/supabase";
+import {
+  SessionAccessError,
+  sessionManager,
+} from "@/lib/services/session-manager";
+
+/**
+ * The signed-in user of the current request, from the Supabase auth
+ * cookies. An object so offline tests can replace getUser.
+ */
+export const requestAuth = {
+  async getUser(): Promise<User | null> {
+    const supabase = await createServerClientInstance();
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+    return error ? null : user;
+  },
+};
+
+export type SessionAccess =
+  | { user: User; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+/**
+ * Let only the signed-in owner of a session act on it. Gives the user, or
+ * the response to send instead: 401 when signed out, 404 for an unknown
+ * session and 403 for another user's session.
+ */
+export async function authorizeSessionOwner(
+  sessionId: string
+): Promise<SessionAccess> {
+  const user = await requestAuth.getUser();
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  try {
+    if (!(await sessionManager.checkSessionOwner(sessionId, user.id))) {
+      return {
+        response: NextResponse.json(
+          { error: "Session not found" },
+          { status: 404 }
+        ),
+      };
+    }
+  } catch (error) {
+    if (error instanceof SessionAccessError) {
+      return {
+        response: NextResponse.json(
+          { error: "You do not have access to this session" },
+          { status: 403 }
+        ),
+      };
+    }
+    throw error;
+  }
+
+  return { user };
+}
@@ -0,0 +1,181 @@
+// lib/cassettes/cassette.ts
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { isCancellationError } from "@/lib/utils/cancellation";
+import { loggers } from "@/lib/utils/logger";
+import type {
+  CassetteCallKind,
+  CassetteEntry,
+  CassetteFile,
+  CassetteMode,
+} from "@/types/cassettes";
+
+/**
+ * Thrown in replay mode for a request the cassette has no recording of
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public kind: CassetteCallKind,
+    public hash: string,
+    public cassettePath: string,
+    request: unknown
+  ) {
+    super(
+      `No recorded ${kind} call matches request ${hash.slice(0, 12)} in ${cassettePath}. ` +
+        `The code or prompts changed since the cassette was recorded - record it again with CASSETTE_MODE=record. ` +
+        `Request: ${preview(request)}`
+    );
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/**
+ * Recorded Claude and MCP calls, keyed by a hash of the request
+ *
+ * In record mode every call goes through to the live service and is
+ * appended to the cassette file, which is rewritten after each call so an
+ * interrupted run keeps what it recorded. In replay mode calls are served
+ * from the file only. A request recorded more than once is replayed in
+ * recording order, repeating the last recording after that.
+ *
+ * Unrecorded requests throw, but callers may catch that and carry on, so
+ * they are also logged and counted in `mismatches` for the test to check.
+ */
+export class Cassette {
+  private entries: CassetteEntry[] = [];
+  private replayed = new Map<string, number>();
+  private missed = 0;
+  private readonly recordedAt = new Date().toISOString();
+
+  constructor(
+    readonly path: string,
+    readonly mode: CassetteMode
+  ) {
+    if (mode === "replay") {
+      if (!fs.existsSync(path)) {
+        throw new Error(`Cassette ${path} not found - record it first with CASSETTE_MODE=record`);
+      }
+      const file = JSON.parse(fs.readFileSync(path, "utf8")) as CassetteFile;
+      this.entries = file.entries || [];
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Requests replay found no recording of
+   */
+  get mismatches(): number {
+    return this.missed;
+  }
+
+  /**
+   * Run a call through the cassette: replay its recording, or make the
+   * live call and record it
+   */
+  async play<T>(
+    kind: CassetteCallKind,
+    request: unknown,
+    live: () => Promise<T>
+  ): Promise<T> {
+    if (this.mode === "replay") {
+      return this.replay<T>(kind, request);
+    }
+
+    const hash = hashRequest(kind, request);
+    try {
+      const response = await live();
+      this.append({ kind, hash, request: toJson(request), response: toJson(response) });
+      return response;
+    } catch (error) {
+      // A cancelled run says nothing about the service, so it isn't kept
+      if (!isCancellationError(error)) {
+        this.append({
+          kind,
+          hash,
+          request: toJson(request),
+          error: {
+            name: error instanceof Error ? error.name : "Error",
+            message: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The recorded response to a request, throwing CassetteMismatchError if
+   * there is none
+   */
+  replay<T>(kind: CassetteCallKind, request: unknown): T {
+    const hash = hashRequest(kind, request);
+    const matches = this.entries.filter((entry) => entry.hash === hash);
+    if (matches.length === 0) {
+      const error = new CassetteMismatchError(kind, hash, this.path, request);
+      this.missed++;
+      loggers.cassettes.error(error.message);
+      throw error;
+    }
+
+    const count = this.replayed.get(hash) ?? 0;
+    this.replayed.set(hash, count + 1);
+    const entry = matches[Math.min(count, matches.length - 1)];
+
+    if (entry.error) {
+      const error = new Error(entry.error.message);
+      error.name = entry.error.name;
+      throw error;
+    }
+    return structuredClone(entry.response) as T;
+  }
+
+  private append(entry: CassetteEntry): void {
+    this.entries.push(entry);
+
+    const file: CassetteFile = {
+      version: 1,
+      recordedAt: this.recordedAt,
+      entries: this.entries,
+    };
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify(file, null, 2));
+  }
+}
+
+/**
+ * Hash of a request that doesn't depend on the order of object keys
+ */
+export function hashRequest(kind: CassetteCallKind, request: unknown): string {
+  return createHash("sha256")
+    .update(`${kind}\n${canonicalJson(request)}`)
+    .digest("hex");
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) => {
+    if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+      return Object.fromEntries(
+        Object.keys(entry)
+          .sort()
+          .map((key) => [key, entry[key]])
+      );
+    }
+    return entry;
+  });
+}
+
+// Copy of a value as it is written to disk, so later changes by the
+// caller don't end up in the cassette
+function toJson(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function preview(request: unknown): string {
+  const text = JSON.stringify(request) ?? "";
+  return text.length > 300 ? `${text.substring(0, 300)}...` : text;
+}
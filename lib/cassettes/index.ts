@@ -0,0 +1,64 @@
+// lib/cassettes/index.ts
+
+import path from "path";
+import { Cassette } from "./cassette";
+import type { CassetteMode } from "@/types/cassettes";
+
+export { Cassette, CassetteMismatchError, hashRequest } from "./cassette";
+
+const CASSETTE_MODES: CassetteMode[] = ["record", "replay"];
+
+/**
+ * Cassette used when CASSETTE_PATH isn't set
+ */
+export const DEFAULT_CASSETTE_PATH = path.join(
+  process.cwd(),
+  "tests",
+  "cassettes",
+  "default.json"
+);
+
+/**
+ * Record or replay Claude and MCP calls (CASSETTE_MODE=record|replay).
+ * Unset means all calls are live.
+ */
+export function getCassetteMode(): CassetteMode | undefined {
+  const mode = process.env.CASSETTE_MODE;
+  if (!mode) return undefined;
+  if (!CASSETTE_MODES.includes(mode as CassetteMode)) {
+    throw new Error(`CASSETTE_MODE must be one of ${CASSETTE_MODES.join(", ")}, got "${mode}"`);
+  }
+  return mode as CassetteMode;
+}
+
+let activeCassette: Cassette | null | undefined;
+
+/**
+ * The cassette Claude and MCP calls go through, or null when calls are
+ * live. Opened from CASSETTE_MODE and CASSETTE_PATH on first use.
+ */
+export function getActiveCassette(): Cassette | null {
+  if (activeCassette === undefined) {
+    const mode = getCassetteMode();
+    activeCassette = mode
+      ? new Cassette(process.env.CASSETTE_PATH || DEFAULT_CASSETTE_PATH, mode)
+      : null;
+  }
+  return activeCassette;
+}
+
+/**
+ * Replace the active cassette, e.g. one per test scenario. Null makes
+ * calls live; undefined reads the environment again.
+ */
+export function useCassette(cassette: Cassette | null | undefined): void {
+  activeCassette = cassette;
+}
+
+/**
+ * Whether calls are served from a cassette, so live services must not be
+ * contacted
+ */
+export function isReplayingCassette(): boolean {
+  return getActiveCassette()?.mode === "replay";
+}
@@ -0,0 +1,69 @@
+// lib/deployments/credential-mapping.ts
+
+import type { WorkflowConfigAnalysis, WorkflowNode } from "@/types/workflow";
+import type { CredentialMapping } from "@/types/deployments";
+
+export interface CredentialMappingResult {
+  nodes: WorkflowNode[];
+  // Mapped variables that were set on at least one node
+  applied: string[];
+  // missingCredentials variables still needed by a node after mapping
+  unmapped: string[];
+  // Mapped variables that aren't in missingCredentials
+  unknown: string[];
+}
+
+/**
+ * Set the user's chosen credentials on the nodes that need them
+ *
+ * Only node-level credential requirements can be mapped; a requirement
+ * found in a parameter (e.g. a placeholder API key) has to be filled in
+ * n8n. Of a node's alternative credential types, the first one mapped wins.
+ */
+export function applyCredentialMapping(
+  nodes: WorkflowNode[],
+  analysis: WorkflowConfigAnalysis | undefined,
+  mapping: CredentialMapping
+): CredentialMappingResult {
+  const missing = analysis?.missingCredentials || [];
+  const applied = new Set<string>();
+  const satisfiedNodeIds = new Set<string>();
+
+  const mapped = nodes.map((node) => {
+    const status = analysis?.nodes.find((n) => n.id === node.id);
+    const requirement = status?.needsCredentials.find(
+      (req) => req.field === "credentials" && mapping[req.variable]
+    );
+    if (!requirement) return node;
+
+    const credential = mapping[requirement.variable];
+    applied.add(requirement.variable);
+    satisfiedNodeIds.add(node.id);
+    return {
+      ...node,
+      credentials: {
+        ...node.credentials,
+        [requirement.credentialType]: {
+          id: credential.id,
+          name: credential.name ?? requirement.credentialType,
+        },
+      },
+    };
+  });
+
+  return {
+    nodes: mapped,
+    applied: Array.from(applied),
+    // A mapped alternative covers the node's other credential options
+    unmapped: missing.filter((variable) =>
+      (analysis?.nodes || []).some((node) =>
+        node.needsCredentials.some(
+          (req) =>
+            req.variable === variable &&
+            (req.field !== "credentials" || !satisfiedNodeIds.has(node.id))
+        )
+      )
+    ),
+    unknown: Object.keys(mapping).filter((key) => !missing.includes(key)),
+  };
+}
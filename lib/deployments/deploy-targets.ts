@@ -0,0 +1,118 @@
+// lib/deployments/deploy-targets.ts
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPClient } from "@/lib/mcp-client";
+import {
+  N8nApiError,
+  type N8nApiClient,
+  type N8nWorkflowInput,
+} from "@/lib/n8n-api-client";
+import { DeploymentError, type WorkflowDeployTarget } from "./workflow-deployer";
+
+/**
+ * Deploys through the n8n tools of the MCP server (n8n_create_workflow,
+ * n8n_update_full_workflow), to the instance set up in the MCP profile
+ */
+export class McpDeployTarget implements WorkflowDeployTarget {
+  constructor(private client: MCPClient) {}
+
+  async createWorkflow(workflow: N8nWorkflowInput): Promise<string> {
+    const result = await this.client.createWorkflow(workflow);
+    if (result.isError) {
+      throw new DeploymentError(
+        "Failed to create n8n workflow",
+        "DEPLOY_FAILED",
+        resultText(result)
+      );
+    }
+
+    const id = parseWorkflowId(result);
+    if (!id) {
+      throw new DeploymentError(
+        "n8n did not return the created workflow's ID",
+        "DEPLOY_FAILED",
+        resultText(result)
+      );
+    }
+    return id;
+  }
+
+  async updateWorkflow(id: string, workflow: N8nWorkflowInput): Promise<boolean> {
+    const result = await this.client.updateWorkflow(id, workflow);
+    if (!result.isError) return true;
+
+    const message = resultText(result);
+    if (/not found|404/i.test(message)) return false;
+    throw new DeploymentError(
+      `Failed to update n8n workflow ${id}`,
+      "DEPLOY_FAILED",
+      message
+    );
+  }
+}
+
+/**
+ * Deploys straight to an instance's public REST API, no MCP server needed
+ */
+export class N8nApiDeployTarget implements WorkflowDeployTarget {
+  constructor(private client: N8nApiClient) {}
+
+  async createWorkflow(workflow: N8nWorkflowInput): Promise<string> {
+    try {
+      const created = await this.client.createWorkflow(workflow);
+      return created.id;
+    } catch (error) {
+      throw toDeploymentError("Failed to create n8n workflow", error);
+    }
+  }
+
+  async updateWorkflow(id: string, workflow: N8nWorkflowInput): Promise<boolean> {
+    try {
+      await this.client.updateWorkflow(id, workflow);
+      return true;
+    } catch (error) {
+      if (error instanceof N8nApiError && error.isNotFound) return false;
+      throw toDeploymentError(`Failed to update n8n workflow ${id}`, error);
+    }
+  }
+}
+
+/**
+ * Read the workflow ID from an n8n_create_workflow result
+ */
+export function parseWorkflowId(result: CallToolResult): string | undefined {
+  for (const item of result.content || []) {
+    if (item.type !== "text") continue;
+    try {
+      const data = JSON.parse(item.text);
+      const id =
+        data.id || data.data?.id || data.workflowId || data.workflow?.id;
+      if (id) return String(id);
+    } catch {
+      // Not JSON - look for an "id: ..." in the text
+      const match = item.text.match(/\bid[:\s]+["']?([a-zA-Z0-9-]+)["']?/i);
+      if (match?.[1]) return match[1];
+    }
+  }
+  return undefined;
+}
+
+function resultText(result: CallToolResult): string {
+  return (result.content || [])
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n");
+}
+
+function toDeploymentError(message: string, error: unknown): DeploymentError {
+  if (error instanceof N8nApiError) {
+    return new DeploymentError(message, "DEPLOY_FAILED", {
+      status: error.status,
+      response: error.body ?? error.message,
+    });
+  }
+  return new DeploymentError(
+    message,
+    "DEPLOY_FAILED",
+    error instanceof Error ? error.message : String(error)
+  );
+}
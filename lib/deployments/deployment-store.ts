@@ -0,0 +1,67 @@
+// lib/deployments/deployment-store.ts
+
+import { nanoid } from "nanoid";
+import type {
+  RecordDeploymentInput,
+  WorkflowDeployment,
+} from "@/types/deployments";
+
+/**
+ * Storage for the deployment history of generated workflows
+ */
+export interface DeploymentStore {
+  /**
+   * Record a deployment as the next version for its session and profile
+   */
+  record(input: RecordDeploymentInput): Promise<WorkflowDeployment>;
+
+  /**
+   * Latest deployment of a session to a profile, to update instead of
+   * creating a duplicate workflow
+   */
+  latest(sessionId: string, profile: string): Promise<WorkflowDeployment | null>;
+
+  /**
+   * All deployments of a session, newest first
+   */
+  listForSession(sessionId: string): Promise<WorkflowDeployment[]>;
+}
+
+/**
+ * In-memory store for tests and local development
+ */
+export class InMemoryDeploymentStore implements DeploymentStore {
+  private deployments: WorkflowDeployment[] = [];
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async record(input: RecordDeploymentInput): Promise<WorkflowDeployment> {
+    const previous = await this.latest(input.sessionId, input.profile);
+    const deployment: WorkflowDeployment = {
+      id: `dep_${nanoid(10)}`,
+      ...input,
+      version: (previous?.version ?? 0) + 1,
+      deployedAt: this.now().toISOString(),
+    };
+    this.deployments.push(deployment);
+    return { ...deployment };
+  }
+
+  async latest(
+    sessionId: string,
+    profile: string
+  ): Promise<WorkflowDeployment | null> {
+    const matching = this.deployments.filter(
+      (d) => d.sessionId === sessionId && d.profile === profile
+    );
+    const last = matching[matching.length - 1];
+    return last ? { ...last } : null;
+  }
+
+  async listForSession(sessionId: string): Promise<WorkflowDeployment[]> {
+    return this.deployments
+      .filter((d) => d.sessionId === sessionId)
+      .reverse()
+      .map((d) => ({ ...d }));
+  }
+}
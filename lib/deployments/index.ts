@@ -0,0 +1,105 @@
+// lib/deployments/index.ts
+
+import { MCPClient } from "@/lib/mcp-client";
+import { N8nApiClient } from "@/lib/n8n-api-client";
+import { SupabaseDeploymentStore } from "./supabase-deployment-store";
+import { McpDeployTarget, N8nApiDeployTarget } from "./deploy-targets";
+import {
+  WorkflowDeployer,
+  type WorkflowDeployTarget,
+} from "./workflow-deployer";
+
+export {
+  InMemoryDeploymentStore,
+  type DeploymentStore,
+} from "./deployment-store";
+export { SupabaseDeploymentStore } from "./supabase-deployment-store";
+export {
+  applyCredentialMapping,
+  type CredentialMappingResult,
+} from "./credential-mapping";
+export {
+  DeploymentError,
+  WorkflowDeployer,
+  type WorkflowDeployTarget,
+} from "./workflow-deployer";
+export {
+  McpDeployTarget,
+  N8nApiDeployTarget,
+  parseWorkflowId,
+} from "./deploy-targets";
+
+/**
+ * An n8n instance profile users may deploy to
+ */
+export type DeployTargetConfig =
+  | { profile: string; type: "mcp" }
+  | { profile: string; type: "api"; baseUrl: string; apiKey: string };
+
+/**
+ * Deployment targets from the environment:
+ * - MCP profiles in N8N_DEPLOY_PROFILES (comma-separated), defaulting to
+ *   MCP_PROFILE when the MCP server is configured
+ * - the instance at N8N_API_URL with N8N_API_KEY, deployed to over its
+ *   REST API, as profile N8N_API_PROFILE (default "n8n-api")
+ */
+export function getDeployTargets(): DeployTargetConfig[] {
+  const targets: DeployTargetConfig[] = [];
+
+  const mcpProfiles = (process.env.N8N_DEPLOY_PROFILES || "")
+    .split(",")
+    .map((profile) => profile.trim())
+    .filter(Boolean);
+  if (mcpProfiles.length === 0 && process.env.MCP_API_KEY) {
+    mcpProfiles.push(process.env.MCP_PROFILE || "default");
+  }
+  for (const profile of mcpProfiles) {
+    targets.push({ profile, type: "mcp" });
+  }
+
+  if (process.env.N8N_API_URL && process.env.N8N_API_KEY) {
+    targets.push({
+      profile: process.env.N8N_API_PROFILE || "n8n-api",
+      type: "api",
+      baseUrl: process.env.N8N_API_URL,
+      apiKey: process.env.N8N_API_KEY,
+    });
+  }
+
+  return targets;
+}
+
+export function getDeployProfiles(): string[] {
+  return getDeployTargets().map((target) => target.profile);
+}
+
+export function createDeployTarget(
+  config: DeployTargetConfig
+): WorkflowDeployTarget {
+  if (config.type === "api") {
+    return new N8nApiDeployTarget(
+      new N8nApiClient({ baseUrl: config.baseUrl, apiKey: config.apiKey })
+    );
+  }
+  return new McpDeployTarget(
+    MCPClient.forProfile(config.profile, {
+      serverUrl: process.env.MCP_SERVER_URL || "https://mcp.smithery.ai",
+      apiKey: process.env.MCP_API_KEY || "",
+    })
+  );
+}
+
+let deployer: WorkflowDeployer | undefined;
+
+export function getWorkflowDeployer(): WorkflowDeployer {
+  if (!deployer) {
+    deployer = new WorkflowDeployer(new SupabaseDeploymentStore(), (profile) => {
+      const config = getDeployTargets().find((t) => t.profile === profile);
+      if (!config) {
+        throw new Error(`Unknown deployment profile: ${profile}`);
+      }
+      return createDeployTarget(config);
+    });
+  }
+  return deployer;
+}
@@ -0,0 +1,85 @@
+// lib/deployments/supabase-deployment-store.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import type { DeploymentStore } from "./deployment-store";
+import type {
+  RecordDeploymentInput,
+  WorkflowDeployment,
+} from "@/types/deployments";
+
+/**
+ * Deployment history backed by the Supabase workflow_deployments table
+ * (see scripts/create-workflow-deployments-table.sql)
+ */
+export class SupabaseDeploymentStore implements DeploymentStore {
+  private supabase = createServiceClient();
+
+  async record(input: RecordDeploymentInput): Promise<WorkflowDeployment> {
+    const previous = await this.latest(input.sessionId, input.profile);
+
+    // (session_id, profile, version) is unique, so a concurrent deploy of
+    // the same session fails here instead of sharing a version
+    const { data, error } = await this.supabase
+      .from("workflow_deployments")
+      .insert({
+        session_id: input.sessionId,
+        profile: input.profile,
+        remote_workflow_id: input.remoteWorkflowId,
+        version: (previous?.version ?? 0) + 1,
+        action: input.action,
+        credentials: input.credentials,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record deployment: ${error.message}`);
+    }
+    return toDeployment(data);
+  }
+
+  async latest(
+    sessionId: string,
+    profile: string
+  ): Promise<WorkflowDeployment | null> {
+    const { data, error } = await this.supabase
+      .from("workflow_deployments")
+      .select("*")
+      .eq("session_id", sessionId)
+      .eq("profile", profile)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load deployment: ${error.message}`);
+    }
+    return data ? toDeployment(data) : null;
+  }
+
+  async listForSession(sessionId: string): Promise<WorkflowDeployment[]> {
+    const { data, error } = await this.supabase
+      .from("workflow_deployments")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("deployed_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list deployments: ${error.message}`);
+    }
+    return (data || []).map(toDeployment);
+  }
+}
+
+function toDeployment(row: any): WorkflowDeployment {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    profile: row.profile,
+    remoteWorkflowId: row.remote_workflow_id,
+    version: row.version,
+    action: row.action,
+    credentials: row.credentials || {},
+    deployedAt: row.deployed_at,
+  };
+}
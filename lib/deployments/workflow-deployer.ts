@@ -0,0 +1,135 @@
+// lib/deployments/workflow-deployer.ts
+
+import { loggers } from "@/lib/utils/logger";
+import { applyCredentialMapping } from "./credential-mapping";
+import type { DeploymentStore } from "./deployment-store";
+import type { WorkflowSession } from "@/types/workflow";
+import type { N8nWorkflowInput } from "@/lib/n8n-api-client";
+import type {
+  DeployWorkflowInput,
+  DeployWorkflowResult,
+  WorkflowDeployment,
+} from "@/types/deployments";
+
+/**
+ * An n8n instance workflows are deployed to (see deploy-targets.ts)
+ */
+export interface WorkflowDeployTarget {
+  /**
+   * @returns the ID of the created workflow
+   */
+  createWorkflow(workflow: N8nWorkflowInput): Promise<string>;
+
+  /**
+   * @returns false if the workflow no longer exists in n8n
+   */
+  updateWorkflow(id: string, workflow: N8nWorkflowInput): Promise<boolean>;
+}
+
+/**
+ * A deployment that was rejected or failed in n8n
+ */
+export class DeploymentError extends Error {
+  constructor(
+    message: string,
+    public code: "INVALID_CREDENTIALS" | "DEPLOY_FAILED",
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "DeploymentError";
+  }
+}
+
+/**
+ * Deploys a session's workflow to an n8n instance profile
+ *
+ * The first deployment to a profile creates the workflow in n8n; later
+ * ones update that workflow, unless it was deleted in n8n since.
+ */
+export class WorkflowDeployer {
+  constructor(
+    private store: DeploymentStore,
+    private targetFor: (profile: string) => WorkflowDeployTarget
+  ) {}
+
+  async deploy(
+    session: WorkflowSession,
+    input: DeployWorkflowInput
+  ): Promise<DeployWorkflowResult> {
+    const { sessionId, state } = session;
+    const credentials = input.credentials || {};
+
+    const mapping = applyCredentialMapping(
+      state.workflow.nodes,
+      state.configAnalysis,
+      credentials
+    );
+    if (mapping.unknown.length > 0) {
+      throw new DeploymentError(
+        `Credentials not needed by this workflow: ${mapping.unknown.join(", ")}`,
+        "INVALID_CREDENTIALS",
+        { unknown: mapping.unknown }
+      );
+    }
+
+    // n8n rejects properties it doesn't know, so send only these
+    const { name: settingsName, ...settings } = (state.workflow.settings ||
+      {}) as Record<string, any>;
+    const workflow: N8nWorkflowInput = {
+      name:
+        input.name ||
+        (state.workflow as { name?: string }).name ||
+        settingsName ||
+        state.seo?.title ||
+        "Generated workflow",
+      nodes: mapping.nodes,
+      // Stored in n8n's format despite the WorkflowConnection[] type
+      connections: state.workflow.connections as any,
+      settings,
+    };
+
+    const target = this.targetFor(input.profile);
+    const previous = await this.store.latest(sessionId, input.profile);
+    const updatedId = previous
+      ? await this.update(target, previous, workflow)
+      : null;
+    const remoteWorkflowId =
+      updatedId ?? (await target.createWorkflow(workflow));
+    const action = updatedId ? "updated" : "created";
+
+    const deployment = await this.store.record({
+      sessionId,
+      profile: input.profile,
+      remoteWorkflowId,
+      action,
+      credentials,
+    });
+
+    loggers.orchestrator.info(
+      `Deployed ${sessionId} to ${input.profile} (${action} ${deployment.remoteWorkflowId}, v${deployment.version})`
+    );
+
+    return { deployment, unmappedCredentials: mapping.unmapped };
+  }
+
+  async listDeployments(sessionId: string): Promise<WorkflowDeployment[]> {
+    return this.store.listForSession(sessionId);
+  }
+
+  /**
+   * @returns the updated workflow's ID, or null if it no longer exists in n8n
+   */
+  private async update(
+    target: WorkflowDeployTarget,
+    previous: WorkflowDeployment,
+    workflow: N8nWorkflowInput
+  ): Promise<string | null> {
+    if (await target.updateWorkflow(previous.remoteWorkflowId, workflow)) {
+      return previous.remoteWorkflowId;
+    }
+    loggers.orchestrator.warn(
+      `n8n workflow ${previous.remoteWorkflowId} no longer exists, creating a new one`
+    );
+    return null;
+  }
+}
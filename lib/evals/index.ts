@@ -0,0 +1,22 @@
+// lib/evals/index.ts
+
+export { DEFAULT_EVAL_SUITE_PATH, loadEvalSuite, parseEvalSuite } from "./suite";
+export {
+  DEFAULT_EVAL_TOLERANCES,
+  compareEvalSummaries,
+  computeEvalMetrics,
+  findMissingConnections,
+  findViolations,
+  scoreDiscovery,
+  summarizeEvalRun,
+  type EvalTolerances,
+  type ScoredWorkflow,
+} from "./scoring";
+export {
+  answerClarifications,
+  runEvalCase,
+  runEvalSuite,
+  type EvalRunnerDeps,
+  type RunEvalSuiteOptions,
+} from "./runner";
+export { formatEvalReport } from "./report";
@@ -0,0 +1,99 @@
+// lib/evals/report.ts
+
+import type { EvalComparison, EvalMetrics, EvalSummary } from "@/types/evals";
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const METRIC_FORMATS: Record<keyof EvalMetrics, (value: number) => string> = {
+  cases: String,
+  passed: String,
+  passRate: percent,
+  discoveryPrecision: percent,
+  discoveryRecall: percent,
+  validationPassRate: percent,
+  avgValidationAttempts: (value) => value.toFixed(2),
+  totalTokens: (value) => String(Math.round(value)),
+  avgTokens: (value) => String(Math.round(value)),
+  totalCostUsd: (value) => `$${value.toFixed(4)}`,
+};
+
+function formatChange(metric: keyof EvalMetrics, change: number | undefined): string {
+  if (change === undefined || change === 0) return "";
+  const sign = change > 0 ? "+" : "-";
+  return `${sign}${METRIC_FORMATS[metric](Math.abs(change))}`;
+}
+
+/**
+ * Markdown scorecard of an eval run, with changes from the baseline when
+ * it was compared to one
+ */
+export function formatEvalReport(
+  summary: EvalSummary,
+  comparison?: EvalComparison
+): string {
+  const lines = [
+    `# Eval: ${summary.suite} v${summary.suiteVersion}`,
+    "",
+    `- Run: ${summary.startedAt} → ${summary.completedAt}`,
+    `- Models: ${summary.models.join(", ") || "none recorded"}`,
+    `- Prompt versions: ${
+      Object.entries(summary.promptVersions)
+        .map(([phase, versions]) => `${phase} ${versions!.join("/")}`)
+        .join(", ") || "none recorded"
+    }`,
+    "",
+    "## Metrics",
+    "",
+    comparison ? "| Metric | Value | Change |" : "| Metric | Value |",
+    comparison ? "| --- | --- | --- |" : "| --- | --- |",
+  ];
+
+  for (const metric of Object.keys(METRIC_FORMATS) as Array<keyof EvalMetrics>) {
+    const value = METRIC_FORMATS[metric](summary.metrics[metric]);
+    lines.push(
+      comparison
+        ? `| ${metric} | ${value} | ${formatChange(metric, comparison.changes[metric])} |`
+        : `| ${metric} | ${value} |`
+    );
+  }
+
+  if (comparison) {
+    lines.push("", "## Regressions", "");
+    if (!comparison.comparable) {
+      lines.push("Baseline is from a different suite or suite version - not compared.");
+    } else if (comparison.regressions.length === 0) {
+      lines.push("None.");
+    } else {
+      lines.push(...comparison.regressions.map((regression) => `- ${regression.message}`));
+    }
+  }
+
+  lines.push(
+    "",
+    "## Cases",
+    "",
+    "| Case | Result | Precision | Recall | Validation | Attempts | Tokens | Notes |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |"
+  );
+  for (const result of summary.results) {
+    const notes = [
+      result.error,
+      result.unansweredClarifications?.length
+        ? `unanswered: ${result.unansweredClarifications.join("; ")}`
+        : undefined,
+      result.discovery.missing.length ? `missing: ${result.discovery.missing.join(", ")}` : undefined,
+      ...result.missingConnections.map((c) => `no ${c.from} → ${c.to}`),
+      ...result.violations,
+    ].filter(Boolean);
+
+    lines.push(
+      `| ${result.caseId} | ${result.passed ? "✅" : "❌"} | ${percent(result.discovery.precision)} | ${percent(
+        result.discovery.recall
+      )} | ${result.validationPassed ? "passed" : "failed"} | ${result.validationAttempts} | ${
+        result.tokens
+      } | ${notes.join("; ").replace(/\|/g, "\\|")} |`
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,205 @@
+// lib/evals/runner.ts
+
+import { estimateSessionCost } from "@/lib/usage/cost";
+import { getPromptRegistry, PROMPT_PHASES } from "@/services/claude/prompts/registry";
+import type { PromptRegistry } from "@/services/claude/prompts/registry";
+import type { SessionRepo } from "@/lib/orchestrator/context/SessionRepo";
+import type { PipelineResult, WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import type { ClarificationAnswer, ClarificationQuestion } from "@/types/workflow";
+import type { EvalCase, EvalCaseResult, EvalSuite, EvalSummary } from "@/types/evals";
+import type { PromptPhase } from "@/types/prompt-experiments";
+import {
+  findMissingConnections,
+  findViolations,
+  scoreDiscovery,
+  summarizeEvalRun,
+} from "./scoring";
+
+export interface EvalRunnerDeps {
+  orchestrator: Pick<WorkflowOrchestrator, "runPipelineFrom" | "handleClarificationResponse">;
+  sessionRepo: Pick<SessionRepo, "reset" | "load">;
+  promptRegistry?: PromptRegistry; // Defaults to getPromptRegistry()
+  now?: () => Date;
+}
+
+export interface RunEvalSuiteOptions {
+  caseIds?: string[]; // Only run these cases
+  onCase?: (result: EvalCaseResult) => void; // Called as each case finishes
+}
+
+/**
+ * Answer a clarification round from the case's answers, taking the next
+ * answer for each question. Answers may name an option by label or value;
+ * multi_choice answers list them separated by commas.
+ */
+export function answerClarifications(
+  questions: ClarificationQuestion[],
+  remaining: string[]
+): { answers: ClarificationAnswer[]; unanswered: string[] } {
+  const answers: ClarificationAnswer[] = [];
+  const unanswered: string[] = [];
+
+  for (const question of questions) {
+    const raw = remaining.shift();
+    if (raw === undefined) {
+      unanswered.push(question.question);
+      continue;
+    }
+
+    const options = question.options || [];
+    const toValue = (entry: string) =>
+      options.find(
+        (option) =>
+          option.value.toLowerCase() === entry.toLowerCase() ||
+          option.label.toLowerCase() === entry.toLowerCase()
+      )?.value ?? entry;
+
+    answers.push({
+      questionId: question.questionId,
+      value:
+        question.answerType === "multi_choice"
+          ? raw.split(",").map((entry) => toValue(entry.trim()))
+          : toValue(raw.trim()),
+    });
+  }
+
+  return { answers, unanswered };
+}
+
+/**
+ * Run the pipeline for one case and score what it produced
+ *
+ * Clarification questions are answered from the case; a case that runs
+ * out of answers stops there and fails. Errors fail the case instead of
+ * the run.
+ */
+export async function runEvalCase(
+  evalCase: EvalCase,
+  sessionId: string,
+  deps: EvalRunnerDeps
+): Promise<EvalCaseResult> {
+  const now = deps.now || (() => new Date());
+  const registry = deps.promptRegistry || getPromptRegistry();
+  const startedAt = now().getTime();
+
+  let pipeline: PipelineResult | undefined;
+  let unanswered: string[] = [];
+  let error: string | undefined;
+
+  try {
+    await deps.sessionRepo.reset(sessionId, evalCase.prompt);
+    pipeline = await deps.orchestrator.runPipelineFrom(sessionId, "discovery", {
+      prompt: evalCase.prompt,
+    });
+
+    const remaining = [...(evalCase.answers || [])];
+    while (pipeline.success && pipeline.pendingClarifications) {
+      const round = answerClarifications(pipeline.pendingClarifications, remaining);
+      if (round.unanswered.length > 0) {
+        unanswered = round.unanswered;
+        break;
+      }
+
+      const answered = await deps.orchestrator.handleClarificationResponse(sessionId, round.answers);
+      if (!answered.success) {
+        pipeline = { ...pipeline, success: false, failedPhase: answered.phase, error: answered.error };
+        break;
+      }
+      pipeline = answered.pendingClarifications
+        ? { ...pipeline, pendingClarifications: answered.pendingClarifications }
+        : await deps.orchestrator.runPipelineFrom(
+            sessionId,
+            answered.phase === "configuration" ? "building" : "configuration"
+          );
+    }
+    error = pipeline.error?.message;
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const session = await deps.sessionRepo.load(sessionId).catch(() => null);
+  const state = session?.state;
+  const selectedTypes = (state?.discovered || [])
+    .filter((node) => state?.selected.includes(node.id))
+    .map((node) => node.type);
+  const workflow = {
+    nodes: state?.workflow.nodes || [],
+    connections: state?.workflow.connections || {},
+  };
+
+  const completedPhases = pipeline?.completedPhases || [];
+  const discovery = scoreDiscovery(evalCase.expectedNodeTypes, selectedTypes);
+  const validationPassed = completedPhases.includes("validation");
+  const missingConnections = findMissingConnections(evalCase.expectedConnections || [], workflow);
+  const violations = findViolations(evalCase.mustNotContain || [], workflow);
+
+  const promptVersions: Partial<Record<PromptPhase, string>> = {};
+  for (const phase of PROMPT_PHASES) {
+    promptVersions[phase] = registry.assign(phase, sessionId);
+  }
+
+  return {
+    caseId: evalCase.id,
+    sessionId,
+    passed:
+      !error &&
+      unanswered.length === 0 &&
+      !!pipeline?.success &&
+      completedPhases.includes("documentation") &&
+      validationPassed &&
+      discovery.recall === 1 &&
+      missingConnections.length === 0 &&
+      violations.length === 0,
+    completedPhases,
+    ...(pipeline?.failedPhase ? { failedPhase: pipeline.failedPhase } : {}),
+    ...(error ? { error } : {}),
+    ...(unanswered.length > 0 ? { unansweredClarifications: unanswered } : {}),
+    discovery,
+    validationPassed,
+    validationAttempts: state?.validationReport?.attempts ?? 0,
+    missingConnections,
+    violations,
+    tokens: state?.tokenUsage?.total ?? 0,
+    costUsd: estimateSessionCost(state?.tokenUsage).total,
+    models: Array.from(
+      new Set((state?.tokenUsage?.byCalls || []).flatMap((call) => (call.model ? [call.model] : [])))
+    ).sort(),
+    promptVersions,
+    durationMs: now().getTime() - startedAt,
+  };
+}
+
+/**
+ * Run every case of a suite, one after another, and summarize the run
+ *
+ * Each case keeps the same session ID from run to run, since the ID picks
+ * its prompt variants: a replayed cassette then matches the recording, and
+ * a baseline is compared to the same variants. The session is started over
+ * for every run.
+ */
+export async function runEvalSuite(
+  suite: EvalSuite,
+  deps: EvalRunnerDeps,
+  options: RunEvalSuiteOptions = {}
+): Promise<EvalSummary> {
+  const now = deps.now || (() => new Date());
+  const cases = options.caseIds
+    ? suite.cases.filter((evalCase) => options.caseIds!.includes(evalCase.id))
+    : suite.cases;
+  const unknown = (options.caseIds || []).filter(
+    (id) => !suite.cases.some((evalCase) => evalCase.id === id)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown eval case(s) in ${suite.name}: ${unknown.join(", ")}`);
+  }
+
+  const startedAt = now();
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    const result = await runEvalCase(evalCase, `eval_${suite.name}_${evalCase.id}`, deps);
+    results.push(result);
+    options.onCase?.(result);
+  }
+
+  return summarizeEvalRun(suite, results, startedAt, now());
+}
@@ -0,0 +1,270 @@
+// lib/evals/scoring.ts
+
+import { normalizeNodeType } from "@/lib/utils/node-type-utils";
+import type {
+  EvalCaseResult,
+  EvalComparison,
+  EvalDiscoveryScore,
+  EvalExpectedConnection,
+  EvalForbiddenRule,
+  EvalMetrics,
+  EvalRegression,
+  EvalSuite,
+  EvalSummary,
+} from "@/types/evals";
+import type { PromptPhase } from "@/types/prompt-experiments";
+
+/**
+ * The parts of a generated workflow the scores look at
+ */
+export interface ScoredWorkflow {
+  nodes: Array<{ name: string; type: string }>;
+  connections: unknown; // n8n-style, keyed by source node name
+}
+
+/**
+ * How much worse a metric may get before it counts as a regression
+ */
+export interface EvalTolerances {
+  rate: number; // Absolute drop in pass, validation pass, precision and recall rates
+  validationAttempts: number; // Absolute increase in average attempts
+  tokens: number; // Relative increase in average tokens, e.g. 0.2 for 20%
+}
+
+export const DEFAULT_EVAL_TOLERANCES: EvalTolerances = {
+  rate: 0.05,
+  validationAttempts: 0.5,
+  tokens: 0.2,
+};
+
+const STICKY_NOTE_TYPE = "nodes-base.stickyNote";
+
+function uniqueTypes(types: string[]): string[] {
+  return Array.from(new Set(types.map(normalizeNodeType)));
+}
+
+/**
+ * Precision and recall of the node types discovery selected against the
+ * types the case expects
+ */
+export function scoreDiscovery(
+  expectedNodeTypes: string[],
+  selectedNodeTypes: string[]
+): EvalDiscoveryScore {
+  const expected = uniqueTypes(expectedNodeTypes);
+  const selected = uniqueTypes(selectedNodeTypes);
+  const matched = selected.filter((type) => expected.includes(type));
+
+  return {
+    expected,
+    selected,
+    missing: expected.filter((type) => !selected.includes(type)),
+    unexpected: selected.filter((type) => !expected.includes(type)),
+    precision: selected.length > 0 ? matched.length / selected.length : expected.length === 0 ? 1 : 0,
+    recall: expected.length > 0 ? matched.length / expected.length : 1,
+  };
+}
+
+/**
+ * Downstream node names of every node, from n8n-style connections
+ */
+function edgesOf(workflow: ScoredWorkflow): Map<string, string[]> {
+  const edges = new Map<string, string[]>();
+  const connections =
+    typeof workflow.connections === "object" && workflow.connections !== null
+      ? (workflow.connections as Record<string, Record<string, unknown>>)
+      : {};
+
+  for (const [from, types] of Object.entries(connections)) {
+    for (const outputs of Object.values(types || {})) {
+      if (!Array.isArray(outputs)) continue;
+      for (const targets of outputs) {
+        for (const target of Array.isArray(targets) ? targets : []) {
+          if (typeof target?.node !== "string") continue;
+          edges.set(from, [...(edges.get(from) || []), target.node]);
+        }
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Expected connections the workflow doesn't have: no node of the `to`
+ * type is reachable from a node of the `from` type
+ */
+export function findMissingConnections(
+  expected: EvalExpectedConnection[],
+  workflow: ScoredWorkflow
+): EvalExpectedConnection[] {
+  const edges = edgesOf(workflow);
+  const namesOfType = (type: string) =>
+    workflow.nodes
+      .filter((node) => normalizeNodeType(node.type) === normalizeNodeType(type))
+      .map((node) => node.name);
+
+  const reachableFrom = (start: string): Set<string> => {
+    const seen = new Set<string>();
+    const queue = [...(edges.get(start) || [])];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (seen.has(name)) continue;
+      seen.add(name);
+      queue.push(...(edges.get(name) || []));
+    }
+    return seen;
+  };
+
+  return expected.filter((connection) => {
+    const targets = namesOfType(connection.to);
+    return !namesOfType(connection.from).some((source) => {
+      const reachable = reachableFrom(source);
+      return targets.some((target) => reachable.has(target));
+    });
+  });
+}
+
+/**
+ * The mustNotContain rules the workflow breaks, as readable messages
+ *
+ * Text rules skip sticky notes, which describe the workflow rather than
+ * run it.
+ */
+export function findViolations(
+  rules: EvalForbiddenRule[],
+  workflow: ScoredWorkflow
+): string[] {
+  const working = workflow.nodes.filter(
+    (node) => normalizeNodeType(node.type) !== STICKY_NOTE_TYPE
+  );
+  const text = JSON.stringify({ nodes: working, connections: workflow.connections }).toLowerCase();
+
+  return rules.flatMap((rule) => {
+    if ("nodeType" in rule) {
+      const type = normalizeNodeType(rule.nodeType);
+      const nodes = working.filter((node) => normalizeNodeType(node.type) === type);
+      return nodes.length > 0
+        ? [`contains ${type} node(s): ${nodes.map((node) => node.name).join(", ")}`]
+        : [];
+    }
+    return text.includes(rule.text.toLowerCase()) ? [`contains "${rule.text}"`] : [];
+  });
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Metrics of a run over all of its cases
+ */
+export function computeEvalMetrics(results: EvalCaseResult[]): EvalMetrics {
+  const passed = results.filter((result) => result.passed).length;
+  const totalTokens = results.reduce((sum, result) => sum + result.tokens, 0);
+
+  return {
+    cases: results.length,
+    passed,
+    passRate: results.length > 0 ? passed / results.length : 0,
+    discoveryPrecision: average(results.map((result) => result.discovery.precision)),
+    discoveryRecall: average(results.map((result) => result.discovery.recall)),
+    validationPassRate: average(results.map((result) => (result.validationPassed ? 1 : 0))),
+    avgValidationAttempts: average(results.map((result) => result.validationAttempts)),
+    totalTokens,
+    avgTokens: results.length > 0 ? totalTokens / results.length : 0,
+    totalCostUsd: results.reduce((sum, result) => sum + result.costUsd, 0),
+  };
+}
+
+/**
+ * The comparable record of one run of a suite
+ */
+export function summarizeEvalRun(
+  suite: EvalSuite,
+  results: EvalCaseResult[],
+  startedAt: Date,
+  completedAt: Date
+): EvalSummary {
+  const promptVersions: Partial<Record<PromptPhase, string[]>> = {};
+  for (const result of results) {
+    for (const [phase, version] of Object.entries(result.promptVersions) as Array<[PromptPhase, string]>) {
+      const versions = promptVersions[phase] || [];
+      if (!versions.includes(version)) promptVersions[phase] = [...versions, version].sort();
+    }
+  }
+
+  return {
+    suite: suite.name,
+    suiteVersion: suite.version,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    models: Array.from(new Set(results.flatMap((result) => result.models))).sort(),
+    promptVersions,
+    metrics: computeEvalMetrics(results),
+    results,
+  };
+}
+
+/**
+ * What got worse between a baseline run and the current one
+ *
+ * Runs of different suites or suite versions aren't comparable and report
+ * no regressions.
+ */
+export function compareEvalSummaries(
+  baseline: EvalSummary,
+  current: EvalSummary,
+  tolerances: EvalTolerances = DEFAULT_EVAL_TOLERANCES
+): EvalComparison {
+  const comparable =
+    baseline.suite === current.suite && baseline.suiteVersion === current.suiteVersion;
+  const before = baseline.metrics;
+  const after = current.metrics;
+
+  const changes: EvalComparison["changes"] = {};
+  for (const metric of Object.keys(after) as Array<keyof EvalMetrics>) {
+    changes[metric] = after[metric] - (before[metric] ?? 0);
+  }
+  if (!comparable) return { comparable, regressions: [], changes };
+
+  const regressions: EvalRegression[] = [];
+  const regressed = (metric: keyof EvalMetrics, worse: boolean, message: string) => {
+    if (worse) {
+      regressions.push({ metric, baseline: before[metric], current: after[metric], message });
+    }
+  };
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  for (const metric of ["passRate", "discoveryPrecision", "discoveryRecall", "validationPassRate"] as const) {
+    regressed(
+      metric,
+      before[metric] - after[metric] > tolerances.rate,
+      `${metric} dropped from ${percent(before[metric])} to ${percent(after[metric])}`
+    );
+  }
+  regressed(
+    "avgValidationAttempts",
+    after.avgValidationAttempts - before.avgValidationAttempts > tolerances.validationAttempts,
+    `avgValidationAttempts rose from ${before.avgValidationAttempts.toFixed(2)} to ${after.avgValidationAttempts.toFixed(2)}`
+  );
+  regressed(
+    "avgTokens",
+    before.avgTokens > 0 && (after.avgTokens - before.avgTokens) / before.avgTokens > tolerances.tokens,
+    `avgTokens rose from ${Math.round(before.avgTokens)} to ${Math.round(after.avgTokens)}`
+  );
+
+  const passedBefore = new Set(baseline.results.filter((r) => r.passed).map((r) => r.caseId));
+  for (const result of current.results) {
+    if (passedBefore.has(result.caseId) && !result.passed) {
+      regressions.push({
+        metric: "case",
+        caseId: result.caseId,
+        baseline: 1,
+        current: 0,
+        message: `${result.caseId} passed in the baseline and fails now`,
+      });
+    }
+  }
+
+  return { comparable, regressions, changes };
+}
@@ -0,0 +1,93 @@
+// lib/evals/suite.ts
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { EvalSuite } from "@/types/evals";
+
+/**
+ * Golden prompt suite used when none is given
+ */
+export const DEFAULT_EVAL_SUITE_PATH = path.join(
+  process.cwd(),
+  "tests",
+  "evals",
+  "golden-prompts.json"
+);
+
+const nodeType = z.string().min(1);
+
+const evalSuiteSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9-]+$/, "must be lowercase letters, digits and dashes"),
+    version: z.string().min(1),
+    description: z.string().optional(),
+    cases: z
+      .array(
+        z
+          .object({
+            id: z.string().regex(/^[a-z0-9-]+$/, "must be lowercase letters, digits and dashes"),
+            prompt: z.string().min(1),
+            expectedNodeTypes: z.array(nodeType).min(1),
+            expectedConnections: z
+              .array(z.object({ from: nodeType, to: nodeType }).strict())
+              .optional(),
+            mustNotContain: z
+              .array(
+                z.union([
+                  z.object({ nodeType }).strict(),
+                  z.object({ text: z.string().min(1) }).strict(),
+                ])
+              )
+              .optional(),
+            answers: z.array(z.string()).optional(),
+          })
+          .strict()
+      )
+      .min(1),
+  })
+  .strict()
+  .superRefine((suite, ctx) => {
+    const seen = new Set<string>();
+    suite.cases.forEach((evalCase, index) => {
+      if (seen.has(evalCase.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cases", index, "id"],
+          message: `duplicate case id "${evalCase.id}"`,
+        });
+      }
+      seen.add(evalCase.id);
+    });
+  });
+
+/**
+ * Check a parsed suite file
+ *
+ * Throws on an invalid suite rather than scoring against a partial one.
+ */
+export function parseEvalSuite(raw: unknown, source = "Eval suite"): EvalSuite {
+  const result = evalSuiteSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors
+      .map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`)
+      .join("; ");
+    throw new Error(`${source} is invalid: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read a suite of golden prompts from a JSON file
+ */
+export function loadEvalSuite(filePath: string = DEFAULT_EVAL_SUITE_PATH): EvalSuite {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read eval suite ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return parseEvalSuite(raw, path.basename(filePath));
+}
@@ -0,0 +1,168 @@
+// lib/events/session-events.ts
+
+import { EventEmitter } from "events";
+import type { WorkflowOperation } from "@/types/workflow";
+import type { SessionEvent, SessionEventPayload } from "@/types/events";
+import { globalSingleton } from "@/lib/utils/global-singleton";
+
+// Events kept per session so reconnecting clients can catch up
+const RECENT_EVENT_LIMIT = 200;
+// Sessions whose buffers are kept before the oldest is dropped
+const RECENT_SESSION_LIMIT = 100;
+
+/**
+ * In-process publish/subscribe for session progress events
+ *
+ * Events only reach subscribers in the same server process, so the SSE
+ * stream covers phases run inline by the API routes. Phases run by a
+ * separate phase worker (USE_PHASE_JOBS) are not streamed.
+ */
+export class SessionEventBus {
+  private emitter = new EventEmitter();
+  private recent = new Map<string, SessionEvent[]>();
+  private nextId = 1;
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(sessionId: string, payload: SessionEventPayload): SessionEvent {
+    const event = {
+      ...payload,
+      id: this.nextId++,
+      sessionId,
+      timestamp: new Date().toISOString(),
+    } as SessionEvent;
+
+    const buffer = this.recent.get(sessionId) || [];
+    buffer.push(event);
+    if (buffer.length > RECENT_EVENT_LIMIT) buffer.shift();
+
+    // Re-insert so the Map stays ordered by last activity
+    this.recent.delete(sessionId);
+    this.recent.set(sessionId, buffer);
+    if (this.recent.size > RECENT_SESSION_LIMIT) {
+      const oldest = this.recent.keys().next().value;
+      if (oldest) this.recent.delete(oldest);
+    }
+
+    this.emitter.emit(sessionId, event);
+    return event;
+  }
+
+  publishOperations(
+    sessionId: string,
+    operations: WorkflowOperation[]
+  ): void {
+    for (const payload of eventsFromOperations(operations)) {
+      this.publish(sessionId, payload);
+    }
+  }
+
+  /**
+   * @returns an unsubscribe function
+   */
+  subscribe(
+    sessionId: string,
+    listener: (event: SessionEvent) => void
+  ): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+
+  /**
+   * Buffered events for a session, optionally only those after an event id
+   */
+  getRecent(sessionId: string, afterId = 0): SessionEvent[] {
+    return (this.recent.get(sessionId) || []).filter((e) => e.id > afterId);
+  }
+}
+
+/**
+ * Translate persisted operations into progress events
+ *
+ * setPhase is skipped: runner operations are persisted when the phase
+ * finishes, so phase starts are published when the phase actually begins.
+ */
+export function eventsFromOperations(
+  operations: WorkflowOperation[]
+): SessionEventPayload[] {
+  const events: SessionEventPayload[] = [];
+  let stickyNotes = 0;
+
+  for (const op of operations) {
+    switch (op.type) {
+      case "setPhase":
+        break;
+      case "completePhase":
+        events.push({ type: "phase_completed", phase: op.phase });
+        break;
+      case "discoverNode":
+        events.push({
+          type: "node_discovered",
+          nodeId: op.node.id,
+          nodeType: op.node.type,
+          displayName: op.node.displayName,
+        });
+        break;
+      case "selectNode":
+        events.push({ type: "node_selected", nodeId: op.nodeId });
+        break;
+      case "configureNode":
+        events.push({
+          type: "node_configured",
+          nodeId: op.nodeId,
+          nodeType: op.nodeType,
+        });
+        break;
+      case "validateNode":
+        events.push({
+          type: "node_validated",
+          nodeId: op.nodeId,
+          valid: op.result?.valid ?? false,
+        });
+        break;
+      case "cancelSession":
+        events.push({
+          type: "session_cancelled",
+          fromPhase: op.fromPhase,
+          reason: op.reason,
+        });
+        break;
+      case "requestClarification":
+        events.push({
+          type: "clarification_requested",
+          questionId: op.questionId,
+          question: op.question,
+        });
+        break;
+      case "addStickyNote":
+        stickyNotes++;
+        break;
+      case "setWorkflow": {
+        const nodes = op.workflow?.nodes || [];
+        const notes = nodes.filter(
+          (n: any) => n.type === "n8n-nodes-base.stickyNote"
+        ).length;
+        stickyNotes += notes;
+        events.push({ type: "workflow_updated", nodeCount: nodes.length - notes });
+        break;
+      }
+      default:
+        events.push({ type: "operation", operationType: op.type });
+    }
+  }
+
+  if (stickyNotes > 0) {
+    events.push({ type: "sticky_notes_added", count: stickyNotes });
+  }
+  return events;
+}
+
+export const sessionEvents = globalSingleton(
+  "sessionEvents",
+  () => new SessionEventBus()
+);
@@ -0,0 +1,36 @@
+// lib/jobs/index.ts
+
+import { SupabasePhaseJobQueue } from "./supabase-phase-job-queue";
+import type { PhaseJobQueue } from "./phase-job-queue";
+
+export {
+  InMemoryPhaseJobQueue,
+  DEFAULT_MAX_ATTEMPTS,
+  type PhaseJobQueue,
+} from "./phase-job-queue";
+export { SupabasePhaseJobQueue } from "./supabase-phase-job-queue";
+export {
+  PhaseWorker,
+  isTransientFailure,
+  type PhaseJobExecutor,
+  type PhaseRunOutcome,
+  type PhaseWorkerOptions,
+} from "./phase-worker";
+export { createOrchestratorExecutor } from "./orchestrator-executor";
+
+/**
+ * Phases run through the phase_jobs queue (picked up by `npm run worker:phases`)
+ * instead of in the background of the API request that started them
+ */
+export function isPhaseJobsEnabled(): boolean {
+  return process.env.USE_PHASE_JOBS === "true";
+}
+
+let queue: PhaseJobQueue | undefined;
+
+export function getPhaseJobQueue(): PhaseJobQueue {
+  if (!queue) {
+    queue = new SupabasePhaseJobQueue();
+  }
+  return queue;
+}
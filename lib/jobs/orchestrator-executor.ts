@@ -0,0 +1,54 @@
+// lib/jobs/orchestrator-executor.ts
+
+import type { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import type { PhaseJobExecutor, PhaseRunOutcome } from "./phase-worker";
+import type { PhaseJob } from "@/types/jobs";
+
+/**
+ * Runs phase jobs through the workflow orchestrator's phase runners
+ */
+export function createOrchestratorExecutor(
+  orchestrator: WorkflowOrchestrator
+): PhaseJobExecutor {
+  return {
+    async runPhase(job: PhaseJob): Promise<PhaseRunOutcome> {
+      const { sessionId, phase, payload } = job;
+
+      switch (phase) {
+        case "discovery": {
+          if (!payload.prompt) {
+            throw new Error(`Discovery job ${job.id} has no prompt`);
+          }
+          const result = await orchestrator.runDiscoveryPhase(
+            sessionId,
+            payload.prompt,
+            payload.userId
+          );
+          return {
+            success: result.success,
+            error: result.error,
+            awaitingInput:
+              !!result.pendingClarifications ||
+              result.selectedNodeIds.length === 0,
+          };
+        }
+        case "configuration": {
+          const result = await orchestrator.runConfigurationPhase(sessionId);
+          return {
+            success: result.success,
+            error: result.error,
+            awaitingInput: !!result.pendingClarifications,
+          };
+        }
+        case "building":
+          return await orchestrator.runBuildingPhase(sessionId);
+        case "validation":
+          return await orchestrator.runValidationPhaseWithTimeout(sessionId);
+        case "documentation":
+          return await orchestrator.runDocumentationPhase(sessionId);
+        default:
+          throw new Error(`Phase ${phase} can't be run as a job`);
+      }
+    },
+  };
+}
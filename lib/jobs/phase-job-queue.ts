@@ -0,0 +1,224 @@
+// lib/jobs/phase-job-queue.ts
+
+import { nanoid } from "nanoid";
+import type {
+  EnqueuePhaseJobInput,
+  PhaseJob,
+  PhaseJobStatus,
+} from "@/types/jobs";
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const ACTIVE_STATUSES: PhaseJobStatus[] = ["queued", "running"];
+
+/**
+ * Storage for phase jobs
+ *
+ * A worker claims a job, which leases it for a fixed time. The worker must
+ * complete or fail the job (or extend the lease) before the lease expires,
+ * otherwise the job becomes claimable again by another worker.
+ */
+export interface PhaseJobQueue {
+  /**
+   * Queue a phase run. Returns the existing job instead if the same phase
+   * is already queued or running for the session.
+   */
+  enqueue(input: EnqueuePhaseJobInput): Promise<PhaseJob>;
+
+  /**
+   * Claim the next due job, incrementing its attempt count
+   */
+  claim(workerId: string, leaseMs: number): Promise<PhaseJob | null>;
+
+  complete(jobId: string, workerId: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. With retryAt the job is queued again for that
+   * time, otherwise it is marked failed for good.
+   */
+  fail(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt?: Date
+  ): Promise<void>;
+
+  /**
+   * Returns false if the worker no longer holds the lease
+   */
+  extendLease(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+
+  listForSession(sessionId: string): Promise<PhaseJob[]>;
+
+  /**
+   * Mark the session's queued and running jobs cancelled. A worker running
+   * one of them finds out when its next lease extension fails.
+   * @returns the number of jobs cancelled
+   */
+  cancelForSession(sessionId: string): Promise<number>;
+}
+
+/**
+ * In-memory queue for tests and local development
+ */
+export class InMemoryPhaseJobQueue implements PhaseJobQueue {
+  private jobs = new Map<string, PhaseJob>();
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async enqueue(input: EnqueuePhaseJobInput): Promise<PhaseJob> {
+    const existing = Array.from(this.jobs.values()).find(
+      (job) =>
+        job.sessionId === input.sessionId &&
+        job.phase === input.phase &&
+        ACTIVE_STATUSES.includes(job.status)
+    );
+    if (existing) return { ...existing };
+
+    const timestamp = this.now().toISOString();
+    const job: PhaseJob = {
+      id: `job_${nanoid(10)}`,
+      sessionId: input.sessionId,
+      phase: input.phase,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      payload: input.payload || {},
+      runAfter: (input.runAfter || this.now()).toISOString(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<PhaseJob | null> {
+    const now = this.now();
+    this.failAbandoned(now);
+
+    const next = Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          job.attempts < job.maxAttempts &&
+          ((job.status === "queued" && new Date(job.runAfter) <= now) ||
+            (job.status === "running" &&
+              !!job.leaseExpiresAt &&
+              new Date(job.leaseExpiresAt) < now))
+      )
+      .sort((a, b) => a.runAfter.localeCompare(b.runAfter))[0];
+
+    if (!next) return null;
+
+    Object.assign(next, {
+      status: "running",
+      attempts: next.attempts + 1,
+      leaseOwner: workerId,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    return { ...next };
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const job = this.getLeased(jobId, workerId);
+    Object.assign(job, {
+      status: "succeeded",
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: this.now().toISOString(),
+    });
+  }
+
+  async fail(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt?: Date
+  ): Promise<void> {
+    const job = this.getLeased(jobId, workerId);
+    Object.assign(job, {
+      status: retryAt ? "queued" : "failed",
+      runAfter: retryAt ? retryAt.toISOString() : job.runAfter,
+      lastError: error,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: this.now().toISOString(),
+    });
+  }
+
+  async extendLease(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "running" || job.leaseOwner !== workerId) {
+      return false;
+    }
+    const now = this.now();
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+    job.updatedAt = now.toISOString();
+    return true;
+  }
+
+  async listForSession(sessionId: string): Promise<PhaseJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((job) => ({ ...job }));
+  }
+
+  async cancelForSession(sessionId: string): Promise<number> {
+    const timestamp = this.now().toISOString();
+    let cancelled = 0;
+    for (const job of this.jobs.values()) {
+      if (job.sessionId === sessionId && ACTIVE_STATUSES.includes(job.status)) {
+        Object.assign(job, {
+          status: "cancelled",
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: timestamp,
+        });
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Fail running jobs whose final attempt died with its worker (same as
+   * the fail_abandoned_phase_jobs function of the Supabase queue)
+   */
+  private failAbandoned(now: Date): void {
+    for (const job of this.jobs.values()) {
+      if (
+        job.status === "running" &&
+        job.attempts >= job.maxAttempts &&
+        !!job.leaseExpiresAt &&
+        new Date(job.leaseExpiresAt) < now
+      ) {
+        Object.assign(job, {
+          status: "failed",
+          lastError: job.lastError ?? "Lease expired on final attempt",
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: now.toISOString(),
+        });
+      }
+    }
+  }
+
+  private getLeased(jobId: string, workerId: string): PhaseJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Phase job ${jobId} not found`);
+    }
+    if (job.status !== "running" || job.leaseOwner !== workerId) {
+      throw new Error(`Phase job ${jobId} is not leased by worker ${workerId}`);
+    }
+    return job;
+  }
+}
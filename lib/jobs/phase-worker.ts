@@ -0,0 +1,248 @@
+// lib/jobs/phase-worker.ts
+
+import { nanoid } from "nanoid";
+import { ProviderError } from "@/services/claude";
+import { MCPConnectionError } from "@/lib/mcp-error-handler";
+import { PhaseManager } from "@/lib/phase-manager";
+import { loggers } from "@/lib/utils/logger";
+import { cancellationRegistry } from "@/lib/utils/cancellation";
+import type { PhaseJobQueue } from "./phase-job-queue";
+import type { PhaseJob } from "@/types/jobs";
+import type { ErrorResponse } from "@/types/workflow";
+
+export interface PhaseRunOutcome {
+  success: boolean;
+  error?: ErrorResponse["error"];
+  /**
+   * The pipeline has to wait for the user (e.g. discovery asked a
+   * clarification question), so no follow-up phase is queued
+   */
+  awaitingInput?: boolean;
+}
+
+/**
+ * Runs the phase a job describes
+ */
+export interface PhaseJobExecutor {
+  runPhase(job: PhaseJob): Promise<PhaseRunOutcome>;
+}
+
+export interface PhaseWorkerOptions {
+  queue: PhaseJobQueue;
+  executor: PhaseJobExecutor;
+  workerId?: string;
+  leaseMs?: number;
+  /** How often the lease is extended, which is also how quickly a cancelled job stops */
+  heartbeatMs?: number;
+  pollIntervalMs?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  now?: () => Date;
+}
+
+/**
+ * Failures worth retrying: Claude provider and MCP connection errors that
+ * are flagged retryable. Accepts thrown errors as well as the error part of
+ * a failed phase result (wrapPhase catches runner errors).
+ */
+export function isTransientFailure(error: unknown): boolean {
+  if (error instanceof ProviderError || error instanceof MCPConnectionError) {
+    return error.retryable;
+  }
+  if (error && typeof error === "object" && "type" in error) {
+    const { type, retryable } = error as ErrorResponse["error"];
+    return retryable && (type === "claude_api" || type === "mcp_server");
+  }
+  return false;
+}
+
+/**
+ * Worker loop for the phase job queue
+ *
+ * Claims one job at a time, runs it and queues the next phase on success,
+ * so a session moves through the pipeline one durable job per phase.
+ * Transient failures are retried with exponential backoff until the job
+ * runs out of attempts. A job that loses its lease (it was cancelled, or
+ * another worker took it over) has its phase aborted and is left alone.
+ */
+export class PhaseWorker {
+  readonly workerId: string;
+  private queue: PhaseJobQueue;
+  private executor: PhaseJobExecutor;
+  private phaseManager = new PhaseManager();
+  private leaseMs: number;
+  private heartbeatMs: number;
+  private pollIntervalMs: number;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
+  private now: () => Date;
+  private running = false;
+  private wakeUp?: () => void;
+
+  constructor(options: PhaseWorkerOptions) {
+    this.queue = options.queue;
+    this.executor = options.executor;
+    this.workerId = options.workerId || `worker_${nanoid(8)}`;
+    this.leaseMs = options.leaseMs ?? 10 * 60 * 1000;
+    this.heartbeatMs =
+      options.heartbeatMs ?? Math.min(15000, this.leaseMs / 2);
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.retryBaseMs = options.retryBaseMs ?? 5000;
+    this.retryMaxMs = options.retryMaxMs ?? 60000;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Claim and process a single job
+   * @returns the processed job, or null if nothing was due
+   */
+  async runOnce(): Promise<PhaseJob | null> {
+    const job = await this.queue.claim(this.workerId, this.leaseMs);
+    if (!job) return null;
+
+    loggers.jobs.info(
+      `Running ${job.phase} job ${job.id} for ${job.sessionId} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+
+    // A signal left aborted by an earlier run must not stop this one
+    cancellationRegistry.reset(job.sessionId);
+
+    // Keep the lease alive while long phases run, and stop the phase once
+    // the lease is gone
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+      this.queue
+        .extendLease(job.id, this.workerId, this.leaseMs)
+        .then((extended) => {
+          if (!extended && !leaseLost) {
+            leaseLost = true;
+            loggers.jobs.warn(
+              `Lost lease on ${job.phase} job ${job.id}, aborting the phase`
+            );
+            cancellationRegistry.cancel(job.sessionId, "Phase job lease lost");
+          }
+        })
+        .catch((error) =>
+          loggers.jobs.warn(`Failed to extend lease on ${job.id}:`, error)
+        );
+    }, this.heartbeatMs);
+
+    let outcome: PhaseRunOutcome;
+    let transient: boolean;
+    try {
+      outcome = await this.executor.runPhase(job);
+      transient = !outcome.success && isTransientFailure(outcome.error);
+    } catch (error) {
+      outcome = {
+        success: false,
+        error: {
+          type: "client",
+          code: `${job.phase.toUpperCase()}_ERROR`,
+          message: error instanceof Error ? error.message : String(error),
+          userMessage: "An unexpected error occurred. Please try again.",
+          retryable: false,
+        },
+      };
+      transient = isTransientFailure(error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    // The job was cancelled or reassigned - its new owner decides what's next
+    if (leaseLost) {
+      loggers.jobs.info(`${job.phase} job ${job.id} stopped after losing its lease`);
+      return job;
+    }
+
+    if (outcome.success) {
+      await this.queue.complete(job.id, this.workerId);
+      loggers.jobs.info(`${job.phase} job ${job.id} succeeded`);
+      if (!outcome.awaitingInput) {
+        await this.enqueueNext(job, this.phaseManager.getNextPhase(job.phase));
+      }
+      return job;
+    }
+
+    const message = outcome.error?.message || "Phase failed";
+
+    if (transient && job.attempts < job.maxAttempts) {
+      const delay = Math.min(
+        this.retryBaseMs * 2 ** (job.attempts - 1),
+        this.retryMaxMs
+      );
+      await this.queue.fail(
+        job.id,
+        this.workerId,
+        message,
+        new Date(this.now().getTime() + delay)
+      );
+      loggers.jobs.warn(
+        `${job.phase} job ${job.id} hit a transient failure, retrying in ${delay}ms: ${message}`
+      );
+      return job;
+    }
+
+    await this.queue.fail(job.id, this.workerId, message);
+    loggers.jobs.error(
+      `${job.phase} job ${job.id} failed after ${job.attempts} attempt(s): ${message}`
+    );
+
+    // Like the inline pipeline, a failed validation still gets documented
+    if (job.phase === "validation") {
+      await this.enqueueNext(job, "documentation");
+    }
+    return job;
+  }
+
+  /**
+   * Process jobs until stop() is called, sleeping while the queue is empty
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    loggers.jobs.info(`Phase worker ${this.workerId} started`);
+
+    while (this.running) {
+      try {
+        const job = await this.runOnce();
+        if (job) continue;
+      } catch (error) {
+        loggers.jobs.error(`Phase worker ${this.workerId} poll failed:`, error);
+      }
+      await this.sleep(this.pollIntervalMs);
+    }
+
+    loggers.jobs.info(`Phase worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Stop after the current job finishes
+   */
+  stop(): void {
+    this.running = false;
+    this.wakeUp?.();
+  }
+
+  private async enqueueNext(
+    job: PhaseJob,
+    phase: PhaseJob["phase"] | null
+  ): Promise<void> {
+    if (!phase || phase === "complete") return;
+    const next = await this.queue.enqueue({
+      sessionId: job.sessionId,
+      phase,
+      payload: job.payload,
+      maxAttempts: job.maxAttempts,
+    });
+    loggers.jobs.debug(`Queued ${phase} job ${next.id} for ${job.sessionId}`);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
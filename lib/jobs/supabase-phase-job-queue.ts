@@ -0,0 +1,188 @@
+// lib/jobs/supabase-phase-job-queue.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import { DEFAULT_MAX_ATTEMPTS, type PhaseJobQueue } from "./phase-job-queue";
+import type { EnqueuePhaseJobInput, PhaseJob } from "@/types/jobs";
+
+/**
+ * Phase job queue backed by the Supabase phase_jobs table
+ * (see scripts/create-phase-jobs-table.sql)
+ */
+export class SupabasePhaseJobQueue implements PhaseJobQueue {
+  private supabase = createServiceClient();
+
+  async enqueue(input: EnqueuePhaseJobInput): Promise<PhaseJob> {
+    const { data: existing, error: lookupError } = await this.supabase
+      .from("phase_jobs")
+      .select("*")
+      .eq("session_id", input.sessionId)
+      .eq("phase", input.phase)
+      .in("status", ["queued", "running"])
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw new Error(`Failed to look up phase jobs: ${lookupError.message}`);
+    }
+    if (existing) return toPhaseJob(existing);
+
+    const { data, error } = await this.supabase
+      .from("phase_jobs")
+      .insert({
+        session_id: input.sessionId,
+        phase: input.phase,
+        payload: input.payload || {},
+        max_attempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        run_after: (input.runAfter || new Date()).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enqueue ${input.phase} job: ${error.message}`);
+    }
+    return toPhaseJob(data);
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<PhaseJob | null> {
+    // Release jobs whose last attempt died with its worker
+    const { error: abandonedError } = await this.supabase.rpc(
+      "fail_abandoned_phase_jobs"
+    );
+    if (abandonedError) {
+      throw new Error(
+        `Failed to fail abandoned phase jobs: ${abandonedError.message}`
+      );
+    }
+
+    const { data, error } = await this.supabase.rpc("claim_phase_job", {
+      p_worker_id: workerId,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim phase job: ${error.message}`);
+    }
+    const rows = (data || []) as any[];
+    return rows.length > 0 ? toPhaseJob(rows[0]) : null;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    await this.updateLeased(jobId, workerId, {
+      status: "succeeded",
+      lease_owner: null,
+      lease_expires_at: null,
+    });
+  }
+
+  async fail(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt?: Date
+  ): Promise<void> {
+    await this.updateLeased(jobId, workerId, {
+      status: retryAt ? "queued" : "failed",
+      last_error: error,
+      lease_owner: null,
+      lease_expires_at: null,
+      ...(retryAt && { run_after: retryAt.toISOString() }),
+    });
+  }
+
+  async extendLease(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("phase_jobs")
+      .update({
+        lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("status", "running")
+      .eq("lease_owner", workerId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to extend lease on ${jobId}: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+
+  async listForSession(sessionId: string): Promise<PhaseJob[]> {
+    const { data, error } = await this.supabase
+      .from("phase_jobs")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list phase jobs: ${error.message}`);
+    }
+    return (data || []).map(toPhaseJob);
+  }
+
+  async cancelForSession(sessionId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from("phase_jobs")
+      .update({
+        status: "cancelled",
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("session_id", sessionId)
+      .in("status", ["queued", "running"])
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to cancel phase jobs: ${error.message}`);
+    }
+    return (data || []).length;
+  }
+
+  /**
+   * Update a job only while the worker still holds its lease
+   */
+  private async updateLeased(
+    jobId: string,
+    workerId: string,
+    changes: Record<string, unknown>
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("phase_jobs")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", jobId)
+      .eq("status", "running")
+      .eq("lease_owner", workerId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to update phase job ${jobId}: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error(`Phase job ${jobId} is not leased by worker ${workerId}`);
+    }
+  }
+}
+
+function toPhaseJob(row: any): PhaseJob {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    phase: row.phase,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    payload: row.payload || {},
+    runAfter: row.run_after,
+    leaseOwner: row.lease_owner,
+    leaseExpiresAt: row.lease_expires_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,121 @@
+// lib/mcp-cache/cache-store.ts
+
+import fs from "fs";
+import path from "path";
+import type { MCPCacheEntry } from "@/types/mcp-cache";
+
+/**
+ * Storage for cached MCP tool results
+ */
+export interface MCPCacheStore {
+  /**
+   * The entry for a key, or null when it is missing or has expired
+   */
+  get(key: string, now: Date): Promise<MCPCacheEntry | null>;
+
+  set(entry: MCPCacheEntry): Promise<void>;
+
+  /**
+   * Remove the entries of one tool, or all entries, returning how many
+   * were removed
+   */
+  invalidate(tool?: string): Promise<number>;
+}
+
+/**
+ * In-memory store, kept for the life of the process
+ */
+export class InMemoryMCPCacheStore implements MCPCacheStore {
+  private entries = new Map<string, MCPCacheEntry>();
+
+  async get(key: string, now: Date): Promise<MCPCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (isExpired(entry, now)) {
+      this.entries.delete(key);
+      return null;
+    }
+    return structuredClone(entry);
+  }
+
+  async set(entry: MCPCacheEntry): Promise<void> {
+    this.entries.set(entry.key, structuredClone(entry));
+  }
+
+  async invalidate(tool?: string): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!tool || entry.tool === tool) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * One JSON file per entry in a directory, so local processes (the app,
+ * the phase worker, test scripts) share what any of them fetched
+ */
+export class FileMCPCacheStore implements MCPCacheStore {
+  constructor(readonly dir: string) {}
+
+  async get(key: string, now: Date): Promise<MCPCacheEntry | null> {
+    const file = this.fileFor(key);
+    let entry: MCPCacheEntry;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(file, "utf8"));
+    } catch {
+      // Missing, or partly written by another process
+      return null;
+    }
+    if (isExpired(entry, now)) {
+      await fs.promises.rm(file, { force: true });
+      return null;
+    }
+    return entry;
+  }
+
+  async set(entry: MCPCacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    // Write then rename, so readers never see half a file
+    const file = this.fileFor(entry.key);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(entry));
+    await fs.promises.rename(temp, file);
+  }
+
+  async invalidate(tool?: string): Promise<number> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const file = path.join(this.dir, name);
+      if (tool) {
+        try {
+          const entry = JSON.parse(await fs.promises.readFile(file, "utf8")) as MCPCacheEntry;
+          if (entry.tool !== tool) continue;
+        } catch {
+          // Unreadable entries are removed with the rest
+        }
+      }
+      await fs.promises.rm(file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+function isExpired(entry: MCPCacheEntry, now: Date): boolean {
+  return new Date(entry.expiresAt).getTime() <= now.getTime();
+}
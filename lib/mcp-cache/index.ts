@@ -0,0 +1,109 @@
+// lib/mcp-cache/index.ts
+
+import path from "path";
+import { InMemoryMCPCacheStore, FileMCPCacheStore, type MCPCacheStore } from "./cache-store";
+import { MCPCache, DEFAULT_MCP_CACHE_TTLS } from "./mcp-cache";
+import { SupabaseMCPCacheStore } from "./supabase-cache-store";
+import { loggers } from "@/lib/utils/logger";
+import type { MCPCacheBackend, MCPCacheTtls } from "@/types/mcp-cache";
+
+export {
+  InMemoryMCPCacheStore,
+  FileMCPCacheStore,
+  type MCPCacheStore,
+} from "./cache-store";
+export { SupabaseMCPCacheStore } from "./supabase-cache-store";
+export { MCPCache, DEFAULT_MCP_CACHE_TTLS, cacheKey } from "./mcp-cache";
+
+const MCP_CACHE_BACKENDS: MCPCacheBackend[] = ["memory", "filesystem", "supabase"];
+
+/**
+ * Directory of the filesystem cache when MCP_CACHE_DIR isn't set
+ */
+export const DEFAULT_MCP_CACHE_DIR = path.join(process.cwd(), ".cache", "mcp");
+
+/**
+ * Where MCP results are cached (MCP_CACHE=memory|filesystem|supabase|off).
+ * Unset means memory; off means every call goes to the server.
+ */
+export function getMCPCacheBackend(): MCPCacheBackend | null {
+  const backend = process.env.MCP_CACHE || "memory";
+  if (backend === "off") return null;
+  if (!MCP_CACHE_BACKENDS.includes(backend as MCPCacheBackend)) {
+    throw new Error(
+      `MCP_CACHE must be one of ${[...MCP_CACHE_BACKENDS, "off"].join(", ")}, got "${backend}"`
+    );
+  }
+  return backend as MCPCacheBackend;
+}
+
+/**
+ * TTLs in seconds per tool: the defaults, overridden by MCP_CACHE_TTLS
+ * (JSON, e.g. '{"search_nodes":600,"get_node_for_task":0}'; 0 disables
+ * caching of a tool)
+ */
+export function getMCPCacheTtls(
+  raw: string | undefined = process.env.MCP_CACHE_TTLS
+): MCPCacheTtls {
+  if (!raw || !raw.trim()) return { ...DEFAULT_MCP_CACHE_TTLS };
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `MCP_CACHE_TTLS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (
+    !overrides ||
+    typeof overrides !== "object" ||
+    Array.isArray(overrides) ||
+    Object.values(overrides).some((ttl) => typeof ttl !== "number" || ttl < 0)
+  ) {
+    throw new Error("MCP_CACHE_TTLS must map tool names to TTLs in seconds");
+  }
+  return { ...DEFAULT_MCP_CACHE_TTLS, ...(overrides as MCPCacheTtls) };
+}
+
+export function createMCPCacheStore(backend: MCPCacheBackend): MCPCacheStore {
+  switch (backend) {
+    case "memory":
+      return new InMemoryMCPCacheStore();
+    case "filesystem":
+      return new FileMCPCacheStore(process.env.MCP_CACHE_DIR || DEFAULT_MCP_CACHE_DIR);
+    case "supabase":
+      return new SupabaseMCPCacheStore();
+  }
+}
+
+let mcpCache: MCPCache | null | undefined;
+
+/**
+ * The cache MCP tool calls go through, or null when caching is off.
+ * Created from MCP_CACHE, MCP_CACHE_DIR and MCP_CACHE_TTLS on first use;
+ * an invalid configuration is logged once and turns caching off rather
+ * than failing every tool call.
+ */
+export function getMCPCache(): MCPCache | null {
+  if (mcpCache === undefined) {
+    try {
+      const backend = getMCPCacheBackend();
+      mcpCache = backend ? new MCPCache(createMCPCacheStore(backend), getMCPCacheTtls()) : null;
+    } catch (error) {
+      loggers.mcp.warn(
+        `MCP cache disabled: ${error instanceof Error ? error.message : String(error)}`
+      );
+      mcpCache = null;
+    }
+  }
+  return mcpCache;
+}
+
+/**
+ * Replace the cache, e.g. a fresh one per test. Null turns caching off;
+ * undefined reads the environment again.
+ */
+export function useMCPCache(cache: MCPCache | null | undefined): void {
+  mcpCache = cache;
+}
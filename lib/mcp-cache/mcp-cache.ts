@@ -0,0 +1,152 @@
+// lib/mcp-cache/mcp-cache.ts
+
+import { createHash } from "crypto";
+import type { MCPCacheStore } from "./cache-store";
+import { loggers } from "@/lib/utils/logger";
+import { perfTracker } from "@/lib/utils/performance-tracker";
+import type {
+  MCPCacheStats,
+  MCPCacheToolStats,
+  MCPCacheTtls,
+} from "@/types/mcp-cache";
+
+const HOUR = 60 * 60;
+
+/**
+ * Node metadata only changes when the MCP server's node catalog is
+ * updated, so it is kept for a day. Searches and task templates are kept
+ * shorter so catalog improvements show up sooner.
+ */
+export const DEFAULT_MCP_CACHE_TTLS: MCPCacheTtls = {
+  get_node_info: 24 * HOUR,
+  get_node_essentials: 24 * HOUR,
+  get_node_schema: 24 * HOUR,
+  get_node_documentation: 24 * HOUR,
+  search_node_properties: 24 * HOUR,
+  get_input_schema: 24 * HOUR,
+  get_output_schema: 24 * HOUR,
+  search_nodes: HOUR,
+  list_nodes: HOUR,
+  list_node_types: HOUR,
+  list_ai_tools: HOUR,
+  get_node_for_task: 15 * 60,
+};
+
+/**
+ * Cache of MCP tool results, keyed by server, tool name and arguments
+ *
+ * Results of tools with a TTL are served from the store until they
+ * expire; other tools always go to the server. The cache never fails a
+ * call: when the store is unavailable the call is made live. Hits and
+ * misses are counted in perfTracker as MCP_Cache_Hit_<tool> and
+ * MCP_Cache_Miss_<tool>.
+ */
+export class MCPCache {
+  private toolStats = new Map<string, MCPCacheToolStats>();
+
+  constructor(
+    readonly store: MCPCacheStore,
+    private ttls: MCPCacheTtls = DEFAULT_MCP_CACHE_TTLS,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Whether results of a tool are cached
+   */
+  isCached(tool: string): boolean {
+    return (this.ttls[tool] ?? 0) > 0;
+  }
+
+  /**
+   * The cached result of a call, or the live result, stored when
+   * `cacheable` accepts it (e.g. not an error result). `server` identifies
+   * the MCP server and profile answering the call, whose node catalogs
+   * may differ.
+   */
+  async fetch<T>(
+    tool: string,
+    args: unknown,
+    live: () => Promise<T>,
+    cacheable: (result: T) => boolean = () => true,
+    server = ""
+  ): Promise<T> {
+    if (!this.isCached(tool)) {
+      return live();
+    }
+
+    const key = cacheKey(tool, args, server);
+    try {
+      const entry = await this.store.get(key, this.now());
+      if (entry) {
+        this.count(tool, "hits");
+        return entry.value as T;
+      }
+    } catch (error) {
+      loggers.mcp.warn(`MCP cache lookup for ${tool} failed, calling the server:`, error);
+    }
+
+    this.count(tool, "misses");
+    const result = await live();
+    if (cacheable(result)) {
+      const createdAt = this.now();
+      try {
+        await this.store.set({
+          key,
+          tool,
+          args,
+          value: result,
+          createdAt: createdAt.toISOString(),
+          expiresAt: new Date(createdAt.getTime() + this.ttls[tool] * 1000).toISOString(),
+        });
+      } catch (error) {
+        loggers.mcp.warn(`Failed to cache ${tool} result:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Drop the cached results of one tool, or of all tools
+   */
+  async invalidate(tool?: string): Promise<number> {
+    const removed = await this.store.invalidate(tool);
+    loggers.mcp.info(`Invalidated ${removed} cached MCP result(s)${tool ? ` of ${tool}` : ""}`);
+    return removed;
+  }
+
+  /**
+   * Hits and misses since the cache was created
+   */
+  stats(): MCPCacheStats {
+    const byTool = Object.fromEntries(
+      Array.from(this.toolStats, ([tool, stats]) => [tool, { ...stats }])
+    );
+    const total = (field: keyof MCPCacheToolStats) =>
+      Object.values(byTool).reduce((sum, stats) => sum + stats[field], 0);
+    return { hits: total("hits"), misses: total("misses"), byTool };
+  }
+
+  private count(tool: string, field: keyof MCPCacheToolStats): void {
+    const stats = this.toolStats.get(tool) ?? { hits: 0, misses: 0 };
+    stats[field]++;
+    this.toolStats.set(tool, stats);
+    perfTracker.increment(`MCP_Cache_${field === "hits" ? "Hit" : "Miss"}_${tool}`);
+  }
+}
+
+/**
+ * Key of a call to a server that doesn't depend on the order of object keys
+ */
+export function cacheKey(tool: string, args: unknown, server = ""): string {
+  const canonical = JSON.stringify(args ?? {}, (_key, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, value[key]])
+      );
+    }
+    return value;
+  });
+  return createHash("sha256").update(`${server}\n${tool}\n${canonical}`).digest("hex");
+}
@@ -0,0 +1,64 @@
+// lib/mcp-cache/supabase-cache-store.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import type { MCPCacheStore } from "./cache-store";
+import type { MCPCacheEntry } from "@/types/mcp-cache";
+
+/**
+ * Cached tool results in the Supabase mcp_cache table, shared by every
+ * instance (see scripts/create-mcp-cache-table.sql)
+ */
+export class SupabaseMCPCacheStore implements MCPCacheStore {
+  private supabase = createServiceClient();
+
+  async get(key: string, now: Date): Promise<MCPCacheEntry | null> {
+    const { data, error } = await this.supabase
+      .from("mcp_cache")
+      .select("*")
+      .eq("key", key)
+      .gt("expires_at", now.toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load MCP cache entry: ${error.message}`);
+    }
+    return data ? toEntry(data) : null;
+  }
+
+  async set(entry: MCPCacheEntry): Promise<void> {
+    const { error } = await this.supabase.from("mcp_cache").upsert({
+      key: entry.key,
+      tool: entry.tool,
+      args: entry.args,
+      value: entry.value,
+      created_at: entry.createdAt,
+      expires_at: entry.expiresAt,
+    });
+
+    if (error) {
+      throw new Error(`Failed to store MCP cache entry: ${error.message}`);
+    }
+  }
+
+  async invalidate(tool?: string): Promise<number> {
+    const query = this.supabase.from("mcp_cache").delete({ count: "exact" });
+    // Deletes need a filter; every key is non-empty
+    const { count, error } = tool ? await query.eq("tool", tool) : await query.neq("key", "");
+
+    if (error) {
+      throw new Error(`Failed to invalidate MCP cache: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+}
+
+function toEntry(row: any): MCPCacheEntry {
+  return {
+    key: row.key,
+    tool: row.tool,
+    args: row.args,
+    value: row.value,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
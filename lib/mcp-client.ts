@@ -12,6 +12,9 @@ import type {
 import { MCPConnectionError } from './mcp-error-handler';
 import { loggers } from './utils/logger';
 import { perfTracker } from './utils/performance-tracker';
+import { throwIfCancelled } from './utils/cancellation';
+import { getActiveCassette, isReplayingCassette } from './cassettes';
+import { getMCPCache } from './mcp-cache';
 
 /**
  * MCP Client configuration
@@ -25,6 +28,13 @@ interface MCPClientConfig {
   connectionTimeout?: number;
 }
 
+/**
+ * Per-call options for tool calls
+ */
+export interface MCPCallOptions {
+  signal?: AbortSignal; // Aborts the call when the session is cancelled
+}
+
 /**
  * MCP Tool parameters based on PRD
  */
@@ -48,6 +58,7 @@ export interface MCPToolParams {
  */
 class MCPClient {
   private static instance: MCPClient | null = null;
+  private static profileInstances = new Map<string, MCPClient>();
   private client: Client | null = null;
   private transport: StreamableHTTPClientTransport | null = null;
   private config: MCPClientConfig;
@@ -80,6 +91,23 @@ class MCPClient {
     return MCPClient.instance;
   }
   
+  /**
+   * Get a client for a named profile of the MCP server, kept apart from the
+   * singleton. Each profile carries its own n8n instance settings, so
+   * deployments can target different n8n instances.
+   */
+  public static forProfile(
+    profile: string,
+    config: Omit<MCPClientConfig, 'profile'>
+  ): MCPClient {
+    let client = MCPClient.profileInstances.get(profile);
+    if (!client) {
+      client = new MCPClient({ ...config, profile });
+      MCPClient.profileInstances.set(profile, client);
+    }
+    return client;
+  }
+
   /**
    * Reset the singleton instance (useful for reconnection scenarios)
    */
@@ -98,6 +126,11 @@ class MCPClient {
       return;
     }
 
+    // Tool calls are served from the cassette, so there is nothing to connect to
+    if (isReplayingCassette()) {
+      return;
+    }
+
     // Skip cooldown if this is a reconnection attempt after error
     if (!this.isReconnecting) {
       // Implement connection cooldown only for new connection attempts
@@ -244,15 +277,19 @@ class MCPClient {
    */
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
-    operationName: string
+    operationName: string,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt <= this.config.maxRetries!; attempt++) {
       try {
+        throwIfCancelled(signal);
         await this.ensureConnected();
         return await operation();
       } catch (error) {
+        // Cancelled calls are not retried
+        throwIfCancelled(signal);
         lastError = error as Error;
         loggers.mcp.debug(`${operationName} failed (attempt ${attempt + 1}):`, error);
         
@@ -293,14 +330,41 @@ class MCPClient {
   /**
    * Call a tool
    */
-  public async callTool(name: string, params: MCPToolParams): Promise<CallToolResult> {
+  public async callTool(
+    name: string,
+    params: MCPToolParams,
+    options: MCPCallOptions = {}
+  ): Promise<CallToolResult> {
     loggers.mcp.verbose(`Calling tool: ${name} with params:`, params);
     
+    const cassette = getActiveCassette();
+    // A cassette must see every call it records or replays, so it bypasses the cache
+    const cache = cassette ? null : getMCPCache();
     const result = await perfTracker.measure(`MCP_Tool_${name}`, async () => {
-      return await this.executeWithRetry(
-        async () => this.client!.callTool({ name, arguments: params as { [x: string]: unknown } }),
-        `callTool(${name})`
+      const call = () => this.executeWithRetry(
+        async () => this.client!.callTool(
+          { name, arguments: params as { [x: string]: unknown } },
+          undefined,
+          { signal: options.signal }
+        ),
+        `callTool(${name})`,
+        options.signal
       );
+      throwIfCancelled(options.signal);
+      if (cassette) {
+        return await cassette.play('mcp', { name, params }, call);
+      }
+      if (cache) {
+        // Error results (e.g. node not found) may succeed once the catalog is updated
+        return await cache.fetch(
+          name,
+          params,
+          call,
+          (r) => !r.isError,
+          `${this.config.serverUrl}#${this.config.profile}`
+        );
+      }
+      return await call();
     }, { params });
     
     // Extract useful info from result for INFO level logging
@@ -379,17 +443,17 @@ class MCPClient {
   /**
    * Search nodes (Discovery phase)
    */
-  public async searchNodes(params: { query: string; limit?: number }): Promise<CallToolResult> {
+  public async searchNodes(params: { query: string; limit?: number }, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`🔍 Searching nodes for: "${params.query}" (limit: ${params.limit || 'default'})`);
-    return this.callTool('search_nodes', params);
+    return this.callTool('search_nodes', params, options);
   }
 
   /**
    * Get node info (Discovery phase)
    */
-  public async getNodeInfo(nodeType: string): Promise<CallToolResult> {
+  public async getNodeInfo(nodeType: string, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`📖 Getting info for node type: ${nodeType}`);
-    return this.callTool('get_node_info', { nodeType });
+    return this.callTool('get_node_info', { nodeType }, options);
   }
 
   /**
@@ -419,9 +483,9 @@ class MCPClient {
   /**
    * Get node essentials (Configuration phase)
    */
-  public async getNodeEssentials(nodeType: string): Promise<CallToolResult> {
+  public async getNodeEssentials(nodeType: string, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`🔧 Getting essentials for configuration: ${nodeType}`);
-    return this.callTool('get_node_essentials', { nodeType });
+    return this.callTool('get_node_essentials', { nodeType }, options);
   }
 
   /**
@@ -447,29 +511,29 @@ class MCPClient {
   /**
    * Search node properties (Configuration phase)
    */
-  public async searchNodeProperties(nodeType: string, query: string, maxResults?: number): Promise<CallToolResult> {
+  public async searchNodeProperties(nodeType: string, query: string, maxResults?: number, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`🔍 Searching properties for ${nodeType}: "${query}"`);
     return this.callTool('search_node_properties', { 
       nodeType, 
       query,
       maxResults: maxResults || 20
-    });
+    }, options);
   }
 
   /**
    * Get pre-configured node for task (Configuration phase)
    */
-  public async getNodeForTask(task: string): Promise<CallToolResult> {
+  public async getNodeForTask(task: string, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`📦 Getting pre-configured node for task: ${task}`);
-    return this.callTool('get_node_for_task', { task });
+    return this.callTool('get_node_for_task', { task }, options);
   }
 
   /**
    * Get node documentation (Configuration phase)
    */
-  public async getNodeDocumentation(nodeType: string): Promise<CallToolResult> {
+  public async getNodeDocumentation(nodeType: string, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`📚 Getting documentation for ${nodeType}`);
-    return this.callTool('get_node_documentation', { nodeType });
+    return this.callTool('get_node_documentation', { nodeType }, options);
   }
 
   /**
@@ -505,9 +569,9 @@ class MCPClient {
   /**
    * Validate node configuration - minimal check (Configuration phase)
    */
-  public async validateNodeMinimal(nodeType: string, config: any): Promise<CallToolResult> {
+  public async validateNodeMinimal(nodeType: string, config: any, options?: MCPCallOptions): Promise<CallToolResult> {
     loggers.mcp.debug(`✅ Running minimal validation for ${nodeType}`);
-    return this.callTool('validate_node_minimal', { nodeType, config });
+    return this.callTool('validate_node_minimal', { nodeType, config }, options);
   }
 
   /**
@@ -551,6 +615,19 @@ class MCPClient {
     return this.callTool('n8n_create_workflow', workflow);
   }
 
+  /**
+   * Replace a workflow previously deployed to n8n (redeploy)
+   */
+  public async updateWorkflow(id: string, workflow: any): Promise<CallToolResult> {
+    loggers.mcp.debug(`🚀 Updating n8n workflow ${id} with ${workflow.nodes?.length || 0} nodes`);
+
+    if (!workflow || !workflow.nodes || !workflow.connections) {
+      throw new Error(`Invalid workflow object. Missing required properties: nodes or connections`);
+    }
+
+    return this.callTool('n8n_update_full_workflow', { id, ...workflow });
+  }
+
   /**
    * Get connection status
    */
@@ -279,56 +279,3 @@ export const MCPErrorRecovery = {
     console.error('[MCP Error]', JSON.stringify(errorInfo, null, 2));
   }
 };
-
-/**
- * Cache manager for fallback scenarios
- */
-export class MCPCacheManager {
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
-  private readonly TTL = 3600000; // 1 hour
-
-  /**
-   * Get cached data
-   */
-  get(key: string): any | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    // Check if expired
-    if (Date.now() - entry.timestamp > this.TTL) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return entry.data;
-  }
-
-  /**
-   * Set cached data
-   */
-  set(key: string, data: any): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now()
-    });
-  }
-
-  /**
-   * Clear expired entries
-   */
-  cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.TTL) {
-        this.cache.delete(key);
-      }
-    }
-  }
-
-  /**
-   * Clear all cache
-   */
-  clear(): void {
-    this.cache.clear();
-  }
-}
\ No newline at end of file
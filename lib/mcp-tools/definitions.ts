@@ -203,7 +203,8 @@ export const PHASE_TOOLS: Record<WorkflowPhase, ToolDefinition[]> = {
   validation: Object.values(VALIDATION_TOOLS),
   building: [], // No tools needed for building phase
   documentation: [], // No tools needed for documentation phase
-  complete: [] // No tools needed for complete phase
+  complete: [], // No tools needed for complete phase
+  cancelled: []
 };
 
 /**
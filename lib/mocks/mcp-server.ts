@@ -0,0 +1,592 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { z } from "zod";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import defaultFixture from "./fixtures/n8n-nodes.json";
+
+/**
+ * One node parameter, as n8n describes it
+ */
+export interface MockNodeProperty {
+  name: string;
+  displayName: string;
+  type: string;
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+  options?: string[]; // Allowed values of an options parameter
+}
+
+export interface MockNodeDefinition {
+  nodeType: string; // Short form, e.g. nodes-base.slack
+  displayName: string;
+  description: string;
+  category: string;
+  package: string;
+  version: number; // Latest typeVersion
+  isTrigger?: boolean;
+  isAITool?: boolean;
+  outputs?: string[]; // Output names when a node has more than one, e.g. true and false
+  outputFields?: Record<string, string>; // Fields of each output item, by type
+  keywords?: string[];
+  properties: MockNodeProperty[];
+  credentials?: string[];
+  documentation?: string;
+}
+
+export interface MockTaskTemplate {
+  task: string;
+  nodeType: string;
+  description: string;
+  configuration: Record<string, unknown>;
+}
+
+export interface MockNodeFixture {
+  nodes: MockNodeDefinition[];
+  tasks: MockTaskTemplate[];
+}
+
+export interface MockMcpServerOptions {
+  fixture?: MockNodeFixture; // Defaults to fixtures/n8n-nodes.json
+  apiKey?: string; // Requests must send it as the api_key query parameter when set
+  port?: number; // Defaults to a free port
+  host?: string; // Defaults to 127.0.0.1
+}
+
+export interface MockMcpServer {
+  url: string; // Server URL for MCPClient; any path serves MCP
+  calls: Array<{ name: string; arguments: Record<string, unknown> }>;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_NODE_FIXTURE = defaultFixture as unknown as MockNodeFixture;
+
+/**
+ * Local stand-in for the n8n-mcp server, used by integration tests and to
+ * run the app offline (npm run mcp:mock)
+ *
+ * Serves the node search, information, task template, input/output
+ * schema, workflow generation and validation tools over the same
+ * streamable HTTP transport MCPClient connects with, answered from a
+ * fixture of node definitions. Stateless: each request gets its own MCP
+ * server, so no session has to be kept.
+ */
+export async function startMockMcpServer(
+  options: MockMcpServerOptions = {}
+): Promise<MockMcpServer> {
+  const catalog = new NodeCatalog(options.fixture ?? DEFAULT_NODE_FIXTURE);
+  const calls: MockMcpServer["calls"] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const url = new URL(req.url || "/", "http://localhost");
+    if (options.apiKey && url.searchParams.get("api_key") !== options.apiKey) {
+      return send(401, { jsonrpc: "2.0", error: { code: -32001, message: "Unauthorized" }, id: null });
+    }
+    // No server-initiated messages and no sessions to end
+    if (req.method !== "POST") {
+      return send(405, { jsonrpc: "2.0", error: { code: -32000, message: "Method not allowed." }, id: null });
+    }
+
+    const mcp = createToolServer(catalog, calls);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    res.on("close", () => {
+      transport.close();
+      mcp.close();
+    });
+
+    try {
+      await mcp.connect(transport);
+      await transport.handleRequest(req, res, await readJson(req));
+    } catch (error) {
+      if (!res.headersSent) {
+        send(500, {
+          jsonrpc: "2.0",
+          error: { code: -32603, message: error instanceof Error ? error.message : "Internal server error" },
+          id: null,
+        });
+      }
+    }
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, host, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}`,
+    calls,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// ==========================================
+// Tools
+// ==========================================
+
+function createToolServer(catalog: NodeCatalog, calls: MockMcpServer["calls"]): McpServer {
+  const mcp = new McpServer({ name: "n8n-mcp-mock", version: "1.0.0" });
+
+  const tool = <Shape extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    inputSchema: Shape,
+    handler: (args: z.objectOutputType<Shape, z.ZodTypeAny>) => unknown
+  ) => {
+    // Typed for any shape: the SDK parses args against inputSchema first
+    const callback: ToolCallback<z.ZodRawShape> = async (args): Promise<CallToolResult> => {
+      calls.push({ name, arguments: args });
+      try {
+        const result = handler(args as z.objectOutputType<Shape, z.ZodTypeAny>);
+        return { content: [{ type: "text", text: typeof result === "string" ? result : JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        // Worded like n8n-mcp, which callers check for
+        const message = error instanceof Error ? error.message : String(error);
+        return { content: [{ type: "text", text: `Error executing tool ${name}: ${message}` }], isError: true };
+      }
+    };
+    mcp.registerTool<z.ZodRawShape, z.ZodRawShape>(name, { description, inputSchema }, callback);
+  };
+
+  const nodeType = { nodeType: z.string() };
+
+  tool("search_nodes", "Search nodes by keywords", { query: z.string(), limit: z.number().optional() }, ({ query, limit }) => {
+    const results = catalog.search(query).slice(0, limit ?? 20);
+    return { query, results: results.map(summarize), totalCount: results.length };
+  });
+
+  tool("list_nodes", "List nodes, optionally by category", { category: z.string().optional(), limit: z.number().optional() }, ({ category, limit }) => {
+    const nodes = catalog.nodes.filter((node) => !category || node.category === category);
+    return { nodes: nodes.slice(0, limit ?? 50).map(summarize), totalCount: nodes.length };
+  });
+
+  tool("list_node_types", "List all node types", {}, () => ({
+    nodeTypes: catalog.nodes.map((node) => node.nodeType),
+  }));
+
+  tool("list_ai_tools", "List nodes usable as AI agent tools", {}, () => {
+    const tools = catalog.nodes.filter((node) => node.isAITool);
+    return { tools: tools.map(summarize), totalCount: tools.length };
+  });
+
+  tool("get_node_info", "Full node definition", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    const { documentation: _documentation, keywords: _keywords, ...info } = node;
+    return { ...info, operations: operationsOf(node) };
+  });
+
+  tool("get_node_schema", "Node parameter schema", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    return { nodeType: node.nodeType, version: node.version, properties: node.properties };
+  });
+
+  tool("get_node_essentials", "Required and common node parameters", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    return {
+      nodeType: node.nodeType,
+      displayName: node.displayName,
+      description: node.description,
+      category: node.category,
+      version: node.version,
+      isTrigger: !!node.isTrigger,
+      requiredProperties: node.properties.filter((p) => p.required),
+      commonProperties: node.properties.filter((p) => !p.required),
+      operations: operationsOf(node),
+      credentials: node.credentials ?? [],
+    };
+  });
+
+  tool("get_input_schema", "Inputs a node accepts", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    // Triggers start a workflow, so nothing connects into them
+    const inputs = node.isTrigger ? [] : [{ index: 0, type: "main" }];
+    return { nodeType: node.nodeType, inputs, acceptsInput: inputs.length > 0 };
+  });
+
+  tool("get_output_schema", "Outputs a node produces", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    return {
+      nodeType: node.nodeType,
+      outputs: (node.outputs ?? ["main"]).map((name, index) => ({ index, name, type: "main" })),
+      itemSchema: {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(node.outputFields ?? {}).map(([field, type]) => [field, { type }])
+        ),
+      },
+    };
+  });
+
+  tool("get_node_documentation", "Node documentation in markdown", nodeType, ({ nodeType }) => {
+    const node = catalog.require(nodeType);
+    return node.documentation ?? `# ${node.displayName}\n\n${node.description}`;
+  });
+
+  tool(
+    "search_node_properties",
+    "Search the parameters of a node",
+    { nodeType: z.string(), query: z.string(), maxResults: z.number().optional() },
+    ({ nodeType, query, maxResults }) => {
+      const node = catalog.require(nodeType);
+      const terms = words(query);
+      const matches = node.properties
+        .filter((p) => terms.some((term) => `${p.name} ${p.displayName} ${p.description ?? ""}`.toLowerCase().includes(term)))
+        .slice(0, maxResults ?? 20)
+        .map((p) => ({ ...p, path: p.name }));
+      return { nodeType: node.nodeType, query, matches, totalMatches: matches.length };
+    }
+  );
+
+  tool("get_node_for_task", "Preconfigured node for a common task", { task: z.string() }, ({ task }) => {
+    const template = catalog.tasks.find((t) => t.task === task);
+    if (!template) {
+      throw new Error(`Unknown task: ${task}. Available tasks: ${catalog.tasks.map((t) => t.task).join(", ")}`);
+    }
+    const node = catalog.require(template.nodeType);
+    return {
+      task,
+      description: template.description,
+      nodeType: node.nodeType,
+      displayName: node.displayName,
+      category: node.category,
+      configuration: template.configuration,
+      userMustProvide: node.properties
+        .filter((p) => p.required && isEmpty(template.configuration[p.name]))
+        .map((p) => ({ property: p.name, description: p.description })),
+    };
+  });
+
+  tool("validate_node_minimal", "Check required node parameters", { nodeType: z.string(), config: z.record(z.any()) }, ({ nodeType, config }) => {
+    const node = catalog.require(nodeType);
+    const missingRequiredFields = missingFields(node, config);
+    return {
+      nodeType: node.nodeType,
+      displayName: node.displayName,
+      valid: missingRequiredFields.length === 0,
+      missingRequiredFields,
+    };
+  });
+
+  tool(
+    "validate_node_operation",
+    "Validate node parameters",
+    { nodeType: z.string(), config: z.record(z.any()), profile: z.string().optional() },
+    ({ nodeType, config, profile }) => {
+      const node = catalog.require(nodeType);
+      const errors = validateParameters(node, config);
+      return {
+        nodeType: node.nodeType,
+        profile: profile ?? "runtime",
+        valid: errors.length === 0,
+        errors,
+        warnings: [],
+        summary: { hasErrors: errors.length > 0, errorCount: errors.length, warningCount: 0 },
+      };
+    }
+  );
+
+  tool(
+    "validate_workflow",
+    "Validate a complete workflow",
+    { workflow: z.any(), options: z.record(z.any()).optional() },
+    ({ workflow }) => validateWorkflow(catalog, workflow)
+  );
+
+  tool("check_connections", "Check workflow connections", { connections: z.any() }, ({ connections }) => {
+    const count = Array.isArray(connections) ? connections.length : Object.keys(connections || {}).length;
+    return { valid: true, connectionCount: count, errors: [] };
+  });
+
+  tool(
+    "generate_workflow",
+    "Build a workflow from nodes and the connections between them",
+    { nodes: z.array(z.any()), connections: z.array(z.any()) },
+    ({ nodes, connections }) => ({ workflow: generateWorkflow(catalog, nodes, connections) })
+  );
+
+  tool(
+    "optimize_workflow",
+    "Suggest improvements to a workflow",
+    { workflow: z.any() },
+    ({ workflow }) => {
+      // Nothing to rewrite offline: the workflow comes back as is, with the
+      // validation findings as suggestions
+      const { errors, warnings } = validateWorkflow(catalog, workflow);
+      return {
+        workflow,
+        optimized: false,
+        suggestions: [...errors, ...warnings].map((finding) => finding.message),
+      };
+    }
+  );
+
+  return mcp;
+}
+
+// ==========================================
+// Node Catalog
+// ==========================================
+
+class NodeCatalog {
+  private byType = new Map<string, MockNodeDefinition>();
+
+  constructor(private fixture: MockNodeFixture) {
+    for (const node of fixture.nodes) {
+      this.byType.set(node.nodeType.toLowerCase(), node);
+    }
+  }
+
+  get nodes(): MockNodeDefinition[] {
+    return this.fixture.nodes;
+  }
+
+  get tasks(): MockTaskTemplate[] {
+    return this.fixture.tasks;
+  }
+
+  /**
+   * Look up a node by any form of its type: nodes-base.slack,
+   * n8n-nodes-base.slack or @n8n/n8n-nodes-langchain.agent
+   */
+  find(nodeType: string): MockNodeDefinition | undefined {
+    const short = nodeType.replace(/^@n8n\//, "").replace(/^n8n-/, "");
+    return this.byType.get(short.toLowerCase());
+  }
+
+  require(nodeType: string): MockNodeDefinition {
+    const node = this.find(nodeType);
+    if (!node) throw new Error(`Node ${nodeType} not found`);
+    return node;
+  }
+
+  /**
+   * Nodes matching any word of the query, best matches first
+   */
+  search(query: string): MockNodeDefinition[] {
+    const terms = words(query);
+    const scored = this.fixture.nodes.map((node) => {
+      const name = `${node.displayName} ${node.nodeType}`.toLowerCase();
+      const text = `${node.description} ${(node.keywords ?? []).join(" ")}`.toLowerCase();
+      const score = terms.reduce(
+        (sum, term) => sum + (name.includes(term) ? 10 : 0) + (text.includes(term) ? 1 : 0),
+        0
+      );
+      return { node, score };
+    });
+    return scored
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((entry) => entry.node);
+  }
+}
+
+// ==========================================
+// Validation
+// ==========================================
+
+function validateParameters(node: MockNodeDefinition, config: Record<string, unknown>) {
+  const errors: Array<{ type: string; property: string; message: string; fix?: string }> = missingFields(
+    node,
+    config
+  ).map((property) => ({
+    type: "missing_required",
+    property,
+    message: `Required property '${property}' is missing`,
+    fix: `Add ${property} to the node parameters`,
+  }));
+
+  for (const property of node.properties) {
+    const value = config[property.name];
+    if (
+      property.options &&
+      typeof value === "string" &&
+      !isExpression(value) &&
+      !property.options.includes(value)
+    ) {
+      errors.push({
+        type: "invalid_value",
+        property: property.name,
+        message: `Invalid value for '${property.name}'. Must be one of: ${property.options.join(", ")}`,
+        fix: `Change ${property.name} to one of the allowed values`,
+      });
+    }
+  }
+  return errors;
+}
+
+function validateWorkflow(catalog: NodeCatalog, workflow: any) {
+  const errors: Array<{ node?: string; message: string }> = [];
+  const warnings: Array<{ node?: string; message: string }> = [];
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : [];
+  const names = new Set<string>();
+  let triggerNodes = 0;
+
+  if (nodes.length === 0) {
+    errors.push({ message: "Workflow must have at least one node" });
+  }
+
+  for (const node of nodes) {
+    if (names.has(node.name)) {
+      errors.push({ node: node.name, message: `Duplicate node name: "${node.name}"` });
+    }
+    names.add(node.name);
+
+    const definition = catalog.find(String(node.type || ""));
+    if (!definition) {
+      errors.push({ node: node.name, message: `Unknown node type: "${node.type}"` });
+      continue;
+    }
+    if (definition.isTrigger) triggerNodes++;
+
+    if (typeof node.typeVersion === "number" && node.typeVersion < definition.version) {
+      warnings.push({
+        node: node.name,
+        message: `Outdated typeVersion: ${node.typeVersion}. Latest is ${definition.version}`,
+      });
+    }
+    for (const error of validateParameters(definition, node.parameters || {})) {
+      errors.push({ node: node.name, message: error.message });
+    }
+  }
+
+  let validConnections = 0;
+  let invalidConnections = 0;
+  for (const [source, outputs] of Object.entries<any>(workflow?.connections || {})) {
+    if (!names.has(source)) {
+      invalidConnections++;
+      errors.push({ message: `Connection from non-existent node: "${source}"` });
+    }
+    for (const output of Object.values<any>(outputs || {})) {
+      for (const targets of Array.isArray(output) ? output : []) {
+        for (const target of Array.isArray(targets) ? targets : []) {
+          if (names.has(target?.node)) {
+            validConnections++;
+          } else {
+            invalidConnections++;
+            errors.push({ node: source, message: `Connection to non-existent node: "${target?.node}"` });
+          }
+        }
+      }
+    }
+  }
+
+  if (nodes.length > 0 && triggerNodes === 0) {
+    warnings.push({ message: "Workflow has no trigger node. It can only be executed manually" });
+  }
+
+  return {
+    valid: errors.length === 0,
+    summary: {
+      totalNodes: nodes.length,
+      enabledNodes: nodes.filter((node) => !node.disabled).length,
+      triggerNodes,
+      validConnections,
+      invalidConnections,
+      errorCount: errors.length,
+      warningCount: warnings.length,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Lay out the nodes left to right and wire up connections given as
+ * { from, to, outputIndex? }, with nodes referenced by ID or name
+ */
+function generateWorkflow(catalog: NodeCatalog, nodes: any[], connections: any[]) {
+  const built = nodes.map((node, index) => {
+    const definition = catalog.require(String(node.type || node.nodeType || ""));
+    const [, name] = definition.nodeType.split(".");
+    return {
+      id: String(node.id ?? index + 1),
+      name: node.name || definition.displayName,
+      type: `${definition.package}.${name}`,
+      typeVersion: definition.version,
+      position: node.position ?? [240 + index * 220, 300],
+      parameters: node.parameters ?? {},
+    };
+  });
+
+  const nameOf = (ref: unknown) => {
+    const node = built.find((n) => n.id === String(ref) || n.name === ref);
+    if (!node) throw new Error(`Connection references unknown node: ${ref}`);
+    return node.name;
+  };
+  const wired: Record<string, { main: Array<Array<{ node: string; type: string; index: number }>> }> = {};
+  for (const connection of connections) {
+    const source = nameOf(connection.from ?? connection.source);
+    const target = nameOf(connection.to ?? connection.target);
+    const output = Number(connection.outputIndex ?? 0);
+    const main = (wired[source] ??= { main: [] }).main;
+    while (main.length <= output) main.push([]);
+    main[output].push({ node: target, type: "main", index: 0 });
+  }
+
+  return { name: "Generated workflow", nodes: built, connections: wired, settings: { executionOrder: "v1" } };
+}
+
+function missingFields(node: MockNodeDefinition, config: Record<string, unknown>): string[] {
+  return node.properties.filter((p) => p.required && isEmpty(config[p.name])).map((p) => p.name);
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function summarize(node: MockNodeDefinition) {
+  return {
+    nodeType: node.nodeType,
+    displayName: node.displayName,
+    description: node.description,
+    category: node.category,
+    package: node.package,
+  };
+}
+
+function operationsOf(node: MockNodeDefinition): string[] {
+  return node.properties.find((p) => p.name === "operation")?.options ?? [];
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  // Resource locators hold the chosen value in { mode, value }
+  if (typeof value === "object" && !Array.isArray(value) && "value" in value) {
+    return isEmpty((value as { value: unknown }).value);
+  }
+  return false;
+}
+
+function isExpression(value: string): boolean {
+  return value.startsWith("=");
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,133 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type {
+  N8nCredentialSummary,
+  N8nRemoteWorkflow,
+} from "@/lib/n8n-api-client";
+
+// Properties the n8n public API accepts when creating or updating a workflow
+const WORKFLOW_INPUT_KEYS = new Set(["name", "nodes", "connections", "settings"]);
+
+export interface MockN8nServerOptions {
+  apiKey: string;
+  credentials?: N8nCredentialSummary[];
+  pageSize?: number; // Credentials per page of GET /credentials
+}
+
+export interface MockN8nServer {
+  url: string;
+  workflows: Map<string, N8nRemoteWorkflow>;
+  credentials: N8nCredentialSummary[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for the n8n public REST API, used by integration tests
+ *
+ * Serves the workflow and credential endpoints N8nApiClient calls, keeps
+ * workflows in memory and rejects requests without the configured API key.
+ */
+export async function startMockN8nServer(
+  options: MockN8nServerOptions
+): Promise<MockN8nServer> {
+  const workflows = new Map<string, N8nRemoteWorkflow>();
+  const credentials = options.credentials ?? [];
+  const pageSize = options.pageSize ?? 100;
+  let nextId = 1;
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.headers["x-n8n-api-key"] !== options.apiKey) {
+      return send(401, { message: "unauthorized" });
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const path = url.pathname.replace(/^\/api\/v1/, "");
+    const body = await readJson(req);
+    const match = path.match(/^\/workflows\/([^/]+)(?:\/(activate|deactivate))?$/);
+    const workflow = match ? workflows.get(decodeURIComponent(match[1])) : undefined;
+
+    if (req.method === "GET" && path === "/credentials") {
+      const start = Number(url.searchParams.get("cursor") || 0);
+      const end = start + pageSize;
+      return send(200, {
+        data: credentials.slice(start, end),
+        nextCursor: end < credentials.length ? String(end) : null,
+      });
+    }
+
+    if (req.method === "POST" && path === "/workflows") {
+      const invalid = validateWorkflowInput(body);
+      if (invalid) return send(400, { message: invalid });
+      const now = new Date().toISOString();
+      const created: N8nRemoteWorkflow = {
+        ...body,
+        id: String(nextId++),
+        active: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+      workflows.set(created.id, created);
+      return send(200, created);
+    }
+
+    if (!match) return send(404, { message: "not found" });
+    if (!workflow) return send(404, { message: "Not Found" });
+
+    if (req.method === "GET" && !match[2]) {
+      return send(200, workflow);
+    }
+    if (req.method === "PUT" && !match[2]) {
+      const invalid = validateWorkflowInput(body);
+      if (invalid) return send(400, { message: invalid });
+      const updated = { ...workflow, ...body, updatedAt: new Date().toISOString() };
+      workflows.set(workflow.id, updated);
+      return send(200, updated);
+    }
+    if (req.method === "POST" && match[2]) {
+      workflow.active = match[2] === "activate";
+      return send(200, workflow);
+    }
+    return send(405, { message: "method not allowed" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    workflows,
+    credentials,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function validateWorkflowInput(body: any): string | null {
+  if (!body || typeof body !== "object") return "request body must be an object";
+  const extra = Object.keys(body).filter((key) => !WORKFLOW_INPUT_KEYS.has(key));
+  if (extra.length > 0) {
+    return `request/body must NOT have additional properties: ${extra.join(", ")}`;
+  }
+  if (typeof body.name !== "string" || !Array.isArray(body.nodes)) {
+    return "request/body must have required properties name, nodes";
+  }
+  return null;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,112 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * One scripted reply: either an assistant message or an HTTP error
+ */
+export type MockChatReply =
+  | {
+      content?: string;
+      toolCalls?: Array<{ id: string; name: string; arguments: unknown }>;
+      finishReason?: string;
+      usage?: { prompt_tokens: number; completion_tokens: number };
+    }
+  | { status: number; message: string };
+
+export interface MockOpenAIServerOptions {
+  apiKey?: string; // Requests must send it as a bearer token when set
+  model?: string; // Reported in every response
+  replies: MockChatReply[];
+}
+
+export interface MockOpenAIServer {
+  url: string; // API root, ending in /v1
+  requests: any[]; // Bodies of every /chat/completions request
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible chat completions server, used
+ * by integration tests
+ *
+ * Answers POST /v1/chat/completions with the scripted replies in order
+ * and records the request bodies.
+ */
+export async function startMockOpenAIServer(
+  options: MockOpenAIServerOptions
+): Promise<MockOpenAIServer> {
+  const replies = [...options.replies];
+  const requests: any[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      return send(404, { error: { message: "not found" } });
+    }
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      return send(401, { error: { message: "Incorrect API key provided" } });
+    }
+
+    const body = await readJson(req);
+    requests.push(body);
+
+    const reply = replies.shift();
+    if (!reply) {
+      return send(500, { error: { message: "no scripted reply left" } });
+    }
+    if ("status" in reply) {
+      return send(reply.status, { error: { message: reply.message } });
+    }
+
+    const toolCalls = reply.toolCalls?.map((call) => ({
+      id: call.id,
+      type: "function",
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+    const usage = reply.usage ?? { prompt_tokens: 10, completion_tokens: 5 };
+    return send(200, {
+      id: `chatcmpl-${requests.length}`,
+      object: "chat.completion",
+      model: options.model ?? body?.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: reply.content ?? null,
+            ...(toolCalls ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: reply.finishReason ?? (toolCalls ? "tool_calls" : "stop"),
+        },
+      ],
+      usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens },
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -32,10 +32,50 @@ export function mockStateResponse(request: NextRequest | Request) {
       { id: "node6", nodeType: "hubspot.create", name: "HubSpot" },
       { id: "node7", nodeType: "gmail.send", name: "Gmail" },
     ],
+    usage: {
+      totalTokens: 18500,
+      tokensByPhase: { discovery: 6200, configuration: 12300 },
+      estimatedCost: {
+        currency: "USD",
+        total: 0.1095,
+        byPhase: { discovery: 0.0366, configuration: 0.0729 },
+        unpricedTokens: 0,
+      },
+    },
     prompt: "Notify Slack on new GitHub issues",
-    pendingClarification: clarify
-      ? { questionId: "q1", question: "Which repository should we watch?" }
-      : null,
+    pendingClarifications: clarify
+      ? [
+          {
+            questionId: "q1_1",
+            question: "Which repository should we watch?",
+            answerType: "free_text",
+            required: true,
+          },
+          {
+            questionId: "q1_2",
+            question: "Which issues should trigger a message?",
+            answerType: "multi_choice",
+            options: [
+              { value: "opened", label: "New issues" },
+              { value: "reopened", label: "Reopened issues" },
+              { value: "labeled", label: "Issues given a label" },
+            ],
+            required: true,
+          },
+          {
+            questionId: "q1_3",
+            question: "Where should the message go?",
+            answerType: "service",
+            options: [
+              { value: "slack", label: "Slack" },
+              { value: "discord", label: "Discord" },
+              { value: "microsoftTeams", label: "Microsoft Teams" },
+            ],
+            required: false,
+          },
+        ]
+      : [],
+    clarificationHistory: [],
   };
 }
 
@@ -43,7 +83,7 @@ export function mockClarifyResponse() {
   return {
     success: true,
     selectedNodes: 3,
-    pendingClarification: null,
+    pendingClarifications: [],
     message: "Thanks for the clarification! Processing your workflow...",
   };
 }
@@ -0,0 +1,156 @@
+import { loggers } from './utils/logger';
+
+/**
+ * n8n API client configuration
+ */
+export interface N8nApiClientConfig {
+  baseUrl: string; // Instance URL, with or without the /api/v1 suffix
+  apiKey: string;
+  timeout?: number;
+}
+
+/**
+ * A workflow as returned by the n8n public API
+ */
+export interface N8nRemoteWorkflow {
+  id: string;
+  name: string;
+  active: boolean;
+  nodes: any[];
+  connections: Record<string, any>;
+  settings?: Record<string, any>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Workflow properties accepted by create and update - n8n rejects others
+ */
+export interface N8nWorkflowInput {
+  name: string;
+  nodes: any[];
+  connections: Record<string, any>;
+  settings?: Record<string, any>;
+}
+
+/**
+ * A credential stored in n8n (secrets are never returned)
+ */
+export interface N8nCredentialSummary {
+  id: string;
+  name: string;
+  type: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Non-2xx response from the n8n API
+ */
+export class N8nApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body?: unknown
+  ) {
+    super(message);
+    this.name = 'N8nApiError';
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+/**
+ * Client for the n8n public REST API, authenticated with an API key
+ *
+ * An alternative to the n8n tools of the MCP server for deploying
+ * workflows to an instance directly.
+ */
+export class N8nApiClient {
+  private readonly apiUrl: string;
+  private readonly timeout: number;
+
+  constructor(private config: N8nApiClientConfig) {
+    this.apiUrl = `${config.baseUrl.replace(/\/+$/, '').replace(/\/api\/v1$/, '')}/api/v1`;
+    this.timeout = config.timeout ?? 30000;
+  }
+
+  async createWorkflow(workflow: N8nWorkflowInput): Promise<N8nRemoteWorkflow> {
+    loggers.mcp.debug(`🚀 Creating n8n workflow with ${workflow.nodes.length} nodes via REST API`);
+    return this.request('POST', '/workflows', workflow);
+  }
+
+  async updateWorkflow(id: string, workflow: N8nWorkflowInput): Promise<N8nRemoteWorkflow> {
+    loggers.mcp.debug(`🚀 Updating n8n workflow ${id} via REST API`);
+    return this.request('PUT', `/workflows/${encodeURIComponent(id)}`, workflow);
+  }
+
+  async getWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('GET', `/workflows/${encodeURIComponent(id)}`);
+  }
+
+  async activateWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('POST', `/workflows/${encodeURIComponent(id)}/activate`);
+  }
+
+  async deactivateWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('POST', `/workflows/${encodeURIComponent(id)}/deactivate`);
+  }
+
+  /**
+   * All credentials of the instance, following the API's cursor pagination
+   */
+  async listCredentials(): Promise<N8nCredentialSummary[]> {
+    const credentials: N8nCredentialSummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const page = await this.request<{
+        data: N8nCredentialSummary[];
+        nextCursor?: string | null;
+      }>('GET', `/credentials${query}`);
+      credentials.push(...page.data);
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    return credentials;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}${path}`, {
+        method,
+        headers: {
+          'X-N8N-API-KEY': this.config.apiKey,
+          Accept: 'application/json',
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      throw new N8nApiError(
+        `n8n API request ${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        0
+      );
+    }
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      data = text;
+    }
+
+    if (!response.ok) {
+      const message = (data && typeof data === 'object' && data.message) || response.statusText;
+      throw new N8nApiError(`n8n API ${method} ${path} returned ${response.status}: ${message}`, response.status, data);
+    }
+    return data as T;
+  }
+}
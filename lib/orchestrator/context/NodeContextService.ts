@@ -1,7 +1,8 @@
 // lib/orchestrator/context/NodeContextService.ts
 
-import { MCPClient } from "@/lib/mcp-client";
+import { MCPClient, MCPCallOptions } from "@/lib/mcp-client";
 import { loggers } from "@/lib/utils/logger";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
 
 export interface NodeSearchResult {
   nodeType: string;
@@ -20,6 +21,8 @@ export interface NodeValidationResult {
  * Encapsulates MCP client calls for node discovery, validation, and information retrieval
  */
 export class NodeContextService {
+  private abortSignal?: AbortSignal;
+
   constructor(private mcpClient: MCPClient) {}
   
   /**
@@ -30,13 +33,24 @@ export class NodeContextService {
     return this.mcpClient;
   }
 
+  /**
+   * Set or clear the signal passed to every MCP call for the current run
+   */
+  setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+  }
+
+  private get callOptions(): MCPCallOptions {
+    return { signal: this.abortSignal };
+  }
+
   /**
    * Search for nodes based on a query
    */
   async searchNodes(query: string, limit: number = 5): Promise<NodeSearchResult[]> {
     try {
       loggers.orchestrator.debug(`Searching for nodes: "${query}"`);
-      const searchResult = await this.mcpClient.searchNodes({ query, limit });
+      const searchResult = await this.mcpClient.searchNodes({ query, limit }, this.callOptions);
 
       if (searchResult?.content?.[0]?.type === "text") {
         try {
@@ -54,6 +68,7 @@ export class NodeContextService {
         }
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Error searching nodes for "${query}":`, error);
     }
     return [];
@@ -69,7 +84,7 @@ export class NodeContextService {
 
       for (const candidate of candidates) {
         try {
-          const infoResult = await this.mcpClient.getNodeInfo(candidate);
+          const infoResult = await this.mcpClient.getNodeInfo(candidate, this.callOptions);
           if (infoResult?.content?.[0]?.type === "text") {
             const text = infoResult.content[0].text;
             const lower = text.toLowerCase();
@@ -84,10 +99,12 @@ export class NodeContextService {
             }
           }
         } catch (err) {
+          throwIfCancelled(this.abortSignal);
           // try next
         }
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Failed to get info for ${nodeType}:`, error);
     }
     return null;
@@ -105,7 +122,7 @@ export class NodeContextService {
 
       for (const candidate of candidates) {
         try {
-          const result = await this.mcpClient.getNodeEssentials(candidate);
+          const result = await this.mcpClient.getNodeEssentials(candidate, this.callOptions);
           const text = result?.content?.[0]?.type === "text" ? result.content[0].text : undefined;
 
           if (!text) continue;
@@ -127,11 +144,13 @@ export class NodeContextService {
             return { raw: text };
           }
         } catch (err) {
+          throwIfCancelled(this.abortSignal);
           // Move to next candidate on failure
           loggers.orchestrator.debug(`Error fetching essentials for '${candidate}', trying next`);
         }
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Failed to get essentials for ${nodeType}:`, error);
     }
     return null;
@@ -143,7 +162,12 @@ export class NodeContextService {
   async searchNodeProperties(nodeType: string, property: string): Promise<any> {
     try {
       loggers.orchestrator.debug(`Searching for ${property} properties in ${nodeType}`);
-      const result = await this.mcpClient.searchNodeProperties(nodeType, property);
+      const result = await this.mcpClient.searchNodeProperties(
+        nodeType,
+        property,
+        undefined,
+        this.callOptions
+      );
       
       if (result?.content?.[0]?.type === "text") {
         try {
@@ -153,6 +177,7 @@ export class NodeContextService {
         }
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Failed to search ${property} properties:`, error);
     }
     return null;
@@ -164,7 +189,7 @@ export class NodeContextService {
   async getNodeForTask(task: string): Promise<any> {
     try {
       loggers.orchestrator.debug(`Getting task template: ${task}`);
-      const result = await this.mcpClient.getNodeForTask(task);
+      const result = await this.mcpClient.getNodeForTask(task, this.callOptions);
       
       if (result?.content?.[0]?.type === "text") {
         try {
@@ -174,6 +199,7 @@ export class NodeContextService {
         }
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Failed to get task template:`, error);
     }
     return null;
@@ -185,12 +211,13 @@ export class NodeContextService {
   async getNodeDocumentation(nodeType: string): Promise<string | null> {
     try {
       loggers.orchestrator.debug(`Getting documentation for ${nodeType}`);
-      const result = await this.mcpClient.getNodeDocumentation(nodeType);
+      const result = await this.mcpClient.getNodeDocumentation(nodeType, this.callOptions);
       
       if (result?.content?.[0]?.type === "text") {
         return result.content[0].text;
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Failed to get documentation:`, error);
     }
     return null;
@@ -218,7 +245,11 @@ export class NodeContextService {
       for (const candidate of candidates) {
         try {
           // Use validateNodeMinimal for less strict validation that accepts expressions
-          validationResult = await this.mcpClient.validateNodeMinimal(candidate, parametersToValidate);
+          validationResult = await this.mcpClient.validateNodeMinimal(
+            candidate,
+            parametersToValidate,
+            this.callOptions
+          );
           const text = validationResult?.content?.[0]?.type === "text" ? validationResult.content[0].text : '';
           const lower = (text || '').toLowerCase();
           if (lower.includes("not found") || lower.startsWith("error executing tool")) {
@@ -226,6 +257,7 @@ export class NodeContextService {
           }
           break;
         } catch (err) {
+          throwIfCancelled(this.abortSignal);
           // try next candidate
         }
       }
@@ -285,6 +317,7 @@ export class NodeContextService {
         validationErrors = parsed.errors;
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error(`Validation failed for ${nodeType}:`, error);
       isValid = true; // Assume valid if validation service fails
     }
@@ -312,12 +345,13 @@ export class NodeContextService {
           profile: "runtime",
           ...options
         }
-      });
+      }, this.callOptions);
 
       if (validationResult?.content?.[0]?.type === "text") {
         return JSON.parse(validationResult.content[0].text);
       }
     } catch (error) {
+      throwIfCancelled(this.abortSignal);
       loggers.orchestrator.error("Workflow validation failed:", error);
     }
 
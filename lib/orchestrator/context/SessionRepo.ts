@@ -3,6 +3,7 @@
 import { WorkflowSession, WorkflowPhase, WorkflowOperation } from "@/types/workflow";
 import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
 import { loggers } from "@/lib/utils/logger";
+import { sessionEvents } from "@/lib/events/session-events";
 
 /**
  * Repository for workflow sessions
@@ -16,6 +17,14 @@ export class SessionRepo {
     await orchestratorHooks.initializeSession(sessionId, prompt, userId);
   }
 
+  /**
+   * Start a session over, discarding any state stored under its ID, e.g.
+   * a test run reusing a fixed session ID
+   */
+  async reset(sessionId: string, prompt: string, userId?: string): Promise<void> {
+    await orchestratorHooks.resetSession(sessionId, prompt, userId);
+  }
+
   /**
    * Load an existing session
    */
@@ -48,14 +57,17 @@ export class SessionRepo {
     const operations: WorkflowOperation[] = [
       { type: 'setPhase', phase }
     ];
+    // phase_started is published by OperationLogger.startPhase when the
+    // phase actually begins
     await orchestratorHooks.persistOperations(sessionId, operations);
   }
 
   /**
-   * Persist operations
+   * Persist operations and publish their progress events
    */
   async persistOperations(sessionId: string, operations: WorkflowOperation[]): Promise<void> {
     await orchestratorHooks.persistOperations(sessionId, operations);
+    sessionEvents.publishOperations(sessionId, operations);
   }
 
   /**
@@ -0,0 +1,253 @@
+// lib/orchestrator/helpers/clarifications.ts
+
+import type {
+  ClarificationAnswer,
+  ClarificationQuestion,
+  ClarificationRequest,
+  ClarificationResponse,
+  WorkflowOperation,
+} from "@/types/workflow";
+import type {
+  ClarificationOption,
+  ClaudeAnalysisResponse,
+  RequestClarificationOperation,
+} from "@/types/claude";
+
+type ClarificationResponseOperation = Extract<
+  WorkflowOperation,
+  { type: "clarificationResponse" }
+>;
+
+/**
+ * Questions of one clarification round from the intent analysis, one
+ * requestClarification operation per question. A single legacy
+ * `clarification` becomes a free text question.
+ */
+export function buildClarificationOperations(
+  analysis: ClaudeAnalysisResponse,
+  roundId: string
+): RequestClarificationOperation[] {
+  if (analysis.clarifications && analysis.clarifications.length > 0) {
+    return analysis.clarifications.map((question, index) => ({
+      type: "requestClarification",
+      questionId: `${roundId}_${index + 1}`,
+      question: question.question,
+      answerType: question.answerType,
+      ...(question.options?.length ? { options: question.options } : {}),
+      required: question.required ?? true,
+      context: { reason: question.context || "" },
+    }));
+  }
+
+  if (analysis.clarification) {
+    return [
+      {
+        type: "requestClarification",
+        questionId: roundId,
+        question: analysis.clarification.question,
+        answerType: "free_text",
+        required: true,
+        context: {
+          reason: analysis.clarification.context,
+          suggestions: analysis.clarification.suggestions,
+        },
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * A pending question as shown to the user, with the defaults of
+ * questions asked before answer types existed filled in
+ */
+export function toClarificationQuestion(
+  request: ClarificationRequest | RequestClarificationOperation
+): ClarificationQuestion {
+  return {
+    questionId: request.questionId,
+    question: request.question,
+    answerType: request.answerType || "free_text",
+    ...(request.options?.length ? { options: request.options } : {}),
+    required: request.required ?? true,
+    context: request.context,
+  };
+}
+
+/**
+ * Check a round of answers against the pending questions and turn them
+ * into clarificationResponse operations. Every pending question gets a
+ * response; optional questions left unanswered get an empty one.
+ */
+export function resolveClarificationAnswers(
+  pending: ClarificationRequest[],
+  answers: ClarificationAnswer[]
+): { operations: ClarificationResponseOperation[]; errors: string[] } {
+  const errors: string[] = [];
+  const questions = pending.map(toClarificationQuestion);
+
+  if (questions.length === 0) {
+    return { operations: [], errors: ["No clarification questions are pending"] };
+  }
+
+  const answersById = new Map<string, ClarificationAnswer>();
+  for (const answer of answers) {
+    if (!questions.some((q) => q.questionId === answer.questionId)) {
+      errors.push(`Unknown question ${answer.questionId}`);
+    } else if (answersById.has(answer.questionId)) {
+      errors.push(`Question ${answer.questionId} answered more than once`);
+    } else {
+      answersById.set(answer.questionId, answer);
+    }
+  }
+
+  const operations: ClarificationResponseOperation[] = [];
+  for (const question of questions) {
+    const answer = answersById.get(question.questionId);
+    const result = resolveAnswer(question, answer?.value);
+    if ("error" in result) {
+      errors.push(result.error);
+    } else {
+      operations.push({
+        type: "clarificationResponse",
+        questionId: question.questionId,
+        response: result.response,
+        value: result.value,
+      });
+    }
+  }
+
+  return { operations: errors.length > 0 ? [] : operations, errors };
+}
+
+function resolveAnswer(
+  question: ClarificationQuestion,
+  raw: string | string[] | undefined
+): { value: string | string[]; response: string } | { error: string } {
+  const { questionId, answerType, options = [], required } = question;
+  const labelOf = (value: string) =>
+    options.find((option) => option.value === value)?.label ?? value;
+
+  if (answerType === "multi_choice") {
+    if (raw !== undefined && typeof raw !== "string" && !Array.isArray(raw)) {
+      return { error: `Question ${questionId} expects a list of options` };
+    }
+    const values = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+      .map((v) => String(v).trim())
+      .filter(Boolean);
+    const unknown = values.filter(
+      (v) => !options.some((option) => option.value === v)
+    );
+    if (unknown.length > 0) {
+      return { error: `Question ${questionId} has no option ${unknown.join(", ")}` };
+    }
+    if (values.length === 0 && required) {
+      return { error: `Question ${questionId} needs at least one option` };
+    }
+    return { value: values, response: values.map(labelOf).join(", ") };
+  }
+
+  if (Array.isArray(raw) || (raw !== undefined && typeof raw !== "string")) {
+    return { error: `Question ${questionId} expects a single answer` };
+  }
+  const value = (raw ?? "").trim();
+  if (!value) {
+    return required
+      ? { error: `Question ${questionId} needs an answer` }
+      : { value: "", response: "" };
+  }
+  // Service pickers may offer an "other" entry, so only choices are closed
+  if (answerType === "single_choice" && !options.some((option) => option.value === value)) {
+    return { error: `Question ${questionId} has no option ${value}` };
+  }
+  return { value, response: labelOf(value) };
+}
+
+/**
+ * Answered clarifications as a block for phase prompts, or "" when there
+ * are none. Skipped optional questions are left out.
+ */
+export function formatClarifications(history: ClarificationResponse[] = []): string {
+  const answered = history.filter((entry) => entry.response?.trim());
+  if (answered.length === 0) return "";
+
+  return [
+    "Clarifications from the user:",
+    ...answered.map((entry) => `- ${entry.question} → ${entry.response}`),
+  ].join("\n");
+}
+
+/**
+ * The user's prompt followed by their answered clarifications
+ */
+export function withClarifications(
+  prompt: string,
+  history: ClarificationResponse[] = []
+): string {
+  const clarifications = formatClarifications(history);
+  return clarifications ? `${prompt}\n\n${clarifications}` : prompt;
+}
+
+/**
+ * Options of a node property from its essentials, for a question about
+ * that property. `field` is a path like "parameters.resource"; the
+ * property is looked up by its last segment.
+ */
+export function optionsFromEssentials(
+  essentials: any,
+  field: string | undefined
+): ClarificationOption[] {
+  const name = field?.split(".").pop();
+  if (!name || !essentials) return [];
+
+  const properties = [
+    ...(essentials.requiredProperties || []),
+    ...(essentials.commonProperties || []),
+  ];
+  const property = properties.find((p: any) => p?.name === name);
+  if (!Array.isArray(property?.options)) return [];
+
+  return property.options
+    .map((option: any): ClarificationOption | null => {
+      if (typeof option === "string" || typeof option === "number") {
+        return { value: String(option), label: String(option) };
+      }
+      if (option && option.value !== undefined) {
+        return {
+          value: String(option.value),
+          label: option.name || option.displayName || String(option.value),
+          ...(option.description ? { description: option.description } : {}),
+        };
+      }
+      return null;
+    })
+    .filter((option: ClarificationOption | null): option is ClarificationOption => !!option);
+}
+
+/**
+ * Values the user supplied for one node's fields during configuration,
+ * as a block for that node's configuration prompt, or "" when there are none
+ */
+export function formatNodeValues(
+  history: ClarificationResponse[] = [],
+  nodeId: string
+): string {
+  // Option values are what goes into the config, not their labels
+  const values = history
+    .filter((entry) => entry.context?.nodeId === nodeId && entry.context?.field)
+    .map((entry) => ({
+      field: entry.context.field as string,
+      value:
+        entry.value !== undefined
+          ? [entry.value].flat().join(", ")
+          : entry.response || "",
+    }))
+    .filter((entry) => entry.value.trim());
+  if (values.length === 0) return "";
+
+  return [
+    "Values the user supplied for this node (use them exactly):",
+    ...values.map((entry) => `- ${entry.field}: ${entry.value}`),
+  ].join("\n");
+}
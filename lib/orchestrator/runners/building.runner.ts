@@ -8,9 +8,11 @@ import {
 } from "@/types/orchestrator/building";
 import { WorkflowOperation } from "@/types/workflow";
 import type { ConfiguredNode } from "@/types/orchestrator/configuration";
-import { BuildingPromptBuilder } from "@/services/claude/config/building-prompt-builder";
+import { getPromptRegistry } from "@/services/claude/prompts/registry";
 import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
+import { withClarifications } from "@/lib/orchestrator/helpers/clarifications";
 import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
 import { getConfigAnalyzer } from "@/lib/services/config-analyzer.service";
 
 /**
@@ -20,11 +22,7 @@ import { getConfigAnalyzer } from "@/lib/services/config-analyzer.service";
 export class BuildingRunner
   implements PhaseRunner<BuildingInput, BuildingOutput>
 {
-  private promptBuilder: BuildingPromptBuilder;
-
   constructor(private deps: BuildingRunnerDeps) {
-    this.promptBuilder = new BuildingPromptBuilder();
-
     // Wrap the run method with wrapPhase for automatic operation persistence
     this.run = wrapPhase("building", this.run.bind(this));
   }
@@ -33,7 +31,7 @@ export class BuildingRunner
    * Run the building phase
    */
   async run(input: BuildingInput): Promise<BuildingOutput> {
-    const { sessionId } = input;
+    const { sessionId, signal, budgetGuard } = input;
 
     // ====================================================================
     // Set up token tracking for this phase
@@ -47,6 +45,12 @@ export class BuildingRunner
       this.deps.claudeService.setOnUsageCallback(onTokenUsage);
     }
 
+    // Abort in-flight Claude calls when the session is cancelled
+    this.deps.claudeService.setAbortSignal?.(signal);
+
+    // Check every Claude call of this run against the token budget
+    this.deps.claudeService.setBudgetGuard?.(budgetGuard);
+
     try {
       // Get session to retrieve validated configurations
       const { configuredNodes, userPrompt } = await this.getBuildingContext(
@@ -98,8 +102,8 @@ export class BuildingRunner
       // Add phase transition operation
       operations.push({ type: "setPhase", phase: "building" });
 
-      // Build the prompt using the prompt builder
-      const promptParts = this.promptBuilder.buildPrompt({
+      // Build the prompt with the session's version of the building prompt
+      const promptParts = getPromptRegistry().build("building", sessionId, {
         userIntent: userPrompt,
         configuredNodes: validatedNodes,
       });
@@ -212,6 +216,9 @@ export class BuildingRunner
         reasoning: claudeResponse.reasoning,
       };
     } catch (error) {
+      // Cancellation is reported by wrapPhase, not recorded as a failure
+      throwIfCancelled(signal);
+
       // Record error in Supabase
       await this.deps.sessionRepo.recordError(sessionId, error, "building");
 
@@ -293,7 +300,10 @@ export class BuildingRunner
         return mappedNode;
       });
 
-      userPrompt = session.state.userPrompt || "";
+      userPrompt = withClarifications(
+        session.state.userPrompt || "",
+        session.state.clarificationHistory
+      );
     }
 
     this.deps.loggers.orchestrator.debug(
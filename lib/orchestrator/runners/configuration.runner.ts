@@ -7,12 +7,27 @@ import {
   ConfiguredNode,
   ConfigurationRunnerDeps,
 } from "@/types/orchestrator/configuration";
-import { DiscoveredNode, WorkflowOperation } from "@/types/workflow";
+import {
+  ClarificationRequest,
+  ClarificationResponse,
+  DiscoveredNode,
+  WorkflowOperation,
+} from "@/types/workflow";
+import type { RequestClarificationOperation } from "@/types/claude";
+import type { ClarificationInput } from "@/types/orchestrator/discovery";
 import type { MissingFieldFix } from "@/types/orchestrator/configuration";
-import { ConfigurationPromptBuilder } from "@/services/claude/config/prompt-builder";
+import { getPromptRegistry } from "@/services/claude/prompts/registry";
 import { patchRegistry } from "@/lib/orchestrator/patches";
+import {
+  formatNodeValues,
+  optionsFromEssentials,
+  resolveClarificationAnswers,
+  toClarificationQuestion,
+  withClarifications,
+} from "@/lib/orchestrator/helpers/clarifications";
 import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
 import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
 import pLimit from "p-limit";
 
 /**
@@ -22,20 +37,21 @@ import pLimit from "p-limit";
 export class ConfigurationRunner
   implements PhaseRunner<ConfigurationInput, ConfigurationOutput>
 {
-  private promptBuilder: ConfigurationPromptBuilder;
-
   constructor(private deps: ConfigurationRunnerDeps) {
-    this.promptBuilder = new ConfigurationPromptBuilder();
-
     // Wrap the run method with wrapPhase for automatic operation persistence
     this.run = wrapPhase("configuration", this.run.bind(this));
   }
 
   /**
    * Run the configuration phase
+   *
+   * Nodes whose configuration needs a value only the user knows (a Slack
+   * channel, a sheet ID, a schedule) are paused: their questions are
+   * returned as pendingClarifications and the other nodes are configured.
+   * handleClarification configures the paused nodes once answered.
    */
   async run(input: ConfigurationInput): Promise<ConfigurationOutput> {
-    const { sessionId } = input;
+    const { sessionId, nodeIds, signal, budgetGuard } = input;
 
     // ====================================================================
     // Set up token tracking for this phase
@@ -49,10 +65,20 @@ export class ConfigurationRunner
       this.deps.claudeService.setOnUsageCallback(onTokenUsage);
     }
 
+    // Abort in-flight Claude and MCP calls when the session is cancelled
+    this.deps.claudeService.setAbortSignal?.(signal);
+    this.deps.nodeContextService.setAbortSignal?.(signal);
+
+    // Check every Claude call of this run against the token budget
+    this.deps.claudeService.setBudgetGuard?.(budgetGuard);
+
     try {
       // Get session to build context for configuration
-      const { discoveredNodes, userPrompt } =
+      const { discoveredNodes: sessionNodes, userPrompt, clarificationHistory } =
         await this.getConfigurationContext(sessionId);
+      const discoveredNodes = nodeIds
+        ? sessionNodes.filter((node) => nodeIds.includes(node.id))
+        : sessionNodes;
 
       // Validate we have discovered nodes to configure
       if (discoveredNodes.length === 0) {
@@ -79,6 +105,7 @@ export class ConfigurationRunner
       const configured: ConfiguredNode[] = [];
       const operations: WorkflowOperation[] = [];
       const reasoning: string[] = [];
+      const clarificationOps: RequestClarificationOperation[] = [];
 
       // Prefetch node essentials for ALL nodes at the start
       const nodeEssentials = await this.prefetchNodeEssentials(discoveredNodes);
@@ -121,14 +148,28 @@ export class ConfigurationRunner
             }`
           );
 
+          // Queued batches stop here once the session is cancelled
+          throwIfCancelled(signal);
+
           try {
+            const nodeValues = formatNodeValues(clarificationHistory, node.id);
             const result = await this.generateAndValidateNodeConfig(
               node,
-              userPrompt,
+              nodeValues ? `${userPrompt}\n\n${nodeValues}` : userPrompt,
               sessionId,
-              nodeEssentials
+              nodeEssentials,
+              clarificationHistory
             );
 
+            if (result.clarifications?.length) {
+              this.deps.loggers.orchestrator.info(
+                `   ❓ [${index + 1}/${
+                  discoveredNodes.length
+                }] ${node.type} waits for ${result.clarifications.length} value(s) from the user`
+              );
+              return { node, ...result };
+            }
+
             // Only show success checkmark if actually valid
             if (result.isValid) {
               this.deps.loggers.orchestrator.info(
@@ -149,6 +190,7 @@ export class ConfigurationRunner
               ...result,
             };
           } catch (error) {
+            throwIfCancelled(signal);
             this.deps.loggers.orchestrator.error(
               `   ❌ [${index + 1}/${
                 discoveredNodes.length
@@ -178,6 +220,7 @@ export class ConfigurationRunner
         `   ⏳ Waiting for all configuration tasks to complete...`
       );
       const results = await Promise.allSettled(configurationTasks);
+      throwIfCancelled(signal);
       this.deps.loggers.orchestrator.info(
         `   ✅ All ${results.length} configuration tasks completed`
       );
@@ -228,8 +271,20 @@ export class ConfigurationRunner
           validationErrors,
           nodeReasoning,
           configOperations,
+          clarifications,
         } = result.value;
 
+        // Paused nodes are configured once the user answers
+        if (clarifications?.length) {
+          clarificationOps.push(...clarifications);
+          reasoning.push(
+            `${node.type} needs ${clarifications
+              .map((op) => op.context.field || op.question)
+              .join(", ")} from the user`
+          );
+          continue;
+        }
+
         operations.push(...configOperations);
         reasoning.push(...nodeReasoning);
 
@@ -386,8 +441,14 @@ export class ConfigurationRunner
 
       this.deps.loggers.orchestrator.info(`   ⏱️  Duration: ${elapsedTime}ms`);
 
-      // Add phase completion operation if successful
-      if (allValid) {
+      // Ask for the values of paused nodes; the phase completes once
+      // they are configured
+      operations.push(...clarificationOps);
+      if (clarificationOps.length > 0) {
+        this.deps.loggers.orchestrator.info(
+          `   ❓ Waiting for ${clarificationOps.length} value(s) from the user`
+        );
+      } else if (allValid) {
         operations.push({ type: "completePhase", phase: "configuration" });
       }
 
@@ -398,6 +459,9 @@ export class ConfigurationRunner
         operations,
         phase: "configuration",
         configured,
+        ...(clarificationOps.length > 0
+          ? { pendingClarifications: clarificationOps.map(toClarificationQuestion) }
+          : {}),
         reasoning,
         error: allValid
           ? undefined
@@ -412,6 +476,9 @@ export class ConfigurationRunner
             },
       };
     } catch (error) {
+      // Cancellation is reported by wrapPhase, not recorded as a failure
+      throwIfCancelled(signal);
+
       // Record error in Supabase
       await this.deps.sessionRepo.recordError(
         sessionId,
@@ -435,20 +502,88 @@ export class ConfigurationRunner
     }
   }
 
+  /**
+   * Handle the answers to questions asked during configuration
+   *
+   * The answers are stored in the clarification history, then only the
+   * nodes the questions were about are configured again, with the values
+   * the user supplied.
+   */
+  async handleClarification(
+    input: ClarificationInput
+  ): Promise<ConfigurationOutput> {
+    const { sessionId, answers, signal, budgetGuard } = input;
+
+    const session = await this.deps.sessionRepo.load(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        operations: [],
+        phase: "configuration",
+        configured: [],
+        error: {
+          type: "validation",
+          code: "SESSION_NOT_FOUND",
+          message: `Session ${sessionId} not found`,
+          userMessage: "Session not found. Please start a new workflow.",
+          retryable: false,
+        },
+      };
+    }
+
+    const pending: ClarificationRequest[] =
+      session.state.pendingClarifications || [];
+    const { operations, errors } = resolveClarificationAnswers(pending, answers);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        operations: [],
+        phase: "configuration",
+        configured: [],
+        pendingClarifications: pending.map(toClarificationQuestion),
+        error: {
+          type: "validation",
+          code: "INVALID_CLARIFICATION",
+          message: errors.join("; "),
+          userMessage: "Some answers are missing or invalid. Please check them and try again.",
+          retryable: false,
+        },
+      };
+    }
+
+    // Store the answers before the paused nodes are configured
+    await this.deps.sessionRepo.persistOperations(sessionId, operations);
+    await this.deps.sessionRepo.save(sessionId);
+
+    const nodeIds = Array.from(
+      new Set(pending.map((q) => q.context?.nodeId).filter(Boolean))
+    ) as string[];
+    this.deps.loggers.orchestrator.info(
+      `Configuring ${nodeIds.length} node(s) with values from the user: ${nodeIds.join(", ")}`
+    );
+
+    return this.run({ sessionId, nodeIds, signal, budgetGuard });
+  }
+
   /**
    * Get configuration context from session or discovery result
    */
   private async getConfigurationContext(sessionId: string) {
     let discoveredNodes: DiscoveredNode[] = [];
     let userPrompt = "Configure discovered nodes";
+    let clarificationHistory: ClarificationResponse[] = [];
 
     const session = await this.deps.sessionRepo.load(sessionId);
     if (session) {
       discoveredNodes = session.state.discovered || [];
-      userPrompt = session.state.userPrompt || userPrompt;
+      clarificationHistory = session.state.clarificationHistory || [];
+      userPrompt = withClarifications(
+        session.state.userPrompt || userPrompt,
+        session.state.clarificationHistory
+      );
     }
 
-    return { discoveredNodes, userPrompt };
+    return { discoveredNodes, userPrompt, clarificationHistory };
   }
 
   /**
@@ -458,8 +593,16 @@ export class ConfigurationRunner
     node: DiscoveredNode,
     userPrompt: string,
     sessionId: string,
-    nodeEssentials: Map<string, any>
-  ) {
+    nodeEssentials: Map<string, any>,
+    clarificationHistory: ClarificationResponse[] = []
+  ): Promise<{
+    finalConfig: any;
+    isValid: boolean;
+    validationErrors: string[];
+    nodeReasoning: string[];
+    configOperations: WorkflowOperation[];
+    clarifications?: RequestClarificationOperation[];
+  }> {
     const reasoning: string[] = [];
     const operations: WorkflowOperation[] = [];
 
@@ -503,7 +646,7 @@ export class ConfigurationRunner
         );
 
         // Step 2: Build targeted prompt using task template and rules
-        const prompt = this.promptBuilder.buildPrompt({
+        const promptParts = getPromptRegistry().build("configuration", sessionId, {
           node,
           essentials: patchedTemplate, // Pass patched template as "essentials"
           workflowContext: {
@@ -524,7 +667,8 @@ export class ConfigurationRunner
 
         const claudeResult = await this.deps.claudeService.execute(
           {
-            prompt: prompt,
+            prompt: promptParts.user,
+            promptParts,
             selectedNodes: [node.id],
             context: {
               discoveredNodes: [node],
@@ -547,6 +691,16 @@ export class ConfigurationRunner
           throw new Error(`Failed to customize task template for ${node.type}`);
         }
 
+        const clarifications = this.extractClarifications(
+          node,
+          claudeResult.data.operations,
+          nodeEssentials.get(node.type),
+          clarificationHistory
+        );
+        if (clarifications.length > 0) {
+          return this.pausedForClarification(clarifications, claudeResult.data.reasoning);
+        }
+
         // Extract configuration from response
         let nodeConfig: any = {};
         let configFound = false;
@@ -657,7 +811,7 @@ export class ConfigurationRunner
       }
 
       // Step 2: Build targeted prompt using essentials and rules
-      const prompt = this.promptBuilder.buildPrompt({
+      const promptParts = getPromptRegistry().build("configuration", sessionId, {
         node,
         essentials: essentials || {},
         workflowContext: {
@@ -678,7 +832,8 @@ export class ConfigurationRunner
 
       const claudeResult = await this.deps.claudeService.execute(
         {
-          prompt: prompt, // Use the built prompt instead of userPrompt
+          prompt: promptParts.user, // Use the built prompt instead of userPrompt
+          promptParts,
           selectedNodes: [node.id],
           context: {
             discoveredNodes: [node],
@@ -730,6 +885,16 @@ export class ConfigurationRunner
         );
       }
 
+      const clarifications = this.extractClarifications(
+        node,
+        claudeResult.data.operations,
+        essentials,
+        clarificationHistory
+      );
+      if (clarifications.length > 0) {
+        return this.pausedForClarification(clarifications, claudeResult.data.reasoning);
+      }
+
       // Log what operations Claude returned to debug node ID mismatches
       this.deps.loggers.orchestrator.info(
         `   📥 Claude returned ${claudeResult.data.operations.length} operations for ${node.id}`
@@ -842,6 +1007,76 @@ export class ConfigurationRunner
     }
   }
 
+  /**
+   * Questions Claude asked instead of guessing a value for the node, with
+   * the node, the field and the field's options from essentials attached.
+   * Fields the user already answered aren't asked again.
+   */
+  private extractClarifications(
+    node: DiscoveredNode,
+    operations: any[] = [],
+    essentials: any,
+    clarificationHistory: ClarificationResponse[]
+  ): RequestClarificationOperation[] {
+    const roundId = `cfg_${node.id}_${Date.now()}`;
+
+    return operations
+      .filter((op) => op?.type === "requestClarification" && op.question)
+      .filter((op) => {
+        const field = op.context?.field;
+        const answered = clarificationHistory.some(
+          (entry) =>
+            entry.context?.nodeId === node.id &&
+            (field ? entry.context?.field === field : entry.question === op.question)
+        );
+        if (answered) {
+          this.deps.loggers.orchestrator.debug(
+            `Ignoring repeated question for ${node.id}: ${op.question}`
+          );
+        }
+        return !answered;
+      })
+      .map((op, index) => {
+        const field: string | undefined = op.context?.field;
+        const options = op.options?.length
+          ? op.options
+          : optionsFromEssentials(essentials, field);
+        return {
+          type: "requestClarification" as const,
+          questionId: `${roundId}_${index + 1}`,
+          question: op.question,
+          answerType: op.answerType || (options.length > 0 ? "single_choice" : "free_text"),
+          ...(options.length > 0 ? { options } : {}),
+          required: op.required ?? true,
+          context: {
+            ...op.context,
+            reason: op.context?.reason || "",
+            phase: "configuration",
+            nodeId: node.id,
+            nodeType: node.type,
+            nodeName: node.displayName || node.type,
+          },
+        };
+      });
+  }
+
+  /**
+   * Result for a node that waits for values from the user
+   */
+  private pausedForClarification(
+    clarifications: RequestClarificationOperation[],
+    claudeReasoning: string[] = []
+  ) {
+    return {
+      finalConfig: {},
+      isValid: false,
+      validationErrors: [],
+      nodeReasoning: claudeReasoning,
+      configOperations: [],
+      clarifications,
+    };
+  }
+
   /**
    * Get node essentials (schema information)
    */
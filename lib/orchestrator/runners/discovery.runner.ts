@@ -9,8 +9,15 @@ import {
 } from "@/types/orchestrator/discovery";
 import { DiscoveredNode, WorkflowOperation } from "@/types/workflow";
 import { wrapPhase, PhaseContext } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
 import { TaskService, GapSearchService } from "@/services/mcp";
 import type { ClaudeAnalysisResponse } from "@/types/claude";
+import {
+  buildClarificationOperations,
+  resolveClarificationAnswers,
+  toClarificationQuestion,
+  withClarifications,
+} from "@/lib/orchestrator/helpers/clarifications";
 
 /**
  * Runner for the discovery phase (OPTIMIZED with task-based flow)
@@ -51,7 +58,7 @@ export class DiscoveryRunner
       input: DiscoveryInput,
       context: PhaseContext
     ): Promise<DiscoveryOutput> => {
-      const { sessionId, prompt, userId } = input;
+      const { sessionId, prompt, userId, signal, budgetGuard } = input;
       const { operationLogger } = context;
 
       this.deps.loggers.orchestrator.info(
@@ -96,11 +103,19 @@ export class DiscoveryRunner
         this.deps.claudeService.setOnUsageCallback(onTokenUsage);
       }
 
+      // Abort in-flight Claude and MCP calls when the session is cancelled
+      this.deps.claudeService.setAbortSignal?.(signal);
+      this.deps.nodeContextService.setAbortSignal?.(signal);
+
+      // Check every Claude call of this run against the token budget
+      this.deps.claudeService.setBudgetGuard?.(budgetGuard);
+
       this.deps.loggers.orchestrator.debug(
         "Step 1: Analyzing intent for task-based discovery"
       );
       const analysisResult = await this.deps.claudeService.analyzeIntent({
         prompt,
+        sessionId,
       });
 
       if (!analysisResult.success || !analysisResult.data) {
@@ -141,31 +156,21 @@ export class DiscoveryRunner
       }
 
       // Check if clarification is needed
-      if (intentAnalysis.clarification_needed && intentAnalysis.clarification) {
+      const clarificationOps = intentAnalysis.clarification_needed
+        ? buildClarificationOperations(intentAnalysis, `q_${Date.now()}`)
+        : [];
+      if (clarificationOps.length > 0) {
         this.deps.loggers.orchestrator.info(
-          "Clarification needed from intent analysis"
+          `Clarification needed from intent analysis: ${clarificationOps.length} question(s)`
         );
 
-        const clarificationOp: WorkflowOperation = {
-          type: "requestClarification",
-          questionId: `q_${Date.now()}`,
-          question: intentAnalysis.clarification.question,
-          context: {
-            reason: intentAnalysis.clarification.context,
-            suggestions: intentAnalysis.clarification.suggestions,
-          },
-        };
-
         return {
           success: true,
-          operations: [clarificationOp],
+          operations: clarificationOps,
           phase: "discovery",
           discoveredNodes: [],
           selectedNodeIds: [],
-          pendingClarification: {
-            questionId: clarificationOp.questionId,
-            question: clarificationOp.question,
-          },
+          pendingClarifications: clarificationOps.map(toClarificationQuestion),
           reasoning: intentAnalysis.reasoning || [],
         };
       }
@@ -345,6 +350,8 @@ export class DiscoveryRunner
       // Note: Operations are persisted automatically by wrapPhase wrapper
       // No need to manually log them here as it causes duplication
 
+      throwIfCancelled(signal);
+
       // Log phase completion
       await operationLogger.logPhaseCompletion(
         analysisResult.usage?.totalTokens || 0
@@ -420,15 +427,19 @@ export class DiscoveryRunner
   );
 
   /**
-   * Handle clarification response
+   * Handle the answers to a round of clarification questions
+   *
+   * The answers are checked against the pending questions and stored in
+   * the clarification history, then discovery runs again with them added
+   * to the original prompt.
    */
   async handleClarification(
     input: ClarificationInput
   ): Promise<DiscoveryOutput> {
-    const { sessionId, questionId, response } = input;
+    const { sessionId, answers } = input;
 
     this.deps.loggers.orchestrator.debug(
-      `Processing clarification response for question: ${questionId}`
+      `Processing ${answers.length} clarification answer(s) for session ${sessionId}`
     );
 
     // Load session state
@@ -450,28 +461,60 @@ export class DiscoveryRunner
       };
     }
 
-    const originalPrompt = supabaseSession.state.userPrompt || "";
+    const { pendingClarifications = [], clarificationHistory = [] } =
+      supabaseSession.state;
+    const { operations, errors } = resolveClarificationAnswers(
+      pendingClarifications,
+      answers
+    );
+    if (errors.length > 0) {
+      return {
+        success: false,
+        operations: [],
+        phase: "discovery",
+        discoveredNodes: [],
+        selectedNodeIds: [],
+        pendingClarifications: pendingClarifications.map(toClarificationQuestion),
+        error: {
+          type: "validation",
+          code: "INVALID_CLARIFICATION",
+          message: errors.join("; "),
+          userMessage: "Some answers are missing or invalid. Please check them and try again.",
+          retryable: false,
+        },
+      };
+    }
 
-    // Compose clarified prompt in a structured way
-    const clarifiedPrompt = `${originalPrompt}\n\nClarification[${questionId}]: ${response}`;
+    // Store the answers before discovery runs again
+    await this.deps.sessionRepo.persistOperations(sessionId, operations);
+    await this.deps.sessionRepo.save(sessionId);
 
-    this.deps.loggers.orchestrator.debug(
-      `Updating existing session ${sessionId} with clarified prompt`
+    // The stored prompt stays the user's own; the answers travel with it
+    const answered = operations.map((op) => {
+      const question = pendingClarifications.find(
+        (q: { questionId: string }) => q.questionId === op.questionId
+      );
+      return {
+        questionId: op.questionId,
+        question: question?.question || "",
+        answerType: question?.answerType,
+        response: op.response,
+        value: op.value,
+        timestamp: new Date(),
+      };
+    });
+    const clarifiedPrompt = withClarifications(
+      supabaseSession.state.userPrompt || "",
+      [...clarificationHistory, ...answered]
     );
 
-    // Persist clarification response and updated user prompt as operations
-    const ops: WorkflowOperation[] = [
-      { type: "clarificationResponse", questionId, response },
-      {
-        type: "setUserPrompt",
-        prompt: clarifiedPrompt,
-        reason: "clarification" as const,
-      },
-    ];
-    // Persistence is now handled automatically by wrapPhase wrapper
-
     // Re-run discovery with clarified prompt (session already exists)
-    return this.run({ sessionId, prompt: clarifiedPrompt });
+    return this.run({
+      sessionId,
+      prompt: clarifiedPrompt,
+      signal: input.signal,
+      budgetGuard: input.budgetGuard,
+    });
   }
 
   /**
@@ -18,6 +18,7 @@ import {
 } from "@/lib/orchestrator/helpers/phase-categorization";
 import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
 import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
 
 /**
  * Runner for the documentation phase
@@ -37,7 +38,7 @@ export class DocumentationRunner
    * Groups nodes by phase and creates magazine-quality visual layout
    */
   async run(input: DocumentationInput): Promise<DocumentationOutput> {
-    const { sessionId, validationResult } = input;
+    const { sessionId, validationResult, signal } = input;
 
     // ====================================================================
     // Set up token tracking for this phase
@@ -98,7 +99,8 @@ export class DocumentationRunner
 
       const buildPhases = session?.state?.buildPhases;
 
-      if (buildPhases && Array.isArray(buildPhases)) {
+      // Imported workflows have no build phases to group by
+      if (Array.isArray(buildPhases) && buildPhases.length > 0) {
         this.deps.loggers.orchestrator.info(
           `📊 DOCUMENTATION: Found ${buildPhases.length} phases from build phase in session state`
         );
@@ -231,6 +233,9 @@ export class DocumentationRunner
         ],
       };
     } catch (error) {
+      // Cancellation is reported by wrapPhase, not recorded as a failure
+      throwIfCancelled(signal);
+
       // Record error in Supabase
       await this.deps.sessionRepo.recordError(
         sessionId,
@@ -0,0 +1,300 @@
+// lib/orchestrator/runners/edit.runner.ts
+
+import { PhaseRunner } from "@/lib/orchestrator/contracts/PhaseRunner";
+import {
+  EditInput,
+  EditOutput,
+  EditRunnerDeps,
+} from "@/types/orchestrator/edit";
+import { WorkflowOperation } from "@/types/workflow";
+import type { WorkflowEditOperation } from "@/types/claude/operations";
+import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
+import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
+import { getConfigAnalyzer } from "@/lib/services/config-analyzer.service";
+import {
+  applyOperationsToState,
+  serializeSessionState,
+} from "@/lib/services/session-state-reducer";
+
+const STICKY_NOTE_TYPE = "n8n-nodes-base.stickyNote";
+
+type BuildPhase = {
+  type: string;
+  description: string;
+  nodeIds: string[];
+  row?: number;
+};
+
+/**
+ * Runner for follow-up edits of a completed workflow
+ *
+ * Claude turns the change request into delta operations against the
+ * existing workflow. They are applied on top of it and the session goes
+ * back to validation, so only validation and documentation run again.
+ * Runs as part of validation for persistence; its tokens are counted
+ * under "edit" so they don't add to the validation phase's.
+ */
+export class EditRunner implements PhaseRunner<EditInput, EditOutput> {
+  constructor(private deps: EditRunnerDeps) {
+    // Wrap the run method with wrapPhase for automatic operation persistence
+    this.run = wrapPhase("validation", this.run.bind(this));
+  }
+
+  /**
+   * Turn a change request into operations on the session's workflow
+   */
+  async run(input: EditInput): Promise<EditOutput> {
+    const { sessionId, request, signal, budgetGuard } = input;
+
+    const operationLogger = new OperationLogger(sessionId, "validation", "edit");
+    const { onTokenUsage } = operationLogger.withTokenTracking();
+
+    if (this.deps.claudeService.setOnUsageCallback) {
+      this.deps.claudeService.setOnUsageCallback(onTokenUsage);
+    }
+
+    // Abort in-flight Claude calls when the session is cancelled
+    this.deps.claudeService.setAbortSignal?.(signal);
+
+    // Check every Claude call of this run against the token budget
+    this.deps.claudeService.setBudgetGuard?.(budgetGuard);
+
+    const emptyWorkflow = { name: "", nodes: [], connections: {}, settings: {} };
+
+    try {
+      const session = await this.deps.sessionRepo.load(sessionId);
+      const current = session?.state.workflow;
+
+      if (!session || !current || (current.nodes || []).length === 0) {
+        return {
+          success: false,
+          phase: "validation",
+          workflow: emptyWorkflow,
+          operations: [],
+          error: {
+            type: "validation",
+            code: "NO_WORKFLOW",
+            message: "No workflow to edit",
+            userMessage: "Only generated workflows can be edited",
+            retryable: false,
+          },
+        };
+      }
+
+      // Documentation adds fresh phase notes once the edit is validated
+      const workflow = {
+        name: current.name || current.settings?.name || "n8n Workflow",
+        nodes: current.nodes.filter((n: any) => n.type !== STICKY_NOTE_TYPE),
+        connections: current.connections || {},
+        settings: current.settings || {},
+      };
+
+      this.deps.loggers.orchestrator.info(
+        `✏️ EDIT: Applying "${request}" to ${workflow.nodes.length} nodes`
+      );
+
+      const claudeResult = await this.deps.claudeService.execute(
+        { userPrompt: session.state.userPrompt || "", workflow, request },
+        { sessionId, userIntent: request }
+      );
+
+      if (!claudeResult.success || !claudeResult.data) {
+        throw claudeResult.error || new Error("Failed to generate edit operations");
+      }
+
+      const { accepted, skipped } = this.filterOperations(
+        workflow.nodes,
+        claudeResult.data.operations || []
+      );
+
+      for (const { operation, reason } of skipped) {
+        this.deps.loggers.orchestrator.warn(
+          `⚠️ EDIT: Skipping ${operation.type} - ${reason}`
+        );
+      }
+
+      if (accepted.length === 0) {
+        return {
+          success: false,
+          phase: "validation",
+          workflow: emptyWorkflow,
+          operations: [],
+          skippedOperations: skipped.length,
+          error: {
+            type: "validation",
+            code: "NO_EDIT_OPERATIONS",
+            message: "Claude returned no applicable edit operations",
+            userMessage:
+              "The change couldn't be applied to this workflow. Try describing it differently.",
+            retryable: true,
+          },
+        };
+      }
+
+      const operations: WorkflowOperation[] = [
+        { type: "requestEdit", request },
+        { type: "setWorkflow", workflow },
+        ...(accepted as WorkflowOperation[]),
+      ];
+
+      const buildPhases = this.extendBuildPhases(
+        session.state.buildPhases,
+        workflow.nodes,
+        accepted
+      );
+      if (buildPhases) {
+        operations.push({ type: "setBuildPhases", phases: buildPhases });
+      }
+
+      const edited = applyOperationsToState(
+        serializeSessionState(session.state),
+        operations
+      ).workflow as EditOutput["workflow"];
+
+      operations.push({
+        type: "setConfigAnalysis",
+        analysis: getConfigAnalyzer().analyzeWorkflow(edited),
+      });
+      operations.push({ type: "setPhase", phase: "validation" });
+
+      this.deps.loggers.orchestrator.info(
+        `✏️ EDIT: ${accepted.length} operations applied, ${skipped.length} skipped`
+      );
+
+      return {
+        success: true,
+        phase: "validation",
+        workflow: edited,
+        operations,
+        editOperations: accepted.length,
+        skippedOperations: skipped.length,
+        reasoning: claudeResult.data.reasoning,
+      };
+    } catch (error) {
+      // Cancellation is reported by wrapPhase, not recorded as a failure
+      throwIfCancelled(signal);
+
+      await this.deps.sessionRepo.recordError(sessionId, error, "validation");
+
+      return {
+        success: false,
+        phase: "validation",
+        workflow: emptyWorkflow,
+        operations: [],
+        error: {
+          type: "claude_api",
+          code: "EDIT_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+          userMessage: "Failed to apply the change",
+          retryable: true,
+        },
+      };
+    }
+  }
+
+  /**
+   * Keep the operations whose node references resolve, in order, so a
+   * node added earlier in the response can be referenced later on
+   */
+  private filterOperations(
+    nodes: any[],
+    operations: WorkflowEditOperation[]
+  ): {
+    accepted: WorkflowEditOperation[];
+    skipped: Array<{ operation: WorkflowEditOperation; reason: string }>;
+  } {
+    const ids = new Set<string>(nodes.map((n) => n.id));
+    const names = new Set<string>(nodes.map((n) => n.name));
+    const known = (ref: string) => ids.has(ref) || names.has(ref);
+
+    const accepted: WorkflowEditOperation[] = [];
+    const skipped: Array<{ operation: WorkflowEditOperation; reason: string }> =
+      [];
+
+    for (const operation of operations) {
+      let reason: string | undefined;
+
+      switch (operation.type) {
+        case "addNode":
+          if (ids.has(operation.node.id) || names.has(operation.node.name)) {
+            reason = `node "${operation.node.name}" already exists`;
+          } else {
+            ids.add(operation.node.id);
+            names.add(operation.node.name);
+          }
+          break;
+        case "addConnection":
+        case "removeConnection":
+          if (!known(operation.from)) reason = `unknown node "${operation.from}"`;
+          else if (!known(operation.to)) reason = `unknown node "${operation.to}"`;
+          break;
+        case "addField":
+        case "updateField":
+        case "removeField":
+          if (!known(operation.nodeId)) reason = `unknown node "${operation.nodeId}"`;
+          break;
+      }
+
+      if (reason) skipped.push({ operation, reason });
+      else accepted.push(operation);
+    }
+
+    return { accepted, skipped };
+  }
+
+  /**
+   * Put added nodes into the build phase of the node they are connected to,
+   * so the documentation layout groups them with it
+   *
+   * Returns undefined when the session has no build phases or nothing changed.
+   */
+  private extendBuildPhases(
+    phases: BuildPhase[] | undefined,
+    nodes: any[],
+    operations: WorkflowEditOperation[]
+  ): BuildPhase[] | undefined {
+    if (!Array.isArray(phases) || phases.length === 0) return undefined;
+
+    const added = operations.flatMap((op) =>
+      op.type === "addNode" ? [op.node] : []
+    );
+    if (added.length === 0) return undefined;
+
+    // Connections reference nodes by ID or name, build phases by ID
+    const idByRef = new Map<string, string>();
+    for (const node of [...nodes, ...added]) {
+      idByRef.set(node.id, node.id);
+      idByRef.set(node.name, node.id);
+    }
+    const addedIds = new Set(added.map((node) => node.id));
+    const next = phases.map((phase) => ({ ...phase, nodeIds: [...phase.nodeIds] }));
+    const phaseOf = (ref: string) => {
+      const nodeId = idByRef.get(ref) || ref;
+      return next.find((phase) => phase.nodeIds.includes(nodeId));
+    };
+
+    let changed = false;
+    // Connections are resolved in order, so chains of new nodes follow along
+    for (const op of operations) {
+      if (op.type !== "addConnection") continue;
+
+      const pairs: Array<[string, string]> = [
+        [op.to, op.from], // New node downstream of a grouped node
+        [op.from, op.to], // New node feeding into a grouped node
+      ];
+      for (const [ref, neighbour] of pairs) {
+        const nodeId = idByRef.get(ref);
+        if (!nodeId || !addedIds.has(nodeId) || phaseOf(nodeId)) continue;
+
+        const phase = phaseOf(neighbour);
+        if (phase) {
+          phase.nodeIds.push(nodeId);
+          changed = true;
+        }
+      }
+    }
+
+    return changed ? next : undefined;
+  }
+}
@@ -7,8 +7,24 @@ import {
   ValidationRunnerDeps,
 } from "@/types/orchestrator/validation";
 import { WorkflowOperation } from "@/types/workflow";
+import type {
+  ValidationIssue,
+  ValidationIssueType,
+  ValidationNodeFix,
+  ValidationPhaseReport,
+} from "@/types/validation";
 import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
 import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
+import { validateWorkflowStructure } from "@/lib/validation";
+
+// Structural issues reported with connection errors (the rest go with
+// workflow errors, or expression errors for field values)
+const CONNECTION_ISSUE_TYPES: ValidationIssueType[] = [
+  "invalid_connection",
+  "circular_dependency",
+  "orphaned_node",
+];
 
 /**
  * Runner for the validation phase
@@ -26,7 +42,7 @@ export class ValidationRunner
    * Run the validation phase
    */
   async run(input: ValidationInput): Promise<ValidationOutput> {
-    const { sessionId, buildingResult } = input;
+    const { sessionId, buildingResult, signal, budgetGuard } = input;
 
     // ====================================================================
     // Set up token tracking for this phase
@@ -40,6 +56,13 @@ export class ValidationRunner
       this.deps.claudeService.setOnUsageCallback(onTokenUsage);
     }
 
+    // Abort in-flight Claude and MCP calls when the session is cancelled
+    this.deps.claudeService.setAbortSignal?.(signal);
+    this.deps.nodeContextService.setAbortSignal?.(signal);
+
+    // Check every Claude call of this run against the token budget
+    this.deps.claudeService.setBudgetGuard?.(budgetGuard);
+
     try {
       // Get draft workflow from building phase
       let draftWorkflow: any = null;
@@ -82,7 +105,7 @@ export class ValidationRunner
       );
 
       let currentWorkflow = JSON.parse(JSON.stringify(draftWorkflow));
-      const validationReport: any = {
+      const validationReport: ValidationPhaseReport = {
         initial: null,
         fixesApplied: [],
         final: null,
@@ -99,6 +122,7 @@ export class ValidationRunner
       let allValid = false;
 
       while (attempts < MAX_ATTEMPTS && !allValid) {
+        throwIfCancelled(signal);
         attempts++;
         this.deps.loggers.orchestrator.debug(
           `Validation attempt ${attempts}/${MAX_ATTEMPTS}`
@@ -122,6 +146,12 @@ export class ValidationRunner
         this.deps.loggers.orchestrator.debug(
           `Found ${allErrors.length} validation errors`
         );
+        operationLogger.emitProgress({
+          type: "validation_attempt",
+          attempt: attempts,
+          maxAttempts: MAX_ATTEMPTS,
+          errorCount: allErrors.length,
+        });
 
         // Debug log to understand error structure
         if (allErrors.length > 0 && attempts === 1) {
@@ -312,6 +342,7 @@ export class ValidationRunner
           errors: normalizedErrors,
           entities,
           workflow: currentWorkflow,
+          sessionId,
         });
 
         if (!fixResult.success || !fixResult.data) {
@@ -350,6 +381,21 @@ export class ValidationRunner
           );
         }
 
+        // Keep the replaced nodes' parameters for the fix report
+        const nodeFixes: ValidationNodeFix[] = (fixedNodes || []).map(
+          (fixedNode: any) => {
+            const previous = (currentWorkflow.nodes || []).find(
+              (n: any) => n.id === fixedNode.id
+            );
+            return {
+              nodeId: fixedNode.id,
+              name: fixedNode.name || previous?.name || fixedNode.id,
+              before: previous?.parameters || {},
+              after: fixedNode.parameters || {},
+            };
+          }
+        );
+
         // Step 5: Apply entity replacements
         currentWorkflow = this.applyEntityFixes(currentWorkflow, {
           fixedNodes,
@@ -375,6 +421,7 @@ export class ValidationRunner
             nodes: fixedNodes?.map((n: any) => n.id),
             connections: !!fixedConnections,
           },
+          nodes: nodeFixes,
         });
 
         // Log operations for tracking
@@ -462,6 +509,9 @@ export class ValidationRunner
         }
       }
 
+      // Keep the report so the fixes can be reviewed after the run
+      operations.push({ type: "setValidationReport", report: validationReport });
+
       // Save the validated workflow to state
       operations.push({
         type: "setWorkflow",
@@ -488,6 +538,9 @@ export class ValidationRunner
         reasoning,
       };
     } catch (error) {
+      // Cancellation is reported by wrapPhase, not recorded as a failure
+      throwIfCancelled(signal);
+
       // Record error in Supabase
       await this.deps.sessionRepo.recordError(sessionId, error, "validation");
 
@@ -699,12 +752,103 @@ export class ValidationRunner
   }
 
   /**
-   * Run MCP validation tools directly
+   * Run the local structural checks, then the MCP validation tools
+   *
+   * MCP is skipped while the structure has errors: those are fixed first,
+   * saving a round trip per attempt, and are still caught when MCP is down.
    */
   private async runValidations(workflow: any): Promise<{
     workflow: any;
     connections: any;
     expressions: any;
+    structure: ValidationIssue[];
+  }> {
+    const structure = validateWorkflowStructure(workflow);
+    const errors = structure.filter((issue) => issue.severity === "error");
+    const warnings = structure
+      .filter((issue) => issue.severity !== "error")
+      .map((issue) => this.toValidationError(issue));
+
+    if (warnings.length > 0) {
+      this.deps.loggers.orchestrator.info(
+        `\n   🧱 Structural Warnings (${warnings.length} total):`
+      );
+      warnings.forEach((warning, index) => {
+        this.deps.loggers.orchestrator.info(
+          `      ${index + 1}. [${warning.node}] ${warning.message}`
+        );
+      });
+    }
+
+    if (errors.length > 0) {
+      this.deps.loggers.orchestrator.info(
+        `\n   🧱 Structural check found ${errors.length} error${
+          errors.length > 1 ? "s" : ""
+        } - fixing before MCP validation`
+      );
+      const ofTypes = (matches: (type: ValidationIssueType) => boolean) =>
+        errors
+          .filter((issue) => matches(issue.type))
+          .map((issue) => this.toValidationError(issue));
+
+      return {
+        workflow: {
+          errors: ofTypes(
+            (type) =>
+              !CONNECTION_ISSUE_TYPES.includes(type) &&
+              type !== "invalid_field_value"
+          ),
+          warnings,
+          valid: false,
+        },
+        connections: {
+          errors: ofTypes((type) => CONNECTION_ISSUE_TYPES.includes(type)),
+          warnings: [],
+        },
+        expressions: {
+          errors: ofTypes((type) => type === "invalid_field_value"),
+          warnings: [],
+        },
+        structure,
+      };
+    }
+
+    const results = await this.runMcpValidations(workflow);
+    return {
+      ...results,
+      workflow: {
+        ...results.workflow,
+        warnings: [...(results.workflow?.warnings || []), ...warnings],
+      },
+      structure,
+    };
+  }
+
+  /**
+   * A structural issue in the error format MCP validation uses, which the
+   * fix loop reads the node and message from
+   */
+  private toValidationError(issue: ValidationIssue): {
+    node: string;
+    message: string;
+    type: ValidationIssueType;
+    severity: ValidationIssue["severity"];
+  } {
+    return {
+      node: issue.nodeName || issue.nodeId || "workflow",
+      message: issue.message,
+      type: issue.type,
+      severity: issue.severity,
+    };
+  }
+
+  /**
+   * Run MCP validation tools directly
+   */
+  private async runMcpValidations(workflow: any): Promise<{
+    workflow: any;
+    connections: any;
+    expressions: any;
   }> {
     const results = {
       workflow: null as any,
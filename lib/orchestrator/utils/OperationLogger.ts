@@ -3,6 +3,10 @@
 import { WorkflowOperation, WorkflowPhase } from "@/types/workflow";
 import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
 import { loggers } from "@/lib/utils/logger";
+import { sessionEvents } from "@/lib/events/session-events";
+import type { SessionEventPayload } from "@/types/events";
+import type { TokenCallBreakdown } from "@/types/usage";
+import type { TokenUsageCallback } from "@/services/claude/client";
 
 export interface OperationMetadata {
   timestamp: Date;
@@ -22,14 +26,23 @@ export type EnhancedOperation = WorkflowOperation & {
  * - Metadata enrichment (timing, tokens, phase)
  * - Batching for performance
  * - Error context preservation
+ * - Phase lifecycle and progress events for the session event stream
+ *
+ * Events of the operations a phase returns are published once, by
+ * SessionRepo.persistOperations, so logging an operation publishes nothing.
  */
 export class OperationLogger {
   private pendingOperations: Map<string, EnhancedOperation[]> = new Map();
   private phaseStartTimes: Map<string, number> = new Map();
 
+  /**
+   * @param tokenPhase - Key the phase's tokens are counted under in
+   * tokenUsage.byPhase, when it differs from the phase (e.g. "edit")
+   */
   constructor(
     private readonly sessionId: string,
-    private readonly phase: WorkflowPhase
+    private readonly phase: WorkflowPhase,
+    private readonly tokenPhase: string = phase
   ) {}
 
   /**
@@ -38,6 +51,18 @@ export class OperationLogger {
   startPhase(): void {
     this.phaseStartTimes.set(this.phase, Date.now());
     loggers.orchestrator.debug(`Started timing ${this.phase} phase`);
+    sessionEvents.publish(this.sessionId, {
+      type: "phase_started",
+      phase: this.phase,
+    });
+  }
+
+  /**
+   * Publish a progress event that isn't backed by an operation
+   * (e.g. a validation attempt)
+   */
+  emitProgress(event: SessionEventPayload): void {
+    sessionEvents.publish(this.sessionId, event);
   }
 
   /**
@@ -112,6 +137,12 @@ export class OperationLogger {
       duration,
       tokensUsed,
     });
+    sessionEvents.publish(this.sessionId, {
+      type: "phase_completed",
+      phase: this.phase,
+      durationMs: duration,
+      tokensUsed,
+    });
 
     loggers.orchestrator.info(
       `Phase ${this.phase} completed in ${duration}ms${
@@ -140,6 +171,11 @@ export class OperationLogger {
     await this.logOperation(errorOp, {
       error: error.message,
     });
+    sessionEvents.publish(this.sessionId, {
+      type: "phase_failed",
+      phase: this.phase,
+      message: error.message,
+    });
 
     // Always flush errors immediately
     await this.flush();
@@ -198,14 +234,18 @@ export class OperationLogger {
    */
   withTokenTracking(): {
     logger: OperationLogger;
-    onTokenUsage: (tokens: number) => void;
+    onTokenUsage: TokenUsageCallback;
   } {
     let accumulatedTokens = 0;
     // Generate thresholds every 10K up to 200K
     const thresholds = Array.from({ length: 20 }, (_, i) => (i + 1) * 10000);
     let nextThresholdIndex = 0;
 
-    const onTokenUsage = async (tokens: number) => {
+    const onTokenUsage = async (
+      tokens: number,
+      method?: string,
+      breakdown?: TokenCallBreakdown
+    ) => {
       accumulatedTokens += tokens;
 
       // Log at INFO level for better visibility
@@ -213,12 +253,21 @@ export class OperationLogger {
         `Session token usage: +${tokens} (total: ${accumulatedTokens.toLocaleString()})`
       );
 
+      sessionEvents.publish(this.sessionId, {
+        type: "tokens_used",
+        phase: this.phase,
+        tokens,
+        phaseTotal: accumulatedTokens,
+      });
+
       // Store token usage data in session
       try {
         await orchestratorHooks.updateTokenUsage(
           this.sessionId,
           tokens,
-          this.phase
+          this.tokenPhase,
+          method,
+          breakdown
         );
       } catch (error) {
         loggers.orchestrator.error(
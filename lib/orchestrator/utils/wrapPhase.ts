@@ -4,6 +4,13 @@ import { WorkflowPhase, ErrorResponse } from "@/types/workflow";
 import { OperationLogger } from "./OperationLogger";
 import { SessionRepo } from "@/lib/orchestrator/context/SessionRepo";
 import { loggers } from "@/lib/utils/logger";
+import { ProviderError } from "@/services/claude";
+import { MCPConnectionError } from "@/lib/mcp-error-handler";
+import {
+  isCancellationError,
+  throwIfCancelled,
+} from "@/lib/utils/cancellation";
+import { getTokenBudget, isTokenBudgetEnabled } from "@/lib/usage";
 
 export interface PhaseContext {
   sessionId: string;
@@ -16,6 +23,7 @@ export interface PhaseResult<T> {
   success: boolean;
   phase: WorkflowPhase;
   error?: ErrorResponse["error"];
+  cancelled?: boolean; // Set when the session was cancelled mid-phase
   [key: string]: any; // Allow phase-specific properties
 }
 
@@ -51,6 +59,18 @@ const ERROR_MAPPINGS: Record<
     retryable: true,
   },
 
+  // Session cancelled through the cancel endpoint
+  CANCELLED: {
+    userMessage: "Workflow generation was cancelled",
+    retryable: false,
+  },
+
+  // Token budget used up (see lib/usage)
+  BUDGET_EXCEEDED: {
+    userMessage: "Token budget reached. Please try again once it is raised.",
+    retryable: false,
+  },
+
   // Validation errors
   NO_NODES_SELECTED: {
     userMessage: "Please select nodes before proceeding to configuration.",
@@ -74,6 +94,9 @@ const ERROR_MAPPINGS: Record<
  * - Operation logging with error context
  * - Error recording in Supabase
  * - Timing and metrics
+ * - Cancellation: an aborted input.signal ends the phase with a
+ *   `cancelled` result and nothing is persisted
+ * - Token budgets: a session out of budget fails with BUDGET_EXCEEDED
  */
 export function wrapPhase<TInput, TOutput extends PhaseResult<any>>(
   phaseName: WorkflowPhase,
@@ -81,9 +104,9 @@ export function wrapPhase<TInput, TOutput extends PhaseResult<any>>(
 ) {
   return async function wrappedRun(
     this: any,
-    input: TInput & { sessionId: string }
+    input: TInput & { sessionId: string; signal?: AbortSignal }
   ): Promise<TOutput> {
-    const { sessionId } = input;
+    const { sessionId, signal } = input;
     const startTime = Date.now();
 
     // Create phase context
@@ -105,9 +128,24 @@ export function wrapPhase<TInput, TOutput extends PhaseResult<any>>(
         `Starting ${phaseName} phase for session ${sessionId}`
       );
 
+      throwIfCancelled(signal);
+      if (isTokenBudgetEnabled()) {
+        await getTokenBudget().assertWithinBudget(sessionId);
+      }
+
       // Call the actual phase implementation
       const result = await runMethod.call(this, input, context);
 
+      // Drop the results of a phase that finished after it was cancelled
+      throwIfCancelled(signal);
+
+      // Phase services turn a budget error into a generic failure, so
+      // report a failure on a used up budget as BUDGET_EXCEEDED
+      if (!result.success && isTokenBudgetEnabled()) {
+        const exceeded = await getTokenBudget().checkBudget(sessionId);
+        if (exceeded) throw exceeded;
+      }
+
       // CRITICAL: Persist operations before returning to ensure they're available for next phase
       // This fixes the race condition where operations weren't being saved between phases
       if (result.success && result.operations && result.operations.length > 0) {
@@ -129,6 +167,27 @@ export function wrapPhase<TInput, TOutput extends PhaseResult<any>>(
 
       return result;
     } catch (error) {
+      if (signal?.aborted || isCancellationError(error)) {
+        loggers.orchestrator.info(
+          `${phaseName} phase cancelled for session ${sessionId}`
+        );
+
+        const cancelledError: ErrorResponse["error"] = {
+          type: "client",
+          code: "CANCELLED",
+          message: "Workflow generation was cancelled",
+          userMessage: ERROR_MAPPINGS.CANCELLED.userMessage,
+          retryable: ERROR_MAPPINGS.CANCELLED.retryable,
+        };
+        return {
+          success: false,
+          phase: phaseName,
+          error: cancelledError,
+          ...getPhaseSpecificDefaults(phaseName),
+          cancelled: true,
+        } as TOutput;
+      }
+
       // Handle and transform errors
       const phaseError = normalizeError(error, phaseName);
       const errorResponse = createErrorResponse(phaseError);
@@ -182,7 +241,9 @@ function createErrorResponse(error: PhaseError): ErrorResponse["error"] {
   let errorMapping = ERROR_MAPPINGS.DEFAULT;
 
   // Check error message for patterns
-  if (error.message.includes("ECONNREFUSED")) {
+  if (error.message.includes("BUDGET_EXCEEDED")) {
+    errorMapping = ERROR_MAPPINGS.BUDGET_EXCEEDED;
+  } else if (error.message.includes("ECONNREFUSED")) {
     errorMapping = ERROR_MAPPINGS.ECONNREFUSED;
   } else if (error.message.includes("ETIMEDOUT")) {
     errorMapping = ERROR_MAPPINGS.ETIMEDOUT;
@@ -214,7 +275,12 @@ function createErrorResponse(error: PhaseError): ErrorResponse["error"] {
  * Determine error type from error details
  */
 function determineErrorType(error: PhaseError): ErrorResponse["error"]["type"] {
+  // Typed errors keep their source so the job worker can tell what to retry
+  if (error instanceof ProviderError) return "claude_api";
+  if (error instanceof MCPConnectionError) return "mcp_server";
+
   const msg = (error.message || "").toLowerCase();
+  if (msg.includes("budget_exceeded")) return "client";
   if (msg.includes("claude") || msg.includes("anthropic")) return "claude_api";
   if (
     msg.includes("validation") ||
@@ -244,7 +310,7 @@ function determineErrorType(error: PhaseError): ErrorResponse["error"]["type"] {
 function extractErrorCode(error: PhaseError): string {
   // Look for common error code patterns
   const codeMatch = error.message.match(
-    /\b([A-Z_]+_ERROR|[A-Z_]+_FAILED|NO_[A-Z_]+)\b/
+    /\b([A-Z_]+_ERROR|[A-Z_]+_FAILED|[A-Z_]+_EXCEEDED|NO_[A-Z_]+)\b/
   );
   if (codeMatch) {
     return codeMatch[1];
@@ -24,7 +24,13 @@ export class PhaseManager {
       "clarificationResponse",
       "setUserPrompt",
     ],
-    configuration: ["configureNode", "updateNodeConfig", "setUserPrompt"],
+    configuration: [
+      "configureNode",
+      "updateNodeConfig",
+      "requestClarification",
+      "clarificationResponse",
+      "setUserPrompt",
+    ],
     building: [
       "addToWorkflow",
       "addConnection",
@@ -34,6 +40,7 @@ export class PhaseManager {
     validation: ["validateNode", "addValidationError", "setUserPrompt"],
     documentation: ["addStickyNote", "setUserPrompt"],
     complete: [],
+    cancelled: [],
   };
 
   // Define MCP tools available in each phase
@@ -53,6 +60,7 @@ export class PhaseManager {
     ],
     documentation: [], // No MCP tools needed for documentation phase
     complete: [],
+    cancelled: [],
   };
 
   /**
@@ -161,6 +169,13 @@ export class PhaseManager {
           reason: "Workflow already complete",
         };
 
+      case "cancelled":
+        return {
+          canProgress: false,
+          autoTransition: false,
+          reason: "Workflow generation was cancelled",
+        };
+
       default:
         return {
           canProgress: false,
@@ -0,0 +1,36 @@
+// lib/prompt-experiments/index.ts
+
+import { InMemoryPromptVariantRunStore, type PromptVariantRunStore } from "./variant-run-store";
+import { SupabasePromptVariantRunStore } from "./supabase-variant-run-store";
+
+export {
+  InMemoryPromptVariantRunStore,
+  summarizePromptVariants,
+  type PromptVariantRunStore,
+} from "./variant-run-store";
+export { SupabasePromptVariantRunStore } from "./supabase-variant-run-store";
+
+let variantRunStore: PromptVariantRunStore | undefined;
+
+/**
+ * Where prompt variant outcomes are recorded: the prompt_variant_runs
+ * table with Supabase state persistence (USE_SUPABASE_STATE), otherwise
+ * memory for the life of the process
+ */
+export function getPromptVariantRunStore(): PromptVariantRunStore {
+  if (!variantRunStore) {
+    variantRunStore =
+      process.env.USE_SUPABASE_STATE === "true"
+        ? new SupabasePromptVariantRunStore()
+        : new InMemoryPromptVariantRunStore();
+  }
+  return variantRunStore;
+}
+
+/**
+ * Replace the store, e.g. a fresh in-memory one per test. Undefined reads
+ * the environment again.
+ */
+export function usePromptVariantRunStore(store: PromptVariantRunStore | undefined): void {
+  variantRunStore = store;
+}
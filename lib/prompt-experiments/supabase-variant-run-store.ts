@@ -0,0 +1,69 @@
+// lib/prompt-experiments/supabase-variant-run-store.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import type { PromptVariantRunStore } from "./variant-run-store";
+import type {
+  PromptPhase,
+  PromptVariantRun,
+  RecordPromptVariantRunInput,
+} from "@/types/prompt-experiments";
+
+/**
+ * Prompt variant outcomes in the Supabase prompt_variant_runs table
+ * (see scripts/create-prompt-variant-runs-table.sql)
+ */
+export class SupabasePromptVariantRunStore implements PromptVariantRunStore {
+  private supabase = createServiceClient();
+
+  async record(input: RecordPromptVariantRunInput): Promise<PromptVariantRun> {
+    const { data, error } = await this.supabase
+      .from("prompt_variant_runs")
+      .upsert(
+        {
+          session_id: input.sessionId,
+          phase: input.phase,
+          version: input.version,
+          success: input.success,
+          validation_attempts: input.validationAttempts ?? null,
+          tokens: input.tokens,
+          recorded_at: new Date().toISOString(),
+        },
+        { onConflict: "session_id,phase" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record prompt variant run: ${error.message}`);
+    }
+    return toRun(data);
+  }
+
+  async list(phase?: PromptPhase): Promise<PromptVariantRun[]> {
+    let query = this.supabase
+      .from("prompt_variant_runs")
+      .select("*")
+      .order("recorded_at", { ascending: true });
+    if (phase) query = query.eq("phase", phase);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list prompt variant runs: ${error.message}`);
+    }
+    return (data || []).map(toRun);
+  }
+}
+
+function toRun(row: any): PromptVariantRun {
+  return {
+    sessionId: row.session_id,
+    phase: row.phase,
+    version: row.version,
+    success: row.success,
+    ...(row.validation_attempts !== null && row.validation_attempts !== undefined
+      ? { validationAttempts: row.validation_attempts }
+      : {}),
+    tokens: row.tokens,
+    recordedAt: row.recorded_at,
+  };
+}
@@ -0,0 +1,81 @@
+// lib/prompt-experiments/variant-run-store.ts
+
+import type {
+  PromptPhase,
+  PromptVariantRun,
+  PromptVariantSummary,
+  RecordPromptVariantRunInput,
+} from "@/types/prompt-experiments";
+
+/**
+ * Storage for the outcomes of sessions' prompt versions
+ */
+export interface PromptVariantRunStore {
+  /**
+   * Record how a session's phase went, replacing an earlier run of the
+   * same phase
+   */
+  record(input: RecordPromptVariantRunInput): Promise<PromptVariantRun>;
+
+  /**
+   * Recorded runs of one phase, or of all phases
+   */
+  list(phase?: PromptPhase): Promise<PromptVariantRun[]>;
+}
+
+/**
+ * In-memory store for tests and local development
+ */
+export class InMemoryPromptVariantRunStore implements PromptVariantRunStore {
+  private runs = new Map<string, PromptVariantRun>();
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async record(input: RecordPromptVariantRunInput): Promise<PromptVariantRun> {
+    const run: PromptVariantRun = { ...input, recordedAt: this.now().toISOString() };
+    this.runs.set(`${input.sessionId}:${input.phase}`, run);
+    return { ...run };
+  }
+
+  async list(phase?: PromptPhase): Promise<PromptVariantRun[]> {
+    return Array.from(this.runs.values())
+      .filter((run) => !phase || run.phase === phase)
+      .map((run) => ({ ...run }));
+  }
+}
+
+/**
+ * Outcomes per phase and version, in phase then version order
+ */
+export function summarizePromptVariants(
+  runs: PromptVariantRun[]
+): PromptVariantSummary[] {
+  const groups = new Map<string, PromptVariantRun[]>();
+  for (const run of runs) {
+    const key = `${run.phase}:${run.version}`;
+    groups.set(key, [...(groups.get(key) || []), run]);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const attempts = group
+        .map((run) => run.validationAttempts)
+        .filter((value): value is number => typeof value === "number");
+      return {
+        phase: group[0].phase,
+        version: group[0].version,
+        runs: group.length,
+        successRate: group.filter((run) => run.success).length / group.length,
+        avgTokens: average(group.map((run) => run.tokens)),
+        ...(attempts.length > 0 ? { avgValidationAttempts: average(attempts) } : {}),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.phase.localeCompare(b.phase) || a.version.localeCompare(b.version)
+    );
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,86 @@
+// lib/services/memory-session-store.ts
+
+import {
+  addTokenUsage,
+  applyOperationsToState,
+  createInitialSessionState,
+  deserializeSessionState,
+  type SerializedSessionState,
+} from "./session-state-reducer";
+import type { WorkflowOperation, WorkflowSession } from "@/types/workflow";
+import type { TokenCallBreakdown } from "@/types/usage";
+
+interface StoredSession {
+  createdAt: Date;
+  state: SerializedSessionState;
+}
+
+/**
+ * Session state kept in process instead of Supabase, e.g. for a run
+ * replayed from a cassette in CI
+ *
+ * States are stored serialized and updated with the same reducer as
+ * SessionManager, so a phase loads the same input either way.
+ */
+export class MemorySessionStore {
+  private sessions = new Map<string, StoredSession>();
+
+  /**
+   * Start a session from its initial state, replacing any stored under
+   * the same ID
+   */
+  create(sessionId: string, prompt: string): void {
+    this.sessions.set(sessionId, {
+      createdAt: new Date(),
+      state: createInitialSessionState(prompt),
+    });
+  }
+
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  load(sessionId: string): WorkflowSession | null {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) return null;
+
+    // Cloned so callers can't change the stored state
+    return {
+      sessionId,
+      createdAt: stored.createdAt,
+      state: deserializeSessionState(structuredClone(stored.state)),
+    };
+  }
+
+  applyOperations(sessionId: string, operations: WorkflowOperation[]): void {
+    const stored = this.require(sessionId);
+    stored.state = applyOperationsToState(
+      stored.state,
+      operations.map((op) => ({ ...op, timestamp: new Date().toISOString() }))
+    );
+  }
+
+  updateMetadata(
+    sessionId: string,
+    metadata: Partial<SerializedSessionState["metadata"]>
+  ): void {
+    const stored = this.require(sessionId);
+    stored.state.metadata = { ...stored.state.metadata, ...metadata };
+  }
+
+  recordTokenUsage(
+    sessionId: string,
+    tokens: number,
+    phase?: string,
+    method?: string,
+    breakdown?: TokenCallBreakdown
+  ): void {
+    addTokenUsage(this.require(sessionId).state, tokens, phase, method, breakdown);
+  }
+
+  private require(sessionId: string): StoredSession {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) throw new Error(`Session ${sessionId} not found`);
+    return stored;
+  }
+}
@@ -1,7 +1,13 @@
 // lib/services/seo-generator.service.ts
 
-import { Anthropic } from "@anthropic-ai/sdk";
-import { createAnthropicClient } from "@/lib/config/anthropic";
+import { AnthropicClient } from "@/services/claude/client";
+import { MODELS } from "@/services/claude/constants";
+import {
+  createLLMProvider,
+  getPhaseProviderConfig,
+  withCassette,
+  type LLMProvider,
+} from "@/services/claude/providers";
 import { createServerClient } from "@/lib/config/supabase";
 import { DiscoveredNode } from "@/types/workflow";
 import { WorkflowSEOMetadata } from "@/types/seo";
@@ -10,17 +16,29 @@ import { loadCategories, getTopLevelCategories, getSubcategories } from "@/lib/s
 
 const logger = loggers.seo;
 
+// Fast and cost-effective for structured data; LLM_PHASE_PROVIDERS.seo
+// can route SEO generation elsewhere
+const SEO_MODEL = MODELS.seo;
+
+// Prefill to ensure JSON response with required fields
+const SEO_PREFILL = '{\n  "slug": "';
+
 /**
  * SEO Generator Service
  * Generates business-focused SEO metadata for workflows using Claude
  * Uses prefill technique for reliable JSON output
  */
 export class SEOGeneratorService {
-  private anthropic: Anthropic;
+  private provider: LLMProvider;
   private categoriesLoaded: boolean = false;
 
   constructor() {
-    this.anthropic = createAnthropicClient();
+    const settings = getPhaseProviderConfig().seo;
+    this.provider = withCassette(() =>
+      settings
+        ? createLLMProvider(settings)
+        : new AnthropicClient({ model: SEO_MODEL })
+    );
     // Load categories on initialization
     this.initializeCategories();
   }
@@ -82,45 +100,28 @@ export class SEOGeneratorService {
         userMessage,
       });
 
-      logger.info("🤖 Calling Claude API", {
+      logger.info("🤖 Calling model", {
         sessionId,
-        model: "claude-3-haiku-20240307",
         maxTokens: 500,
         temperature: 0.3,
       });
 
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307", // Fast and cost-effective for structured data
-        max_tokens: 500,
+      const completion = await this.provider.completeJSON({
+        systemPrompt,
+        userMessage,
+        prefill: SEO_PREFILL,
+        maxTokens: 500,
         temperature: 0.3, // Lower temperature for consistency
-        system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: userMessage,
-          },
-          {
-            role: "assistant",
-            content: '{\n  "slug": "', // Prefill to ensure JSON response with required fields
-          },
-        ],
+        phase: "seo",
       });
 
-      logger.info("✅ Claude API Response Received", {
+      logger.info("✅ Model Response Received", {
         sessionId,
-        responseType: response.content[0]?.type,
-        stopReason: response.stop_reason,
-        usage: response.usage,
+        usage: completion.usage,
       });
 
-      // Extract concatenated text blocks safely
-      const textBlocks = response.content
-        .filter((b: any) => b && b.type === "text")
-        .map((b: any) => b.text as string)
-        .join("");
-
       // Complete the JSON with the prefilled opening
-      const jsonString = '{\n  "slug": "' + textBlocks;
+      const jsonString = completion.fullContent;
 
       logger.info("📄 Raw JSON Response", {
         sessionId,
@@ -7,49 +7,33 @@
 
 import { createServerClient } from "../config/supabase";
 import { loggers } from "../utils/logger";
-import { PhaseManager } from "../phase-manager";
+import {
+  addTokenUsage,
+  applyOperationsToState,
+  createInitialSessionState,
+  findPhaseStartIndex,
+  type SerializedSessionState,
+} from "./session-state-reducer";
 import type {
   WorkflowOperation,
   WorkflowSession,
   WorkflowPhase,
-  DiscoveredNode,
-  NodeConfiguration,
-  ValidationResult,
-  ClarificationRequest,
-  ClarificationResponse,
 } from "../../types/workflow";
+import type { TokenCallBreakdown } from "../../types/usage";
 
 /**
  * Session state structure in Supabase
  */
-interface SupabaseSessionState {
-  phase: WorkflowPhase;
-  userPrompt: string;
-  discovered: DiscoveredNode[];
-  selected: string[];
-  configured: Record<string, NodeConfiguration>;
-  validated: Record<string, ValidationResult>;
-  workflow: {
-    nodes: any[];
-    connections: any;
-    settings: any;
-  };
-  seo?: import("../../types/seo").WorkflowSEOMetadata;
-  buildPhases?: Array<{
-    type: string;
-    description: string;
-    nodeIds: string[];
-  }>;
-  // Optional configuration analysis snapshot
-  configAnalysis?: import("../../types/workflow").WorkflowConfigAnalysis;
-  operationHistory: WorkflowOperation[];
-  pendingClarifications: ClarificationRequest[];
-  clarificationHistory: ClarificationResponse[];
-  metadata?: {
-    claudeTokensUsed?: number;
-    operationCount?: number;
-    lastError?: any;
-  };
+type SupabaseSessionState = SerializedSessionState;
+
+/**
+ * Thrown when a user acts on a session that belongs to another user
+ */
+export class SessionAccessError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} belongs to another user`);
+    this.name = "SessionAccessError";
+  }
 }
 
 export class SessionManager {
@@ -63,6 +47,9 @@ export class SessionManager {
   private readonly SAVE_INTERVAL = 30000; // 30 seconds
   private saveTimers = new Map<string, NodeJS.Timeout>();
 
+  // Read-modify-write updates of each session's state, one at a time
+  private stateWrites = new Map<string, Promise<unknown>>();
+
   /**
    * Create a new session in Supabase (with upsert support)
    */
@@ -72,27 +59,8 @@ export class SessionManager {
     userId?: string
   ): Promise<WorkflowSession> {
     try {
-      const initialState: SupabaseSessionState = {
-        phase: "discovery",
-        userPrompt: initialPrompt,
-        discovered: [],
-        selected: [],
-        configured: {},
-        validated: {},
-        workflow: {
-          nodes: [],
-          connections: {},
-          settings: {},
-        },
-        buildPhases: [], // Initialize empty array for build phases
-        operationHistory: [],
-        pendingClarifications: [],
-        clarificationHistory: [],
-        metadata: {
-          operationCount: 0,
-          claudeTokensUsed: 0,
-        },
-      };
+      const initialState: SupabaseSessionState =
+        createInitialSessionState(initialPrompt);
 
       // Use upsert to handle duplicate key gracefully
       const { data, error } = await this.supabase
@@ -238,47 +206,49 @@ export class SessionManager {
     sessionId: string,
     operations: WorkflowOperation[]
   ): Promise<void> {
-    try {
-      // Load current state
-      const { data: current, error: loadError } = await this.supabase
-        .from("workflow_sessions")
-        .select("state")
-        .eq("session_id", sessionId)
-        .single();
+    return this.serializeWrite(sessionId, async () => {
+      try {
+        // Load current state
+        const { data: current, error: loadError } = await this.supabase
+          .from("workflow_sessions")
+          .select("state")
+          .eq("session_id", sessionId)
+          .single();
+
+        if (loadError) {
+          throw new Error(
+            `Failed to load session for update: ${loadError.message}`
+          );
+        }
 
-      if (loadError) {
-        throw new Error(
-          `Failed to load session for update: ${loadError.message}`
+        // Apply operations to state
+        const updatedState = this.applyOperationsToState(
+          current.state as SupabaseSessionState,
+          operations
         );
-      }
 
-      // Apply operations to state
-      const updatedState = this.applyOperationsToState(
-        current.state as SupabaseSessionState,
-        operations
-      );
-
-      // Save updated state
-      const { error: updateError } = await this.supabase
-        .from("workflow_sessions")
-        .update({
-          state: updatedState,
-          operations: updatedState.operationHistory, // Mirror operations for chronological narrative
-          updated_at: new Date().toISOString(),
-        })
-        .eq("session_id", sessionId);
+        // Save updated state
+        const { error: updateError } = await this.supabase
+          .from("workflow_sessions")
+          .update({
+            state: updatedState,
+            operations: updatedState.operationHistory, // Mirror operations for chronological narrative
+            updated_at: new Date().toISOString(),
+          })
+          .eq("session_id", sessionId);
+
+        if (updateError) {
+          throw new Error(`Failed to update session: ${updateError.message}`);
+        }
 
-      if (updateError) {
-        throw new Error(`Failed to update session: ${updateError.message}`);
+        this.logger.debug(
+          `Updated session ${sessionId} with ${operations.length} operations`
+        );
+      } catch (error) {
+        this.logger.error("Error updating session:", error);
+        throw error;
       }
-
-      this.logger.debug(
-        `Updated session ${sessionId} with ${operations.length} operations`
-      );
-    } catch (error) {
-      this.logger.error("Error updating session:", error);
-      throw error;
-    }
+    });
   }
 
   /**
@@ -294,6 +264,10 @@ export class SessionManager {
         configured: this.mapToRecord(session.state.configured),
         validated: this.mapToRecord(session.state.validated),
         workflow: session.state.workflow,
+        seo: session.state.seo,
+        buildPhases: session.state.buildPhases,
+        configAnalysis: session.state.configAnalysis,
+        validationReport: session.state.validationReport,
         operationHistory: session.state.operationHistory,
         pendingClarifications: session.state.pendingClarifications,
         clarificationHistory: session.state.clarificationHistory,
@@ -343,43 +317,391 @@ export class SessionManager {
   }
 
   /**
-   * Update session metadata (tokens used, error states, etc)
+   * Rebuild session state as it was after the first `index` operations
+   * of its operationHistory (0 = the initial state, history.length = now)
    */
-  async updateMetadata(
+  async replayTo(
     sessionId: string,
-    metadata: Partial<SupabaseSessionState["metadata"]>
-  ): Promise<void> {
+    index: number
+  ): Promise<WorkflowSession | null> {
     try {
-      const { data: current, error: loadError } = await this.supabase
-        .from("workflow_sessions")
-        .select("state")
-        .eq("session_id", sessionId)
-        .single();
+      const row = await this.loadSessionRow(sessionId);
+      if (!row) return null;
+
+      const replayedState = this.replayRowState(row, index);
 
-      if (loadError) {
-        throw new Error(`Failed to load session: ${loadError.message}`);
+      this.logger.debug(
+        `Replayed session ${sessionId} to operation ${index}/${
+          (row.state as SupabaseSessionState).operationHistory?.length || 0
+        }`
+      );
+      return this.convertToWorkflowSession(sessionId, {
+        ...row,
+        state: replayedState,
+      });
+    } catch (error) {
+      this.logger.error("Error replaying session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fork a session into a new session from a point in its history
+   *
+   * The fork point is either an operation index or the start of a phase.
+   * Without either, the fork copies the full current state. With a userId,
+   * only that user's sessions can be forked.
+   */
+  async forkSession(
+    sourceSessionId: string,
+    newSessionId: string,
+    options: { atOperation?: number; phase?: WorkflowPhase; userId?: string } = {}
+  ): Promise<{
+    session: WorkflowSession;
+    operationIndex: number;
+    resumePhase: WorkflowPhase;
+  } | null> {
+    try {
+      const row = await this.loadSessionRow(sourceSessionId);
+      if (!row) return null;
+      if (options.userId && row.user_id !== options.userId) {
+        throw new SessionAccessError(sourceSessionId);
       }
 
-      const state = current.state as SupabaseSessionState;
-      state.metadata = { ...state.metadata, ...metadata };
+      const history =
+        (row.state as SupabaseSessionState).operationHistory || [];
+      let operationIndex = options.atOperation ?? history.length;
+      if (options.phase) {
+        operationIndex = findPhaseStartIndex(history, options.phase);
+        if (operationIndex === -1) {
+          throw new RangeError(
+            `Session ${sourceSessionId} never reached the ${options.phase} phase`
+          );
+        }
+      }
+
+      let forkedState = this.replayRowState(row, operationIndex);
+
+      // A fork of a cancelled session picks up where the cancel stopped it
+      const cancelled = forkedState.metadata?.cancelled;
+      if (forkedState.phase === "cancelled" && cancelled) {
+        forkedState = applyOperationsToState(forkedState, [
+          { type: "setPhase", phase: cancelled.fromPhase },
+        ]);
+      }
+
+      const resumePhase = options.phase || forkedState.phase;
+      forkedState.metadata = {
+        ...forkedState.metadata,
+        forkedFrom: {
+          sessionId: sourceSessionId,
+          operationIndex,
+          phase: resumePhase,
+          timestamp: new Date().toISOString(),
+        },
+      };
 
-      const { error: updateError } = await this.supabase
+      const { data, error } = await this.supabase
         .from("workflow_sessions")
-        .update({
-          state,
-          updated_at: new Date().toISOString(),
+        .insert({
+          session_id: newSessionId,
+          user_prompt: row.user_prompt,
+          state: forkedState,
+          operations: forkedState.operationHistory,
+          user_id: options.userId ?? row.user_id,
         })
-        .eq("session_id", sessionId);
+        .select()
+        .single();
 
-      if (updateError) {
-        throw new Error(`Failed to update metadata: ${updateError.message}`);
+      if (error) {
+        throw new Error(`Failed to create forked session: ${error.message}`);
       }
+
+      this.logger.info(
+        `Forked session ${sourceSessionId} at operation ${operationIndex} into ${newSessionId} (resume: ${resumePhase})`
+      );
+      return {
+        session: this.convertToWorkflowSession(newSessionId, data),
+        operationIndex,
+        resumePhase,
+      };
     } catch (error) {
-      this.logger.error("Error updating metadata:", error);
+      this.logger.error("Error forking session:", error);
       throw error;
     }
   }
 
+  /**
+   * Check that a session belongs to a user. False if there is no such
+   * session; throws SessionAccessError if it belongs to another user.
+   */
+  async checkSessionOwner(sessionId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("workflow_sessions")
+      .select("user_id")
+      .eq("session_id", sessionId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return false;
+      }
+      throw new Error(`Failed to load session owner: ${error.message}`);
+    }
+    if (data.user_id !== userId) {
+      throw new SessionAccessError(sessionId);
+    }
+    return true;
+  }
+
+  /**
+   * Load the raw workflow_sessions row (null if not found)
+   */
+  private async loadSessionRow(sessionId: string): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from("workflow_sessions")
+      .select("*")
+      .eq("session_id", sessionId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to load session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Replay the first `index` operations of a session row from its initial state
+   */
+  private replayRowState(row: any, index: number): SupabaseSessionState {
+    const state = row.state as SupabaseSessionState;
+    const history = state.operationHistory || [];
+
+    if (!Number.isInteger(index) || index < 0 || index > history.length) {
+      throw new RangeError(
+        `Operation index ${index} is out of range (0-${history.length})`
+      );
+    }
+
+    // setUserPrompt keeps the original prompt in metadata
+    const initialPrompt =
+      state.metadata?.initialPrompt ||
+      (row.user_prompt as string | null) ||
+      state.userPrompt;
+    return applyOperationsToState(
+      createInitialSessionState(initialPrompt),
+      history.slice(0, index)
+    );
+  }
+
+  /**
+   * Get the last error recorded for a session (see recordError hook)
+   */
+  async getLastError(sessionId: string): Promise<{
+    message: string;
+    phase: WorkflowPhase;
+    timestamp: string;
+  } | null> {
+    try {
+      const row = await this.loadSessionRow(sessionId);
+      const state = row?.state as SupabaseSessionState | undefined;
+      return state?.metadata?.lastError ?? null;
+    } catch (error) {
+      this.logger.error("Error getting last session error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the cancellation recorded for a session (see cancelSession operation)
+   */
+  async getCancellation(sessionId: string): Promise<{
+    fromPhase: WorkflowPhase;
+    reason?: string;
+    timestamp: string;
+  } | null> {
+    try {
+      const row = await this.loadSessionRow(sessionId);
+      const state = row?.state as SupabaseSessionState | undefined;
+      return state?.metadata?.cancelled ?? null;
+    } catch (error) {
+      this.logger.error("Error getting session cancellation:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update session metadata (tokens used, error states, etc)
+   */
+  async updateMetadata(
+    sessionId: string,
+    metadata: Partial<SupabaseSessionState["metadata"]>
+  ): Promise<void> {
+    return this.serializeWrite(sessionId, async () => {
+      try {
+        const { data: current, error: loadError } = await this.supabase
+          .from("workflow_sessions")
+          .select("state")
+          .eq("session_id", sessionId)
+          .single();
+
+        if (loadError) {
+          throw new Error(`Failed to load session: ${loadError.message}`);
+        }
+
+        const state = current.state as SupabaseSessionState;
+        state.metadata = { ...state.metadata, ...metadata };
+
+        const { error: updateError } = await this.supabase
+          .from("workflow_sessions")
+          .update({
+            state,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("session_id", sessionId);
+
+        if (updateError) {
+          throw new Error(`Failed to update metadata: ${updateError.message}`);
+        }
+      } catch (error) {
+        this.logger.error("Error updating metadata:", error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Clear a recorded failure or cancellation, unless another caller has
+   * cleared it since it was read
+   *
+   * The update only matches while the entry still has the timestamp that
+   * was read, so of two concurrent callers only one gets true.
+   */
+  async clearMetadataEntry(
+    sessionId: string,
+    key: "lastError" | "cancelled",
+    timestamp: string
+  ): Promise<boolean> {
+    return this.serializeWrite(sessionId, async () => {
+      try {
+        const row = await this.loadSessionRow(sessionId);
+        const state = row?.state as SupabaseSessionState | undefined;
+        if (!state || state.metadata?.[key]?.timestamp !== timestamp) {
+          return false;
+        }
+
+        state.metadata = { ...state.metadata, [key]: undefined };
+        const { data, error } = await this.supabase
+          .from("workflow_sessions")
+          .update({
+            state,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("session_id", sessionId)
+          .eq(`state->metadata->${key}->>timestamp`, timestamp)
+          .select("session_id");
+
+        if (error) {
+          throw new Error(`Failed to clear ${key}: ${error.message}`);
+        }
+        return (data?.length ?? 0) > 0;
+      } catch (error) {
+        this.logger.error(`Error clearing session ${key}:`, error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Move a session from one phase to another, unless another caller has
+   * moved it since it was read
+   *
+   * The update only matches while the session is still in `from`, so of
+   * two concurrent callers only one gets true. Only state.phase changes;
+   * the operation history is left to the runner that does the work.
+   */
+  async claimPhase(
+    sessionId: string,
+    from: WorkflowPhase,
+    to: WorkflowPhase
+  ): Promise<boolean> {
+    return this.serializeWrite(sessionId, async () => {
+      try {
+        const row = await this.loadSessionRow(sessionId);
+        const state = row?.state as SupabaseSessionState | undefined;
+        if (!state || state.phase !== from) {
+          return false;
+        }
+
+        state.phase = to;
+        const { data, error } = await this.supabase
+          .from("workflow_sessions")
+          .update({
+            state,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("session_id", sessionId)
+          .eq("state->>phase", from)
+          .select("session_id");
+
+        if (error) {
+          throw new Error(`Failed to claim session phase: ${error.message}`);
+        }
+        return (data?.length ?? 0) > 0;
+      } catch (error) {
+        this.logger.error("Error claiming session phase:", error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Record the tokens of one Claude call in state.tokenUsage
+   */
+  async recordTokenUsage(
+    sessionId: string,
+    tokens: number,
+    phase?: string,
+    method?: string,
+    breakdown?: TokenCallBreakdown
+  ): Promise<void> {
+    return this.serializeWrite(sessionId, async () => {
+      try {
+        const { data: current, error: loadError } = await this.supabase
+          .from("workflow_sessions")
+          .select("state")
+          .eq("session_id", sessionId)
+          .single();
+
+        if (loadError) {
+          throw new Error(`Failed to load session: ${loadError.message}`);
+        }
+
+        const state = current.state as SupabaseSessionState;
+        addTokenUsage(state, tokens, phase, method, breakdown);
+
+        const { error: updateError } = await this.supabase
+          .from("workflow_sessions")
+          .update({
+            state,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("session_id", sessionId);
+
+        if (updateError) {
+          throw new Error(`Failed to update token usage: ${updateError.message}`);
+        }
+      } catch (error) {
+        this.logger.error("Error recording token usage:", error);
+        throw error;
+      }
+    });
+  }
+
   /**
    * Archive a completed session
    */
@@ -465,6 +787,27 @@ export class SessionManager {
     );
   }
 
+  /**
+   * Run a read-modify-write of a session's state once the earlier ones of
+   * this process have finished, so e.g. recording token usage while a
+   * phase's operations are saved doesn't drop either update
+   */
+  private serializeWrite<T>(
+    sessionId: string,
+    write: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.stateWrites.get(sessionId) ?? Promise.resolve();
+    const result = previous.then(write);
+    const settled = result.catch(() => undefined);
+    this.stateWrites.set(sessionId, settled);
+    settled.then(() => {
+      if (this.stateWrites.get(sessionId) === settled) {
+        this.stateWrites.delete(sessionId);
+      }
+    });
+    return result;
+  }
+
   /**
    * Check if node configuration is complete
    */
@@ -519,107 +862,24 @@ export class SessionManager {
 
   /**
    * Apply operations to state (delta architecture)
+   * Delegates to the shared pure reducer so replays produce identical state
    */
   private applyOperationsToState(
     state: SupabaseSessionState,
     operations: WorkflowOperation[]
   ): SupabaseSessionState {
-    const updatedState = { ...state };
+    const updatedState = applyOperationsToState(state, operations);
+    this.logStateOperations(operations);
+    return updatedState;
+  }
 
+  /**
+   * Log operations that carry notable session state snapshots
+   */
+  private logStateOperations(operations: WorkflowOperation[]): void {
     for (const op of operations) {
-      // Add to history
-      updatedState.operationHistory.push(op);
-
-      // Apply operation based on type
       switch (op.type) {
-        case "discoverNode":
-          updatedState.discovered.push(op.node);
-          break;
-
-        case "selectNode":
-          if (!updatedState.selected.includes(op.nodeId)) {
-            updatedState.selected.push(op.nodeId);
-          }
-          break;
-
-        case "deselectNode":
-          updatedState.selected = updatedState.selected.filter(
-            (id) => id !== op.nodeId
-          );
-          break;
-
-        case "configureNode":
-          updatedState.configured[op.nodeId] = {
-            nodeId: op.nodeId,
-            nodeType: op.nodeType || "", // Use nodeType from operation, fallback to empty
-            parameters: op.config,
-          };
-          break;
-
-        case "validateNode":
-          updatedState.validated[op.nodeId] = op.result;
-          break;
-
-        case "setPhase":
-          updatedState.phase = op.phase;
-          break;
-
-        case "completePhase":
-          // Use PhaseManager to get the next phase
-          const phaseManager = new PhaseManager();
-          const nextPhase = phaseManager.getNextPhase(updatedState.phase);
-          if (nextPhase) {
-            updatedState.phase = nextPhase;
-          }
-          break;
-
-        case "requestClarification":
-          updatedState.pendingClarifications.push({
-            questionId: op.questionId,
-            question: op.question,
-            context: op.context,
-            timestamp: new Date(),
-          });
-          break;
-
-        case "clarificationResponse":
-          // Move from pending to history
-          const clarification = updatedState.pendingClarifications.find(
-            (c) => c.questionId === op.questionId
-          );
-          if (clarification) {
-            updatedState.clarificationHistory.push({
-              questionId: op.questionId,
-              question: clarification.question,
-              response: op.response,
-              timestamp: new Date(),
-            });
-            updatedState.pendingClarifications =
-              updatedState.pendingClarifications.filter(
-                (c) => c.questionId !== op.questionId
-              );
-          }
-          break;
-
-        case "setUserPrompt":
-          // Preserve initial prompt if not already stored
-          if (!updatedState.metadata) updatedState.metadata = {} as any;
-          if (
-            !(updatedState as any).metadata.initialPrompt &&
-            updatedState.userPrompt
-          ) {
-            (updatedState as any).metadata.initialPrompt =
-              updatedState.userPrompt;
-          }
-          updatedState.userPrompt = op.prompt;
-          break;
-
-        case "setWorkflow":
-          updatedState.workflow = op.workflow;
-          break;
-
         case "setBuildPhases":
-          updatedState.buildPhases = op.phases;
           this.logger.info(
             `📊 SESSION: Saving ${
               op.phases?.length || 0
@@ -632,30 +892,18 @@ export class SessionManager {
           break;
 
         case "setSEOMetadata":
-          updatedState.seo = op.seo;
           this.logger.info(
             `🔍 SESSION: Saving SEO metadata with slug: ${op.seo.slug}`
           );
           break;
 
         case "setConfigAnalysis":
-          updatedState.configAnalysis = op.analysis;
           this.logger.info(
             `📋 SESSION: Saving configuration analysis - ${op.analysis.configuredNodes}/${op.analysis.totalNodes} nodes configured`
           );
           break;
-
-        // Add more operation types as needed
       }
     }
-
-    // Update metadata
-    updatedState.metadata = {
-      ...updatedState.metadata,
-      operationCount: updatedState.operationHistory.length,
-    };
-
-    return updatedState;
   }
 
   /**
@@ -680,10 +928,12 @@ export class SessionManager {
         workflow: state.workflow,
         seo: state.seo,
         buildPhases: state.buildPhases, // Include build phases from session state
-        configAnalysis: (state as any).configAnalysis,
+        configAnalysis: state.configAnalysis,
+        validationReport: state.validationReport,
         operationHistory: state.operationHistory,
         pendingClarifications: state.pendingClarifications,
         clarificationHistory: state.clarificationHistory,
+        tokenUsage: state.tokenUsage,
       },
     };
   }
@@ -0,0 +1,719 @@
+// lib/services/session-state-reducer.ts
+
+import { PhaseManager } from "@/lib/phase-manager";
+import type { N8nWorkflowConnections } from "@/types/n8n/connection";
+import type {
+  WorkflowOperation,
+  WorkflowSession,
+  WorkflowPhase,
+  WorkflowNode,
+  DiscoveredNode,
+  NodeConfiguration,
+  ValidationResult,
+  ClarificationRequest,
+  ClarificationResponse,
+  WorkflowConfigAnalysis,
+} from "@/types/workflow";
+import type { WorkflowSEOMetadata } from "@/types/seo";
+import type { ValidationPhaseReport } from "@/types/validation";
+import type { TokenCallBreakdown } from "@/types/usage";
+
+/**
+ * Serialized session state (the shape stored in workflow_sessions.state)
+ *
+ * Maps are stored as plain records so the state can round-trip through JSON.
+ */
+export interface SerializedSessionState {
+  phase: WorkflowPhase;
+  userPrompt: string;
+  discovered: DiscoveredNode[];
+  selected: string[];
+  configured: Record<string, NodeConfiguration>;
+  validated: Record<string, ValidationResult>;
+  workflow: {
+    name?: string; // Set by setWorkflowName
+    nodes: any[];
+    connections: any;
+    settings: any;
+  };
+  seo?: WorkflowSEOMetadata;
+  buildPhases?: Array<{
+    type: string;
+    description: string;
+    nodeIds: string[];
+  }>;
+  // Optional configuration analysis snapshot
+  configAnalysis?: WorkflowConfigAnalysis;
+  // Fixes applied by the last validation run
+  validationReport?: ValidationPhaseReport;
+  operationHistory: WorkflowOperation[];
+  pendingClarifications: ClarificationRequest[];
+  clarificationHistory: ClarificationResponse[];
+  tokenUsage?: WorkflowSession["state"]["tokenUsage"];
+  metadata?: {
+    claudeTokensUsed?: number;
+    operationCount?: number;
+    lastError?: any;
+    initialPrompt?: string;
+    forkedFrom?: {
+      sessionId: string;
+      operationIndex: number;
+      phase: WorkflowPhase;
+      timestamp: string;
+    };
+    cancelled?: {
+      fromPhase: WorkflowPhase;
+      reason?: string;
+      timestamp: string;
+    };
+  };
+}
+
+/**
+ * Node-level properties that live on the node itself rather than in parameters
+ * Based on N8nNode interface in types/n8n/node.ts
+ */
+const NODE_LEVEL_PROPERTIES = [
+  "onError",
+  "retryOnFail",
+  "maxTries",
+  "waitBetweenTries",
+  "alwaysOutputData",
+  "continueOnFail",
+  "notes",
+  "typeVersion",
+  "disabled",
+  "executeOnce",
+  "credentials",
+  "color",
+];
+
+const STICKY_NOTE_TYPE = "n8n-nodes-base.stickyNote";
+const DEFAULT_STICKY_SIZE = { width: 310, height: 240 };
+const DEFAULT_NODE_POSITION: [number, number] = [250, 300];
+
+const phaseManager = new PhaseManager();
+
+/**
+ * Create the state a new session starts from, before any operations
+ */
+export function createInitialSessionState(
+  userPrompt: string
+): SerializedSessionState {
+  return {
+    phase: "discovery",
+    userPrompt,
+    discovered: [],
+    selected: [],
+    configured: {},
+    validated: {},
+    workflow: {
+      nodes: [],
+      connections: {},
+      settings: {},
+    },
+    buildPhases: [], // Initialize empty array for build phases
+    operationHistory: [],
+    pendingClarifications: [],
+    clarificationHistory: [],
+    metadata: {
+      operationCount: 0,
+      claudeTokensUsed: 0,
+    },
+  };
+}
+
+/**
+ * Apply a list of operations to a serialized session state
+ *
+ * Pure function: the input state is never mutated. Applying the same
+ * operation history to the same initial state always yields the same result,
+ * which is what lets SessionManager and WorkflowOrchestrator share it.
+ */
+export function applyOperationsToState(
+  state: SerializedSessionState,
+  operations: WorkflowOperation[]
+): SerializedSessionState {
+  const next = cloneState(state);
+
+  for (const op of operations) {
+    next.operationHistory.push(op);
+    reduceOperation(next, op);
+  }
+
+  next.metadata = {
+    ...next.metadata,
+    operationCount: next.operationHistory.length,
+  };
+
+  return next;
+}
+
+/**
+ * Apply a single operation to a serialized session state (pure)
+ */
+export function applyOperationToState(
+  state: SerializedSessionState,
+  operation: WorkflowOperation
+): SerializedSessionState {
+  return applyOperationsToState(state, [operation]);
+}
+
+/**
+ * Find the operation index at which a phase run started
+ *
+ * Every runner except discovery opens with a setPhase operation for its own
+ * phase, so replaying up to (not including) that operation yields the state
+ * the phase started from. Discovery always starts from the initial state.
+ * Returns -1 if the phase never ran.
+ */
+export function findPhaseStartIndex(
+  operations: WorkflowOperation[],
+  phase: WorkflowPhase
+): number {
+  if (phase === "discovery") return 0;
+  return operations.findIndex(
+    (op) => op.type === "setPhase" && op.phase === phase
+  );
+}
+
+/**
+ * Convert an in-memory session state (Maps) to its serialized form (records)
+ */
+export function serializeSessionState(
+  state: WorkflowSession["state"]
+): SerializedSessionState {
+  const { configured, validated, nodeEssentials, ...rest } = state;
+
+  return {
+    ...rest,
+    configured: toRecord(configured),
+    validated: toRecord(validated),
+  };
+}
+
+/**
+ * Convert a serialized session state (records) back to in-memory form (Maps)
+ */
+export function deserializeSessionState(
+  state: SerializedSessionState
+): WorkflowSession["state"] {
+  return {
+    ...state,
+    configured: toMap(state.configured),
+    validated: toMap(state.validated),
+  };
+}
+
+/**
+ * Add the tokens of one Claude call to state.tokenUsage and the
+ * claudeTokensUsed total (mutates the state)
+ */
+export function addTokenUsage(
+  state: SerializedSessionState,
+  tokens: number,
+  phase?: string,
+  method?: string,
+  breakdown?: TokenCallBreakdown
+): void {
+  const usage = state.tokenUsage ?? { byPhase: {}, byCalls: [], total: 0 };
+
+  if (phase) {
+    usage.byPhase[phase] = (usage.byPhase[phase] || 0) + tokens;
+    usage.byCalls.push({
+      phase,
+      method: method || "request",
+      tokens,
+      timestamp: new Date().toISOString(),
+      ...breakdown,
+    });
+  }
+  usage.total += tokens;
+
+  state.tokenUsage = usage;
+  state.metadata = { ...state.metadata, claudeTokensUsed: usage.total };
+}
+
+/**
+ * Mutate a (cloned) state with a single operation
+ */
+function reduceOperation(
+  state: SerializedSessionState,
+  op: WorkflowOperation
+): void {
+  switch (op.type) {
+    case "discoverNode": {
+      // Rerunning discovery (e.g. in a fork) rediscovers nodes by ID
+      const index = state.discovered.findIndex((n) => n.id === op.node.id);
+      if (index === -1) {
+        state.discovered.push(op.node);
+      } else {
+        state.discovered[index] = op.node;
+      }
+      break;
+    }
+
+    case "selectNode":
+      if (!state.selected.includes(op.nodeId)) {
+        state.selected.push(op.nodeId);
+      }
+      break;
+
+    case "deselectNode":
+      state.selected = state.selected.filter((id) => id !== op.nodeId);
+      break;
+
+    case "configureNode":
+      state.configured[op.nodeId] = {
+        nodeId: op.nodeId,
+        nodeType: op.nodeType || "", // Use nodeType from operation, fallback to empty
+        parameters: op.config,
+      };
+      break;
+
+    case "updateNodeConfig": {
+      const configured = state.configured[op.nodeId] || {
+        nodeId: op.nodeId,
+        nodeType:
+          state.discovered.find((n) => n.id === op.nodeId)?.type || "",
+        parameters: {},
+      };
+      configured.parameters = configured.parameters || {};
+      setPath(configured.parameters, op.path, op.value);
+      state.configured[op.nodeId] = configured;
+      break;
+    }
+
+    case "validateNode":
+      state.validated[op.nodeId] = op.result;
+      break;
+
+    case "addValidationError": {
+      const existing = state.validated[op.nodeId];
+      state.validated[op.nodeId] = {
+        valid: false,
+        errors: [...(existing?.errors || []), op.error],
+      };
+      break;
+    }
+
+    case "validationHistory":
+      // Attempt history is kept in operationHistory only; the final result
+      // arrives separately through validateNode
+      break;
+
+    case "setPhase":
+      state.phase = op.phase;
+      break;
+
+    case "completePhase": {
+      const nextPhase = phaseManager.getNextPhase(state.phase);
+      if (nextPhase) {
+        state.phase = nextPhase;
+      }
+      break;
+    }
+
+    case "cancelSession":
+      state.phase = "cancelled";
+      state.metadata = {
+        ...state.metadata,
+        cancelled: {
+          fromPhase: op.fromPhase,
+          reason: op.reason,
+          timestamp: operationDate(op).toISOString(),
+        },
+      };
+      break;
+
+    case "requestClarification":
+      state.pendingClarifications.push({
+        questionId: op.questionId,
+        question: op.question,
+        answerType: op.answerType,
+        options: op.options,
+        required: op.required,
+        context: op.context,
+        timestamp: operationDate(op),
+      });
+      break;
+
+    case "clarificationResponse": {
+      // Move from pending to history
+      const clarification = state.pendingClarifications.find(
+        (c) => c.questionId === op.questionId
+      );
+      if (clarification) {
+        state.clarificationHistory.push({
+          questionId: op.questionId,
+          question: clarification.question,
+          answerType: clarification.answerType,
+          response: op.response,
+          value: op.value,
+          context: clarification.context,
+          timestamp: operationDate(op),
+        });
+        state.pendingClarifications = state.pendingClarifications.filter(
+          (c) => c.questionId !== op.questionId
+        );
+      }
+      break;
+    }
+
+    case "setUserPrompt":
+      // Preserve initial prompt if not already stored
+      if (!state.metadata) state.metadata = {};
+      if (!state.metadata.initialPrompt && state.userPrompt) {
+        state.metadata.initialPrompt = state.userPrompt;
+      }
+      state.userPrompt = op.prompt;
+      break;
+
+    case "requestEdit":
+      // The change request is kept in operationHistory only; the edit
+      // itself arrives as the delta operations that follow it
+      break;
+
+    case "setWorkflow":
+      // Copied so later delta operations don't change the operation itself
+      state.workflow = structuredClone(op.workflow);
+      break;
+
+    case "setBuildPhases":
+      state.buildPhases = op.phases;
+      break;
+
+    case "setSEOMetadata":
+      state.seo = op.seo;
+      break;
+
+    case "setConfigAnalysis":
+      state.configAnalysis = op.analysis;
+      break;
+
+    case "setValidationReport":
+      state.validationReport = op.report;
+      break;
+
+    case "addField":
+    case "updateField":
+      setNodeField(state, op.nodeId, op.field, op.value);
+      break;
+
+    case "removeField":
+      removeNodeField(state, op.nodeId, op.field);
+      break;
+
+    case "addConnection":
+      addConnection(state, op.from, op.to);
+      break;
+
+    case "removeConnection":
+      removeConnection(state, op.from, op.to);
+      break;
+
+    case "addToWorkflow":
+      addToWorkflow(state, op.nodeId, op.position);
+      break;
+
+    case "addNode":
+      if (!findNode(state, op.node.id)) {
+        state.workflow.nodes.push({
+          ...op.node,
+          position: op.node.position || nextFreePosition(state),
+          parameters: op.node.parameters || {},
+        });
+      }
+      break;
+
+    case "updateWorkflowSettings":
+      state.workflow.settings = {
+        ...(state.workflow.settings || {}),
+        ...op.settings,
+      };
+      break;
+
+    case "setWorkflowName":
+      state.workflow.name = op.name;
+      if (state.workflow.settings && "name" in state.workflow.settings) {
+        state.workflow.settings.name = op.name;
+      }
+      break;
+
+    case "addStickyNote":
+      addStickyNote(state, op.note);
+      break;
+
+    default: {
+      // Compile-time check: adding a SessionOperation variant without
+      // handling it here is a type error. At runtime, untyped operations
+      // (e.g. errors logged by OperationLogger) are only kept in history.
+      const unhandled: never = op;
+      void unhandled;
+      break;
+    }
+  }
+}
+
+// ==========================================
+// Workflow helpers
+// ==========================================
+
+function findNode(
+  state: SerializedSessionState,
+  idOrName: string
+): WorkflowNode | undefined {
+  const nodes: WorkflowNode[] = state.workflow.nodes || [];
+  return (
+    nodes.find((n) => n.id === idOrName) ||
+    nodes.find((n) => n.name === idOrName)
+  );
+}
+
+/**
+ * Set a field on a node. Node-level properties go on the node itself,
+ * everything else into parameters (dot paths address nested parameters).
+ * The configured snapshot is kept in sync so later phases see the change.
+ */
+function setNodeField(
+  state: SerializedSessionState,
+  nodeId: string,
+  field: string,
+  value: any
+): void {
+  const node = findNode(state, nodeId);
+  if (node) {
+    if (NODE_LEVEL_PROPERTIES.includes(field)) {
+      (node as any)[field] = value;
+    } else {
+      node.parameters = node.parameters || {};
+      setPath(node.parameters, field, value);
+    }
+  }
+
+  const configured = state.configured[nodeId];
+  if (configured) {
+    configured.parameters = configured.parameters || {};
+    setPath(configured.parameters, field, value);
+  }
+}
+
+function removeNodeField(
+  state: SerializedSessionState,
+  nodeId: string,
+  field: string
+): void {
+  const node = findNode(state, nodeId);
+  if (node) {
+    if (NODE_LEVEL_PROPERTIES.includes(field)) {
+      delete (node as any)[field];
+    } else if (node.parameters) {
+      deletePath(node.parameters, field);
+    }
+  }
+
+  const configured = state.configured[nodeId];
+  if (configured?.parameters) {
+    deletePath(configured.parameters, field);
+  }
+}
+
+/**
+ * Resolve a node reference (ID or name) to the node name used as
+ * connection key in n8n-style connections
+ */
+function resolveNodeName(state: SerializedSessionState, ref: string): string {
+  return findNode(state, ref)?.name || ref;
+}
+
+function getConnections(state: SerializedSessionState): N8nWorkflowConnections {
+  if (
+    !state.workflow.connections ||
+    Array.isArray(state.workflow.connections)
+  ) {
+    state.workflow.connections = {};
+  }
+  return state.workflow.connections as N8nWorkflowConnections;
+}
+
+function addConnection(
+  state: SerializedSessionState,
+  from: string,
+  to: string
+): void {
+  const source = resolveNodeName(state, from);
+  const target = resolveNodeName(state, to);
+  const connections = getConnections(state);
+
+  if (!connections[source]) {
+    connections[source] = { main: [[]] };
+  }
+  if (!connections[source].main || connections[source].main.length === 0) {
+    connections[source].main = [[]];
+  }
+
+  const alreadyConnected = connections[source].main.some((output) =>
+    (output || []).some((c) => c.node === target)
+  );
+  if (!alreadyConnected) {
+    connections[source].main[0].push({ node: target, type: "main", index: 0 });
+  }
+}
+
+function removeConnection(
+  state: SerializedSessionState,
+  from: string,
+  to: string
+): void {
+  const source = resolveNodeName(state, from);
+  const target = resolveNodeName(state, to);
+  const connections = getConnections(state);
+
+  if (!connections[source]?.main) return;
+
+  connections[source].main = connections[source].main.map((output) =>
+    (output || []).filter((c) => c.node !== target)
+  );
+
+  if (connections[source].main.every((output) => output.length === 0)) {
+    delete connections[source];
+  }
+}
+
+/**
+ * Place a configured node on the workflow canvas (or move it if already placed)
+ */
+function addToWorkflow(
+  state: SerializedSessionState,
+  nodeId: string,
+  position: [number, number]
+): void {
+  const existing = findNode(state, nodeId);
+  if (existing) {
+    existing.position = position;
+    return;
+  }
+
+  const configured = state.configured[nodeId];
+  const discovered = state.discovered.find((n) => n.id === nodeId);
+
+  state.workflow.nodes.push({
+    id: nodeId,
+    name: discovered?.displayName || nodeId,
+    type: configured?.nodeType || discovered?.type || "",
+    position,
+    parameters: configured?.parameters ? { ...configured.parameters } : {},
+    ...(discovered?.category ? { category: discovered.category } : {}),
+  });
+}
+
+/**
+ * Add a sticky note as an n8n stickyNote node placed above the nodes it documents
+ */
+function addStickyNote(
+  state: SerializedSessionState,
+  note: { id: string; content: string; nodeGroupIds: string[]; color?: number }
+): void {
+  if (findNode(state, note.id)) return;
+
+  const grouped = note.nodeGroupIds
+    .map((id) => findNode(state, id))
+    .filter((n): n is WorkflowNode => n !== undefined);
+
+  let position: [number, number] = nextFreePosition(state);
+  let width = DEFAULT_STICKY_SIZE.width;
+  if (grouped.length > 0) {
+    const xs = grouped.map((n) => n.position[0]);
+    const ys = grouped.map((n) => n.position[1]);
+    const minX = Math.min(...xs);
+    width = Math.max(width, Math.max(...xs) - minX + 200);
+    position = [minX - 50, Math.min(...ys) - 150];
+  }
+
+  state.workflow.nodes.push({
+    id: note.id,
+    name: `Sticky Note ${note.id}`,
+    type: STICKY_NOTE_TYPE,
+    typeVersion: 1,
+    position,
+    parameters: {
+      content: note.content,
+      width,
+      height: DEFAULT_STICKY_SIZE.height,
+      ...(note.color !== undefined ? { color: note.color } : {}),
+    },
+  });
+}
+
+function nextFreePosition(state: SerializedSessionState): [number, number] {
+  const nodes: WorkflowNode[] = state.workflow.nodes || [];
+  if (nodes.length === 0) return [...DEFAULT_NODE_POSITION];
+  const maxX = Math.max(...nodes.map((n) => n.position?.[0] ?? 0));
+  return [maxX + 250, DEFAULT_NODE_POSITION[1]];
+}
+
+// ==========================================
+// Generic helpers
+// ==========================================
+
+function setPath(target: Record<string, any>, path: string, value: any): void {
+  const keys = path.split(".");
+  let cursor = target;
+  for (const key of keys.slice(0, -1)) {
+    if (cursor[key] === undefined || typeof cursor[key] !== "object") {
+      cursor[key] = {};
+    }
+    cursor = cursor[key];
+  }
+  cursor[keys[keys.length - 1]] = value;
+}
+
+function deletePath(target: Record<string, any>, path: string): void {
+  const keys = path.split(".");
+  let cursor = target;
+  for (const key of keys.slice(0, -1)) {
+    if (cursor[key] === undefined || typeof cursor[key] !== "object") return;
+    cursor = cursor[key];
+  }
+  delete cursor[keys[keys.length - 1]];
+}
+
+/**
+ * Use the operation timestamp when present so replays are deterministic
+ */
+function operationDate(op: WorkflowOperation): Date {
+  return op.timestamp ? new Date(op.timestamp) : new Date();
+}
+
+function cloneState(state: SerializedSessionState): SerializedSessionState {
+  const cloned = structuredClone(state);
+  // Normalize collections that older sessions may not have
+  cloned.discovered = cloned.discovered || [];
+  cloned.selected = cloned.selected || [];
+  cloned.configured = cloned.configured || {};
+  cloned.validated = cloned.validated || {};
+  cloned.workflow = cloned.workflow || { nodes: [], connections: {}, settings: {} };
+  cloned.workflow.nodes = cloned.workflow.nodes || [];
+  cloned.operationHistory = cloned.operationHistory || [];
+  cloned.pendingClarifications = cloned.pendingClarifications || [];
+  cloned.clarificationHistory = cloned.clarificationHistory || [];
+  return cloned;
+}
+
+function toRecord<T>(
+  value: Map<string, T> | Record<string, T> | undefined
+): Record<string, T> {
+  if (!value) return {};
+  if (value instanceof Map) {
+    const record: Record<string, T> = {};
+    value.forEach((v, key) => {
+      record[key] = v;
+    });
+    return record;
+  }
+  return { ...value };
+}
+
+function toMap<T>(record: Record<string, T> | undefined): Map<string, T> {
+  return new Map(Object.entries(record || {}));
+}
@@ -0,0 +1,212 @@
+// lib/services/workflow-import.ts
+
+import { getConfigAnalyzer } from "@/lib/services/config-analyzer.service";
+import { isTriggerNodeType } from "@/lib/utils/node-type-utils";
+import type { N8nWorkflow } from "@/types/n8n/workflow";
+import type {
+  WorkflowNode,
+  WorkflowOperation,
+  WorkflowPhase,
+} from "@/types/workflow";
+
+const STICKY_NOTE_TYPE = "n8n-nodes-base.stickyNote";
+
+/**
+ * Phases an imported workflow can enter the pipeline at
+ */
+export const IMPORT_START_PHASES = ["validation", "documentation"] as const;
+export type ImportStartPhase = (typeof IMPORT_START_PHASES)[number];
+
+/**
+ * Thrown when n8n export JSON can't be turned into a session
+ */
+export class WorkflowImportError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid n8n workflow: ${issues.join("; ")}`);
+    this.name = "WorkflowImportError";
+  }
+}
+
+/**
+ * Check n8n export JSON and normalize it into the workflow a session holds
+ *
+ * Nodes without an ID get one, trigger nodes are categorized for the
+ * documentation layout and sticky notes are dropped because documentation
+ * adds its own. Connections stay keyed by node name, as in n8n.
+ */
+export function parseN8nWorkflowExport(input: unknown): N8nWorkflow {
+  const issues: string[] = [];
+  const workflow = input as Partial<N8nWorkflow> | null;
+
+  if (!workflow || typeof workflow !== "object" || Array.isArray(workflow)) {
+    throw new WorkflowImportError(["workflow must be an object"]);
+  }
+  if (!Array.isArray(workflow.nodes)) {
+    throw new WorkflowImportError(["nodes must be an array"]);
+  }
+  if (
+    workflow.connections !== undefined &&
+    (typeof workflow.connections !== "object" ||
+      workflow.connections === null ||
+      Array.isArray(workflow.connections))
+  ) {
+    issues.push("connections must be an object keyed by node name");
+  }
+
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  const nodes: N8nWorkflow["nodes"] = [];
+
+  workflow.nodes.forEach((node: any, index) => {
+    const label = `nodes[${index}]`;
+    if (!node || typeof node !== "object") {
+      issues.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof node.name !== "string" || !node.name) {
+      issues.push(`${label} has no name`);
+      return;
+    }
+    if (typeof node.type !== "string" || !node.type) {
+      issues.push(`${label} (${node.name}) has no type`);
+      return;
+    }
+    if (names.has(node.name)) {
+      issues.push(`node name "${node.name}" is used more than once`);
+      return;
+    }
+    names.add(node.name);
+    if (node.type === STICKY_NOTE_TYPE) return;
+
+    let id = typeof node.id === "string" && node.id ? node.id : "";
+    if (!id || ids.has(id)) {
+      let suffix = index + 1;
+      while (ids.has(`node_${suffix}`)) suffix++;
+      id = `node_${suffix}`;
+    }
+    ids.add(id);
+
+    nodes.push({
+      ...node,
+      ...(!node.category && isTriggerNodeType(node.type) ? { category: "trigger" } : {}),
+      id,
+      position: isPosition(node.position) ? node.position : [0, index * 200],
+      parameters:
+        node.parameters && typeof node.parameters === "object"
+          ? node.parameters
+          : {},
+    });
+  });
+
+  if (nodes.length === 0 && issues.length === 0) {
+    issues.push("workflow has no nodes");
+  }
+
+  const connections: N8nWorkflow["connections"] = {};
+  for (const [source, outputs] of Object.entries(workflow.connections || {})) {
+    if (!names.has(source)) {
+      issues.push(`connections reference unknown node "${source}"`);
+      continue;
+    }
+    if (!outputs || typeof outputs !== "object" || Array.isArray(outputs)) {
+      issues.push(`connections from "${source}" must be an object like { main: [[...]] }`);
+      continue;
+    }
+    const main: unknown = outputs.main ?? [];
+    if (!Array.isArray(main)) {
+      issues.push(`connections from "${source}" must list its outputs in a main array`);
+      continue;
+    }
+    main.forEach((output: unknown, index) => {
+      // n8n writes outputs without connections as null
+      if (output === null) return;
+      if (!Array.isArray(output)) {
+        issues.push(`output ${index} of "${source}" must be an array of connections`);
+        return;
+      }
+      for (const target of output) {
+        if (!names.has(target?.node)) {
+          issues.push(
+            `connection from "${source}" targets unknown node "${target?.node}"`
+          );
+        }
+      }
+    });
+    connections[source] = outputs;
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowImportError(issues);
+  }
+
+  return {
+    name:
+      typeof workflow.name === "string" && workflow.name.trim()
+        ? workflow.name.trim()
+        : "Imported Workflow",
+    nodes,
+    connections,
+    settings: workflow.settings || { executionOrder: "v1" },
+  };
+}
+
+/**
+ * Operations that fill a new session with an imported workflow, as if
+ * discovery, configuration and building had produced it
+ *
+ * Every node is discovered, selected and configured with its parameters,
+ * and the session ends up in the phase the pipeline continues from.
+ */
+export function createImportOperations(
+  workflow: N8nWorkflow,
+  startPhase: ImportStartPhase
+): WorkflowOperation[] {
+  const nodes = workflow.nodes as unknown as WorkflowNode[];
+  const operations: WorkflowOperation[] = [];
+
+  for (const node of nodes) {
+    operations.push({
+      type: "discoverNode",
+      node: {
+        id: node.id,
+        type: node.type,
+        displayName: node.name,
+        purpose: node.notes || `Imported ${node.name} node`,
+        ...(node.category ? { category: node.category } : {}),
+      },
+    });
+    operations.push({ type: "selectNode", nodeId: node.id });
+  }
+
+  for (const node of nodes) {
+    operations.push({
+      type: "configureNode",
+      nodeId: node.id,
+      nodeType: node.type,
+      config: node.parameters,
+    });
+  }
+
+  const draft = {
+    name: workflow.name,
+    nodes,
+    connections: workflow.connections,
+    settings: { name: workflow.name, ...workflow.settings },
+  };
+  operations.push({ type: "setWorkflow", workflow: draft });
+  operations.push({
+    type: "setConfigAnalysis",
+    analysis: getConfigAnalyzer().analyzeWorkflow(draft),
+  });
+  operations.push({ type: "setPhase", phase: startPhase as WorkflowPhase });
+
+  return operations;
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
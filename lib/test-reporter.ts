@@ -8,6 +8,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
+import { estimateSessionCost } from '@/lib/usage/cost';
 
 interface PhaseMetrics {
   startTime: number;
@@ -752,30 +753,15 @@ export class TestReporter {
     report.push('## Token Usage Report');
     report.push('');
     
-    // Calculate total tokens from all phases
-    let totalTokens = 0;
-    const phaseTokens: Record<string, number> = {};
-    const callDetails: Array<{phase: string, method: string, tokens: number}> = [];
-    
-    // Collect token data from session states
-    Object.entries(this.report.phases).forEach(([phaseName, phase]) => {
-      if (phase.sessionState?.tokenUsage) {
-        const tokenData = phase.sessionState.tokenUsage;
-        
-        // Use the byPhase data if available
-        if (tokenData.byPhase) {
-          Object.entries(tokenData.byPhase).forEach(([p, tokens]) => {
-            phaseTokens[p] = (phaseTokens[p] || 0) + (tokens as number);
-            totalTokens += tokens as number;
-          });
-        }
-        
-        // Collect call details
-        if (tokenData.byCalls && Array.isArray(tokenData.byCalls)) {
-          callDetails.push(...tokenData.byCalls);
-        }
-      }
-    });
+    // Session states are cumulative, so the latest one holds every call
+    const tokenData = Object.values(this.report.phases)
+      .map(phase => phase.sessionState?.tokenUsage)
+      .filter(Boolean)
+      .pop();
+    const phaseTokens: Record<string, number> = { ...tokenData?.byPhase };
+    const totalTokens = Object.values(phaseTokens).reduce((sum, tokens) => sum + tokens, 0);
+    const callDetails: Array<{phase: string, method: string, tokens: number}> =
+      Array.isArray(tokenData?.byCalls) ? tokenData.byCalls : [];
     
     // If we have token data, display it
     if (totalTokens > 0 || Object.keys(phaseTokens).length > 0) {
@@ -805,15 +791,20 @@ export class TestReporter {
         report.push('');
       }
       
-      // Add cost estimate (rough estimate based on Claude pricing)
-      const estimatedCost = (totalTokens / 1000000) * 3.00; // $3 per million tokens (input)
-      const outputCost = (totalTokens / 1000000) * 15.00; // $15 per million tokens (output)
+      // Cost estimate from each call's token breakdown and model pricing
+      const cost = estimateSessionCost(tokenData);
       report.push('### Estimated Cost');
-      report.push(`- **Input tokens estimate**: $${estimatedCost.toFixed(4)}`);
-      report.push(`- **Output tokens estimate**: $${outputCost.toFixed(4)}`);
-      report.push(`- **Total estimate**: $${(estimatedCost + outputCost).toFixed(4)}`);
+      Object.entries(cost.byPhase)
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([phase, usd]) => {
+          report.push(`- **${phase}**: $${usd.toFixed(4)}`);
+        });
+      report.push(`- **Total estimate**: $${cost.total.toFixed(4)}`);
+      if (cost.unpricedTokens > 0) {
+        report.push(`- **Unpriced tokens**: ${cost.unpricedTokens.toLocaleString()} (no breakdown or unknown model)`);
+      }
       report.push('');
-      report.push('*Note: Cost estimates are approximate and based on standard Claude pricing.*');
+      report.push('*Note: Cost estimates use list prices from MODEL_PRICING and ignore discounts.*');
       report.push('');
     }
     
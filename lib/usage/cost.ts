@@ -0,0 +1,75 @@
+// lib/usage/cost.ts
+
+import { getModelPricing } from "@/services/claude/constants";
+import { loggers } from "@/lib/utils/logger";
+import type {
+  SessionCostEstimate,
+  SessionTokenUsage,
+  TokenCallBreakdown,
+} from "@/types/usage";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// Models already reported as missing from MODEL_PRICING
+const unpricedModels = new Set<string>();
+
+/**
+ * Estimated USD cost of one Claude call, or null if its model has no price
+ */
+export function estimateCallCost(call: TokenCallBreakdown): number | null {
+  const pricing = call.model ? getModelPricing(call.model) : undefined;
+  if (!pricing) {
+    if (call.model && !unpricedModels.has(call.model)) {
+      unpricedModels.add(call.model);
+      loggers.claude.warn(
+        `No MODEL_PRICING entry for ${call.model} - its calls are left out of cost estimates`
+      );
+    }
+    return null;
+  }
+
+  return (
+    (call.inputTokens * pricing.input +
+      call.outputTokens * pricing.output +
+      call.cacheCreationTokens * pricing.cacheWrite +
+      call.cacheReadTokens * pricing.cacheRead) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+/**
+ * Estimated USD cost of a session's recorded calls, in total and by phase
+ */
+export function estimateSessionCost(
+  usage?: SessionTokenUsage | null
+): SessionCostEstimate {
+  const estimate: SessionCostEstimate = {
+    currency: "USD",
+    total: 0,
+    byPhase: {},
+    unpricedTokens: 0,
+  };
+
+  for (const call of usage?.byCalls || []) {
+    // Calls recorded before the breakdown was kept can't be priced
+    const cost =
+      call.inputTokens !== undefined && call.outputTokens !== undefined
+        ? estimateCallCost({
+            inputTokens: call.inputTokens,
+            outputTokens: call.outputTokens,
+            cacheCreationTokens: call.cacheCreationTokens || 0,
+            cacheReadTokens: call.cacheReadTokens || 0,
+            model: call.model,
+          })
+        : null;
+
+    if (cost === null) {
+      estimate.unpricedTokens += call.tokens;
+      continue;
+    }
+    estimate.byPhase[call.phase] = (estimate.byPhase[call.phase] || 0) + cost;
+    estimate.total += cost;
+  }
+
+  return estimate;
+}
@@ -0,0 +1,31 @@
+// lib/usage/index.ts
+
+import { TokenBudgetService } from "./token-budget";
+import { SupabaseTokenUsageStore } from "./supabase-token-usage-store";
+
+export {
+  BudgetExceededError,
+  TokenBudgetService,
+  getDefaultBudgetLimits,
+  summarizeTokenCalls,
+  type TokenUsageStore,
+} from "./token-budget";
+export { SupabaseTokenUsageStore } from "./supabase-token-usage-store";
+export { estimateCallCost, estimateSessionCost } from "./cost";
+
+/**
+ * Budgets are enforced against usage recorded in Supabase, so they only
+ * apply with Supabase state persistence (USE_SUPABASE_STATE)
+ */
+export function isTokenBudgetEnabled(): boolean {
+  return process.env.USE_SUPABASE_STATE === "true";
+}
+
+let tokenBudget: TokenBudgetService | undefined;
+
+export function getTokenBudget(): TokenBudgetService {
+  if (!tokenBudget) {
+    tokenBudget = new TokenBudgetService(new SupabaseTokenUsageStore());
+  }
+  return tokenBudget;
+}
@@ -0,0 +1,112 @@
+// lib/usage/supabase-token-usage-store.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import { loggers } from "@/lib/utils/logger";
+import type { TokenUsageStore } from "./token-budget";
+import type {
+  SessionTokenUsage,
+  TokenBudgetLimits,
+  TokenUsageCall,
+} from "@/types/usage";
+
+/**
+ * Reads token usage from workflow_sessions.state and per-user limits from
+ * the user_token_budgets table. Budget checks sum a user's usage with the
+ * user_token_totals function (see scripts/create-user-token-budgets-table.sql)
+ */
+export class SupabaseTokenUsageStore implements TokenUsageStore {
+  private supabase = createServiceClient();
+
+  async getSessionUsage(
+    sessionId: string
+  ): Promise<{ userId: string | null; total: number } | null> {
+    const { data, error } = await this.supabase
+      .from("workflow_sessions")
+      .select("user_id, token_usage:state->tokenUsage")
+      .eq("session_id", sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load session token usage: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const usage = data.token_usage as SessionTokenUsage | null;
+    return { userId: data.user_id ?? null, total: usage?.total || 0 };
+  }
+
+  async listUserCalls(
+    userId: string,
+    since: Date
+  ): Promise<{ sessionCount: number; calls: TokenUsageCall[] }> {
+    // Sessions untouched since the window started can't hold calls inside it
+    const { data, error } = await this.supabase
+      .from("workflow_sessions")
+      .select("session_id, token_usage:state->tokenUsage")
+      .eq("user_id", userId)
+      .gte("updated_at", since.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to load user token usage: ${error.message}`);
+    }
+
+    const calls: TokenUsageCall[] = [];
+    let sessionCount = 0;
+    for (const row of data || []) {
+      const usage = row.token_usage as SessionTokenUsage | null;
+      const sessionCalls = (usage?.byCalls || []).filter(
+        (call) => new Date(call.timestamp) >= since
+      );
+      if (sessionCalls.length > 0) sessionCount++;
+      calls.push(...sessionCalls);
+    }
+    return { sessionCount, calls };
+  }
+
+  async getUserTotals(
+    userId: string,
+    dayStart: Date,
+    monthStart: Date
+  ): Promise<{ usedToday: number; usedThisMonth: number }> {
+    const { data, error } = await this.supabase.rpc("user_token_totals", {
+      p_user_id: userId,
+      p_day_start: dayStart.toISOString(),
+      p_month_start: monthStart.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to sum user token usage: ${error.message}`);
+    }
+    const [totals] = (data || []) as Array<{
+      used_today: number | string;
+      used_this_month: number | string;
+    }>;
+    return {
+      usedToday: Number(totals?.used_today ?? 0),
+      usedThisMonth: Number(totals?.used_this_month ?? 0),
+    };
+  }
+
+  async getUserLimits(userId: string): Promise<TokenBudgetLimits | null> {
+    const { data, error } = await this.supabase
+      .from("user_token_budgets")
+      .select("per_session, per_user_daily, per_user_monthly")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      // Fall back to the environment defaults rather than blocking calls
+      loggers.orchestrator.warn(
+        `Failed to load token budget for user ${userId}: ${error.message}`
+      );
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      perSession: data.per_session ?? undefined,
+      perUserDaily: data.per_user_daily ?? undefined,
+      perUserMonthly: data.per_user_monthly ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+// lib/usage/token-budget.ts
+
+import type {
+  TokenBudgetLimits,
+  TokenBudgetScope,
+  TokenUsageCall,
+  UserUsageSummary,
+} from "@/types/usage";
+
+// How long per-user limit overrides are cached between budget checks
+const LIMITS_CACHE_MS = 60000;
+
+const SCOPE_LABELS: Record<TokenBudgetScope, string> = {
+  session: "Session",
+  user_daily: "Daily",
+  user_monthly: "Monthly",
+};
+
+/**
+ * Thrown before a Claude call when a token budget has been used up
+ */
+export class BudgetExceededError extends Error {
+  readonly code = "BUDGET_EXCEEDED";
+  readonly retryable = false;
+  readonly userMessage: string;
+
+  constructor(
+    public scope: TokenBudgetScope,
+    public limit: number,
+    public used: number
+  ) {
+    super(
+      `BUDGET_EXCEEDED: ${scope} token budget of ${limit} reached (${used} used)`
+    );
+    this.name = "BudgetExceededError";
+    this.userMessage = `${SCOPE_LABELS[scope]} token budget of ${limit.toLocaleString()} tokens reached.`;
+  }
+}
+
+/**
+ * Where token usage and per-user limit overrides are read from
+ */
+export interface TokenUsageStore {
+  /**
+   * Token usage of one session and the user it belongs to
+   */
+  getSessionUsage(
+    sessionId: string
+  ): Promise<{ userId: string | null; total: number } | null>;
+
+  /**
+   * Claude calls made by a user's sessions since the given time
+   */
+  listUserCalls(
+    userId: string,
+    since: Date
+  ): Promise<{ sessionCount: number; calls: TokenUsageCall[] }>;
+
+  /**
+   * Tokens a user's sessions used since the start of the day and of the
+   * month, summed by the store
+   */
+  getUserTotals(
+    userId: string,
+    dayStart: Date,
+    monthStart: Date
+  ): Promise<{ usedToday: number; usedThisMonth: number }>;
+
+  /**
+   * Limits configured for a user, overriding the environment defaults
+   */
+  getUserLimits(userId: string): Promise<TokenBudgetLimits | null>;
+}
+
+/**
+ * Default limits from TOKEN_BUDGET_PER_SESSION, TOKEN_BUDGET_PER_USER_DAILY
+ * and TOKEN_BUDGET_PER_USER_MONTHLY
+ */
+export function getDefaultBudgetLimits(): TokenBudgetLimits {
+  return {
+    perSession: parseLimit(process.env.TOKEN_BUDGET_PER_SESSION),
+    perUserDaily: parseLimit(process.env.TOKEN_BUDGET_PER_USER_DAILY),
+    perUserMonthly: parseLimit(process.env.TOKEN_BUDGET_PER_USER_MONTHLY),
+  };
+}
+
+/**
+ * Total tokens of the calls made at or after `since`, by phase and by UTC day
+ */
+export function summarizeTokenCalls(
+  calls: TokenUsageCall[],
+  since: Date
+): Pick<UserUsageSummary, "totalTokens" | "callCount" | "byPhase" | "byDay"> {
+  const byPhase: Record<string, number> = {};
+  const byDay = new Map<string, number>();
+  let totalTokens = 0;
+  let callCount = 0;
+
+  for (const call of calls) {
+    if (new Date(call.timestamp) < since) continue;
+    const day = call.timestamp.slice(0, 10);
+    byPhase[call.phase] = (byPhase[call.phase] || 0) + call.tokens;
+    byDay.set(day, (byDay.get(day) || 0) + call.tokens);
+    totalTokens += call.tokens;
+    callCount++;
+  }
+
+  return {
+    totalTokens,
+    callCount,
+    byPhase,
+    byDay: Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, tokens]) => ({ date, tokens })),
+  };
+}
+
+/**
+ * Enforces per-session and per-user token budgets
+ *
+ * Limits come from the environment, overridden per user by the store.
+ * Usage is read from the sessions' recorded tokenUsage, so a call is
+ * checked against the usage of every call that finished before it.
+ */
+export class TokenBudgetService {
+  private limitsCache = new Map<
+    string,
+    { limits: TokenBudgetLimits; expiresAt: number }
+  >();
+
+  constructor(
+    private store: TokenUsageStore,
+    private defaults: TokenBudgetLimits = getDefaultBudgetLimits(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Limits that apply to a user (environment defaults without a user)
+   */
+  async getLimits(userId?: string | null): Promise<TokenBudgetLimits> {
+    if (!userId) return { ...this.defaults };
+
+    const cached = this.limitsCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.limits;
+
+    const overrides = (await this.store.getUserLimits(userId)) || {};
+    const limits = { ...this.defaults };
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined && value !== null) {
+        limits[key as keyof TokenBudgetLimits] = value;
+      }
+    }
+    this.limitsCache.set(userId, {
+      limits,
+      expiresAt: Date.now() + LIMITS_CACHE_MS,
+    });
+    return limits;
+  }
+
+  /**
+   * @returns the exceeded budget, or null if the session may use more tokens
+   */
+  async checkBudget(sessionId: string): Promise<BudgetExceededError | null> {
+    const session = await this.store.getSessionUsage(sessionId);
+    const limits = await this.getLimits(session?.userId);
+
+    if (session && limits.perSession && session.total >= limits.perSession) {
+      return new BudgetExceededError("session", limits.perSession, session.total);
+    }
+
+    if (!session?.userId || (!limits.perUserDaily && !limits.perUserMonthly)) {
+      return null;
+    }
+
+    const { usedToday, usedThisMonth } = await this.getPeriodUsage(
+      session.userId
+    );
+    if (limits.perUserDaily && usedToday >= limits.perUserDaily) {
+      return new BudgetExceededError("user_daily", limits.perUserDaily, usedToday);
+    }
+    if (limits.perUserMonthly && usedThisMonth >= limits.perUserMonthly) {
+      return new BudgetExceededError(
+        "user_monthly",
+        limits.perUserMonthly,
+        usedThisMonth
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Throw BudgetExceededError if the session is out of budget
+   */
+  async assertWithinBudget(sessionId: string): Promise<void> {
+    const exceeded = await this.checkBudget(sessionId);
+    if (exceeded) throw exceeded;
+  }
+
+  /**
+   * Token usage of a user's sessions over the last `days` days
+   */
+  async getUserUsage(userId: string, days = 30): Promise<UserUsageSummary> {
+    const now = this.now();
+    const windowStart = startOfUtcDay(now);
+    windowStart.setUTCDate(windowStart.getUTCDate() - (days - 1));
+    const monthStart = startOfUtcMonth(now);
+    const fetchSince = windowStart < monthStart ? windowStart : monthStart;
+
+    const [{ sessionCount, calls }, limits] = await Promise.all([
+      this.store.listUserCalls(userId, fetchSince),
+      this.getLimits(userId),
+    ]);
+
+    return {
+      userId,
+      since: windowStart.toISOString(),
+      ...summarizeTokenCalls(calls, windowStart),
+      sessionCount,
+      limits,
+      usedToday: summarizeTokenCalls(calls, startOfUtcDay(now)).totalTokens,
+      usedThisMonth: summarizeTokenCalls(calls, monthStart).totalTokens,
+    };
+  }
+
+  private async getPeriodUsage(
+    userId: string
+  ): Promise<{ usedToday: number; usedThisMonth: number }> {
+    const now = this.now();
+    return this.store.getUserTotals(
+      userId,
+      startOfUtcDay(now),
+      startOfUtcMonth(now)
+    );
+  }
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  const limit = Number(value);
+  return value && Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
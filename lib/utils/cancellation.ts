@@ -0,0 +1,103 @@
+// lib/utils/cancellation.ts
+
+import { globalSingleton } from "@/lib/utils/global-singleton";
+
+/**
+ * Thrown when work stops because its session was cancelled
+ */
+export class WorkflowCancelledError extends Error {
+  constructor(message = "Workflow generation was cancelled") {
+    super(message);
+    this.name = "WorkflowCancelledError";
+  }
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return (
+    error instanceof WorkflowCancelledError ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+/**
+ * Throw WorkflowCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new WorkflowCancelledError();
+  }
+}
+
+/**
+ * One AbortController per session, so the cancel endpoint can stop a run
+ * started by another request in the same server process
+ *
+ * The controller lives while at least one run holds its signal - a
+ * pipeline and each phase it runs - and is dropped, aborted or not, once
+ * the last of them releases it.
+ */
+export class CancellationRegistry {
+  private entries = new Map<
+    string,
+    { controller: AbortController; holders: number }
+  >();
+
+  /**
+   * Signal for the session's current run, created on first use. Every call
+   * must be paired with release() once the run ends.
+   */
+  signalFor(sessionId: string): AbortSignal {
+    let entry = this.entries.get(sessionId);
+    if (!entry) {
+      entry = { controller: new AbortController(), holders: 0 };
+      this.entries.set(sessionId, entry);
+    }
+    entry.holders++;
+    return entry.controller.signal;
+  }
+
+  /**
+   * Abort the session's run. Phases it starts later see the aborted
+   * signal until the run ends.
+   *
+   * @returns true if a run was in flight in this process
+   */
+  cancel(sessionId: string, reason?: string): boolean {
+    const controller = this.entries.get(sessionId)?.controller;
+    if (!controller || controller.signal.aborted) return false;
+
+    controller.abort(new WorkflowCancelledError(reason));
+    return true;
+  }
+
+  isCancelled(sessionId: string): boolean {
+    return this.entries.get(sessionId)?.controller.signal.aborted ?? false;
+  }
+
+  /**
+   * Start over with a fresh signal, e.g. when a cancelled session is resumed
+   * while its cancelled run is still winding down
+   */
+  reset(sessionId: string): void {
+    this.entries.delete(sessionId);
+  }
+
+  /**
+   * Hand back a signal from signalFor(). Signals from before a reset()
+   * are ignored.
+   */
+  release(sessionId: string, signal: AbortSignal): void {
+    const entry = this.entries.get(sessionId);
+    if (entry?.controller.signal !== signal) return;
+
+    entry.holders--;
+    if (entry.holders <= 0) {
+      this.entries.delete(sessionId);
+    }
+  }
+}
+
+export const cancellationRegistry = globalSingleton(
+  "cancellationRegistry",
+  () => new CancellationRegistry()
+);
@@ -0,0 +1,13 @@
+// lib/utils/global-singleton.ts
+
+/**
+ * Get a process-wide instance, creating it on first use
+ *
+ * Next.js route bundles can each load their own copy of a module, so an
+ * instance held in a module variable isn't shared between routes. Keeping
+ * it on globalThis under `key` is.
+ */
+export function globalSingleton<T>(key: string, create: () => T): T {
+  const store = globalThis as unknown as Record<string, T | undefined>;
+  return store[key] ?? (store[key] = create());
+}
@@ -214,7 +214,9 @@ export const loggers = {
   validation: createLogger('Validation'),
   documentation: createLogger('Documentation'),
   session: createLogger('Session'),
-  seo: createLogger('SEO')
+  seo: createLogger('SEO'),
+  jobs: createLogger('Jobs'),
+  cassettes: createLogger('Cassettes')
 };
 
 
@@ -33,3 +33,14 @@ export function cleanNodeType(nodeType: string): string {
     .replace("nodes-langchain.", "")
     .split(".")[0];
 }
+
+// Trigger node types that don't end in "Trigger"
+const TRIGGER_NODE_TYPES = ["webhook", "cron", "start"];
+
+/**
+ * Whether a node type starts workflows, e.g. n8n-nodes-base.webhook
+ */
+export function isTriggerNodeType(nodeType: string): boolean {
+  const base = nodeType.split(".").pop() || "";
+  return /Trigger$/.test(base) || TRIGGER_NODE_TYPES.includes(base);
+}
@@ -10,6 +10,7 @@ export class PerformanceTracker {
   private logger: Logger;
   private timers: Map<string, number> = new Map();
   private metrics: Map<string, number[]> = new Map();
+  private counters: Map<string, number> = new Map();
 
   constructor() {
     this.logger = createLogger('PERF');
@@ -114,6 +115,20 @@ export class PerformanceTracker {
     return this.metrics.get(operation) || [];
   }
 
+  /**
+   * Count an event that has no duration, such as a cache hit
+   */
+  increment(counter: string, by: number = 1): void {
+    this.counters.set(counter, (this.counters.get(counter) || 0) + by);
+  }
+
+  /**
+   * Get the value of a counter
+   */
+  getCount(counter: string): number {
+    return this.counters.get(counter) || 0;
+  }
+
   /**
    * Log a summary of all tracked operations
    */
@@ -129,6 +144,10 @@ export class PerformanceTracker {
       
       this.logger.info(`${operation}: avg=${avg}ms, min=${min}ms, max=${max}ms, count=${metrics.length}`);
     }
+
+    for (const [counter, value] of this.counters.entries()) {
+      this.logger.info(`${counter}: ${value}`);
+    }
     
     this.logger.info('=========================');
   }
@@ -139,6 +158,7 @@ export class PerformanceTracker {
   reset(): void {
     this.timers.clear();
     this.metrics.clear();
+    this.counters.clear();
   }
 }
 
@@ -0,0 +1,6 @@
+// lib/validation/index.ts
+
+export {
+  validateWorkflowStructure,
+  type StructuralWorkflow,
+} from "./structural-validator";
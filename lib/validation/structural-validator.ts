@@ -0,0 +1,364 @@
+// lib/validation/structural-validator.ts
+
+import { isTriggerNodeType, normalizeNodeType } from "@/lib/utils/node-type-utils";
+import type { N8nWorkflowConnections } from "@/types/n8n/connection";
+import type { ValidationIssue } from "@/types/validation";
+
+const STICKY_NOTE_TYPE = "nodes-base.stickyNote";
+// Nodes that loop back on purpose (Loop Over Items)
+const LOOP_NODE_TYPES = ["nodes-base.splitInBatches"];
+
+/**
+ * The parts of a workflow the structural checks look at
+ */
+export interface StructuralWorkflow {
+  nodes?: unknown;
+  connections?: unknown;
+}
+
+interface StructuralNode {
+  id?: string;
+  name: string;
+  type: string;
+  parameters?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a workflow's structure without MCP: node names, trigger presence,
+ * the n8n connection shape, connection targets, cycles, orphaned nodes and
+ * expression syntax
+ *
+ * Issues name the node they are about in the message so the fix prompt
+ * can find it. A missing trigger, orphaned nodes and expressions without
+ * the = prefix are warnings; everything else is an error.
+ */
+export function validateWorkflowStructure(workflow: StructuralWorkflow): ValidationIssue[] {
+  if (!Array.isArray(workflow.nodes)) {
+    return [
+      {
+        type: "workflow_error",
+        severity: "error",
+        message: "Workflow has no nodes array",
+      },
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const nodes: StructuralNode[] = [];
+  workflow.nodes.forEach((node: any, index: number) => {
+    if (!isPlainObject(node) || typeof node.name !== "string" || !node.name) {
+      issues.push({
+        type: "missing_required_field",
+        severity: "error",
+        nodeId: typeof node?.id === "string" ? node.id : undefined,
+        field: "name",
+        path: ["nodes", String(index), "name"],
+        message: `Node at index ${index} has no name`,
+      });
+      return;
+    }
+    nodes.push({ ...node, type: typeof node.type === "string" ? node.type : "" } as StructuralNode);
+  });
+
+  const working = nodes.filter((node) => normalizeNodeType(node.type) !== STICKY_NOTE_TYPE);
+
+  issues.push(...checkNodeNames(nodes));
+  // Triggers are recognized by type name only and some don't follow the
+  // pattern (e.g. emailReadImap), so MCP, which knows them, has the last word
+  if (working.length > 0 && !working.some((node) => isTriggerNodeType(node.type))) {
+    issues.push({
+      type: "workflow_error",
+      severity: "warning",
+      message:
+        "No trigger node recognized - unless one of the nodes starts the workflow, add a trigger (e.g. a Manual, Schedule or Webhook trigger)",
+    });
+  }
+
+  const connections = checkConnectionShape(workflow.connections, issues);
+  if (connections) {
+    const edges = checkConnectionTargets(connections, nodes, issues);
+    issues.push(...checkCycles(edges, nodes));
+    issues.push(...checkOrphanedNodes(edges, working));
+  }
+
+  for (const node of working) {
+    issues.push(...checkExpressions(node, node.parameters, ["parameters"]));
+  }
+
+  return issues;
+}
+
+function checkNodeNames(nodes: StructuralNode[]): ValidationIssue[] {
+  const counts = new Map<string, number>();
+  for (const node of nodes) counts.set(node.name, (counts.get(node.name) || 0) + 1);
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([name, count]) => ({
+      type: "workflow_error" as const,
+      severity: "error" as const,
+      nodeName: name,
+      message: `Node "${name}" is used as the name of ${count} nodes - connections refer to nodes by name, so names must be unique`,
+      actual: count,
+    }));
+}
+
+/**
+ * Check connections are n8n-shaped: source node name -> connection type ->
+ * outputs -> { node, type, index } targets
+ */
+function checkConnectionShape(
+  connections: unknown,
+  issues: ValidationIssue[]
+): N8nWorkflowConnections | null {
+  if (connections === undefined || connections === null) return {};
+  if (!isPlainObject(connections)) {
+    issues.push({
+      type: "invalid_connection",
+      severity: "error",
+      path: ["connections"],
+      message: "Connections must be an object keyed by source node name",
+      actual: Array.isArray(connections) ? "array" : typeof connections,
+    });
+    return null;
+  }
+
+  let valid = true;
+  const invalid = (path: string[], message: string) => {
+    valid = false;
+    issues.push({
+      type: "invalid_connection",
+      severity: "error",
+      nodeName: path[1],
+      path,
+      message,
+    });
+  };
+
+  for (const [source, types] of Object.entries(connections)) {
+    if (!isPlainObject(types)) {
+      invalid(["connections", source], `Connections of node "${source}" must be an object like { main: [[...]] }`);
+      continue;
+    }
+    for (const [type, outputs] of Object.entries(types)) {
+      if (!Array.isArray(outputs)) {
+        invalid(["connections", source, type], `Connection "${type}" of node "${source}" must be an array of outputs`);
+        continue;
+      }
+      outputs.forEach((targets, output) => {
+        // n8n writes outputs without connections as null
+        if (targets === null) return;
+        if (!Array.isArray(targets)) {
+          invalid(
+            ["connections", source, type, String(output)],
+            `Output ${output} of node "${source}" must be an array of connections`
+          );
+          return;
+        }
+        targets.forEach((target, position) => {
+          if (
+            !isPlainObject(target) ||
+            typeof target.node !== "string" ||
+            typeof target.type !== "string" ||
+            !Number.isInteger(target.index) ||
+            target.index < 0
+          ) {
+            invalid(
+              ["connections", source, type, String(output), String(position)],
+              `Connection ${position} on output ${output} of node "${source}" must look like { "node": "<name>", "type": "${type}", "index": 0 }`
+            );
+          }
+        });
+      });
+    }
+  }
+
+  return valid ? (connections as N8nWorkflowConnections) : null;
+}
+
+/**
+ * Check every connection joins existing nodes by name, returning the
+ * downstream node names of each node
+ */
+function checkConnectionTargets(
+  connections: N8nWorkflowConnections,
+  nodes: StructuralNode[],
+  issues: ValidationIssue[]
+): Map<string, string[]> {
+  const names = new Set(nodes.map((node) => node.name));
+  const byId = new Map(nodes.filter((node) => node.id).map((node) => [node.id!, node.name]));
+  const unknown = (reference: string, role: "from" | "to"): string =>
+    byId.has(reference)
+      ? `Connection ${role} "${reference}" uses node ID instead of node name "${byId.get(reference)}"`
+      : `Connection ${role} "${reference}", which is not a node in the workflow`;
+
+  const edges = new Map<string, string[]>();
+  for (const [source, types] of Object.entries(connections)) {
+    if (!names.has(source)) {
+      issues.push({
+        type: "invalid_connection",
+        severity: "error",
+        nodeName: byId.get(source),
+        path: ["connections", source],
+        message: unknown(source, "from"),
+      });
+      continue;
+    }
+    for (const outputs of Object.values(types) as unknown[][]) {
+      for (const targets of outputs) {
+        for (const target of (targets as Array<{ node: string }>) || []) {
+          if (!names.has(target.node)) {
+            issues.push({
+              type: "invalid_connection",
+              severity: "error",
+              nodeName: source,
+              path: ["connections", source],
+              message: `${unknown(target.node, "to")} (from node "${source}")`,
+            });
+            continue;
+          }
+          edges.set(source, [...(edges.get(source) || []), target.node]);
+        }
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Report each cycle once, except loops through a node built for looping
+ */
+function checkCycles(edges: Map<string, string[]>, nodes: StructuralNode[]): ValidationIssue[] {
+  const loopNodes = new Set(
+    nodes
+      .filter((node) => LOOP_NODE_TYPES.includes(normalizeNodeType(node.type)))
+      .map((node) => node.name)
+  );
+  const issues: ValidationIssue[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    state.set(name, "visiting");
+    stack.push(name);
+    for (const next of edges.get(name) || []) {
+      if (state.get(next) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(next)), next];
+        if (!cycle.some((member) => loopNodes.has(member))) {
+          issues.push({
+            type: "circular_dependency",
+            severity: "error",
+            nodeName: next,
+            message: `Connections form a cycle: ${cycle.map((member) => `"${member}"`).join(" → ")}`,
+          });
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(name, "done");
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node.name)) visit(node.name);
+  }
+  return issues;
+}
+
+function checkOrphanedNodes(edges: Map<string, string[]>, working: StructuralNode[]): ValidationIssue[] {
+  if (working.length < 2) return [];
+
+  const connected = new Set<string>();
+  for (const [source, targets] of edges) {
+    connected.add(source);
+    targets.forEach((target) => connected.add(target));
+  }
+
+  return working
+    .filter((node) => !connected.has(node.name))
+    .map((node) => ({
+      type: "orphaned_node" as const,
+      severity: "warning" as const,
+      nodeId: node.id,
+      nodeName: node.name,
+      message: `Node "${node.name}" has no connections, so it never runs`,
+    }));
+}
+
+/**
+ * Check the expressions in a node's parameters: n8n evaluates strings
+ * starting with = and replaces each {{ ... }} with the JavaScript inside
+ */
+function checkExpressions(node: StructuralNode, value: unknown, path: string[]): ValidationIssue[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry, index) => checkExpressions(node, entry, [...path, String(index)]));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, entry]) => checkExpressions(node, entry, [...path, key]));
+  }
+  if (typeof value !== "string" || !value.includes("{{")) return [];
+
+  const field = path.slice(1).join(".");
+  const issue = (severity: "error" | "warning", message: string): ValidationIssue => ({
+    type: "invalid_field_value",
+    severity,
+    nodeId: node.id,
+    nodeName: node.name,
+    field,
+    path,
+    message: `Node "${node.name}" ${field}: ${message}`,
+    actual: value,
+  });
+
+  if (!value.startsWith("=")) {
+    return value.includes("}}")
+      ? [issue("warning", "contains {{ }} but doesn't start with =, so n8n sends it as text")]
+      : [];
+  }
+
+  const problem = findExpressionProblem(value.slice(1));
+  return problem ? [issue("error", problem)] : [];
+}
+
+/**
+ * The first problem with the {{ ... }} parts of an expression, if any
+ */
+function findExpressionProblem(template: string): string | undefined {
+  let from = 0;
+  while (true) {
+    const open = template.indexOf("{{", from);
+    if (open === -1) return undefined;
+
+    // A }} may belong to an object literal inside, so try each one
+    let close = template.indexOf("}}", open + 2);
+    if (close === -1) return `expression opened with {{ at position ${open} is never closed with }}`;
+
+    let syntaxError: string | undefined;
+    while (close !== -1) {
+      const body = template.slice(open + 2, close).trim();
+      if (!body) return `empty expression {{ }} at position ${open}`;
+      syntaxError = compileError(body);
+      if (!syntaxError) break;
+      close = template.indexOf("}}", close + 1);
+    }
+    if (syntaxError) {
+      return `expression at position ${open} is not valid JavaScript: ${syntaxError}`;
+    }
+    from = close + 2;
+  }
+}
+
+function compileError(body: string): string | undefined {
+  try {
+    // Compiled to check the syntax, never called
+    new Function(`return (${body}\n);`);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,40 @@
+// lib/versions/index.ts
+
+import { SupabaseWorkflowVersionStore } from "./supabase-version-store";
+import type { WorkflowVersionStore } from "./version-store";
+import type { WorkflowVersion, WorkflowVersionSummary } from "@/types/versions";
+
+export {
+  InMemoryWorkflowVersionStore,
+  type WorkflowVersionStore,
+} from "./version-store";
+export { SupabaseWorkflowVersionStore } from "./supabase-version-store";
+export { diffWorkflows, isEmptyDiff } from "./workflow-diff";
+
+/**
+ * Snapshots are stored next to the session in Supabase, so they are only
+ * kept with Supabase state persistence (USE_SUPABASE_STATE)
+ */
+export function isWorkflowVersioningEnabled(): boolean {
+  return process.env.USE_SUPABASE_STATE === "true";
+}
+
+let versionStore: WorkflowVersionStore | undefined;
+
+export function getWorkflowVersionStore(): WorkflowVersionStore {
+  if (!versionStore) {
+    versionStore = new SupabaseWorkflowVersionStore();
+  }
+  return versionStore;
+}
+
+export function toVersionSummary(version: WorkflowVersion): WorkflowVersionSummary {
+  return {
+    version: version.version,
+    source: version.source,
+    nodeCount: Array.isArray(version.workflow.nodes)
+      ? version.workflow.nodes.length
+      : 0,
+    createdAt: version.createdAt,
+  };
+}
@@ -0,0 +1,86 @@
+// lib/versions/supabase-version-store.ts
+
+import { createServiceClient } from "@/lib/supabase";
+import type { WorkflowVersionStore } from "./version-store";
+import type {
+  RecordWorkflowVersionInput,
+  WorkflowVersion,
+} from "@/types/versions";
+
+/**
+ * Workflow snapshots backed by the Supabase workflow_versions table
+ * (see scripts/create-workflow-versions-table.sql)
+ */
+export class SupabaseWorkflowVersionStore implements WorkflowVersionStore {
+  private supabase = createServiceClient();
+
+  async record(input: RecordWorkflowVersionInput): Promise<WorkflowVersion> {
+    const { data: latest, error: latestError } = await this.supabase
+      .from("workflow_versions")
+      .select("version")
+      .eq("session_id", input.sessionId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to load workflow version: ${latestError.message}`);
+    }
+
+    // (session_id, version) is unique, so two concurrent snapshots of the
+    // same session can't share a version
+    const { data, error } = await this.supabase
+      .from("workflow_versions")
+      .insert({
+        session_id: input.sessionId,
+        version: (latest?.version ?? 0) + 1,
+        source: input.source,
+        workflow: input.workflow,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record workflow version: ${error.message}`);
+    }
+    return toVersion(data);
+  }
+
+  async get(sessionId: string, version: number): Promise<WorkflowVersion | null> {
+    const { data, error } = await this.supabase
+      .from("workflow_versions")
+      .select("*")
+      .eq("session_id", sessionId)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load workflow version: ${error.message}`);
+    }
+    return data ? toVersion(data) : null;
+  }
+
+  async listForSession(sessionId: string): Promise<WorkflowVersion[]> {
+    const { data, error } = await this.supabase
+      .from("workflow_versions")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("version", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list workflow versions: ${error.message}`);
+    }
+    return (data || []).map(toVersion);
+  }
+}
+
+function toVersion(row: any): WorkflowVersion {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    version: row.version,
+    source: row.source,
+    workflow: row.workflow,
+    createdAt: row.created_at,
+  };
+}
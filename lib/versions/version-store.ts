@@ -0,0 +1,62 @@
+// lib/versions/version-store.ts
+
+import { nanoid } from "nanoid";
+import type {
+  RecordWorkflowVersionInput,
+  WorkflowVersion,
+} from "@/types/versions";
+
+/**
+ * Storage for snapshots of a session's workflow
+ */
+export interface WorkflowVersionStore {
+  /**
+   * Record a snapshot as the next version of its session
+   */
+  record(input: RecordWorkflowVersionInput): Promise<WorkflowVersion>;
+
+  /**
+   * A single version of a session
+   */
+  get(sessionId: string, version: number): Promise<WorkflowVersion | null>;
+
+  /**
+   * All versions of a session, oldest first
+   */
+  listForSession(sessionId: string): Promise<WorkflowVersion[]>;
+}
+
+/**
+ * In-memory store for tests and local development
+ */
+export class InMemoryWorkflowVersionStore implements WorkflowVersionStore {
+  private versions: WorkflowVersion[] = [];
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async record(input: RecordWorkflowVersionInput): Promise<WorkflowVersion> {
+    const previous = this.versions.filter((v) => v.sessionId === input.sessionId);
+    const version: WorkflowVersion = {
+      id: `ver_${nanoid(10)}`,
+      ...input,
+      workflow: structuredClone(input.workflow),
+      version: previous.length + 1,
+      createdAt: this.now().toISOString(),
+    };
+    this.versions.push(version);
+    return structuredClone(version);
+  }
+
+  async get(sessionId: string, version: number): Promise<WorkflowVersion | null> {
+    const match = this.versions.find(
+      (v) => v.sessionId === sessionId && v.version === version
+    );
+    return match ? structuredClone(match) : null;
+  }
+
+  async listForSession(sessionId: string): Promise<WorkflowVersion[]> {
+    return this.versions
+      .filter((v) => v.sessionId === sessionId)
+      .map((v) => structuredClone(v));
+  }
+}
@@ -0,0 +1,183 @@
+// lib/versions/workflow-diff.ts
+
+import { isDeepStrictEqual } from "util";
+import type {
+  ConnectionReference,
+  FieldChange,
+  NodeReference,
+  WorkflowDiff,
+  WorkflowSnapshot,
+} from "@/types/versions";
+
+// Node properties compared separately or not at all. Positions are left
+// out because documentation lays out every node again.
+const IGNORED_NODE_PROPERTIES = ["id", "parameters", "position"];
+
+/**
+ * Structural diff between two snapshots of a workflow
+ *
+ * Nodes are matched by ID, so a renamed node shows up as a changed
+ * "name" rather than as removed and added. Connections are compared
+ * between node IDs too and reported with the node names of the version
+ * they appear in.
+ */
+export function diffWorkflows(
+  before: WorkflowSnapshot,
+  after: WorkflowSnapshot
+): WorkflowDiff {
+  const beforeNodes = new Map(nodesOf(before).map((n) => [nodeKey(n), n]));
+  const afterNodes = new Map(nodesOf(after).map((n) => [nodeKey(n), n]));
+
+  const diff: WorkflowDiff = {
+    nodes: { added: [], removed: [], changed: [] },
+    connections: { added: [], removed: [] },
+    workflow: [],
+  };
+
+  for (const [key, node] of afterNodes) {
+    const previous = beforeNodes.get(key);
+    if (!previous) {
+      diff.nodes.added.push(toReference(node));
+      continue;
+    }
+
+    const changes: FieldChange[] = [];
+    const properties = new Set([...Object.keys(previous), ...Object.keys(node)]);
+    for (const property of properties) {
+      if (IGNORED_NODE_PROPERTIES.includes(property)) continue;
+      compareValues(property, previous[property], node[property], changes);
+    }
+    compareValues(
+      "parameters",
+      previous.parameters || {},
+      node.parameters || {},
+      changes
+    );
+
+    if (changes.length > 0) {
+      diff.nodes.changed.push({ ...toReference(node), changes });
+    }
+  }
+
+  for (const [key, node] of beforeNodes) {
+    if (!afterNodes.has(key)) diff.nodes.removed.push(toReference(node));
+  }
+
+  const beforeConnections = connectionsOf(before);
+  const afterConnections = connectionsOf(after);
+  for (const [key, connection] of afterConnections) {
+    if (!beforeConnections.has(key)) diff.connections.added.push(connection);
+  }
+  for (const [key, connection] of beforeConnections) {
+    if (!afterConnections.has(key)) diff.connections.removed.push(connection);
+  }
+
+  compareValues("name", before.name, after.name, diff.workflow);
+  compareValues("settings", before.settings || {}, after.settings || {}, diff.workflow);
+
+  return diff;
+}
+
+/**
+ * Whether a diff found no differences at all
+ */
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return (
+    diff.nodes.added.length === 0 &&
+    diff.nodes.removed.length === 0 &&
+    diff.nodes.changed.length === 0 &&
+    diff.connections.added.length === 0 &&
+    diff.connections.removed.length === 0 &&
+    diff.workflow.length === 0
+  );
+}
+
+function nodesOf(workflow: WorkflowSnapshot): any[] {
+  return Array.isArray(workflow.nodes) ? workflow.nodes : [];
+}
+
+function nodeKey(node: any): string {
+  return node.id || node.name;
+}
+
+function toReference(node: any): NodeReference {
+  return { id: nodeKey(node), name: node.name, type: node.type };
+}
+
+/**
+ * Recurse into plain objects and report leaf values that differ. Arrays
+ * are compared as a whole.
+ */
+function compareValues(
+  path: string,
+  before: any,
+  after: any,
+  changes: FieldChange[]
+): void {
+  if (isDeepStrictEqual(before, after)) return;
+
+  if (before === undefined) {
+    changes.push({ path, kind: "added", after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: "removed", before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      compareValues(`${path}.${key}`, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  changes.push({ path, kind: "changed", before, after });
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten n8n-style connections (keyed by source node name) into
+ * references keyed by node IDs
+ */
+function connectionsOf(
+  workflow: WorkflowSnapshot
+): Map<string, ConnectionReference> {
+  const idByName = new Map(nodesOf(workflow).map((n) => [n.name, nodeKey(n)]));
+  const idOf = (name: string) => idByName.get(name) || name;
+  const result = new Map<string, ConnectionReference>();
+
+  const connections = isPlainObject(workflow.connections)
+    ? workflow.connections
+    : {};
+  for (const [from, types] of Object.entries(connections)) {
+    for (const [type, outputs] of Object.entries(types || {})) {
+      if (!Array.isArray(outputs)) continue;
+      outputs.forEach((targets, output) => {
+        for (const target of targets || []) {
+          const connection: ConnectionReference = {
+            from,
+            to: target.node,
+            type: target.type || type,
+            output,
+            input: target.index ?? 0,
+          };
+          const key = [
+            idOf(from),
+            type,
+            output,
+            idOf(target.node),
+            connection.input,
+          ].join("|");
+          result.set(key, connection);
+        }
+      });
+    }
+  }
+
+  return result;
+}
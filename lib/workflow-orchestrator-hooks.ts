@@ -6,12 +6,15 @@
  */
 
 import { sessionManager } from "./services/session-manager";
+import { MemorySessionStore } from "./services/memory-session-store";
 import { loggers } from "./utils/logger";
 import type { WorkflowOperation } from "../types/workflow";
+import type { TokenCallBreakdown } from "../types/usage";
 
 export class WorkflowOrchestratorHooks {
   private readonly logger = loggers.orchestrator;
   private useSupabase: boolean = false;
+  private memoryStore: MemorySessionStore | null = null;
 
   constructor() {
     // Check if we should use Supabase based on environment
@@ -28,6 +31,10 @@ export class WorkflowOrchestratorHooks {
    * Initialize session (create in Supabase if enabled)
    */
   async initializeSession(sessionId: string, prompt: string, userId?: string): Promise<void> {
+    if (this.memoryStore) {
+      if (!this.memoryStore.has(sessionId)) this.memoryStore.create(sessionId, prompt);
+      return;
+    }
     if (!this.useSupabase) return;
 
     try {
@@ -55,6 +62,25 @@ export class WorkflowOrchestratorHooks {
     }
   }
 
+  /**
+   * Start a session over from its initial state, replacing one stored
+   * under the same ID
+   */
+  async resetSession(sessionId: string, prompt: string, userId?: string): Promise<void> {
+    if (this.memoryStore) {
+      this.memoryStore.create(sessionId, prompt);
+      return;
+    }
+    if (!this.useSupabase) return;
+
+    try {
+      await sessionManager.createSession(sessionId, prompt, userId);
+      this.logger.debug(`Reset Supabase session: ${sessionId}`);
+    } catch (error) {
+      this.logger.error("Failed to reset Supabase session:", error);
+    }
+  }
+
   /**
    * Queue operations for batch persistence
    */
@@ -62,6 +88,10 @@ export class WorkflowOrchestratorHooks {
     sessionId: string,
     operations: WorkflowOperation[]
   ): Promise<void> {
+    if (this.memoryStore) {
+      this.memoryStore.applyOperations(sessionId, operations);
+      return;
+    }
     if (!this.useSupabase || operations.length === 0) return;
 
     try {
@@ -97,6 +127,7 @@ export class WorkflowOrchestratorHooks {
    * Load session from Supabase if it exists
    */
   async loadSession(sessionId: string): Promise<any | null> {
+    if (this.memoryStore) return this.memoryStore.load(sessionId);
     if (!this.useSupabase) return null;
 
     try {
@@ -119,8 +150,13 @@ export class WorkflowOrchestratorHooks {
     sessionId: string,
     tokensUsed: number,
     phase?: string,
-    method?: string
+    method?: string,
+    breakdown?: TokenCallBreakdown
   ): Promise<void> {
+    if (this.memoryStore) {
+      this.memoryStore.recordTokenUsage(sessionId, tokensUsed, phase, method, breakdown);
+      return;
+    }
     if (!this.useSupabase) {
       // Still track in memory for reporting
       try {
@@ -148,6 +184,7 @@ export class WorkflowOrchestratorHooks {
               method,
               tokens: tokensUsed,
               timestamp: new Date().toISOString(),
+              ...breakdown,
             });
           }
 
@@ -161,42 +198,13 @@ export class WorkflowOrchestratorHooks {
     }
 
     try {
-      // Get current session state
-      const session = await sessionManager.loadSession(sessionId);
-      if (!session?.state) return;
-
-      // Initialize tokenUsage if not exists
-      if (!session.state.tokenUsage) {
-        session.state.tokenUsage = {
-          byPhase: {},
-          byCalls: [],
-          total: 0,
-        };
-      }
-
-      // Update phase totals
-      if (phase) {
-        session.state.tokenUsage.byPhase[phase] =
-          (session.state.tokenUsage.byPhase[phase] || 0) + tokensUsed;
-      }
-
-      // Add call detail
-      if (phase && method) {
-        session.state.tokenUsage.byCalls.push({
-          phase,
-          method,
-          tokens: tokensUsed,
-          timestamp: new Date().toISOString(),
-        });
-      }
-
-      // Update total
-      session.state.tokenUsage.total += tokensUsed;
-
-      // Save updated state
-      await sessionManager.updateMetadata(sessionId, {
-        claudeTokensUsed: session.state.tokenUsage.total,
-      });
+      await sessionManager.recordTokenUsage(
+        sessionId,
+        tokensUsed,
+        phase,
+        method,
+        breakdown
+      );
     } catch (error) {
       this.logger.error("Failed to update token usage:", error);
     }
@@ -210,16 +218,19 @@ export class WorkflowOrchestratorHooks {
     error: any,
     phase: string
   ): Promise<void> {
+    const lastError = {
+      message: error.message || String(error),
+      phase,
+      timestamp: new Date().toISOString(),
+    };
+    if (this.memoryStore) {
+      this.memoryStore.updateMetadata(sessionId, { lastError });
+      return;
+    }
     if (!this.useSupabase) return;
 
     try {
-      await sessionManager.updateMetadata(sessionId, {
-        lastError: {
-          message: error.message || String(error),
-          phase,
-          timestamp: new Date().toISOString(),
-        },
-      });
+      await sessionManager.updateMetadata(sessionId, { lastError });
     } catch (updateError) {
       this.logger.error("Failed to record error state:", updateError);
     }
@@ -249,6 +260,16 @@ export class WorkflowOrchestratorHooks {
     return this.useSupabase;
   }
 
+  /**
+   * Keep session state in process instead of Supabase, so a run replayed
+   * from a cassette needs no database (for testing)
+   */
+  useMemoryStore(): void {
+    this.memoryStore = new MemorySessionStore();
+    this.useSupabase = false;
+    this.logger.info("Using in-memory session store");
+  }
+
   /**
    * Enable/disable Supabase state (for testing)
    */
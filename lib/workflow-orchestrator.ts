@@ -6,31 +6,54 @@ import {
   WorkflowPhase,
   DiscoveredNode,
   ErrorResponse,
+  ClarificationAnswer,
+  ClarificationQuestion,
 } from "@/types/workflow";
 import {
-  createAnthropicClient,
   createPhaseServices,
-  type AnthropicClient,
   type DiscoveryPhaseService,
   type ConfigurationPhaseService,
   type BuildingPhaseService,
   type ValidationPhaseService,
   type DocumentationPhaseService,
+  type EditPhaseService,
 } from "@/services/claude";
 import { MCPClient } from "@/lib/mcp-client";
-import { createServiceClient } from "@/lib/supabase";
 import { PhaseManager } from "@/lib/phase-manager";
+import {
+  applyOperationsToState,
+  serializeSessionState,
+  deserializeSessionState,
+} from "@/lib/services/session-state-reducer";
 import { loggers } from "@/lib/utils/logger";
 import { perfTracker } from "@/lib/utils/performance-tracker";
 import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { cancellationRegistry } from "@/lib/utils/cancellation";
+import { getTokenBudget, isTokenBudgetEnabled } from "@/lib/usage";
+import { getPromptVariantRunStore } from "@/lib/prompt-experiments";
+import { getPromptRegistry } from "@/services/claude/prompts/registry";
+import type { PromptPhase } from "@/types/prompt-experiments";
+import {
+  getWorkflowVersionStore,
+  isWorkflowVersioningEnabled,
+  type WorkflowVersionStore,
+} from "@/lib/versions";
+import type { WorkflowVersionSource } from "@/types/versions";
 import { OrchestratorDeps } from "@/lib/orchestrator/contracts/OrchestratorDeps";
 import { SessionRepo } from "@/lib/orchestrator/context/SessionRepo";
 import { NodeContextService } from "@/lib/orchestrator/context/NodeContextService";
 import { DiscoveryRunner } from "@/lib/orchestrator/runners/discovery.runner";
+import { toClarificationQuestion } from "@/lib/orchestrator/helpers/clarifications";
 import { ConfigurationRunner } from "@/lib/orchestrator/runners/configuration.runner";
 import { BuildingRunner } from "@/lib/orchestrator/runners/building.runner";
 import { ValidationRunner } from "@/lib/orchestrator/runners/validation.runner";
 import { DocumentationRunner } from "@/lib/orchestrator/runners/documentation.runner";
+import { EditRunner } from "@/lib/orchestrator/runners/edit.runner";
+import type { EditOutput } from "@/types/orchestrator/edit";
+
+// Longest the pipeline waits on validation before documenting the workflow
+// as it is, so a fix loop can't hold up the session
+export const VALIDATION_TIMEOUT_MS = 120000;
 
 // ==========================================
 // Public Interface Types (for backward compatibility)
@@ -42,10 +65,7 @@ export interface DiscoveryResult {
   phase: WorkflowPhase;
   discoveredNodes: DiscoveredNode[];
   selectedNodeIds: string[];
-  pendingClarification?: {
-    questionId: string;
-    question: string;
-  };
+  pendingClarifications?: ClarificationQuestion[];
   reasoning?: string[];
   error?: ErrorResponse["error"];
 }
@@ -64,10 +84,20 @@ export interface ConfigurationResult {
   operations: WorkflowOperation[];
   phase: WorkflowPhase;
   configured: ConfiguredNode[];
+  pendingClarifications?: ClarificationQuestion[];
   reasoning?: string[];
   error?: ErrorResponse["error"];
 }
 
+/**
+ * Result of answering a clarification round: discovery's result, or for
+ * questions asked during configuration the configuration result (phase
+ * "configuration") with the session's discovered and selected nodes
+ */
+export interface ClarificationResult extends DiscoveryResult {
+  configured?: ConfiguredNode[];
+}
+
 export interface ApplyOperationsResult {
   success: boolean;
   applied: number;
@@ -78,10 +108,7 @@ export interface ApplyOperationsResult {
     validated?: number;
     errors?: any[];
   };
-  pendingClarification?: {
-    questionId: string;
-    question: string;
-  };
+  pendingClarifications?: ClarificationQuestion[];
 }
 
 export interface BuildingResult {
@@ -125,6 +152,16 @@ export interface DocumentationPhaseResult {
   error?: ErrorResponse["error"];
 }
 
+export interface PipelineResult {
+  success: boolean;
+  startPhase: WorkflowPhase;
+  completedPhases: WorkflowPhase[];
+  failedPhase?: WorkflowPhase;
+  cancelled?: boolean; // Stopped because the session was cancelled
+  pendingClarifications?: ClarificationQuestion[];
+  error?: ErrorResponse["error"];
+}
+
 export interface PhaseStatusResult {
   currentPhase: WorkflowPhase;
   canProgress: boolean;
@@ -148,13 +185,13 @@ export interface PhaseStatusResult {
  * All phase logic has been extracted to dedicated runners.
  */
 export class WorkflowOrchestrator {
-  private anthropicClient: AnthropicClient;
   private phaseServices: {
     discovery: DiscoveryPhaseService;
     configuration: ConfigurationPhaseService;
     building: BuildingPhaseService;
     validation: ValidationPhaseService;
     documentation: DocumentationPhaseService;
+    edit: EditPhaseService;
   };
   private mcpClient: MCPClient;
   private phaseManager: PhaseManager;
@@ -165,17 +202,11 @@ export class WorkflowOrchestrator {
   private buildingRunner: BuildingRunner;
   private validationRunner: ValidationRunner;
   private documentationRunner: DocumentationRunner;
-  private supabase = createServiceClient();
+  private editRunner: EditRunner;
+  private versionStore?: WorkflowVersionStore;
   private sessions = new Map<string, WorkflowSession>();
 
   constructor(deps?: Partial<OrchestratorDeps>) {
-    // Create Anthropic client
-    this.anthropicClient =
-      deps?.anthropicClient ||
-      createAnthropicClient({
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      });
-
     // Initialize MCP client first (needed for phase services)
     this.mcpClient =
       deps?.mcpClient ||
@@ -185,9 +216,11 @@ export class WorkflowOrchestrator {
         profile: process.env.MCP_PROFILE || "default",
       });
 
-    // Create phase services with shared client AND mcpClient for tool support
+    // Create phase services with shared client AND mcpClient for tool support.
+    // Phases configured in LLM_PHASE_PROVIDERS get their own provider, and
+    // the shared Anthropic client is created unless injected.
     this.phaseServices = createPhaseServices({
-      client: this.anthropicClient,
+      client: deps?.anthropicClient,
       mcpClient: this.mcpClient, // Pass MCP client for tool execution
     });
 
@@ -195,6 +228,9 @@ export class WorkflowOrchestrator {
     this.sessionRepo = deps?.sessionRepo || new SessionRepo();
     this.nodeContextService =
       deps?.nodeContextService || new NodeContextService(this.mcpClient);
+    this.versionStore =
+      deps?.versionStore ||
+      (isWorkflowVersioningEnabled() ? getWorkflowVersionStore() : undefined);
 
     // Create runners with their dependencies
     // For now, keep passing the phase services as claudeService to maintain compatibility
@@ -229,6 +265,12 @@ export class WorkflowOrchestrator {
       sessionRepo: this.sessionRepo,
       loggers,
     });
+
+    this.editRunner = new EditRunner({
+      claudeService: this.phaseServices.edit,
+      sessionRepo: this.sessionRepo,
+      loggers,
+    });
   }
 
   /**
@@ -241,7 +283,10 @@ export class WorkflowOrchestrator {
   ): Promise<DiscoveryResult> {
     return await perfTracker.measure('Phase_Discovery', async () => {
       // Delegate to discovery runner
-      const result = await this.discoveryRunner.run({ sessionId, prompt, userId });
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.discoveryRunner.run({ sessionId, prompt, userId, ...controls })
+      );
+      await this.recordPromptVariant(sessionId, "discovery", result);
 
       // The runner returns DiscoveryOutput which is compatible with DiscoveryResult
       return result;
@@ -249,21 +294,38 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Handle clarification response
+   * Handle the answers to the pending clarification round
+   *
+   * Questions asked during configuration resume configuration of the
+   * nodes they were about; all others rerun discovery.
    */
   async handleClarificationResponse(
     sessionId: string,
-    questionId: string,
-    response: string
-  ): Promise<DiscoveryResult> {
-    // Delegate to discovery runner's clarification handler
-    const result = await this.discoveryRunner.handleClarification({
-      sessionId,
-      questionId,
-      response,
-    });
+    answers: ClarificationAnswer[]
+  ): Promise<ClarificationResult> {
+    const session = await this.sessionRepo.load(sessionId);
+    const askedIn = session?.state.pendingClarifications?.[0]?.context?.phase;
+
+    if (!session || askedIn !== "configuration") {
+      // Delegate to discovery runner's clarification handler
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.discoveryRunner.handleClarification({ sessionId, answers, ...controls })
+      );
+      await this.recordPromptVariant(sessionId, "discovery", result);
+      return result;
+    }
 
-    return result;
+    return await perfTracker.measure('Phase_Configuration', async () => {
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.configurationRunner.handleClarification({ sessionId, answers, ...controls })
+      );
+      await this.recordPromptVariant(sessionId, "configuration", result);
+      return {
+        ...result,
+        discoveredNodes: session.state.discovered,
+        selectedNodeIds: session.state.selected,
+      };
+    }, { sessionId });
   }
 
   /**
@@ -275,7 +337,10 @@ export class WorkflowOrchestrator {
   ): Promise<ConfigurationResult> {
     return await perfTracker.measure('Phase_Configuration', async () => {
       // Delegate to configuration runner
-      const result = await this.configurationRunner.run({ sessionId });
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.configurationRunner.run({ sessionId, ...controls })
+      );
+      await this.recordPromptVariant(sessionId, "configuration", result);
 
       // The runner returns ConfigurationOutput which is compatible with ConfigurationResult
       return result;
@@ -291,7 +356,11 @@ export class WorkflowOrchestrator {
   ): Promise<BuildingResult> {
     return await perfTracker.measure('Phase_Building', async () => {
       // Delegate to building runner
-      const result = await this.buildingRunner.run({ sessionId });
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.buildingRunner.run({ sessionId, ...controls })
+      );
+      await this.recordVersion(sessionId, "building", result);
+      await this.recordPromptVariant(sessionId, "building", result);
 
       // The runner returns BuildingOutput which is compatible with BuildingResult
       return result;
@@ -307,16 +376,38 @@ export class WorkflowOrchestrator {
   ): Promise<ValidationPhaseResult> {
     return await perfTracker.measure('Phase_Validation', async () => {
       // Delegate to validation runner
-      const result = await this.validationRunner.run({
-        sessionId,
-        buildingResult,
-      });
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.validationRunner.run({ sessionId, buildingResult, ...controls })
+      );
+      await this.recordVersion(sessionId, "validation", result);
+      await this.recordPromptVariant(sessionId, "validation", result);
 
       // The runner returns ValidationOutput which is compatible with ValidationPhaseResult
       return result;
     }, { sessionId });
   }
 
+  /**
+   * Run the validation phase, rejecting once it takes longer than
+   * VALIDATION_TIMEOUT_MS
+   */
+  async runValidationPhaseWithTimeout(
+    sessionId: string
+  ): Promise<ValidationPhaseResult> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("Validation phase timeout")),
+        VALIDATION_TIMEOUT_MS
+      );
+    });
+    try {
+      return await Promise.race([this.runValidationPhase(sessionId), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Run the documentation phase
    */
@@ -326,16 +417,260 @@ export class WorkflowOrchestrator {
   ): Promise<DocumentationPhaseResult> {
     return await perfTracker.measure('Phase_Documentation', async () => {
       // Delegate to documentation runner
-      const result = await this.documentationRunner.run({
-        sessionId,
-        validationResult,
-      });
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.documentationRunner.run({ sessionId, validationResult, ...controls })
+      );
+      await this.recordVersion(sessionId, "documentation", result);
+      await this.recordPromptVariant(sessionId, "documentation", result);
 
       // The runner returns DocumentationOutput which is compatible with DocumentationPhaseResult
       return result;
     }, { sessionId });
   }
 
+  /**
+   * Apply a change request to a completed workflow
+   *
+   * Leaves the session in validation; run the pipeline from there to
+   * validate and document the edited workflow.
+   */
+  async runEditPhase(sessionId: string, request: string): Promise<EditOutput> {
+    return await perfTracker.measure('Phase_Edit', async () => {
+      const result = await this.withCancellation(sessionId, (controls) =>
+        this.editRunner.run({ sessionId, request, ...controls })
+      );
+      await this.recordVersion(sessionId, "edit", result);
+      return result;
+    }, { sessionId, request: request.substring(0, 100) });
+  }
+
+  /**
+   * Snapshot the workflow a successful phase left in the session
+   *
+   * A failed snapshot is logged and doesn't fail the phase.
+   */
+  private async recordVersion(
+    sessionId: string,
+    source: WorkflowVersionSource,
+    result: { success: boolean; workflow?: any }
+  ): Promise<void> {
+    if (!this.versionStore || !result.success) return;
+    if (!Array.isArray(result.workflow?.nodes) || result.workflow.nodes.length === 0) {
+      return;
+    }
+
+    try {
+      const version = await this.versionStore.record({
+        sessionId,
+        source,
+        workflow: result.workflow,
+      });
+      loggers.orchestrator.debug(
+        `Recorded workflow version ${version.version} (${source}) for ${sessionId}`
+      );
+    } catch (error) {
+      loggers.orchestrator.warn(
+        `Failed to record ${source} workflow version for ${sessionId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Record how a phase went with the session's prompt version, when
+   * sessions are split between versions of that phase's prompt
+   *
+   * Phases waiting for the user or cancelled have no outcome yet.
+   */
+  private async recordPromptVariant(
+    sessionId: string,
+    phase: PromptPhase,
+    result: {
+      success: boolean;
+      cancelled?: boolean;
+      pendingClarifications?: unknown[];
+      validationReport?: any;
+    }
+  ): Promise<void> {
+    const registry = getPromptRegistry();
+    if (!registry.hasExperiment(phase)) return;
+    if (result.cancelled || result.pendingClarifications?.length) return;
+
+    try {
+      const session = await this.sessionRepo.load(sessionId);
+      const attempts = result.validationReport?.attempts;
+      await getPromptVariantRunStore().record({
+        sessionId,
+        phase,
+        version: registry.assign(phase, sessionId),
+        success: result.success,
+        ...(phase === "validation" && typeof attempts === "number"
+          ? { validationAttempts: attempts }
+          : {}),
+        tokens: session?.state.tokenUsage?.byPhase?.[phase] ?? 0,
+      });
+    } catch (error) {
+      loggers.orchestrator.warn(
+        `Failed to record ${phase} prompt variant for ${sessionId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Run a phase with the session's cancellation signal
+   *
+   * The signal is released once the phase ends; within runPipelineFrom a
+   * cancelled session keeps its aborted signal until the pipeline ends, so
+   * the phases after it stop straight away. When budgets are enabled, the
+   * phase also gets a guard that checks every Claude call of its run
+   * against the session's token budget first.
+   */
+  private async withCancellation<T>(
+    sessionId: string,
+    run: (controls: {
+      signal: AbortSignal;
+      budgetGuard?: () => Promise<void>;
+    }) => Promise<T>
+  ): Promise<T> {
+    const budgetGuard = isTokenBudgetEnabled()
+      ? () => getTokenBudget().assertWithinBudget(sessionId)
+      : undefined;
+    const signal = cancellationRegistry.signalFor(sessionId);
+    try {
+      return await run({ signal, budgetGuard });
+    } finally {
+      cancellationRegistry.release(sessionId, signal);
+    }
+  }
+
+  /**
+   * Run the pipeline from the given phase through documentation
+   *
+   * Every route that runs phases inline goes through here: create and
+   * clarify, and fork, resume, import and edit to pick up from a later
+   * phase. Stops at the first failed phase, except validation which falls
+   * through to documentation on failure or timeout. Stops with `cancelled`
+   * as soon as the session is cancelled.
+   */
+  async runPipelineFrom(
+    sessionId: string,
+    startPhase: WorkflowPhase,
+    options: { prompt?: string; userId?: string } = {}
+  ): Promise<PipelineResult> {
+    // Hold the session's signal for the whole run, so a cancel between
+    // phases is still seen by the next one
+    const signal = cancellationRegistry.signalFor(sessionId);
+    try {
+      return await this.runPhasesFrom(sessionId, startPhase, options);
+    } finally {
+      cancellationRegistry.release(sessionId, signal);
+    }
+  }
+
+  private async runPhasesFrom(
+    sessionId: string,
+    startPhase: WorkflowPhase,
+    options: { prompt?: string; userId?: string }
+  ): Promise<PipelineResult> {
+    const completedPhases: WorkflowPhase[] = [];
+    const result = (
+      partial: Partial<PipelineResult> & { success: boolean }
+    ): PipelineResult => ({ startPhase, completedPhases, ...partial });
+
+    if (startPhase === "complete") {
+      return result({ success: true });
+    }
+
+    if (startPhase === "discovery") {
+      const session = await this.sessionRepo.load(sessionId);
+      const prompt = options.prompt || session?.state.userPrompt;
+      if (!prompt) {
+        throw new Error(`No prompt available to rerun discovery for ${sessionId}`);
+      }
+
+      const discovery = await this.runDiscoveryPhase(
+        sessionId,
+        prompt,
+        options.userId
+      );
+      if (!discovery.success) {
+        return result({
+          success: false,
+          failedPhase: "discovery",
+          cancelled: cancellationRegistry.isCancelled(sessionId) || undefined,
+          error: discovery.error,
+        });
+      }
+      completedPhases.push("discovery");
+
+      // Wait for the user when discovery needs more input
+      if (
+        discovery.pendingClarifications ||
+        discovery.selectedNodeIds.length === 0
+      ) {
+        return result({
+          success: true,
+          pendingClarifications: discovery.pendingClarifications,
+        });
+      }
+    }
+
+    const order: WorkflowPhase[] = [
+      "configuration",
+      "building",
+      "validation",
+      "documentation",
+    ];
+    const remaining = order.slice(Math.max(0, order.indexOf(startPhase)));
+
+    for (const phase of remaining) {
+      if (cancellationRegistry.isCancelled(sessionId)) {
+        return result({ success: false, failedPhase: phase, cancelled: true });
+      }
+
+      if (phase === "validation") {
+        try {
+          const validation = await this.runValidationPhaseWithTimeout(sessionId);
+          if (validation.success) completedPhases.push("validation");
+        } catch (validationError) {
+          loggers.orchestrator.warn(
+            `Validation phase failed/timeout for ${sessionId}, continuing to documentation:`,
+            validationError
+          );
+        }
+        continue;
+      }
+
+      const phaseResult =
+        phase === "configuration"
+          ? await this.runConfigurationPhase(sessionId)
+          : phase === "building"
+          ? await this.runBuildingPhase(sessionId)
+          : await this.runDocumentationPhase(sessionId);
+
+      if (!phaseResult.success) {
+        return result({
+          success: false,
+          failedPhase: phase,
+          cancelled: cancellationRegistry.isCancelled(sessionId) || undefined,
+          error: phaseResult.error,
+        });
+      }
+
+      // Wait for the user when configuration needs values from them
+      if ("pendingClarifications" in phaseResult && phaseResult.pendingClarifications) {
+        return result({
+          success: true,
+          pendingClarifications: phaseResult.pendingClarifications,
+        });
+      }
+      completedPhases.push(phase);
+    }
+
+    return result({ success: true });
+  }
+
   /**
    * Apply operations to session state
    *
@@ -361,14 +696,29 @@ export class WorkflowOrchestrator {
         this.sessions.set(sessionId, session as WorkflowSession);
       }
 
-      // Apply operations to in-memory state (implementation details omitted for brevity)
-      // The actual operation application logic would be here
+      // Stamp operations once so the in-memory and persisted replays agree
+      const timestamp = new Date().toISOString();
+      const stampedOperations = operations.map((op) => ({
+        ...op,
+        timestamp: op.timestamp || timestamp,
+      }));
+
+      // Apply operations to in-memory state with the shared reducer
+      const s: WorkflowSession = {
+        ...session,
+        state: deserializeSessionState(
+          applyOperationsToState(
+            serializeSessionState(session.state),
+            stampedOperations
+          )
+        ),
+      };
+      this.sessions.set(sessionId, s);
 
       // Queue operations for Supabase persistence
-      await orchestratorHooks.persistOperations(sessionId, operations);
+      await orchestratorHooks.persistOperations(sessionId, stampedOperations);
 
       // Calculate state update summary
-      const s = session as WorkflowSession;
       const stateUpdate = {
         phase: s.state.phase,
         discovered: s.state.discovered.length,
@@ -380,19 +730,16 @@ export class WorkflowOrchestrator {
       };
 
       // Check for pending clarifications
-      const pendingClarification =
+      const pendingClarifications =
         s.state.pendingClarifications.length > 0
-          ? {
-              questionId: s.state.pendingClarifications[0].questionId,
-              question: s.state.pendingClarifications[0].question,
-            }
+          ? s.state.pendingClarifications.map(toClarificationQuestion)
           : undefined;
 
       return {
         success: true,
         applied: operations.length,
         stateUpdate,
-        pendingClarification,
+        pendingClarifications,
       };
     } catch (error) {
       loggers.orchestrator.error("Failed to apply operations:", error);
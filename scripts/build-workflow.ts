@@ -43,6 +43,7 @@ import type {
   ValidationPhaseResult,
   DocumentationPhaseResult
 } from '@/lib/workflow-orchestrator';
+import type { ClarificationAnswer, ClarificationQuestion } from '@/types/workflow';
 
 // Helper to prompt user for input
 async function promptUser(question: string): Promise<string> {
@@ -59,6 +60,47 @@ async function promptUser(question: string): Promise<string> {
   });
 }
 
+// Input hint for a clarification question
+function answerHint(question: ClarificationQuestion): string {
+  const optional = question.required ? '' : ', Enter to skip';
+  switch (question.answerType) {
+    case 'multi_choice':
+      return `\n   Your choices (numbers, comma separated${optional}): `;
+    case 'single_choice':
+    case 'service':
+      return `\n   Your choice (number${question.answerType === 'service' ? ' or name' : ''}${optional}): `;
+    default:
+      return `\n   Your answer${optional ? ' (Enter to skip)' : ''}: `;
+  }
+}
+
+// Map option numbers typed by the user to option values
+function toAnswerValue(question: ClarificationQuestion, input: string): string | string[] {
+  const options = question.options || [];
+  const pick = (entry: string) => options[Number(entry) - 1]?.value ?? entry;
+  if (question.answerType === 'multi_choice') {
+    return input.split(',').map(entry => entry.trim()).filter(Boolean).map(pick);
+  }
+  return options.length > 0 ? pick(input.trim()) : input;
+}
+
+// Ask one round of clarification questions on the command line
+async function askClarifications(questions: ClarificationQuestion[]): Promise<ClarificationAnswer[]> {
+  const answers: ClarificationAnswer[] = [];
+  for (const question of questions) {
+    const node = question.context?.nodeName ? ` [${question.context.nodeName}]` : '';
+    console.log(`\n   ${question.question}${node}`);
+    question.options?.forEach((option, index) => {
+      console.log(`      ${index + 1}. ${option.label}`);
+    });
+    answers.push({
+      questionId: question.questionId,
+      value: toAnswerValue(question, await promptUser(answerHint(question))),
+    });
+  }
+  return answers;
+}
+
 // Show help message
 function showHelpMessage() {
   console.log(`
@@ -103,17 +145,15 @@ async function buildWorkflow(prompt: string): Promise<any> {
     let discoveryResult = await orchestrator.runDiscoveryPhase(sessionId, prompt);
     
     // Handle clarifications if needed
-    while (discoveryResult.pendingClarification) {
+    while (discoveryResult.pendingClarifications) {
       console.log(`\n   ❓ Clarification needed:`);
-      console.log(`   ${discoveryResult.pendingClarification.question}`);
-      
-      const response = await promptUser('\n   Your answer: ');
-      
       discoveryResult = await orchestrator.handleClarificationResponse(
         sessionId,
-        discoveryResult.pendingClarification.questionId,
-        response
+        await askClarifications(discoveryResult.pendingClarifications)
       );
+      if (!discoveryResult.success && discoveryResult.error?.code === 'INVALID_CLARIFICATION') {
+        console.log(`   ⚠️ ${discoveryResult.error.message}`);
+      }
     }
     
     if (!discoveryResult.success || discoveryResult.selectedNodeIds.length === 0) {
@@ -130,7 +170,26 @@ async function buildWorkflow(prompt: string): Promise<any> {
     console.log('\n📍 Phase 2: Configuration');
     console.log('   ⚙️  Configuring nodes with required parameters...');
     
-    const configResult = await orchestrator.runConfigurationPhase(sessionId, discoveryResult);
+    let configResult = await orchestrator.runConfigurationPhase(sessionId, discoveryResult);
+
+    // Ask for values Claude should not guess, then configure those nodes
+    while (configResult.pendingClarifications) {
+      console.log(`\n   ❓ Some nodes need values from you:`);
+      const answered = await orchestrator.handleClarificationResponse(
+        sessionId,
+        await askClarifications(configResult.pendingClarifications)
+      );
+      if (!answered.success && answered.error?.code === 'INVALID_CLARIFICATION') {
+        console.log(`   ⚠️ ${answered.error.message}`);
+        configResult = { ...configResult, pendingClarifications: answered.pendingClarifications };
+        continue;
+      }
+      configResult = {
+        ...answered,
+        configured: [...configResult.configured, ...(answered.configured || [])],
+        reasoning: [...(configResult.reasoning || []), ...(answered.reasoning || [])],
+      };
+    }
     
     if (!configResult.success) {
       throw new Error(`Configuration phase failed: ${configResult.error?.message}`);
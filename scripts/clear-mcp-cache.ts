@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const tool = args.find(arg => arg.startsWith('--tool='))?.split('=')[1];
+const showHelp = args.includes('--help') || args.includes('-h');
+
+// Load environment variables BEFORE any module imports
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+// Show help message
+function showHelpMessage() {
+  console.log(`
+🧹 Clear MCP Cache
+
+Removes cached MCP tool results (node info, essentials, documentation,
+searches, task templates) from the cache selected by MCP_CACHE, so the
+next generation fetches them from the MCP server again. Run it after the
+MCP server's node catalog is updated.
+
+Usage: npx tsx scripts/clear-mcp-cache.ts [options]
+
+Options:
+  --tool=<name>    Only clear results of one tool, e.g. get_node_essentials
+  --help, -h       Show this help message
+
+Environment:
+  MCP_CACHE        filesystem or supabase (memory caches only live in their process)
+  MCP_CACHE_DIR    Directory of the filesystem cache (default: .cache/mcp)
+`);
+}
+
+async function main() {
+  if (showHelp) {
+    showHelpMessage();
+    return;
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { getMCPCache, getMCPCacheBackend } = await import('@/lib/mcp-cache');
+
+  const backend = getMCPCacheBackend();
+  if (backend !== 'filesystem' && backend !== 'supabase') {
+    console.log(`ℹ️  MCP_CACHE is ${backend ?? 'off'} - nothing is kept between processes`);
+    return;
+  }
+
+  const removed = await getMCPCache()!.invalidate(tool);
+  console.log(`✅ Removed ${removed} cached result(s) from the ${backend} cache${tool ? ` for ${tool}` : ''}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Failed to clear MCP cache:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const phase = args.find(arg => arg.startsWith('--phase='))?.split('=')[1];
+const showHelp = args.includes('--help') || args.includes('-h');
+
+// Load environment variables BEFORE any module imports
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+// Show help message
+function showHelpMessage() {
+  console.log(`
+🧪 Compare Prompt Variants
+
+Summarizes the outcomes recorded for each prompt version that sessions
+were assigned by PROMPT_EXPERIMENTS: how many sessions ran it, how many
+succeeded, the tokens they used and (for validation) how many attempts
+validation took.
+
+Usage: npx tsx scripts/compare-prompt-variants.ts [options]
+
+Options:
+  --phase=<phase>  Only compare one phase, e.g. --phase=discovery
+  --help, -h       Show this help message
+
+Environment:
+  USE_SUPABASE_STATE  Must be true - outcomes are read from prompt_variant_runs
+`);
+}
+
+async function main() {
+  if (showHelp) {
+    showHelpMessage();
+    return;
+  }
+
+  if (process.env.USE_SUPABASE_STATE !== 'true') {
+    console.log('ℹ️  USE_SUPABASE_STATE is not true - outcomes are only kept in the process that ran the sessions');
+    return;
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { getPromptVariantRunStore, summarizePromptVariants } = await import('@/lib/prompt-experiments');
+  const { PROMPT_PHASES } = await import('@/services/claude/prompts/registry');
+
+  if (phase && !PROMPT_PHASES.includes(phase as any)) {
+    throw new Error(`--phase must be one of ${PROMPT_PHASES.join(', ')}`);
+  }
+
+  const runs = await getPromptVariantRunStore().list(phase as any);
+  if (runs.length === 0) {
+    console.log(`ℹ️  No prompt variant runs recorded${phase ? ` for ${phase}` : ''}`);
+    return;
+  }
+
+  console.table(
+    summarizePromptVariants(runs).map(summary => ({
+      phase: summary.phase,
+      version: summary.version,
+      runs: summary.runs,
+      'success %': Math.round(summary.successRate * 100),
+      'avg tokens': Math.round(summary.avgTokens),
+      'avg validation attempts': summary.avgValidationAttempts?.toFixed(2) ?? '-',
+    }))
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Failed to compare prompt variants:', error);
+    process.exit(1);
+  });
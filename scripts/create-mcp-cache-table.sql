@@ -0,0 +1,15 @@
+-- Migration to add the mcp_cache table
+-- Each row is a cached MCP tool result (node info, essentials, documentation,
+-- search results, task templates), keyed by a hash of the tool and arguments
+
+CREATE TABLE IF NOT EXISTS mcp_cache (
+    key VARCHAR(64) PRIMARY KEY,
+    tool TEXT NOT NULL,
+    args JSONB NOT NULL,
+    value JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_cache_tool ON mcp_cache(tool);
+CREATE INDEX IF NOT EXISTS idx_mcp_cache_expires_at ON mcp_cache(expires_at);
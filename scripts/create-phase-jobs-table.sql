@@ -0,0 +1,72 @@
+-- Migration to add the phase_jobs queue table
+-- Each row is one run of one workflow phase, picked up by scripts/phase-worker.ts
+
+CREATE TABLE IF NOT EXISTS phase_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- No foreign key: discovery jobs are queued before the session row exists
+    session_id VARCHAR(255) NOT NULL,
+    phase TEXT NOT NULL CHECK (phase IN ('discovery', 'configuration', 'building', 'validation', 'documentation')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    lease_owner TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phase_jobs_claimable ON phase_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_phase_jobs_session_id ON phase_jobs(session_id);
+
+-- Claims the next runnable job for a worker: a queued job that is due, or a
+-- running job whose worker let its lease expire. SKIP LOCKED lets several
+-- workers poll concurrently without handing out the same job twice.
+CREATE OR REPLACE FUNCTION claim_phase_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF phase_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE phase_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        lease_owner = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        updated_at = NOW()
+    WHERE id = (
+        SELECT id
+        FROM phase_jobs
+        WHERE attempts < max_attempts
+        AND (
+            (status = 'queued' AND run_after <= NOW())
+            OR (status = 'running' AND lease_expires_at < NOW())
+        )
+        ORDER BY run_after
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Jobs whose lease expired on their final attempt can never be claimed again
+CREATE OR REPLACE FUNCTION fail_abandoned_phase_jobs()
+RETURNS INTEGER AS $$
+DECLARE
+    affected INTEGER;
+BEGIN
+    UPDATE phase_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND attempts >= max_attempts;
+
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
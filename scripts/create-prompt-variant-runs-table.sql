@@ -0,0 +1,16 @@
+-- Migration to add the prompt_variant_runs table
+-- Each row is the outcome of a session's phase with the prompt version it
+-- was assigned by PROMPT_EXPERIMENTS; running the phase again replaces it
+
+CREATE TABLE IF NOT EXISTS prompt_variant_runs (
+    session_id VARCHAR(255) NOT NULL REFERENCES workflow_sessions(session_id) ON DELETE CASCADE,
+    phase TEXT NOT NULL CHECK (phase IN ('discovery', 'configuration', 'building', 'validation', 'documentation')),
+    version TEXT NOT NULL,
+    success BOOLEAN NOT NULL,
+    validation_attempts INTEGER CHECK (validation_attempts >= 0),
+    tokens INTEGER NOT NULL DEFAULT 0 CHECK (tokens >= 0),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (session_id, phase)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_variant_runs_phase_version ON prompt_variant_runs(phase, version);
@@ -0,0 +1,38 @@
+-- Migration to add per-user token budget overrides
+-- Limits left NULL fall back to TOKEN_BUDGET_PER_SESSION,
+-- TOKEN_BUDGET_PER_USER_DAILY and TOKEN_BUDGET_PER_USER_MONTHLY
+
+CREATE TABLE IF NOT EXISTS user_token_budgets (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    per_session INTEGER CHECK (per_session > 0),
+    per_user_daily INTEGER CHECK (per_user_daily > 0),
+    per_user_monthly INTEGER CHECK (per_user_monthly > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Usage lookups scan a user's recently updated sessions
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_user_updated
+    ON workflow_sessions(user_id, updated_at DESC);
+
+-- Tokens a user's sessions used since the start of the day and of the
+-- month, summed over the calls in state.tokenUsage.byCalls. Budget checks
+-- run before every Claude call, so the sessions stay in the database.
+CREATE OR REPLACE FUNCTION user_token_totals(
+    p_user_id UUID,
+    p_day_start TIMESTAMPTZ,
+    p_month_start TIMESTAMPTZ
+)
+RETURNS TABLE (used_today BIGINT, used_this_month BIGINT) AS $$
+    SELECT
+        COALESCE(SUM((c->>'tokens')::BIGINT)
+            FILTER (WHERE (c->>'timestamp')::TIMESTAMPTZ >= p_day_start), 0),
+        COALESCE(SUM((c->>'tokens')::BIGINT), 0)
+    FROM workflow_sessions s
+    CROSS JOIN LATERAL jsonb_array_elements(
+        COALESCE(s.state->'tokenUsage'->'byCalls', '[]'::jsonb)
+    ) AS c
+    WHERE s.user_id = p_user_id
+    AND s.updated_at >= p_month_start
+    AND (c->>'timestamp')::TIMESTAMPTZ >= p_month_start;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,19 @@
+-- Migration to add the workflow_deployments history table
+-- Each row is one deployment of a session's workflow to an n8n instance profile;
+-- redeploys to the same profile update the same remote workflow
+
+CREATE TABLE IF NOT EXISTS workflow_deployments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR(255) NOT NULL REFERENCES workflow_sessions(session_id) ON DELETE CASCADE,
+    profile TEXT NOT NULL,
+    remote_workflow_id TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated')),
+    -- Credential IDs chosen for the missingCredentials of the config analysis
+    credentials JSONB NOT NULL DEFAULT '{}'::jsonb,
+    deployed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (session_id, profile, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_deployments_session_id
+    ON workflow_deployments(session_id, deployed_at DESC);
@@ -0,0 +1,13 @@
+-- Migration to add the workflow_versions table
+-- Each row is a snapshot of a session's workflow after building, validation,
+-- documentation or a follow-up edit, numbered per session
+
+CREATE TABLE IF NOT EXISTS workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR(255) NOT NULL REFERENCES workflow_sessions(session_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    source TEXT NOT NULL CHECK (source IN ('building', 'validation', 'documentation', 'edit')),
+    workflow JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (session_id, version)
+);
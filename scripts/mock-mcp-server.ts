@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+import * as fs from 'fs';
+import * as path from 'path';
+import { startMockMcpServer, type MockNodeFixture } from '@/lib/mocks/mcp-server';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => arg.startsWith('--port='))?.split('=')[1] || 3001);
+const fixturePath = args.find(arg => arg.startsWith('--fixture='))?.split('=')[1];
+const apiKey = args.find(arg => arg.startsWith('--api-key='))?.split('=')[1];
+const showHelp = args.includes('--help') || args.includes('-h');
+
+// Show help message
+function showHelpMessage() {
+  console.log(`
+🧩 Mock n8n MCP Server
+
+Serves the n8n-mcp node tools (search_nodes, get_node_essentials,
+get_node_for_task, validate_node_operation, validate_workflow, ...) from a
+fixture of node definitions, so the app runs without a real MCP server.
+Point the app at it with:
+
+  MCP_SERVER_URL=http://localhost:<port>  MCP_API_KEY=local  MCP_PROFILE=local
+
+Usage: npx tsx scripts/mock-mcp-server.ts [options]
+
+Options:
+  --port=<port>        Port to listen on (default: 3001)
+  --fixture=<path>     JSON file of node definitions (default: lib/mocks/fixtures/n8n-nodes.json)
+  --api-key=<key>      Reject requests without this api_key
+  --help, -h           Show this help message
+`);
+}
+
+async function main() {
+  if (showHelp) {
+    showHelpMessage();
+    return;
+  }
+
+  const fixture = fixturePath
+    ? (JSON.parse(fs.readFileSync(path.resolve(fixturePath), 'utf8')) as MockNodeFixture)
+    : undefined;
+
+  const server = await startMockMcpServer({ fixture, apiKey, port, host: 'localhost' });
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping mock MCP server...');
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  console.log(`🚀 Mock MCP server listening on ${server.url}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Mock MCP server failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+#!/usr/bin/env tsx
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const runOnce = args.includes('--once');
+const workerId = args.find(arg => arg.startsWith('--id='))?.split('=')[1];
+const showHelp = args.includes('--help') || args.includes('-h');
+
+// Load environment variables BEFORE any module imports
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+// Show help message
+function showHelpMessage() {
+  console.log(`
+⚙️  Phase Job Worker
+
+Claims workflow phase jobs from the phase_jobs table and runs them.
+Start the app with USE_PHASE_JOBS=true so API routes queue jobs instead
+of running phases in the background.
+
+Usage: npx tsx scripts/phase-worker.ts [options]
+
+Options:
+  --once           Process at most one job, then exit
+  --id=<name>      Worker id used for job leases (default: random)
+  --help, -h       Show this help message
+`);
+}
+
+async function main() {
+  if (showHelp) {
+    showHelpMessage();
+    return;
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { WorkflowOrchestrator } = await import('@/lib/workflow-orchestrator');
+  const { PhaseWorker, createOrchestratorExecutor, getPhaseJobQueue } =
+    await import('@/lib/jobs');
+
+  const worker = new PhaseWorker({
+    queue: getPhaseJobQueue(),
+    executor: createOrchestratorExecutor(new WorkflowOrchestrator()),
+    workerId,
+  });
+
+  if (runOnce) {
+    const job = await worker.runOnce();
+    console.log(job ? `✅ Processed ${job.phase} job ${job.id}` : '💤 No jobs due');
+    return;
+  }
+
+  // Finish the current job before exiting
+  const shutdown = () => {
+    console.log(`\n🛑 Stopping worker ${worker.workerId}...`);
+    worker.stop();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  console.log(`🚀 Phase worker ${worker.workerId} polling for jobs`);
+  await worker.start();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Phase worker failed:', error);
+    process.exit(1);
+  });
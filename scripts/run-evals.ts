@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const suitePath = path.resolve(
+  args.find(arg => arg.startsWith('--suite='))?.split('=')[1] ||
+    path.join('tests', 'evals', 'golden-prompts.json')
+);
+const caseIds = args.find(arg => arg.startsWith('--case='))?.split('=')[1]?.split(',').filter(Boolean);
+const baselineArg = args.find(arg => arg.startsWith('--baseline='))?.split('=')[1];
+const updateBaseline = args.includes('--update-baseline');
+const useMockMcp = args.includes('--mock-mcp');
+const isProduction = args.includes('--production');
+const isVerbose = args.includes('--verbose') || args.includes('-v');
+const showHelp = args.includes('--help') || args.includes('-h');
+const cassetteMode = args.includes('--record') ? 'record' : args.includes('--replay') ? 'replay' : undefined;
+
+const suiteFile = path.basename(suitePath, '.json');
+const outputDir = path.join(process.cwd(), 'tests', 'eval-outputs');
+const baselinePath = path.resolve(baselineArg || path.join('tests', 'evals', 'baselines', `${suiteFile}.json`));
+
+// Set NODE_ENV based on production flag
+if (!isProduction) {
+  process.env.NODE_ENV = 'test';
+}
+process.env.BUILD_WORKFLOW = 'true';
+process.env.LOG_LEVEL = isVerbose ? 'debug' : 'warn';
+
+// Load environment variables BEFORE any module imports
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+if (cassetteMode) {
+  process.env.CASSETTE_MODE = cassetteMode;
+  process.env.CASSETTE_PATH =
+    process.env.CASSETTE_PATH || path.join(process.cwd(), 'tests', 'cassettes', `evals-${suiteFile}.json`);
+}
+
+// Show help message
+function showHelpMessage() {
+  console.log(`
+📏 Run Evals
+
+Runs a suite of golden prompts through the full pipeline and scores each
+generated workflow: discovery precision/recall against the expected node
+types, whether validation passed and how many fix attempts it took, the
+expected connections, the must-not-contain rules, and token cost. The
+scorecard is written to tests/eval-outputs/ and compared to the suite's
+baseline; any regression fails the run.
+
+Usage: npx tsx scripts/run-evals.ts [options]
+
+Options:
+  --suite=<path>       Suite of golden prompts (default: tests/evals/golden-prompts.json)
+  --case=<id,...>      Only run these cases
+  --baseline=<path>    Summary to compare to (default: tests/evals/baselines/<suite>.json)
+  --update-baseline    Save this run as the baseline
+  --record             Record Claude and MCP calls to tests/cassettes/evals-<suite>.json
+  --replay             Replay recorded calls offline; unrecorded requests fail
+  --mock-mcp           Serve MCP from the in-process mock server (lib/mocks/mcp-server)
+  --production         Use production models (better quality, slower)
+  --verbose, -v        Show detailed debug logs
+  --help, -h           Show this help message
+
+Examples:
+  npm run eval -- --replay
+  npm run eval -- --case=webhook-to-slack --verbose
+  npm run eval -- --production --update-baseline
+
+Environment:
+  CASSETTE_PATH        Cassette used by --record and --replay
+  PROMPT_EXPERIMENTS   Prompt versions to split cases across (see services/claude/prompts/registry)
+`);
+}
+
+async function main() {
+  if (showHelp) {
+    showHelpMessage();
+    return;
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { loadEvalSuite, runEvalSuite, compareEvalSummaries, formatEvalReport } = await import('@/lib/evals');
+
+  const suite = loadEvalSuite(suitePath);
+  console.log(`📏 ${suite.name} v${suite.version}: ${caseIds?.length ?? suite.cases.length} case(s)`);
+
+  let mockMcp: { url: string; close(): Promise<void> } | undefined;
+  if (useMockMcp) {
+    const { startMockMcpServer } = await import('@/lib/mocks/mcp-server');
+    mockMcp = await startMockMcpServer();
+    process.env.MCP_SERVER_URL = mockMcp.url;
+    process.env.MCP_API_KEY = 'local';
+    process.env.MCP_PROFILE = 'local';
+  } else if (!process.env.MCP_SERVER_URL) {
+    process.env.MCP_SERVER_URL = 'http://localhost:3001/mcp';
+    process.env.MCP_API_KEY = 'local-development-key';
+    process.env.MCP_PROFILE = 'intermediate-cuckoo-DIapDk';
+  }
+
+  const { WorkflowOrchestrator } = await import('@/lib/workflow-orchestrator');
+  const { SessionRepo } = await import('@/lib/orchestrator/context/SessionRepo');
+  const sessionRepo = new SessionRepo();
+  const orchestrator = new WorkflowOrchestrator({ sessionRepo });
+
+  try {
+    const summary = await runEvalSuite(
+      suite,
+      { orchestrator, sessionRepo },
+      {
+        caseIds,
+        onCase: result => {
+          const notes = result.error || result.failedPhase || '';
+          console.log(
+            `   ${result.passed ? '✅' : '❌'} ${result.caseId} ` +
+              `(recall ${(result.discovery.recall * 100).toFixed(0)}%, ${result.tokens} tokens)` +
+              (notes ? ` - ${notes}` : '')
+          );
+        },
+      }
+    );
+
+    // Only full runs are compared, a subset of cases would skew the rates
+    const baseline =
+      !caseIds && fs.existsSync(baselinePath) ? JSON.parse(fs.readFileSync(baselinePath, 'utf8')) : undefined;
+    const comparison = baseline ? compareEvalSummaries(baseline, summary) : undefined;
+
+    fs.mkdirSync(outputDir, { recursive: true });
+    const timestamp = summary.startedAt.replace(/[:.]/g, '-');
+    const reportPath = path.join(outputDir, `${suite.name}-${timestamp}`);
+    fs.writeFileSync(`${reportPath}.json`, JSON.stringify(summary, null, 2));
+    fs.writeFileSync(`${reportPath}.md`, formatEvalReport(summary, comparison));
+
+    const { metrics } = summary;
+    console.log(`\n📊 Passed ${metrics.passed}/${metrics.cases}`);
+    console.log(`   Discovery precision ${(metrics.discoveryPrecision * 100).toFixed(1)}%, recall ${(metrics.discoveryRecall * 100).toFixed(1)}%`);
+    console.log(`   Validation passed ${(metrics.validationPassRate * 100).toFixed(1)}%, ${metrics.avgValidationAttempts.toFixed(2)} attempts on average`);
+    console.log(`   ${metrics.totalTokens} tokens, $${metrics.totalCostUsd.toFixed(4)}`);
+    console.log(`💾 Scorecard: ${path.relative(process.cwd(), reportPath)}.md`);
+
+    if (updateBaseline) {
+      if (caseIds) throw new Error('--update-baseline needs a run of every case, drop --case');
+      fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+      fs.writeFileSync(baselinePath, JSON.stringify(summary, null, 2));
+      console.log(`📌 Baseline saved to ${path.relative(process.cwd(), baselinePath)}`);
+    }
+
+    // Requests missing from a replayed cassette fail their case, so they
+    // show up as regressions too
+    if (comparison && !comparison.comparable) {
+      console.log(`ℹ️  Baseline is for ${baseline.suite} v${baseline.suiteVersion} - not compared`);
+    } else if (comparison) {
+      for (const regression of comparison.regressions) {
+        console.log(`   ❌ ${regression.message}`);
+      }
+      const regressed = comparison.regressions.length > 0;
+      console.log(regressed ? '❌ Regressed from the baseline' : '✅ No regressions from the baseline');
+      if (regressed) process.exitCode = 1;
+    }
+  } finally {
+    await mockMcp?.close();
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌ Eval run failed:', error);
+    process.exit(1);
+  });
@@ -20,6 +20,9 @@ import { loggers } from "@/lib/utils/logger";
 import type { ToolDefinition, ToolCall, ToolResult } from "@/types/tools";
 import { ToolExecutor } from "./tool-executor";
 import type { MCPClient } from "@/lib/mcp-client";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
+import type { TokenCallBreakdown } from "@/types/usage";
+import type { LLMProvider } from "./providers/provider";
 
 // ==========================================
 // Type Definitions
@@ -34,6 +37,7 @@ export interface CompletionParams {
   model?: string;
   phase?: string; // For logging context
   tools?: ToolDefinition[]; // Optional tools for Claude to use
+  signal?: AbortSignal; // Aborts in-flight requests when the session is cancelled
 }
 
 export interface CompletionResult {
@@ -43,16 +47,28 @@ export interface CompletionResult {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cacheCreationTokens?: number;
+    cacheReadTokens?: number;
     wasTruncated?: boolean;
     usagePercentage?: number;
   };
 }
 
+/**
+ * Called with the tokens of every Claude response
+ */
+export type TokenUsageCallback = (
+  tokens: number,
+  method?: string,
+  breakdown?: TokenCallBreakdown
+) => void;
+
 export interface ClientConfig {
   apiKey?: string;
-  onUsageCallback?: (tokens: number) => void;
+  onUsageCallback?: TokenUsageCallback;
   baseURL?: string;
   timeout?: number;
+  model?: string; // Used when a request doesn't name its own model
   mcpClient?: MCPClient; // Optional MCP client for tool execution
 }
 
@@ -72,12 +88,15 @@ export class ProviderError extends Error {
 // Anthropic Client Implementation
 // ==========================================
 
-export class AnthropicClient {
+export class AnthropicClient implements LLMProvider {
   private client: Anthropic;
-  private onUsageCallback?: (tokens: number) => void;
+  private model?: string;
+  private onUsageCallback?: TokenUsageCallback;
   private toolExecutor?: ToolExecutor;
   private currentPhase?: string;
   private currentMethod?: string;
+  private abortSignal?: AbortSignal;
+  private budgetGuard?: () => Promise<void>;
 
   constructor(config: ClientConfig = {}) {
     const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY;
@@ -92,6 +111,7 @@ export class AnthropicClient {
       defaultHeaders: API_CONFIG.defaultHeaders,
     });
 
+    this.model = config.model;
     this.onUsageCallback = config.onUsageCallback;
     
     // Initialize tool executor if MCP client is provided
@@ -110,7 +130,7 @@ export class AnthropicClient {
   /**
    * Set or update the token usage callback
    */
-  setOnUsageCallback(callback: (tokens: number) => void): void {
+  setOnUsageCallback(callback: TokenUsageCallback): void {
     this.onUsageCallback = callback;
   }
 
@@ -122,6 +142,21 @@ export class AnthropicClient {
     this.currentMethod = method;
   }
 
+  /**
+   * Set or clear the signal used when a request doesn't pass its own
+   */
+  setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+  }
+
+  /**
+   * Set or clear a check awaited before every request, which throws to
+   * stop the request (e.g. when a token budget is used up)
+   */
+  setBudgetGuard(guard?: () => Promise<void>): void {
+    this.budgetGuard = guard;
+  }
+
   /**
    * Complete a JSON generation request with automatic retry logic
    */
@@ -130,14 +165,25 @@ export class AnthropicClient {
     if (params.phase) {
       this.currentPhase = params.phase;
     }
-    
-    // If tools are provided and we have a tool executor, use enhanced flow
-    if (params.tools && params.tools.length > 0 && this.toolExecutor) {
-      return this.completeJSONWithTools(params);
+
+    const signal = params.signal ?? this.abortSignal;
+    throwIfCancelled(signal);
+    await this.budgetGuard?.();
+    params = { ...params, signal };
+
+    try {
+      // If tools are provided and we have a tool executor, use enhanced flow
+      if (params.tools && params.tools.length > 0 && this.toolExecutor) {
+        return await this.completeJSONWithTools(params);
+      }
+
+      // Otherwise use the basic flow (existing implementation)
+      return await this.completeJSONBasic(params);
+    } catch (error) {
+      // Report an aborted request as a cancellation, not a provider failure
+      throwIfCancelled(signal);
+      throw error;
     }
-    
-    // Otherwise use the basic flow (existing implementation)
-    return this.completeJSONBasic(params);
   }
   
   /**
@@ -179,6 +225,7 @@ export class AnthropicClient {
         );
         
         // Execute tools
+        throwIfCancelled(params.signal);
         const toolResults = await this.toolExecutor!.executeMultiple(toolCalls);
         
         // Add Claude's response (with tool calls) to messages
@@ -188,15 +235,16 @@ export class AnthropicClient {
         messages.push({ role: 'user', content: toolResults as any });
         
         // Continue conversation with tool results
+        await this.budgetGuard?.();
         const nextResponse = await this.client.messages.create({
-          model: params.model || getModel(),
+          model: params.model || this.model || getModel(),
           max_tokens: params.maxTokens,
           temperature: params.temperature ?? TEMPERATURE.default,
           messages,
           system: params.systemPrompt,
           tools: params.tools as any,
           tool_choice: { type: 'auto' } // Correct format for tool_choice
-        });
+        }, { signal: params.signal });
         
         // Recursively handle (in case Claude needs more tools)
         return this.handleToolResponse(nextResponse, messages, params);
@@ -228,7 +276,7 @@ export class AnthropicClient {
     params: CompletionParams,
     messages: Anthropic.MessageParam[]
   ): Promise<any> {
-    const model = params.model || getModel();
+    const model = params.model || this.model || getModel();
     const temperature = params.temperature ?? TEMPERATURE.default;
     
     return await this.client.messages.create({
@@ -239,7 +287,7 @@ export class AnthropicClient {
       system: params.systemPrompt,
       tools: params.tools as any,
       tool_choice: { type: 'auto' } // Correct format for tool_choice
-    });
+    }, { signal: params.signal });
   }
   
   /**
@@ -270,6 +318,9 @@ export class AnthropicClient {
         return result;
       } catch (error) {
         lastError = error as Error;
+
+        // Don't retry once the session has been cancelled
+        throwIfCancelled(params.signal);
         
         // Check if error is retryable
         if (!this.isRetryableError(error) || attempt === RETRY_CONFIG.maxAttempts) {
@@ -296,7 +347,7 @@ export class AnthropicClient {
    * Make a single request to the Anthropic API
    */
   private async makeRequest(params: CompletionParams): Promise<CompletionResult> {
-    const model = params.model || getModel();
+    const model = params.model || this.model || getModel();
     const temperature = params.temperature ?? TEMPERATURE.default;
     
     // Build messages array
@@ -316,7 +367,7 @@ export class AnthropicClient {
       temperature,
       messages,
       system: params.systemPrompt,
-    });
+    }, { signal: params.signal });
     
     // Extract the text content
     const content = response.content[0].type === "text" 
@@ -353,6 +404,8 @@ export class AnthropicClient {
     const promptTokens = response.usage.input_tokens || 0;
     const completionTokens = response.usage.output_tokens || 0;
     const totalTokens = promptTokens + completionTokens;
+    const cacheCreationTokens = response.usage.cache_creation_input_tokens || 0;
+    const cacheReadTokens = response.usage.cache_read_input_tokens || 0;
     
     // Check if response was truncated
     const wasTruncated = maxTokens ? completionTokens >= maxTokens : false;
@@ -364,6 +417,8 @@ export class AnthropicClient {
       promptTokens,
       completionTokens,
       totalTokens,
+      cacheCreationTokens,
+      cacheReadTokens,
       wasTruncated,
       usagePercentage,
     };
@@ -399,7 +454,13 @@ export class AnthropicClient {
 
     // Call the callback if set
     if (this.onUsageCallback) {
-      this.onUsageCallback(totalTokens);
+      this.onUsageCallback(totalTokens, method, {
+        inputTokens: promptTokens,
+        outputTokens: completionTokens,
+        cacheCreationTokens,
+        cacheReadTokens,
+        model: response.model,
+      });
     }
 
     return usage;
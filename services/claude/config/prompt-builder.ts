@@ -134,6 +134,7 @@ The response has been prefilled with {"operations":[
 - Do NOT add any text, greetings, or explanations
 - Do NOT start a new JSON structure
 - Your response should continue with: {"type":"configureNode",...}],"reasoning":[...]}
+- If the node needs a value only the user knows (a channel, sheet ID, schedule) that the goal does not give, continue with {"type":"requestClarification","questionId":"...","question":"...","answerType":"free_text","context":{"field":"parameters.<name>"}} instead of inventing a placeholder
 - Ensure the JSON is valid and complete`;
   }
   
@@ -171,6 +172,7 @@ The response has been prefilled with {"operations":[
 - Do NOT add any text, greetings, or explanations
 - Do NOT start a new JSON structure
 - Your response should continue with: {"type":"configureNode",...}],"reasoning":[...]}
+- If the node needs a value only the user knows (a channel, sheet ID, schedule) that the goal does not give, continue with {"type":"requestClarification","questionId":"...","question":"...","answerType":"free_text","context":{"field":"parameters.<name>"}} instead of inventing a placeholder
 - Ensure the JSON is valid and complete`;
   }
 }
\ No newline at end of file
@@ -28,6 +28,9 @@ export const PREFILLS = {
   
   // Documentation phase - for sticky note operations
   DOCUMENTATION: '{"operations":[',
+
+  // Follow-up edits of a completed workflow
+  EDIT: '{"operations":[',
   
   // Analysis methods
   INTENT_ANALYSIS: '{"intent":"',
@@ -47,8 +50,50 @@ export const MODELS = {
   test: "claude-sonnet-4-20250514",
   fast: "claude-sonnet-4-20250514",
   powerful: "claude-opus-4-20250514", // For complex tasks if needed
+  seo: "claude-3-haiku-20240307", // SEO metadata: fast and cheap for structured data
 } as const;
 
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number; // 5-minute cache writes
+  cacheRead: number;
+}
+
+/**
+ * Anthropic list prices for the models in MODELS
+ */
+export const MODEL_PRICING: Record<(typeof MODELS)[ModelType], ModelPricing> = {
+  "claude-sonnet-4-20250514": {
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  "claude-opus-4-20250514": {
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  "claude-3-haiku-20240307": {
+    input: 0.25,
+    output: 1.25,
+    cacheWrite: 0.3,
+    cacheRead: 0.03,
+  },
+};
+
+/**
+ * Get the pricing of a model, or undefined for a model we don't price
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return (MODEL_PRICING as Record<string, ModelPricing>)[model];
+}
+
 /**
  * Get the appropriate model based on environment and requirements
  */
@@ -83,6 +128,7 @@ export const TOKEN_LIMITS = {
   building: 8000,
   validation: 8000,
   documentation: 1000,
+  edit: 8000,
   
   // Analysis operations
   intentAnalysis: 4000, // Increased from 1000 to handle complex prompts
@@ -35,8 +35,25 @@ export {
   type CompletionParams,
   type CompletionResult,
   type ClientConfig,
+  type TokenUsageCallback,
 } from "./client";
 
+// Providers
+export {
+  createLLMProvider,
+  getPhaseProviderConfig,
+  OpenAICompatibleProvider,
+  CassetteProvider,
+  withCassette,
+  LLM_PHASES,
+  type LLMProvider,
+  type LLMProviderKind,
+  type LLMProviderSettings,
+  type LLMPhase,
+  type OpenAICompatibleConfig,
+  type PhaseProviderConfig,
+} from "./providers";
+
 // Parsing utilities
 export {
   parseWithPrefill,
@@ -78,6 +95,7 @@ export { DiscoveryPrompts } from "./prompts/discovery";
 export { ValidationPrompts } from "./prompts/validation";
 export { BuildingPrompts } from "./prompts/building";
 export { DocumentationPrompts } from "./prompts/documentation";
+export { EditPrompts } from "./prompts/edit";
 
 // Validation schemas
 export {
@@ -92,6 +110,7 @@ export {
   validationFixesResponseSchema,
   validatedWorkflowResponseSchema,
   documentationOperationsResponseSchema,
+  workflowEditResponseSchema,
 } from "./validation/schemas";
 
 // ==========================================
@@ -141,12 +160,22 @@ export type {
   NodeMetadata,
 } from "./phases/documentation";
 
+export { EditPhaseService } from "./phases/edit";
+export type { EditInput, EditOutput } from "./phases/edit";
+
 // ==========================================
 // Factory Functions
 // ==========================================
 
 import { AnthropicClient } from "./client";
 import type { ClientConfig } from "./client";
+import {
+  createLLMProvider,
+  getPhaseProviderConfig,
+  withCassette,
+  type LLMProvider,
+  type PhaseProviderConfig,
+} from "./providers";
 import { DiscoveryPhaseService } from "./phases/discovery";
 import { ConfigurationPhaseService } from "./phases/configuration";
 import { BuildingPhaseService } from "./phases/building";
@@ -155,6 +184,7 @@ import { ValidationPhaseService } from "./phases/validation";
 import { BuildingPrompts } from "./prompts/building";
 import { DocumentationPrompts } from "./prompts/documentation";
 import { DocumentationPhaseService } from "./phases/documentation";
+import { EditPhaseService } from "./phases/edit";
 import {
   parseWithPrefill,
   parseJson,
@@ -185,25 +215,25 @@ export function createDefaultClient(): AnthropicClient {
 /**
  * Create all phase services with shared configuration
  * This is the recommended way to create phase services
+ *
+ * Phases configured in `providers` (by default LLM_PHASE_PROVIDERS) get
+ * their own provider; all others share `client`.
  */
 export function createPhaseServices(config?: {
-  client?: AnthropicClient;
+  client?: LLMProvider;
+  providers?: PhaseProviderConfig;
   mcpClient?: any; // Add MCP client for tool support
   onTokenUsage?: (tokens: number) => void;
 }) {
-  const client = config?.client || createDefaultClient();
-  const baseConfig = {
-    client,
-    mcpClient: config?.mcpClient, // Pass MCP client for tool execution
-    onTokenUsage: config?.onTokenUsage,
-  };
+  const configFor = phaseConfigFactory(config);
 
   return {
-    discovery: new DiscoveryPhaseService(baseConfig),
-    configuration: new ConfigurationPhaseService(baseConfig),
-    building: new BuildingPhaseService(baseConfig),
-    validation: new ValidationPhaseService(baseConfig),
-    documentation: new DocumentationPhaseService(baseConfig),
+    discovery: new DiscoveryPhaseService(configFor("discovery")),
+    configuration: new ConfigurationPhaseService(configFor("configuration")),
+    building: new BuildingPhaseService(configFor("building")),
+    validation: new ValidationPhaseService(configFor("validation")),
+    documentation: new DocumentationPhaseService(configFor("documentation")),
+    edit: new EditPhaseService(configFor("edit")),
   };
 }
 
@@ -217,20 +247,17 @@ export function createPhaseService<
     | "building"
     | "validation"
     | "documentation"
+    | "edit"
 >(
   phase: T,
   config?: {
-    client?: AnthropicClient;
+    client?: LLMProvider;
+    providers?: PhaseProviderConfig;
     mcpClient?: any; // Add MCP client for tool support
     onTokenUsage?: (tokens: number) => void;
   }
 ) {
-  const client = config?.client || createDefaultClient();
-  const baseConfig = {
-    client,
-    mcpClient: config?.mcpClient, // Pass MCP client for tool execution
-    onTokenUsage: config?.onTokenUsage,
-  };
+  const baseConfig = phaseConfigFactory(config)(phase);
 
   switch (phase) {
     case "discovery":
@@ -243,11 +270,39 @@ export function createPhaseService<
       return new ValidationPhaseService(baseConfig);
     case "documentation":
       return new DocumentationPhaseService(baseConfig);
+    case "edit":
+      return new EditPhaseService(baseConfig);
     default:
       throw new Error(`Unknown phase: ${phase}`);
   }
 }
 
+/**
+ * Service config per phase. The default client is only created when a
+ * phase has no provider of its own. While a cassette is active, every
+ * provider records to or replays from it.
+ */
+function phaseConfigFactory(config?: {
+  client?: LLMProvider;
+  providers?: PhaseProviderConfig;
+  mcpClient?: any;
+  onTokenUsage?: (tokens: number) => void;
+}) {
+  const providers = config?.providers ?? getPhaseProviderConfig();
+  let defaultClient: LLMProvider | undefined;
+
+  return (phase: keyof PhaseProviderConfig) => {
+    const settings = providers[phase];
+    return {
+      client: settings
+        ? withCassette(() => createLLMProvider(settings, { mcpClient: config?.mcpClient }))
+        : (defaultClient ??= withCassette(() => config?.client || createDefaultClient())),
+      mcpClient: config?.mcpClient, // Pass MCP client for tool execution
+      onTokenUsage: config?.onTokenUsage,
+    };
+  };
+}
+
 // ==========================================
 // Version Information
 // ==========================================
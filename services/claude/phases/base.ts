@@ -5,7 +5,12 @@
  * like client management, token tracking, and error handling.
  */
 
-import { AnthropicClient, type CompletionParams, type CompletionResult } from '../client';
+import {
+  AnthropicClient,
+  type CompletionParams,
+  type CompletionResult,
+  type TokenUsageCallback,
+} from '../client';
 import { parseWithPrefill, type ParseResult } from '../parsing/json-prefill';
 import { type PromptParts } from '../prompts/common';
 import { loggers } from '@/lib/utils/logger';
@@ -13,14 +18,15 @@ import { z } from 'zod';
 import type { ToolDefinition } from '@/types/tools';
 import type { MCPClient } from '@/lib/mcp-client';
 import { ToolExecutor } from '../tool-executor';
+import type { LLMProvider } from '../providers/provider';
 
 // ==========================================
 // Type Definitions
 // ==========================================
 
 export interface PhaseServiceConfig {
-  client?: AnthropicClient;
-  onTokenUsage?: (tokens: number) => void;
+  client?: LLMProvider; // Defaults to an AnthropicClient
+  onTokenUsage?: TokenUsageCallback;
   logger?: typeof loggers.claude;
   mcpClient?: MCPClient; // Optional MCP client for tool execution
 }
@@ -51,10 +57,10 @@ export interface PhaseResult<T = any> {
 // ==========================================
 
 export abstract class BasePhaseService<TInput = any, TOutput = any> {
-  protected client: AnthropicClient;
+  protected client: LLMProvider;
   protected logger: typeof loggers.claude;
   protected toolExecutor?: ToolExecutor;
-  private tokenUsageCallback?: (tokens: number) => void;
+  private tokenUsageCallback?: TokenUsageCallback;
 
   constructor(config: PhaseServiceConfig = {}) {
     this.client = config.client || new AnthropicClient({ mcpClient: config.mcpClient });
@@ -86,11 +92,25 @@ export abstract class BasePhaseService<TInput = any, TOutput = any> {
   /**
    * Set or update the token usage callback
    */
-  setOnUsageCallback(callback: (tokens: number) => void): void {
+  setOnUsageCallback(callback: TokenUsageCallback): void {
     this.tokenUsageCallback = callback;
     this.client.setOnUsageCallback(callback);
   }
 
+  /**
+   * Set or clear the signal that aborts Claude calls for the current run
+   */
+  setAbortSignal(signal?: AbortSignal): void {
+    this.client.setAbortSignal(signal);
+  }
+
+  /**
+   * Set or clear the check run before every Claude call of this phase
+   */
+  setBudgetGuard(guard?: () => Promise<void>): void {
+    this.client.setBudgetGuard(guard);
+  }
+
   /**
    * Common method to call Claude and parse the response
    */
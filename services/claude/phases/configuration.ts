@@ -18,6 +18,7 @@ import type {
 } from '@/types';
 import { CONFIGURATION_TOOLS } from '@/lib/mcp-tools/definitions';
 import { ConfigurationPrompts } from '../prompts/configuration';
+import type { PromptParts } from '../prompts/common';
 
 // ==========================================
 // Type Definitions
@@ -25,6 +26,7 @@ import { ConfigurationPrompts } from '../prompts/configuration';
 
 export interface ConfigurationInput {
   prompt: string;
+  promptParts?: PromptParts; // From the prompt registry; wraps `prompt` when missing
   selectedNodes: string[];
   context: ConfigurationContext;
 }
@@ -66,14 +68,14 @@ export class ConfigurationPhaseService extends BasePhaseService<ConfigurationInp
     input: ConfigurationInput,
     context: PhaseContext
   ): Promise<PhaseResult<ConfigurationOutput>> {
-    const { prompt, selectedNodes, context: configContext } = input;
+    const { prompt, promptParts: builtPrompt, selectedNodes, context: configContext } = input;
     
     // Log at debug level to avoid confusion when running in parallel
     this.logger.debug(`Starting configuration for ${selectedNodes.length} node${selectedNodes.length !== 1 ? 's' : ''}`);
     
     try {
       // Always use the prompt passed in (from ConfigurationPromptBuilder)
-      const promptParts = {
+      const promptParts = builtPrompt || {
         system: "You are an n8n workflow configuration expert. Configure nodes based on the user's requirements.",
         user: prompt,
         prefill: '{"operations":['
@@ -8,7 +8,7 @@
  */
 
 import { BasePhaseService, type PhaseContext, type PhaseResult } from "./base";
-import { DiscoveryPrompts } from "../prompts/discovery";
+import { getPromptRegistry } from "../prompts/registry";
 import { TOKEN_LIMITS } from "../constants";
 import {
   intentAnalysisSchema,
@@ -43,6 +43,7 @@ export interface DiscoveryOutput {
 
 export interface IntentAnalysisInput {
   prompt: string;
+  sessionId?: string; // Picks the session's prompt version
 }
 
 export interface ClarificationInput {
@@ -229,7 +230,11 @@ Example format:
     }
 
     // Get the prompt
-    const promptParts = DiscoveryPrompts.getIntentAnalysisPrompt(input.prompt);
+    const promptParts = getPromptRegistry().build(
+      "discovery",
+      input.sessionId,
+      input.prompt
+    );
 
     // Get available tools for discovery phase
     const tools = Object.values(DISCOVERY_TOOLS);
@@ -10,7 +10,7 @@
 import { BasePhaseService, type PhaseContext, type PhaseResult } from "./base";
 import { TOKEN_LIMITS } from "../constants";
 import { documentationOperationsResponseSchema } from "../validation/schemas";
-import { DocumentationPrompts } from "../prompts/documentation";
+import { getPromptRegistry } from "../prompts/registry";
 import type {
   DocumentationOperationsResponse,
   WorkflowOperation,
@@ -69,7 +69,9 @@ export class DocumentationPhaseService extends BasePhaseService<
 
     try {
       // Generate the documentation prompt
-      const promptParts = DocumentationPrompts.getDocumentationPrompt(
+      const promptParts = getPromptRegistry().build(
+        "documentation",
+        context?.sessionId,
         userPrompt,
         workflow,
         nodeMetadata
@@ -0,0 +1,97 @@
+/**
+ * Edit Phase Service
+ *
+ * Turns a follow-up change request for a completed workflow into delta
+ * operations (addNode, addConnection, updateField, ...) against it.
+ */
+
+import { BasePhaseService, type PhaseContext, type PhaseResult } from "./base";
+import { TOKEN_LIMITS } from "../constants";
+import { workflowEditResponseSchema } from "../validation/schemas";
+import { EditPrompts } from "../prompts/edit";
+import type { WorkflowEditOperation, WorkflowEditResponse } from "@/types";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+export interface EditInput {
+  userPrompt: string;
+  workflow: any;
+  request: string;
+}
+
+export interface EditOutput {
+  operations: Array<
+    WorkflowEditOperation & { reasoning?: string; operationIndex?: number }
+  >;
+  reasoning: string[];
+}
+
+// ==========================================
+// Edit Phase Service Implementation
+// ==========================================
+
+export class EditPhaseService extends BasePhaseService<EditInput, EditOutput> {
+  get phaseName(): string {
+    return "edit";
+  }
+
+  /**
+   * Generate the delta operations for a change request
+   */
+  async execute(
+    input: EditInput,
+    context: PhaseContext
+  ): Promise<PhaseResult<EditOutput>> {
+    const { userPrompt, workflow, request } = input;
+
+    this.logger.debug(`Generating edit operations for ${context.sessionId}`);
+
+    try {
+      const promptParts = EditPrompts.getEditPrompt(
+        userPrompt,
+        workflow,
+        request
+      );
+
+      const result = await this.callClaude<WorkflowEditResponse>(
+        promptParts,
+        TOKEN_LIMITS.edit,
+        workflowEditResponseSchema as any,
+        "generateEdit"
+      );
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || new Error("Failed to generate edit operations"),
+          usage: result.usage,
+        };
+      }
+
+      const reasoning = result.data.reasoning || [];
+      const operations = this.attachReasoningToOperations(
+        result.data.operations || [],
+        reasoning
+      );
+
+      this.logSuccess("Edit operations generated", {
+        operations: operations.length,
+      });
+
+      return {
+        success: true,
+        data: { operations, reasoning },
+        usage: result.usage,
+        reasoning,
+      };
+    } catch (error) {
+      this.logError("edit phase", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+}
@@ -14,6 +14,7 @@ import {
   validationFixesResponseSchema,
 } from "../validation/schemas";
 import { ValidationPrompts } from "../prompts/validation";
+import { getPromptRegistry } from "../prompts/registry";
 import type {
   ClaudeValidationResponse,
   ValidationFixesResponse,
@@ -119,6 +120,7 @@ export class ValidationPhaseService extends BasePhaseService<
       connections?: any;
     };
     workflow: any;
+    sessionId?: string; // Picks the session's prompt version
   }): Promise<
     PhaseResult<{
       fixedNodes?: any[];
@@ -126,7 +128,7 @@ export class ValidationPhaseService extends BasePhaseService<
       reasoning: string[];
     }>
   > {
-    const { errors, entities, workflow } = input;
+    const { errors, entities, workflow, sessionId } = input;
 
     this.logger.verbose("Generating entity fixes for validation errors");
 
@@ -141,7 +143,9 @@ export class ValidationPhaseService extends BasePhaseService<
 
     try {
       // Generate the entity fixes prompt
-      const promptParts = ValidationPrompts.getEntityFixesPrompt(
+      const promptParts = getPromptRegistry().build(
+        "validation",
+        sessionId,
         errors,
         entities,
         workflow
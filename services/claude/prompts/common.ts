@@ -213,6 +213,7 @@ export const PROMPT_VERSIONS = {
   building: '1.0.0',
   validation: '1.0.0',
   documentation: '1.0.0',
+  edit: '1.0.0',
 } as const;
 
 /**
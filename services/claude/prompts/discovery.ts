@@ -161,6 +161,14 @@ DO NOT ASK when implementation details are missing:
 - "Notify team" → ASSUME: Slack, use "send_slack_message"
 - "Call API" → ASSUME: HTTP POST, use "post_json_request"
 
+When you do ask, ask everything you need in ONE round (at most 4 questions),
+each with the answer type that fits it best:
+- "single_choice": pick one of the options
+- "multi_choice": pick any of the options
+- "free_text": a short written answer, no options
+- "service": pick the app or account to use (options are services, e.g. value "slack", label "Slack")
+Prefer choices over free text - give 2-5 options with short values and readable labels.
+
 ## Search Term Guidelines
 When generating searchTerms for unmatched_capabilities, use SIMPLE terms:
 - For MongoDB operations → searchTerms: ["mongodb", "mongo", "database"]
@@ -226,11 +234,26 @@ ONLY when the end goal is genuinely unclear:
   "workflow_pattern": "unknown",
   "complexity": "unknown",
   "clarification_needed": true,
-  "clarification": {
-    "question": "What specific outcome are you trying to achieve?",
-    "context": "I understand you want to [partial understanding], but I need to know [what's missing]",
-    "suggestions": ["Example workflow 1", "Example workflow 2"]
-  },
+  "clarifications": [
+    {
+      "question": "What should happen to the processed data?",
+      "answerType": "single_choice",
+      "options": [
+        {"value": "notify", "label": "Send a notification"},
+        {"value": "store", "label": "Save it to a database or sheet"}
+      ],
+      "context": "I understand you want to [partial understanding], but I need to know [what's missing]"
+    },
+    {
+      "question": "Which app should receive it?",
+      "answerType": "service",
+      "options": [
+        {"value": "slack", "label": "Slack"},
+        {"value": "googleSheets", "label": "Google Sheets"}
+      ],
+      "required": false
+    }
+  ],
   "reasoning": ["Why clarification is needed"]
 }
 
@@ -0,0 +1,90 @@
+/**
+ * Edit Prompts
+ *
+ * Prompts for applying a follow-up change request to a completed workflow.
+ */
+
+import {
+  PromptParts,
+  BASE_N8N_CONTEXT,
+  JSON_OUTPUT_RULES,
+  ERROR_HANDLING_RULES,
+  addVersionMetadata,
+  sanitizeUserInput
+} from './common';
+import { PREFILLS } from '../constants';
+
+/**
+ * Generate prompt for editing a completed workflow
+ */
+export function getEditPrompt(
+  userPrompt: string,
+  workflow: any,
+  request: string
+): PromptParts {
+  const systemPrompt = `${BASE_N8N_CONTEXT}
+
+Edit Mode - Change an existing, working n8n workflow as the user asks:
+- Make the smallest set of changes that fulfils the request
+- Leave every node, parameter and connection the request doesn't touch as it is
+- Never rebuild the workflow from scratch
+
+Edit operation types:
+- addNode: Add a new node
+  { "type": "addNode", "node": { "id": "teams_1", "name": "Post to Teams", "type": "n8n-nodes-base.microsoftTeams", "typeVersion": 2, "parameters": { ... } } }
+
+- addConnection: Connect two nodes (use node NAMES)
+  { "type": "addConnection", "from": "Format Message", "to": "Post to Teams" }
+
+- removeConnection: Disconnect two nodes (use node NAMES)
+  { "type": "removeConnection", "from": "Format Message", "to": "Send Email" }
+
+- addField / updateField: Set a parameter (dot paths for nested parameters) or node-level property
+  { "type": "updateField", "nodeId": "http_1", "field": "retryOnFail", "value": true }
+  { "type": "addField", "nodeId": "http_1", "field": "options.timeout", "value": 10000 }
+
+- removeField: Remove a parameter or node-level property
+  { "type": "removeField", "nodeId": "http_1", "field": "options.proxy" }
+
+- updateWorkflowSettings: Change workflow settings
+  { "type": "updateWorkflowSettings", "settings": { "timezone": "Europe/Berlin" } }
+
+- setWorkflowName: Rename the workflow
+  { "type": "setWorkflowName", "name": "Issues to Slack and Teams" }
+
+Rules:
+- nodeId must be the id of an existing node or of a node added earlier in the same response
+- A new node needs a unique id and name, and must be connected to the workflow
+- Node-level properties (onError, retryOnFail, maxTries, waitBetweenTries, alwaysOutputData, executeOnce, continueOnFail, notes) are set with addField/updateField like parameters
+- Use the real n8n parameter names, not display names
+- Leave credentials out - they are mapped when the workflow is deployed
+
+${ERROR_HANDLING_RULES}
+
+Response format:
+{
+  "operations": [ /* edit operations in the order they apply */ ],
+  "reasoning": ["one entry per operation explaining the change"]
+}
+
+${JSON_OUTPUT_RULES}`;
+
+  const userMessage = `Original user request: "${userPrompt}"
+
+Current workflow:
+${JSON.stringify(workflow, null, 2)}
+
+Requested change: "${sanitizeUserInput(request)}"
+
+Return the edit operations that apply this change, starting with {"operations":[`;
+
+  return addVersionMetadata({
+    system: systemPrompt,
+    user: userMessage,
+    prefill: PREFILLS.EDIT
+  }, 'edit');
+}
+
+export const EditPrompts = {
+  getEditPrompt,
+};
@@ -0,0 +1,255 @@
+/**
+ * Prompt Registry
+ *
+ * Keeps every registered version of each phase's prompt builder and picks
+ * the version a session runs. By default every session gets the current
+ * version (PROMPT_VERSIONS); PROMPT_EXPERIMENTS splits sessions between
+ * versions by weight, e.g. half of them on a new discovery prompt:
+ *
+ *   PROMPT_EXPERIMENTS='{"discovery":{"1.0.0":1,"1.1.0":1}}'
+ *
+ * A session always gets the same version of a phase, so reruns and
+ * resumed sessions stay on their variant.
+ */
+
+import { createHash } from "crypto";
+import { z } from "zod";
+import { PROMPT_VERSIONS, type PromptParts } from "./common";
+import { getIntentAnalysisPrompt } from "./discovery";
+import { getEntityFixesPrompt } from "./validation";
+import { getDocumentationPrompt } from "./documentation";
+import {
+  ConfigurationPromptBuilder,
+  type PromptBuilderInput,
+} from "../config/prompt-builder";
+import {
+  BuildingPromptBuilder,
+  type BuildingPromptInput,
+} from "../config/building-prompt-builder";
+import { PREFILLS } from "../constants";
+import type { PromptExperimentConfig, PromptPhase } from "@/types/prompt-experiments";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+export const PROMPT_PHASES: PromptPhase[] = [
+  "discovery",
+  "configuration",
+  "building",
+  "validation",
+  "documentation",
+];
+
+/**
+ * Signature of each phase's prompt builder; every version of a phase
+ * takes the same arguments
+ */
+export interface PromptBuilders {
+  discovery: (userPrompt: string) => PromptParts;
+  configuration: (input: PromptBuilderInput) => PromptParts;
+  building: (input: BuildingPromptInput) => PromptParts;
+  validation: typeof getEntityFixesPrompt;
+  documentation: typeof getDocumentationPrompt;
+}
+
+// ==========================================
+// Registry
+// ==========================================
+
+export class PromptRegistry {
+  private builders = new Map<PromptPhase, Map<string, (...args: any[]) => PromptParts>>();
+
+  constructor(private experiments: PromptExperimentConfig = {}) {}
+
+  /**
+   * Register a version of a phase's prompt
+   */
+  register<P extends PromptPhase>(
+    phase: P,
+    version: string,
+    build: PromptBuilders[P]
+  ): this {
+    if (!this.builders.has(phase)) this.builders.set(phase, new Map());
+    this.builders.get(phase)!.set(version, build);
+    return this;
+  }
+
+  /**
+   * Registered versions of a phase
+   */
+  versions(phase: PromptPhase): string[] {
+    return Array.from(this.builders.get(phase)?.keys() || []);
+  }
+
+  /**
+   * Whether sessions are split between versions of a phase
+   */
+  hasExperiment(phase: PromptPhase): boolean {
+    return this.weightedVersions(phase).length > 1;
+  }
+
+  /**
+   * The version of a phase's prompt a session runs
+   *
+   * Without a session or an experiment this is the default version.
+   */
+  assign(phase: PromptPhase, sessionId?: string): string {
+    const weighted = this.weightedVersions(phase);
+    if (!sessionId || weighted.length === 0) return PROMPT_VERSIONS[phase];
+    if (weighted.length === 1) return weighted[0].version;
+
+    // First 32 bits of the hash as a point in [0, total weight)
+    const total = weighted.reduce((sum, { weight }) => sum + weight, 0);
+    const hash = createHash("sha256").update(`${phase}:${sessionId}`).digest();
+    let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+    for (const { version, weight } of weighted) {
+      if (point < weight) return version;
+      point -= weight;
+    }
+    return weighted[weighted.length - 1].version;
+  }
+
+  /**
+   * Build the prompt of the version assigned to the session, tagged with
+   * that version
+   */
+  build<P extends PromptPhase>(
+    phase: P,
+    sessionId: string | undefined,
+    ...args: Parameters<PromptBuilders[P]>
+  ): PromptParts {
+    const version = this.assign(phase, sessionId);
+    const build = this.builders.get(phase)?.get(version);
+    if (!build) {
+      throw new Error(`No ${phase} prompt registered as version ${version}`);
+    }
+
+    const prompt = build(...args);
+    return {
+      ...prompt,
+      version,
+      metadata: {
+        ...prompt.metadata,
+        phase,
+        timestamp: Date.now(),
+        ...(sessionId ? { sessionId } : {}),
+      },
+    };
+  }
+
+  /**
+   * Throw when an experiment names a version that isn't registered
+   */
+  assertExperimentsRegistered(): void {
+    for (const phase of PROMPT_PHASES) {
+      const unknown = Object.keys(this.experiments[phase] || {}).filter(
+        (version) => !this.builders.get(phase)?.has(version)
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `PROMPT_EXPERIMENTS uses unregistered ${phase} prompt version(s): ${unknown.join(", ")}`
+        );
+      }
+    }
+  }
+
+  private weightedVersions(phase: PromptPhase) {
+    return Object.entries(this.experiments[phase] || {})
+      .filter(([, weight]) => weight > 0)
+      .map(([version, weight]) => ({ version, weight }))
+      .sort((a, b) => a.version.localeCompare(b.version));
+  }
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+const promptExperimentConfigSchema = z
+  .object(
+    Object.fromEntries(
+      PROMPT_PHASES.map((phase) => [
+        phase,
+        z.record(z.string().min(1), z.number().nonnegative()).optional(),
+      ])
+    ) as Record<PromptPhase, z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodNumber>>>
+  )
+  .strict();
+
+/**
+ * Read the experiments from PROMPT_EXPERIMENTS (JSON)
+ *
+ * Throws on invalid configuration rather than silently running the
+ * default prompts.
+ */
+export function getPromptExperimentConfig(
+  raw: string | undefined = process.env.PROMPT_EXPERIMENTS
+): PromptExperimentConfig {
+  if (!raw || !raw.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `PROMPT_EXPERIMENTS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = promptExperimentConfigSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.errors
+      .map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`)
+      .join("; ");
+    throw new Error(`PROMPT_EXPERIMENTS is invalid: ${issues}`);
+  }
+  return result.data as PromptExperimentConfig;
+}
+
+/**
+ * A registry with the current version of every phase's prompt
+ */
+export function createDefaultPromptRegistry(
+  experiments: PromptExperimentConfig = {}
+): PromptRegistry {
+  const configurationPrompts = new ConfigurationPromptBuilder();
+  const buildingPrompts = new BuildingPromptBuilder();
+
+  return new PromptRegistry(experiments)
+    .register("discovery", PROMPT_VERSIONS.discovery, getIntentAnalysisPrompt)
+    .register("configuration", PROMPT_VERSIONS.configuration, (input) => ({
+      system:
+        "You are an n8n workflow configuration expert. Configure nodes based on the user's requirements.",
+      user: configurationPrompts.buildPrompt(input),
+      prefill: PREFILLS.CONFIGURATION,
+    }))
+    .register("building", PROMPT_VERSIONS.building, (input) =>
+      buildingPrompts.buildPrompt(input)
+    )
+    .register("validation", PROMPT_VERSIONS.validation, getEntityFixesPrompt)
+    .register("documentation", PROMPT_VERSIONS.documentation, getDocumentationPrompt);
+}
+
+let promptRegistry: PromptRegistry | undefined;
+
+/**
+ * The registry phase services build their prompts with, created from
+ * PROMPT_EXPERIMENTS on first use
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!promptRegistry) {
+    const registry = createDefaultPromptRegistry(getPromptExperimentConfig());
+    registry.assertExperimentsRegistered();
+    promptRegistry = registry;
+  }
+  return promptRegistry;
+}
+
+/**
+ * Replace the registry, e.g. one with extra versions per test. Undefined
+ * reads the environment again.
+ */
+export function usePromptRegistry(registry: PromptRegistry | undefined): void {
+  promptRegistry = registry;
+}
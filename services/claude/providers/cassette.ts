@@ -0,0 +1,123 @@
+/**
+ * Cassette Provider
+ *
+ * Records Claude calls to the active cassette, or replays them from it
+ * without creating the wrapped provider at all, so replay needs no API key
+ * or network. See lib/cassettes.
+ */
+
+import type {
+  CompletionParams,
+  CompletionResult,
+  TokenUsageCallback,
+} from "../client";
+import type { ToolExecutor } from "../tool-executor";
+import type { LLMProvider } from "./provider";
+import { Cassette, getActiveCassette } from "@/lib/cassettes";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
+
+export class CassetteProvider implements LLMProvider {
+  private provider?: LLMProvider;
+  private onUsageCallback?: TokenUsageCallback;
+  private toolExecutor?: ToolExecutor;
+  private context?: { phase: string; method?: string };
+  private abortSignal?: AbortSignal;
+  private budgetGuard?: () => Promise<void>;
+
+  constructor(
+    private cassette: Cassette,
+    private createProvider: () => LLMProvider
+  ) {}
+
+  /**
+   * Replay the completion, or complete it live and record it. Tool calls
+   * made during a live completion are recorded as MCP calls of their own;
+   * a replayed completion doesn't make them.
+   */
+  async completeJSON(params: CompletionParams): Promise<CompletionResult> {
+    const signal = params.signal ?? this.abortSignal;
+    throwIfCancelled(signal);
+
+    // Everything that shapes the answer; the phase is only for logging
+    const request = {
+      systemPrompt: params.systemPrompt,
+      userMessage: params.userMessage,
+      prefill: params.prefill,
+      maxTokens: params.maxTokens,
+      temperature: params.temperature,
+      model: params.model,
+      tools: params.tools?.map((tool) => tool.name),
+    };
+
+    if (this.cassette.mode === "record") {
+      return this.cassette.play("claude", request, () => this.live().completeJSON(params));
+    }
+
+    await this.budgetGuard?.();
+    const result = this.cassette.replay<CompletionResult>("claude", request);
+    if (result.usage) {
+      this.onUsageCallback?.(result.usage.totalTokens, this.context?.method, {
+        inputTokens: result.usage.promptTokens,
+        outputTokens: result.usage.completionTokens,
+        cacheCreationTokens: result.usage.cacheCreationTokens || 0,
+        cacheReadTokens: result.usage.cacheReadTokens || 0,
+      });
+    }
+    return result;
+  }
+
+  setOnUsageCallback(callback: TokenUsageCallback): void {
+    this.onUsageCallback = callback;
+    this.provider?.setOnUsageCallback(callback);
+  }
+
+  setContext(phase: string, method?: string): void {
+    this.context = { phase, method };
+    this.provider?.setContext(phase, method);
+  }
+
+  setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+    this.provider?.setAbortSignal(signal);
+  }
+
+  setBudgetGuard(guard?: () => Promise<void>): void {
+    this.budgetGuard = guard;
+    this.provider?.setBudgetGuard(guard);
+  }
+
+  setToolExecutor(toolExecutor: ToolExecutor): void {
+    this.toolExecutor = toolExecutor;
+    this.provider?.setToolExecutor(toolExecutor);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.cassette.mode === "replay" || this.live().healthCheck();
+  }
+
+  /**
+   * The wrapped provider, created on first live call with the settings
+   * made so far
+   */
+  private live(): LLMProvider {
+    if (!this.provider) {
+      const provider = this.createProvider();
+      if (this.onUsageCallback) provider.setOnUsageCallback(this.onUsageCallback);
+      if (this.toolExecutor) provider.setToolExecutor(this.toolExecutor);
+      if (this.context) provider.setContext(this.context.phase, this.context.method);
+      provider.setAbortSignal(this.abortSignal);
+      provider.setBudgetGuard(this.budgetGuard);
+      this.provider = provider;
+    }
+    return this.provider;
+  }
+}
+
+/**
+ * Create a provider, wrapped in a CassetteProvider while a cassette is
+ * active (CASSETTE_MODE)
+ */
+export function withCassette(createProvider: () => LLMProvider): LLMProvider {
+  const cassette = getActiveCassette();
+  return cassette ? new CassetteProvider(cassette, createProvider) : createProvider();
+}
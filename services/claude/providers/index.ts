@@ -0,0 +1,137 @@
+/**
+ * LLM Providers
+ *
+ * Selects the provider each phase runs on. Phases without an entry in
+ * LLM_PHASE_PROVIDERS use the shared Anthropic client, e.g. to route only
+ * documentation to a local model:
+ *
+ *   LLM_PHASE_PROVIDERS='{"documentation":{"provider":"openai-compatible",
+ *     "baseURL":"http://localhost:11434/v1","model":"llama3.1"}}'
+ */
+
+import { z } from "zod";
+import { AnthropicClient, ProviderError } from "../client";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import type { LLMProvider, LLMProviderSettings } from "./provider";
+import type { MCPClient } from "@/lib/mcp-client";
+
+export type { LLMProvider, LLMProviderKind, LLMProviderSettings } from "./provider";
+export { CassetteProvider, withCassette } from "./cassette";
+export {
+  OpenAICompatibleProvider,
+  stripPrefill,
+  type OpenAICompatibleConfig,
+} from "./openai-compatible";
+
+// ==========================================
+// Phase Configuration
+// ==========================================
+
+/**
+ * Everything that calls a model: the phase services plus SEO generation
+ */
+export const LLM_PHASES = [
+  "discovery",
+  "configuration",
+  "building",
+  "validation",
+  "documentation",
+  "edit",
+  "seo",
+] as const;
+
+export type LLMPhase = (typeof LLM_PHASES)[number];
+
+export type PhaseProviderConfig = Partial<Record<LLMPhase, LLMProviderSettings>>;
+
+const providerSettingsSchema = z.object({
+  provider: z.enum(["anthropic", "openai-compatible"]),
+  model: z.string().min(1).optional(),
+  baseURL: z.string().url().optional(),
+  apiKey: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+});
+
+const phaseProviderConfigSchema = z
+  .object(
+    Object.fromEntries(
+      LLM_PHASES.map((phase) => [phase, providerSettingsSchema.optional()])
+    ) as Record<LLMPhase, z.ZodOptional<typeof providerSettingsSchema>>
+  )
+  .strict();
+
+/**
+ * Read the per-phase providers from LLM_PHASE_PROVIDERS (JSON)
+ *
+ * Throws on invalid configuration rather than silently falling back to
+ * the default provider.
+ */
+export function getPhaseProviderConfig(
+  raw: string | undefined = process.env.LLM_PHASE_PROVIDERS
+): PhaseProviderConfig {
+  if (!raw || !raw.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ProviderError(
+      `LLM_PHASE_PROVIDERS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      undefined,
+      'invalid_provider_config'
+    );
+  }
+
+  const result = phaseProviderConfigSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.errors
+      .map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`)
+      .join("; ");
+    throw new ProviderError(
+      `LLM_PHASE_PROVIDERS is invalid: ${issues}`,
+      undefined,
+      'invalid_provider_config'
+    );
+  }
+  return result.data as PhaseProviderConfig;
+}
+
+// ==========================================
+// Factory Functions
+// ==========================================
+
+/**
+ * Create the provider described by the settings
+ *
+ * An openai-compatible provider without an apiKey uses OPENAI_API_KEY
+ * when set.
+ */
+export function createLLMProvider(
+  settings: LLMProviderSettings,
+  options: { mcpClient?: MCPClient } = {}
+): LLMProvider {
+  switch (settings.provider) {
+    case "anthropic":
+      return new AnthropicClient({
+        apiKey: settings.apiKey,
+        baseURL: settings.baseURL,
+        model: settings.model,
+        timeout: settings.timeout,
+        mcpClient: options.mcpClient,
+      });
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        baseURL: settings.baseURL || "",
+        model: settings.model || "",
+        apiKey: settings.apiKey ?? process.env.OPENAI_API_KEY,
+        timeout: settings.timeout,
+        mcpClient: options.mcpClient,
+      });
+    default:
+      throw new ProviderError(
+        `Unknown LLM provider: ${(settings as any).provider}`,
+        undefined,
+        'invalid_provider_config'
+      );
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Runs phase prompts against any server speaking the OpenAI chat
+ * completions API: OpenAI itself, gateways like OpenRouter, or a local
+ * server (vLLM, Ollama, LM Studio). These APIs can't continue a prefilled
+ * assistant message, so the prefill is asked for in the prompt and
+ * stripped from the answer again.
+ */
+
+import { RETRY_CONFIG, LOGGING, TEMPERATURE, API_CONFIG } from "../constants";
+import {
+  ProviderError,
+  type CompletionParams,
+  type CompletionResult,
+  type TokenUsageCallback,
+} from "../client";
+import { ToolExecutor } from "../tool-executor";
+import type { LLMProvider } from "./provider";
+import type { ToolCall, ToolDefinition } from "@/types/tools";
+import type { MCPClient } from "@/lib/mcp-client";
+import { loggers } from "@/lib/utils/logger";
+import { throwIfCancelled } from "@/lib/utils/cancellation";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+export interface OpenAICompatibleConfig {
+  baseURL: string; // API root including the version, e.g. https://api.openai.com/v1
+  model: string;
+  apiKey?: string; // Local servers usually don't need one
+  timeout?: number;
+  onUsageCallback?: TokenUsageCallback;
+  mcpClient?: MCPClient; // Optional MCP client for tool execution
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatTool {
+  type: "function";
+  function: { name: string; description: string; parameters: Record<string, any> };
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+// ==========================================
+// OpenAI-Compatible Provider Implementation
+// ==========================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  private readonly url: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+  private readonly timeout: number;
+  private onUsageCallback?: TokenUsageCallback;
+  private toolExecutor?: ToolExecutor;
+  private currentPhase?: string;
+  private currentMethod?: string;
+  private abortSignal?: AbortSignal;
+  private budgetGuard?: () => Promise<void>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseURL) {
+      throw new ProviderError("OpenAI-compatible provider needs a baseURL", undefined, 'missing_base_url');
+    }
+    if (!config.model) {
+      throw new ProviderError("OpenAI-compatible provider needs a model", undefined, 'missing_model');
+    }
+
+    this.url = `${config.baseURL.replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout || API_CONFIG.timeout;
+    this.onUsageCallback = config.onUsageCallback;
+
+    if (config.mcpClient) {
+      this.toolExecutor = new ToolExecutor(config.mcpClient);
+    }
+  }
+
+  setToolExecutor(toolExecutor: ToolExecutor): void {
+    this.toolExecutor = toolExecutor;
+  }
+
+  setOnUsageCallback(callback: TokenUsageCallback): void {
+    this.onUsageCallback = callback;
+  }
+
+  setContext(phase: string, method?: string): void {
+    this.currentPhase = phase;
+    this.currentMethod = method;
+  }
+
+  setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+  }
+
+  setBudgetGuard(guard?: () => Promise<void>): void {
+    this.budgetGuard = guard;
+  }
+
+  /**
+   * Complete a JSON generation request, running tool calls until the
+   * model answers with text
+   */
+  async completeJSON(params: CompletionParams): Promise<CompletionResult> {
+    if (params.phase) {
+      this.currentPhase = params.phase;
+    }
+
+    const signal = params.signal ?? this.abortSignal;
+    throwIfCancelled(signal);
+    params = { ...params, signal };
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: params.systemPrompt },
+      { role: "user", content: withPrefillInstruction(params.userMessage, params.prefill) },
+    ];
+    const tools =
+      params.tools && params.tools.length > 0 && this.toolExecutor
+        ? params.tools.map(toChatTool)
+        : undefined;
+
+    try {
+      let response = await this.request(params, messages, tools);
+      let usage = this.trackTokenUsage(response, params.maxTokens);
+      let message = response.choices?.[0]?.message;
+
+      while (tools && message?.tool_calls && message.tool_calls.length > 0) {
+        const toolCalls = message.tool_calls.map(toToolCall);
+        loggers.claude.info(`🔧 Model requesting ${toolCalls.length} tool(s):`,
+          toolCalls.map(t => t.name)
+        );
+
+        throwIfCancelled(params.signal);
+        const toolResults = await this.toolExecutor!.executeMultiple(toolCalls);
+
+        messages.push({ role: "assistant", content: message.content ?? null, tool_calls: message.tool_calls });
+        for (const result of toolResults) {
+          messages.push({ role: "tool", tool_call_id: result.tool_use_id, content: result.content });
+        }
+
+        response = await this.request(params, messages, tools);
+        usage = this.trackTokenUsage(response, params.maxTokens);
+        message = response.choices?.[0]?.message;
+      }
+
+      const content = stripPrefill(message?.content ?? "", params.prefill);
+      const fullContent = params.prefill ? params.prefill + content : content;
+
+      if (LOGGING.logFullResponses) {
+        loggers.claude.verbose(
+          'Full response:',
+          fullContent.substring(0, LOGGING.maxResponseLogLength)
+        );
+      }
+
+      return {
+        content,
+        fullContent,
+        usage,
+      };
+    } catch (error) {
+      // Report an aborted request as a cancellation, not a provider failure
+      throwIfCancelled(signal);
+      throw error;
+    }
+  }
+
+  /**
+   * Send one chat completion request, retrying transient failures
+   */
+  private async request(
+    params: CompletionParams,
+    messages: ChatMessage[],
+    tools?: ChatTool[]
+  ): Promise<ChatCompletionResponse> {
+    await this.budgetGuard?.();
+    const startTime = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.send(params, messages, tools);
+        loggers.claude.info(
+          `[${params.phase || 'unknown'}] Completion successful in ${Date.now() - startTime}ms (attempt ${attempt}/${RETRY_CONFIG.maxAttempts})`
+        );
+        return response;
+      } catch (error) {
+        // Don't retry once the session has been cancelled
+        throwIfCancelled(params.signal);
+
+        const wrapped = error instanceof ProviderError
+          ? error
+          : new ProviderError(
+              `[${params.phase || 'unknown'}] ${error instanceof Error ? error.message : String(error)}`,
+              undefined,
+              'network_error',
+              true
+            );
+        if (!wrapped.retryable || attempt >= RETRY_CONFIG.maxAttempts) {
+          throw wrapped;
+        }
+
+        const delay = calculateBackoffDelay(attempt);
+        loggers.claude.warn(
+          `[${params.phase || 'unknown'}] Attempt ${attempt} failed, retrying in ${delay}ms...`,
+          wrapped.message
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async send(
+    params: CompletionParams,
+    messages: ChatMessage[],
+    tools?: ChatTool[]
+  ): Promise<ChatCompletionResponse> {
+    const timeout = AbortSignal.timeout(this.timeout);
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: params.model || this.model,
+        max_tokens: params.maxTokens,
+        temperature: params.temperature ?? TEMPERATURE.default,
+        messages,
+        ...(tools ? { tools, tool_choice: "auto" } : {}),
+      }),
+      signal: params.signal ? AbortSignal.any([params.signal, timeout]) : timeout,
+    });
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      data = text;
+    }
+
+    if (!response.ok) {
+      const message = (data && typeof data === "object" && data.error?.message) || response.statusText;
+      throw toProviderError(response.status, message, params.phase);
+    }
+    return data as ChatCompletionResponse;
+  }
+
+  /**
+   * Log and report the token usage of a response
+   */
+  private trackTokenUsage(
+    response: ChatCompletionResponse,
+    maxTokens?: number
+  ): CompletionResult['usage'] | undefined {
+    if (!response.usage) return undefined;
+
+    const promptTokens = response.usage.prompt_tokens || 0;
+    const completionTokens = response.usage.completion_tokens || 0;
+    const totalTokens = promptTokens + completionTokens;
+    const cacheReadTokens = response.usage.prompt_tokens_details?.cached_tokens || 0;
+    const wasTruncated = response.choices?.[0]?.finish_reason === "length";
+    const usagePercentage = maxTokens ? (completionTokens / maxTokens * 100) : 0;
+
+    const phase = this.currentPhase || 'unknown';
+    const method = this.currentMethod || 'request';
+    loggers.claude.info(
+      `[${phase}] ${method}: ${totalTokens} tokens (${promptTokens} in + ${completionTokens} out) via ${response.model || this.model}`
+    );
+    if (wasTruncated) {
+      loggers.claude.error(
+        `🚨 TOKEN LIMIT EXCEEDED - Response truncated! Output tokens (${completionTokens}) = max_tokens limit (${maxTokens})`
+      );
+    }
+
+    // Cached prompt tokens are part of prompt_tokens here, unlike Anthropic
+    this.onUsageCallback?.(totalTokens, method, {
+      inputTokens: promptTokens - cacheReadTokens,
+      outputTokens: completionTokens,
+      cacheCreationTokens: 0,
+      cacheReadTokens,
+      model: response.model || this.model,
+    });
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      cacheReadTokens,
+      wasTruncated,
+      usagePercentage,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const result = await this.completeJSON({
+        systemPrompt: "You are a helpful assistant. Respond with a simple JSON object.",
+        userMessage: "Return {\"status\": \"ok\"}",
+        prefill: "{\"status\":\"",
+        maxTokens: 10,
+        phase: "health_check"
+      });
+
+      return result.fullContent.includes('"ok"');
+    } catch (error) {
+      loggers.claude.error('Health check failed:', error);
+      return false;
+    }
+  }
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function toChatTool(tool: ToolDefinition): ChatTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  };
+}
+
+function toToolCall(call: ChatToolCall): ToolCall {
+  let input: any = {};
+  try {
+    input = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    loggers.claude.warn(`Tool call ${call.function.name} has malformed arguments`);
+  }
+  return { id: call.id, type: "tool_use", name: call.function.name, input };
+}
+
+function withPrefillInstruction(userMessage: string, prefill?: string): string {
+  if (!prefill) return userMessage;
+  return `${userMessage}\n\nRespond with the JSON only, without code fences or any other text, starting with: ${prefill}`;
+}
+
+/**
+ * Remove the prefill the model was asked to start with, so the result
+ * continues it like an Anthropic completion does. Whitespace between
+ * tokens is ignored; an answer that doesn't start with the prefill is
+ * returned as it is.
+ */
+export function stripPrefill(text: string, prefill?: string): string {
+  const answer = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  if (!prefill) return answer;
+
+  let position = 0;
+  for (const char of prefill) {
+    if (/\s/.test(char)) continue;
+    while (position < answer.length && /\s/.test(answer[position])) position++;
+    if (answer[position] !== char) return answer;
+    position++;
+  }
+  return answer.slice(position);
+}
+
+function toProviderError(status: number, message: string, phase?: string): ProviderError {
+  const phaseContext = phase ? `[${phase}] ` : '';
+  const retryable = (RETRY_CONFIG.retryableStatuses as readonly number[]).includes(status);
+
+  if (status === 429) {
+    return new ProviderError(`${phaseContext}Rate limit exceeded: ${message}`, status, 'rate_limit_error', true);
+  }
+  if (status >= 500) {
+    return new ProviderError(`${phaseContext}Provider service error: ${message}`, status, 'server_error', retryable);
+  }
+  if (status === 401 || status === 403) {
+    return new ProviderError(`${phaseContext}Provider rejected the API key: ${message}`, status, 'auth_error', false);
+  }
+  if (status === 400) {
+    return new ProviderError(`${phaseContext}Invalid request: ${message}`, status, 'validation_error', false);
+  }
+  return new ProviderError(`${phaseContext}${message}`, status, 'unknown_error', retryable);
+}
+
+function calculateBackoffDelay(attempt: number): number {
+  const delay = Math.min(
+    RETRY_CONFIG.initialDelay * Math.pow(RETRY_CONFIG.backoffMultiplier, attempt - 1),
+    RETRY_CONFIG.maxDelay
+  );
+  // Add jitter to prevent thundering herd
+  return Math.floor(delay + Math.random() * 0.1 * delay);
+}
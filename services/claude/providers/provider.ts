@@ -0,0 +1,71 @@
+/**
+ * LLM Provider Interface
+ *
+ * What the phase services need from a model backend: JSON completions with
+ * an optional tool-use loop, token usage reporting, cancellation and
+ * budget checks. AnthropicClient is the default implementation.
+ */
+
+import type {
+  CompletionParams,
+  CompletionResult,
+  TokenUsageCallback,
+} from "../client";
+import type { ToolExecutor } from "../tool-executor";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+export interface LLMProvider {
+  /**
+   * Complete a JSON generation request. When tools are passed and a tool
+   * executor is set, tool calls are executed and fed back until the model
+   * answers with text.
+   */
+  completeJSON(params: CompletionParams): Promise<CompletionResult>;
+
+  /**
+   * Set or update the callback reporting the tokens of every response
+   */
+  setOnUsageCallback(callback: TokenUsageCallback): void;
+
+  /**
+   * Set the current phase and method context for logging
+   */
+  setContext(phase: string, method?: string): void;
+
+  /**
+   * Set or clear the signal used when a request doesn't pass its own
+   */
+  setAbortSignal(signal?: AbortSignal): void;
+
+  /**
+   * Set or clear a check awaited before every request, which throws to
+   * stop the request
+   */
+  setBudgetGuard(guard?: () => Promise<void>): void;
+
+  /**
+   * Set or update the executor running the tool calls of the model
+   */
+  setToolExecutor(toolExecutor: ToolExecutor): void;
+
+  /**
+   * Verify the provider is configured and reachable
+   */
+  healthCheck(): Promise<boolean>;
+}
+
+export type LLMProviderKind = "anthropic" | "openai-compatible";
+
+/**
+ * Provider a phase runs on, as configured in LLM_PHASE_PROVIDERS
+ */
+export interface LLMProviderSettings {
+  provider: LLMProviderKind;
+  model?: string;
+  baseURL?: string; // Required for openai-compatible, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  timeout?: number;
+}
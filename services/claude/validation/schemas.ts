@@ -14,6 +14,7 @@ import type {
   WorkflowBuildResponse,
   ValidatedWorkflowResponse,
   DocumentationOperationsResponse,
+  WorkflowEditResponse,
   DiscoverNodeOperation,
   SelectNodeOperation,
   RequestClarificationOperation,
@@ -63,6 +64,34 @@ export const reasoningSchema = z.array(z.string());
 // Discovery Phase Schemas
 // ==========================================
 
+/**
+ * Clarification answer type and option schemas
+ * @see ClarificationAnswerType in @/types/claude/operations.ts
+ */
+export const clarificationAnswerTypeSchema = z.enum([
+  'single_choice',
+  'multi_choice',
+  'free_text',
+  'service',
+]);
+
+export const clarificationOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  description: z.string().optional(),
+} satisfies z.ZodRawShape);
+
+/**
+ * One question of a clarification round in the intent analysis
+ */
+export const clarificationQuestionSchema = z.object({
+  question: z.string(),
+  answerType: clarificationAnswerTypeSchema,
+  options: z.array(clarificationOptionSchema).optional(),
+  required: z.boolean().optional(),
+  context: z.string().optional(),
+} satisfies z.ZodRawShape);
+
 /**
  * Intent analysis response schema (optimized for task-based discovery)
  */
@@ -93,6 +122,7 @@ export const intentAnalysisSchema = z.object({
   workflow_pattern: z.string(),
   complexity: z.union([z.enum(['simple', 'medium', 'complex']), z.literal('unknown')]),
   clarification_needed: z.boolean(),
+  clarifications: z.array(clarificationQuestionSchema).optional(),
   clarification: z.object({
     question: z.string(),
     context: z.string(),
@@ -157,6 +187,9 @@ export const requestClarificationOperationSchema = z.object({
   type: z.literal('requestClarification'),
   questionId: z.string(),
   question: z.string(),
+  answerType: clarificationAnswerTypeSchema.optional(),
+  options: z.array(clarificationOptionSchema).optional(),
+  required: z.boolean().optional(),
   context: z.object({
     reason: z.string(),
   }).passthrough(), // Allow additional properties
@@ -199,7 +232,10 @@ export const configureNodeOperationSchema = z.object({
  * Configuration operations response schema
  */
 export const configurationOperationsResponseSchema = z.object({
-  operations: z.array(configureNodeOperationSchema),
+  operations: z.array(z.union([
+    configureNodeOperationSchema,
+    requestClarificationOperationSchema,
+  ])),
   reasoning: reasoningSchema,
   usage: tokenUsageSchema,
 });
@@ -358,6 +394,7 @@ export const addNodeOperationSchema = z.object({
     id: z.string(),
     name: z.string(),
     type: z.string(),
+    typeVersion: z.number().optional(),
     position: z.tuple([z.number(), z.number()]).optional(),
     parameters: z.record(z.any()).optional(),
   }),
@@ -445,6 +482,29 @@ export const documentationOperationsResponseSchema = z.object({
   usage: tokenUsageSchema,
 });
 
+// ==========================================
+// Edit Schemas
+// ==========================================
+
+/**
+ * Workflow edit response schema
+ * @see WorkflowEditResponse in @/types/claude/responses.ts
+ */
+export const workflowEditResponseSchema = z.object({
+  operations: z.array(z.union([
+    addNodeOperationSchema,
+    addConnectionOperationSchema,
+    removeConnectionOperationSchema,
+    addFieldOperationSchema,
+    updateFieldOperationSchema,
+    removeFieldOperationSchema,
+    updateWorkflowSettingsOperationSchema,
+    setWorkflowNameOperationSchema,
+  ])),
+  reasoning: reasoningSchema,
+  usage: tokenUsageSchema,
+});
+
 // ==========================================
 // Helper Functions
 // ==========================================
@@ -512,6 +572,9 @@ export const Schemas = {
   
   // Documentation
   documentationOperationsResponseSchema,
+
+  // Edit
+  workflowEditResponseSchema,
   
   // Helpers
   validateResponse,
@@ -7,6 +7,7 @@
  */
 
 import { MCPClient } from '@/lib/mcp-client';
+import { getMCPCache } from '@/lib/mcp-cache';
 import { loggers } from '@/lib/utils/logger';
 import { patchRegistry } from '@/lib/orchestrator/patches';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
@@ -51,16 +52,6 @@ export interface UnmatchedCapability {
   originalTaskName?: string;
 }
 
-/**
- * Task template cache entry
- */
-interface CachedTaskTemplate {
-  config: any;
-  nodeType: string;
-  category?: string;
-  timestamp: number;
-}
-
 /**
  * Service for fetching and managing pre-configured task templates
  */
@@ -68,10 +59,6 @@ export class TaskService {
   private mcpClient: MCPClient;
   private logger = loggers.orchestrator; // Use orchestrator logger since discovery doesn't exist
   
-  // Cache task templates for the session (15 minutes TTL)
-  private taskCache: Map<string, CachedTaskTemplate> = new Map();
-  private readonly CACHE_TTL = 15 * 60 * 1000; // 15 minutes
-  
   // Map task names to search terms for fallback
   private readonly taskFallbackMap: Record<string, string[]> = {
     // Webhooks
@@ -174,23 +161,7 @@ export class TaskService {
     // Process tasks in parallel for better performance
     const fetchPromises = taskNames.map(async (taskName, index) => {
       try {
-        // Check cache first
-        const cached = this.getCachedTask(taskName);
-        if (cached) {
-          this.logger.debug(`Using cached template for task: ${taskName}`);
-          successful.push({
-            taskName,
-            nodeType: cached.nodeType,
-            nodeId: `task_node_${index + 1}`,
-            config: cached.config,
-            purpose: `Pre-configured task: ${taskName}`,
-            category: cached.category,
-            isPreConfigured: true
-          });
-          return;
-        }
-        
-        // Fetch from MCP
+        // Fetch from MCP (served from the MCP cache when fetched recently)
         const result = await this.fetchSingleTask(taskName);
         
         if (result) {
@@ -202,9 +173,6 @@ export class TaskService {
             this.logger.debug(`Applied patches to ${taskName}: ${patchesApplied.join(', ')}`);
           }
           
-          // Cache the patched result
-          this.cacheTask(taskName, result.nodeType, patchedConfig, result.category);
-          
           successful.push({
             taskName,
             nodeType: result.nodeType,
@@ -326,57 +294,13 @@ export class TaskService {
   }
 
   /**
-   * Get cached task if still valid
+   * Clear cached task templates, so the next fetch asks the MCP server
    */
-  private getCachedTask(taskName: string): CachedTaskTemplate | null {
-    const cached = this.taskCache.get(taskName);
-    
-    if (cached) {
-      const age = Date.now() - cached.timestamp;
-      if (age < this.CACHE_TTL) {
-        return cached;
-      } else {
-        // Remove expired cache entry
-        this.taskCache.delete(taskName);
-      }
-    }
-    
-    return null;
-  }
-
-  /**
-   * Cache a task template
-   */
-  private cacheTask(taskName: string, nodeType: string, config: any, category?: string): void {
-    this.taskCache.set(taskName, {
-      config,
-      nodeType,
-      category,
-      timestamp: Date.now()
-    });
-  }
-
-  /**
-   * Clear the task cache
-   */
-  clearCache(): void {
-    this.taskCache.clear();
+  async clearCache(): Promise<void> {
+    await getMCPCache()?.invalidate('get_node_for_task');
     this.logger.debug('Task template cache cleared');
   }
 
-  /**
-   * Get cache statistics
-   */
-  getCacheStats(): {
-    size: number;
-    tasks: string[];
-  } {
-    return {
-      size: this.taskCache.size,
-      tasks: Array.from(this.taskCache.keys())
-    };
-  }
-
   /**
    * Validate task names against known tasks
    * Useful for checking intent analysis output
@@ -0,0 +1,30 @@
+/**
+ * Check helpers shared by the offline integration tests
+ *
+ * Each test records its checks with check() and ends with reportChecks(),
+ * which prints the outcome and exits with 1 if any check failed.
+ */
+
+import chalk from "chalk";
+
+let failures = 0;
+
+export function check(description: string, condition: boolean, details?: unknown) {
+  if (condition) {
+    console.log(chalk.green(`   ✅ ${description}`));
+  } else {
+    failures++;
+    console.log(chalk.red(`   ❌ ${description}`));
+    if (details !== undefined) {
+      console.log(chalk.gray(`      ${JSON.stringify(details)}`));
+    }
+  }
+}
+
+export function reportChecks() {
+  if (failures > 0) {
+    console.log(chalk.red(`\n❌ ${failures} check(s) failed\n`));
+    process.exit(1);
+  }
+  console.log(chalk.green("\n✅ All checks passed\n"));
+}
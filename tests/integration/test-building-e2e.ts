@@ -13,6 +13,10 @@
  * - Integration between all phases
  * - Real Claude API responses
  * - MCP tool integration
+ *
+ * With --record, live Claude and MCP calls are written to
+ * tests/cassettes/building-e2e.json; with --replay the run is served from
+ * that cassette without network access (see lib/cassettes).
  */
 
 import * as dotenv from 'dotenv';
@@ -36,6 +40,13 @@ const args = process.argv.slice(2);
 const isVerbose = args.includes('--verbose') || args.includes('-v');
 const skipPrompts = args.includes('--no-prompt') || args.includes('-n') || args.some(a => a.startsWith('--test='));
 const saveFixtures = args.includes('--save-fixtures') || args.includes('--save');
+const cassetteMode = args.includes('--record') ? 'record' : args.includes('--replay') ? 'replay' : undefined;
+
+if (cassetteMode) {
+  process.env.CASSETTE_MODE = cassetteMode;
+  process.env.CASSETTE_PATH =
+    process.env.CASSETTE_PATH || path.join(process.cwd(), 'tests', 'cassettes', 'building-e2e.json');
+}
 
 // Set log level based on verbose flag
 if (!isVerbose) {
@@ -487,6 +498,8 @@ ${chalk.gray('Options:')}
   --test=NAME         Run only specific test (auto-skips prompts)
   --save-fixtures     Save configured nodes as fixtures for fast tests
   --save              Alias for --save-fixtures
+  --record            Record Claude and MCP calls to tests/cassettes/building-e2e.json
+  --replay            Replay recorded calls offline; unrecorded requests fail
   --help, -h          Show this help message
 
 ${chalk.gray('Examples:')}
@@ -494,6 +507,7 @@ ${chalk.gray('Examples:')}
   npm run test:build:e2e --verbose
   npm run test:build:e2e --save-fixtures
   npm run test:build:e2e --test="Simple Linear Workflow"
+  npm run test:build:e2e -- --no-prompt --replay
 
 ${chalk.gray('Note:')}
   This test runs ALL phases (discovery, configuration, building) with
@@ -514,7 +528,14 @@ ${chalk.gray('What this tests:')}
   try {
     const test = new BuildingE2ETest();
     const success = await test.runAllTests();
-    process.exit(success ? 0 : 1);
+
+    // Unrecorded requests may have been caught along the way
+    const { getActiveCassette } = await import('@/lib/cassettes');
+    const mismatches = getActiveCassette()?.mismatches ?? 0;
+    if (mismatches > 0) {
+      console.log(chalk.red(`   ❌ ${mismatches} request(s) not found in the cassette - record it again with --record`));
+    }
+    process.exit(success && mismatches === 0 ? 0 : 1);
   } catch (error) {
     console.error(chalk.red('\n❌ Test failed with error:'), error);
     rl.close(); // Make sure to close readline on error
@@ -0,0 +1,251 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cancellation Test
+ *
+ * Checks what POST /api/workflow/[sessionId]/cancel relies on: the
+ * per-session cancellation registry, the cancelSession operation, wrapPhase
+ * turning an aborted signal into a cancelled result, AnthropicClient
+ * aborting an in-flight request and the phase worker stopping a job that
+ * was cancelled in the queue.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  CancellationRegistry,
+  WorkflowCancelledError,
+  cancellationRegistry,
+} from "@/lib/utils/cancellation";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+} from "@/lib/services/session-state-reducer";
+import { eventsFromOperations } from "@/lib/events/session-events";
+import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { AnthropicClient } from "@/services/claude";
+import { InMemoryPhaseJobQueue, PhaseWorker } from "@/lib/jobs";
+import { check, reportChecks } from "./helpers/checks";
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+}
+
+function testRegistry() {
+  console.log(chalk.cyan("\n🛑 Cancellation registry"));
+
+  const registry = new CancellationRegistry();
+  const signal = registry.signalFor("wf_1");
+  const phase = registry.signalFor("wf_1");
+
+  check("phases of a run share its signal", phase === signal);
+  check("active run reported as stopped", registry.cancel("wf_1", "User request"));
+  check(
+    "signal aborted with a cancellation error",
+    signal.aborted && signal.reason instanceof WorkflowCancelledError
+  );
+
+  registry.release("wf_1", phase);
+  check("cancelled run stays aborted until it ends", registry.isCancelled("wf_1"));
+  registry.release("wf_1", signal);
+  check("released once the run ends", !registry.isCancelled("wf_1"));
+  const next = registry.signalFor("wf_1");
+  check("reused session ID starts with a fresh signal", next !== signal && !next.aborted);
+  registry.release("wf_1", next);
+
+  check("cancel without a run reports nothing stopped", !registry.cancel("wf_2"));
+  check("nothing kept for a cancel without a run", !registry.signalFor("wf_2").aborted);
+
+  registry.cancel("wf_2");
+  const stale = registry.signalFor("wf_2");
+  registry.reset("wf_2");
+  const fresh = registry.signalFor("wf_2");
+  check("reset starts over with a fresh signal", stale.aborted && !fresh.aborted);
+
+  registry.release("wf_2", stale);
+  check("stale release ignored after reset", registry.signalFor("wf_2") === fresh);
+}
+
+function testCancelOperation() {
+  console.log(chalk.cyan("\n📝 cancelSession operation"));
+
+  const state = applyOperationsToState(createInitialSessionState("Send alerts"), [
+    { type: "setPhase", phase: "configuration" },
+    { type: "cancelSession", fromPhase: "configuration", reason: "Wrong prompt" },
+  ]);
+
+  check("phase set to cancelled", state.phase === "cancelled", state.phase);
+  check(
+    "interrupted phase kept for resume",
+    state.metadata?.cancelled?.fromPhase === "configuration" &&
+      state.metadata.cancelled.reason === "Wrong prompt"
+  );
+
+  const events = eventsFromOperations([
+    { type: "cancelSession", fromPhase: "building" },
+  ]);
+  check(
+    "published as session_cancelled",
+    events.length === 1 &&
+      events[0].type === "session_cancelled" &&
+      events[0].fromPhase === "building",
+    events
+  );
+}
+
+async function testWrapPhase() {
+  console.log(chalk.cyan("\n🎁 wrapPhase"));
+
+  // Keep persistence out of the way - only the phase result matters here
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  let persisted = 0;
+  let recorded = 0;
+  const runner = {
+    deps: {
+      sessionRepo: {
+        persistOperations: async () => void persisted++,
+        save: async () => {},
+        recordError: async () => void recorded++,
+      },
+    },
+  };
+
+  const controller = new AbortController();
+  const run = wrapPhase("building", async (input: { sessionId: string; signal?: AbortSignal }) => {
+    // Finishes normally, but only after the session was cancelled
+    await waitForAbort(input.signal!);
+    return {
+      success: true,
+      phase: "building" as const,
+      operations: [{ type: "setPhase" as const, phase: "building" as const }],
+    };
+  });
+
+  const pending = run.call(runner, { sessionId: "wf_wrap", signal: controller.signal });
+  controller.abort();
+  const result = await pending;
+
+  check("cancelled result returned", !result.success && result.cancelled === true);
+  check("error code is CANCELLED", result.error?.code === "CANCELLED", result.error);
+  check("operations of a cancelled phase not persisted", persisted === 0);
+  check("cancellation not recorded as a failure", recorded === 0);
+
+  const skipped = await run.call(runner, {
+    sessionId: "wf_wrap",
+    signal: AbortSignal.abort(),
+  });
+  check("phase skipped when already cancelled", skipped.cancelled === true);
+}
+
+async function testAnthropicClient() {
+  console.log(chalk.cyan("\n🤖 AnthropicClient"));
+
+  // Accepts requests but never answers them
+  const server = http.createServer(() => {});
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const client = new AnthropicClient({
+    apiKey: "test-key",
+    baseURL: `http://127.0.0.1:${port}`,
+  });
+  const params = {
+    systemPrompt: "Reply with JSON",
+    userMessage: "{}",
+    maxTokens: 16,
+    phase: "building",
+  };
+
+  try {
+    let error: unknown;
+    try {
+      await client.completeJSON({ ...params, signal: AbortSignal.abort() });
+    } catch (e) {
+      error = e;
+    }
+    check("aborted signal rejects before calling the API", error instanceof WorkflowCancelledError);
+
+    const controller = new AbortController();
+    client.setAbortSignal(controller.signal);
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 50);
+    error = undefined;
+    try {
+      await client.completeJSON(params);
+    } catch (e) {
+      error = e;
+    }
+    check(
+      "in-flight request aborted as a cancellation",
+      error instanceof WorkflowCancelledError,
+      error instanceof Error ? error.message : error
+    );
+    check("request not retried after the abort", Date.now() - started < 2000);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
+
+async function testWorker() {
+  console.log(chalk.cyan("\n👷 Phase worker"));
+
+  const queue = new InMemoryPhaseJobQueue();
+  let sawAbort = false;
+  const worker = new PhaseWorker({
+    queue,
+    heartbeatMs: 10,
+    executor: {
+      async runPhase(job) {
+        // Stands in for a long phase that watches the session's signal
+        await waitForAbort(cancellationRegistry.signalFor(job.sessionId));
+        sawAbort = true;
+        return { success: false };
+      },
+    },
+  });
+
+  await queue.enqueue({ sessionId: "wf_worker", phase: "configuration" });
+  const pending = worker.runOnce();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  const cancelled = await queue.cancelForSession("wf_worker");
+  const job = await pending;
+  const jobs = await queue.listForSession("wf_worker");
+
+  check("queued and running jobs cancelled", cancelled === 1);
+  check("running phase aborted after the lease was lost", sawAbort && !!job);
+  check(
+    "job left cancelled and nothing queued after it",
+    jobs.length === 1 && jobs[0].status === "cancelled",
+    jobs.map((j) => `${j.phase}:${j.status}`)
+  );
+  cancellationRegistry.reset("wf_worker");
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 CANCELLATION TEST"));
+  console.log("====================");
+
+  testRegistry();
+  testCancelOperation();
+  await testWrapPhase();
+  await testAnthropicClient();
+  await testWorker();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
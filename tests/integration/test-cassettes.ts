@@ -0,0 +1,362 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cassettes Test
+ *
+ * Checks recording Claude and MCP calls to a cassette and replaying them:
+ * request matching, repeated and failed calls, loud failures on unknown
+ * requests, that replay never creates a Claude client or connects to
+ * the MCP server, and the in-memory session store replayed runs use
+ * instead of Supabase.
+ *
+ * Runs fully offline - cassettes are written to a temporary directory.
+ */
+
+import chalk from "chalk";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Cassette,
+  CassetteMismatchError,
+  getCassetteMode,
+  useCassette,
+} from "@/lib/cassettes";
+import { CassetteProvider } from "@/services/claude/providers";
+import type {
+  CompletionParams,
+  CompletionResult,
+  LLMProvider,
+} from "@/services/claude";
+import { MCPClient } from "@/lib/mcp-client";
+import { SessionRepo } from "@/lib/orchestrator/context/SessionRepo";
+import { sessionManager } from "@/lib/services/session-manager";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { WorkflowCancelledError } from "@/lib/utils/cancellation";
+import type { CassetteFile } from "@/types/cassettes";
+import { check, reportChecks } from "./helpers/checks";
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cassettes-"));
+const callsPath = path.join(dir, "calls.json");
+const providerPath = path.join(dir, "nested", "provider.json");
+
+const request: CompletionParams = {
+  systemPrompt: "You document workflows.",
+  userMessage: "Document the workflow.",
+  prefill: '{"operations":[',
+  maxTokens: 1000,
+  phase: "documentation",
+};
+
+/**
+ * Stands in for AnthropicClient; counts its live calls
+ */
+class FakeProvider implements LLMProvider {
+  calls = 0;
+  private onUsage?: (tokens: number) => void;
+
+  async completeJSON(params: CompletionParams): Promise<CompletionResult> {
+    this.calls++;
+    this.onUsage?.(150);
+    return {
+      content: `"call ${this.calls}"]}`,
+      fullContent: `${params.prefill}"call ${this.calls}"]}`,
+      usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    };
+  }
+  setOnUsageCallback(callback: (tokens: number) => void): void {
+    this.onUsage = callback;
+  }
+  setContext(): void {}
+  setAbortSignal(): void {}
+  setBudgetGuard(): void {}
+  setToolExecutor(): void {}
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+async function testRecord() {
+  console.log(chalk.cyan("\n⏺️ Record"));
+
+  const cassette = new Cassette(callsPath, "record");
+  let live = 0;
+
+  const first = await cassette.play("mcp", { name: "search_nodes", params: { query: "slack", limit: 5 } }, async () => {
+    live++;
+    return { content: [{ type: "text", text: "first" }] };
+  });
+  const repeated = await cassette.play("mcp", { name: "search_nodes", params: { query: "slack", limit: 5 } }, async () => {
+    live++;
+    return { content: [{ type: "text", text: "second" }] };
+  });
+  const failed = await rejection(
+    cassette.play("mcp", { name: "validate_workflow", params: {} }, async () => {
+      const error = new Error("Connection closed");
+      error.name = "MCPConnectionError";
+      throw error;
+    })
+  );
+  await rejection(
+    cassette.play("mcp", { name: "get_node_info", params: {} }, async () => {
+      throw new WorkflowCancelledError();
+    })
+  );
+
+  const mutable = { nodes: ["a"] };
+  await cassette.play("claude", { userMessage: "mutable" }, async () => mutable);
+  mutable.nodes.push("b");
+
+  check("live calls made and returned", live === 2 && first.content[0].text === "first" && repeated.content[0].text === "second");
+  check("errors passed through", failed instanceof Error && failed.name === "MCPConnectionError");
+
+  const file = JSON.parse(fs.readFileSync(callsPath, "utf8")) as CassetteFile;
+  check(
+    "calls and failures written, cancellations not",
+    file.version === 1 &&
+      file.entries.length === 4 &&
+      file.entries[2].error?.message === "Connection closed" &&
+      !file.entries.some((e) => (e.request as any).name === "get_node_info"),
+    file.entries.map((e) => e.request)
+  );
+  check(
+    "responses written as they were returned",
+    JSON.stringify(file.entries[3].response) === JSON.stringify({ nodes: ["a"] })
+  );
+}
+
+async function testReplay() {
+  console.log(chalk.cyan("\n▶️ Replay"));
+
+  const cassette = new Cassette(callsPath, "replay");
+  let live = 0;
+  const liveCall = async () => {
+    live++;
+    return { content: [] };
+  };
+
+  // Same request with its keys in another order
+  const first = await cassette.play("mcp", { params: { limit: 5, query: "slack" }, name: "search_nodes" }, liveCall);
+  const second = await cassette.play("mcp", { name: "search_nodes", params: { query: "slack", limit: 5 } }, liveCall);
+  const third = await cassette.play("mcp", { name: "search_nodes", params: { query: "slack", limit: 5 } }, liveCall);
+
+  check("request matched regardless of key order", (first as any).content[0].text === "first");
+  check(
+    "repeated request replayed in order, then the last again",
+    (second as any).content[0].text === "second" && (third as any).content[0].text === "second"
+  );
+  check("live calls never made", live === 0);
+
+  const failed = await rejection(cassette.play("mcp", { name: "validate_workflow", params: {} }, liveCall));
+  check(
+    "recorded failure thrown again",
+    failed instanceof Error && failed.name === "MCPConnectionError" && failed.message === "Connection closed"
+  );
+
+  const unknown = await rejection(cassette.play("mcp", { name: "search_nodes", params: { query: "gmail" } }, liveCall));
+  check("mismatch counted", cassette.mismatches === 1);
+  check(
+    "unrecorded request fails loudly",
+    unknown instanceof CassetteMismatchError &&
+      unknown.kind === "mcp" &&
+      unknown.message.includes(callsPath) &&
+      unknown.message.includes("CASSETTE_MODE=record") &&
+      unknown.message.includes("gmail"),
+    unknown instanceof Error ? unknown.message : unknown
+  );
+
+  const missing = (() => {
+    try {
+      new Cassette(path.join(dir, "missing.json"), "replay");
+      return null;
+    } catch (error) {
+      return error;
+    }
+  })();
+  check("missing cassette rejected", missing instanceof Error && missing.message.includes("missing.json"));
+
+  process.env.CASSETTE_MODE = "rewind";
+  const invalidMode = (() => {
+    try {
+      getCassetteMode();
+      return null;
+    } catch (error) {
+      return error;
+    }
+  })();
+  delete process.env.CASSETTE_MODE;
+  check("unknown CASSETTE_MODE rejected", invalidMode instanceof Error);
+}
+
+async function testProvider() {
+  console.log(chalk.cyan("\n🤖 Claude calls"));
+
+  const recorded = new FakeProvider();
+  let created = 0;
+  const recorder = new CassetteProvider(new Cassette(providerPath, "record"), () => {
+    created++;
+    return recorded;
+  });
+  const recordedUsage: number[] = [];
+  recorder.setOnUsageCallback((tokens) => recordedUsage.push(tokens));
+
+  check("wrapped provider created on first call only", created === 0);
+  const live = await recorder.completeJSON(request);
+  await recorder.completeJSON({ ...request, userMessage: "Document it again." });
+  check(
+    "record mode completes live",
+    created === 1 && recorded.calls === 2 && live.fullContent === '{"operations":["call 1"]}'
+  );
+  check("usage callback handed to the wrapped provider", recordedUsage.join(",") === "150,150");
+
+  let createdForReplay = 0;
+  let guarded = 0;
+  const replayUsage: Array<{ tokens: number; method?: string }> = [];
+  const player = new CassetteProvider(new Cassette(providerPath, "replay"), () => {
+    createdForReplay++;
+    return new FakeProvider();
+  });
+  player.setOnUsageCallback((tokens, method) => replayUsage.push({ tokens, method }));
+  player.setBudgetGuard(async () => {
+    guarded++;
+  });
+  player.setContext("documentation", "generateDocumentation");
+
+  const replayed = await player.completeJSON({ ...request, phase: "other", signal: new AbortController().signal });
+  check(
+    "replayed without creating a provider",
+    createdForReplay === 0 && replayed.fullContent === live.fullContent,
+    replayed
+  );
+  check(
+    "recorded usage reported and budget checked",
+    replayUsage.length === 1 &&
+      replayUsage[0].tokens === 150 &&
+      replayUsage[0].method === "generateDocumentation" &&
+      guarded === 1,
+    replayUsage
+  );
+
+  const changedPrompt = await rejection(player.completeJSON({ ...request, systemPrompt: "Changed prompt" }));
+  check("changed prompt is a mismatch", changedPrompt instanceof CassetteMismatchError);
+
+  const controller = new AbortController();
+  controller.abort();
+  const cancelled = await rejection(player.completeJSON({ ...request, signal: controller.signal }));
+  check("cancelled session not replayed", cancelled instanceof WorkflowCancelledError);
+}
+
+async function testMcpClient() {
+  console.log(chalk.cyan("\n🔌 MCP client"));
+
+  const mcpPath = path.join(dir, "mcp.json");
+  const recorder = new Cassette(mcpPath, "record");
+  await recorder.play("mcp", { name: "search_nodes", params: { query: "slack", limit: 5 } }, async () => ({
+    content: [{ type: "text", text: JSON.stringify([{ nodeType: "nodes-base.slack" }]) }],
+  }));
+
+  useCassette(new Cassette(mcpPath, "replay"));
+  try {
+    // Nothing listens on the discard port; replay must not try to connect
+    const client = MCPClient.getInstance({
+      serverUrl: "http://127.0.0.1:9/mcp",
+      apiKey: "",
+      profile: "test",
+    });
+    await client.connect();
+
+    const result = await client.searchNodes({ query: "slack", limit: 5 });
+    check(
+      "tool call served from the cassette",
+      (result.content as any)[0].text.includes("nodes-base.slack") &&
+        !client.getConnectionStatus().isConnected,
+      result
+    );
+
+    const unknown = await rejection(client.getNodeInfo("nodes-base.gmail"));
+    check("unrecorded tool call fails loudly", unknown instanceof CassetteMismatchError);
+  } finally {
+    useCassette(null);
+    MCPClient.reset();
+  }
+}
+
+async function testMemorySessions() {
+  console.log(chalk.cyan("\n🧠 In-memory sessions"));
+
+  let supabaseCalls = 0;
+  sessionManager.loadSession = async () => {
+    supabaseCalls++;
+    return null;
+  };
+  sessionManager.queueOperation = async () => {
+    supabaseCalls++;
+  };
+  orchestratorHooks.useMemoryStore();
+
+  const repo = new SessionRepo();
+  await repo.reset("memory_session", "Post orders to Slack");
+  await repo.persistOperations("memory_session", [
+    { type: "discoverNode", node: { id: "slack", type: "nodes-base.slack", purpose: "Post orders" } },
+    { type: "selectNode", nodeId: "slack" },
+  ]);
+  await repo.updatePhase("memory_session", "configuration");
+  await orchestratorHooks.updateTokenUsage("memory_session", 120, "discovery", "discover");
+
+  const session = await repo.load("memory_session");
+  check(
+    "phase input loaded from memory",
+    session?.state.phase === "configuration" &&
+      session.state.selected.join() === "slack" &&
+      session.state.discovered[0]?.type === "nodes-base.slack" &&
+      session.state.tokenUsage?.byPhase.discovery === 120,
+    session?.state
+  );
+
+  session!.state.selected.push("gmail");
+  const reloaded = await repo.load("memory_session");
+  check("loaded sessions are copies", reloaded?.state.selected.join() === "slack", reloaded?.state.selected);
+
+  await repo.initialize("memory_session", "Another prompt");
+  check("initialize keeps an existing session", (await repo.load("memory_session"))?.state.selected.length === 1);
+
+  await repo.reset("memory_session", "Post orders to Slack");
+  const fresh = await repo.load("memory_session");
+  check(
+    "reset starts the session over",
+    fresh?.state.phase === "discovery" && fresh.state.operationHistory.length === 0,
+    fresh?.state
+  );
+  check("Supabase never used", supabaseCalls === 0, supabaseCalls);
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 CASSETTES TEST"));
+  console.log("=================");
+
+  try {
+    await testRecord();
+    await testReplay();
+    await testProvider();
+    await testMcpClient();
+    await testMemorySessions();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,596 @@
+#!/usr/bin/env tsx
+
+/**
+ * Clarification Rounds Test
+ *
+ * Checks multi-question clarification rounds: questions built from the
+ * intent analysis (and the legacy single question), the state reducer
+ * keeping answer types and values, answers checked against the pending
+ * round, DiscoveryRunner storing a round of answers and running
+ * discovery again with them added to the prompt, and ConfigurationRunner
+ * pausing a node for values only the user knows, then configuring just
+ * that node once they are answered.
+ *
+ * Runs fully offline - Claude and the session store are faked.
+ */
+
+import chalk from "chalk";
+import {
+  buildClarificationOperations,
+  formatClarifications,
+  formatNodeValues,
+  optionsFromEssentials,
+  resolveClarificationAnswers,
+  toClarificationQuestion,
+  withClarifications,
+} from "@/lib/orchestrator/helpers/clarifications";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+} from "@/lib/services/session-state-reducer";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { DiscoveryRunner } from "@/lib/orchestrator/runners/discovery.runner";
+import { ConfigurationRunner } from "@/lib/orchestrator/runners/configuration.runner";
+import type { ClaudeAnalysisResponse } from "@/types/claude";
+import type {
+  DiscoveredNode,
+  WorkflowOperation,
+  WorkflowSession,
+} from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+const PROMPT = "When a GitHub issue comes in, tell the team";
+
+function analysis(overrides: Partial<ClaudeAnalysisResponse>): ClaudeAnalysisResponse {
+  return {
+    intent: "unclear",
+    logic_flow: [],
+    matched_tasks: [],
+    unmatched_capabilities: [],
+    search_suggestions: [],
+    workflow_pattern: "unknown",
+    complexity: "unknown",
+    clarification_needed: true,
+    reasoning: [],
+    ...overrides,
+  };
+}
+
+const ROUND = analysis({
+  clarifications: [
+    {
+      question: "Which issues should trigger a message?",
+      answerType: "multi_choice",
+      options: [
+        { value: "opened", label: "New issues" },
+        { value: "reopened", label: "Reopened issues" },
+      ],
+    },
+    {
+      question: "Where should the message go?",
+      answerType: "service",
+      options: [
+        { value: "slack", label: "Slack" },
+        { value: "discord", label: "Discord" },
+      ],
+    },
+    {
+      question: "How urgent are these?",
+      answerType: "single_choice",
+      options: [
+        { value: "now", label: "Right away" },
+        { value: "digest", label: "Daily digest" },
+      ],
+      required: false,
+    },
+    { question: "Anything else we should know?", answerType: "free_text", required: false },
+  ],
+});
+
+async function testQuestions() {
+  console.log(chalk.cyan("\n❓ Questions"));
+
+  const ops = buildClarificationOperations(ROUND, "q_1");
+  check(
+    "one operation per question",
+    ops.map((op) => op.questionId).join() === "q_1_1,q_1_2,q_1_3,q_1_4",
+    ops
+  );
+  check(
+    "answer types and options kept",
+    ops[0].answerType === "multi_choice" && ops[1].options?.[0].label === "Slack"
+  );
+  check("questions required unless marked optional", ops[0].required === true && ops[2].required === false);
+
+  const legacy = buildClarificationOperations(
+    analysis({
+      clarification: {
+        question: "What should happen to the data?",
+        context: "Unclear outcome",
+        suggestions: ["Store it"],
+      },
+    }),
+    "q_2"
+  );
+  check(
+    "legacy single question asked as free text",
+    legacy.length === 1 &&
+      legacy[0].questionId === "q_2" &&
+      legacy[0].answerType === "free_text" &&
+      legacy[0].context.suggestions[0] === "Store it",
+    legacy
+  );
+
+  const question = toClarificationQuestion({
+    questionId: "old",
+    question: "What should happen?",
+    context: {},
+    timestamp: new Date(),
+  });
+  check(
+    "stored questions without a type default to required free text",
+    question.answerType === "free_text" && question.required === true
+  );
+}
+
+async function testReducer() {
+  console.log(chalk.cyan("\n🔁 Reducer"));
+
+  const ops = buildClarificationOperations(ROUND, "q_1");
+  let state = applyOperationsToState(createInitialSessionState(PROMPT), ops);
+  check(
+    "whole round pending",
+    state.pendingClarifications.length === 4 &&
+      state.pendingClarifications[0].options?.length === 2,
+    state.pendingClarifications
+  );
+
+  state = applyOperationsToState(state, [
+    {
+      type: "clarificationResponse",
+      questionId: "q_1_1",
+      response: "New issues, Reopened issues",
+      value: ["opened", "reopened"],
+    },
+  ]);
+  const [answered] = state.clarificationHistory;
+  check(
+    "answer moved to history with its type and value",
+    state.pendingClarifications.length === 3 &&
+      answered.answerType === "multi_choice" &&
+      JSON.stringify(answered.value) === '["opened","reopened"]' &&
+      answered.question === "Which issues should trigger a message?",
+    state.clarificationHistory
+  );
+}
+
+async function testAnswers() {
+  console.log(chalk.cyan("\n📝 Answers"));
+
+  const state = applyOperationsToState(
+    createInitialSessionState(PROMPT),
+    buildClarificationOperations(ROUND, "q_1")
+  );
+  const pending = state.pendingClarifications;
+
+  const { operations, errors } = resolveClarificationAnswers(pending, [
+    { questionId: "q_1_1", value: ["opened"] },
+    { questionId: "q_1_2", value: "mattermost" },
+    { questionId: "q_1_3", value: "digest" },
+  ]);
+  check("valid round accepted", errors.length === 0, errors);
+  check(
+    "every question answered, labels as text",
+    operations.map((op) => op.response).join("|") === "New issues|mattermost|Daily digest|",
+    operations
+  );
+  check("skipped optional question has an empty answer", operations[3].value === "");
+
+  const rejected = (answers: Parameters<typeof resolveClarificationAnswers>[1]) =>
+    resolveClarificationAnswers(pending, answers).errors;
+  check(
+    "missing required answer rejected",
+    rejected([{ questionId: "q_1_1", value: ["opened"] }]).join() === "Question q_1_2 needs an answer"
+  );
+  check(
+    "unknown option rejected",
+    rejected([
+      { questionId: "q_1_1", value: ["closed"] },
+      { questionId: "q_1_2", value: "slack" },
+    ]).join() === "Question q_1_1 has no option closed"
+  );
+  check(
+    "single choice outside the options rejected",
+    rejected([
+      { questionId: "q_1_1", value: "opened" },
+      { questionId: "q_1_2", value: "slack" },
+      { questionId: "q_1_3", value: "someday" },
+    ]).join() === "Question q_1_3 has no option someday"
+  );
+  check(
+    "list for a single answer rejected",
+    rejected([
+      { questionId: "q_1_1", value: ["opened"] },
+      { questionId: "q_1_2", value: ["slack", "discord"] },
+    ]).join() === "Question q_1_2 expects a single answer"
+  );
+  check(
+    "unknown and repeated questions rejected",
+    rejected([
+      { questionId: "q_1_1", value: ["opened"] },
+      { questionId: "q_1_1", value: ["reopened"] },
+      { questionId: "q_1_2", value: "slack" },
+      { questionId: "q_9", value: "?" },
+    ]).join() === "Question q_1_1 answered more than once,Unknown question q_9"
+  );
+  check(
+    "nothing pending rejected",
+    resolveClarificationAnswers([], [{ questionId: "q_1_1", value: "x" }]).errors.length === 1
+  );
+}
+
+async function testPromptInjection() {
+  console.log(chalk.cyan("\n💬 Prompt injection"));
+
+  const history = [
+    { questionId: "a", question: "Where should the message go?", response: "Slack", timestamp: new Date() },
+    { questionId: "b", question: "Anything else?", response: "", timestamp: new Date() },
+  ];
+  check(
+    "answered clarifications listed",
+    formatClarifications(history) ===
+      "Clarifications from the user:\n- Where should the message go? → Slack"
+  );
+  check(
+    "appended to the prompt",
+    withClarifications(PROMPT, history).startsWith(`${PROMPT}\n\nClarifications from the user:`)
+  );
+  check("prompt unchanged without clarifications", withClarifications(PROMPT, []) === PROMPT);
+}
+
+/**
+ * Session store that applies operations with the shared reducer
+ */
+function fakeSessionRepo() {
+  let session: WorkflowSession | null = null;
+  const persisted: WorkflowOperation[] = [];
+  return {
+    persisted,
+    initialize: async (sessionId: string, prompt: string) => {
+      session ??= {
+        sessionId,
+        createdAt: new Date(),
+        state: createInitialSessionState(prompt),
+      } as unknown as WorkflowSession;
+    },
+    load: async () => session,
+    persistOperations: async (_sessionId: string, operations: WorkflowOperation[]) => {
+      persisted.push(...operations);
+      session!.state = applyOperationsToState(session!.state, operations);
+    },
+    save: async () => {},
+    recordError: async () => {},
+    updatePhase: async () => {},
+    updateTokenUsage: async () => {},
+  };
+}
+
+async function testDiscoveryRunner() {
+  console.log(chalk.cyan("\n🔍 Discovery runner"));
+
+  // Keep persistence out of the way - the fake repo holds the session
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const prompts: string[] = [];
+  const responses = [
+    ROUND,
+    analysis({
+      clarifications: [
+        { question: "Which channel?", answerType: "free_text" },
+      ],
+    }),
+  ];
+  const sessionRepo = fakeSessionRepo();
+  const quiet = { debug() {}, info() {}, warn() {}, error() {} };
+  const runner = new DiscoveryRunner({
+    claudeService: {
+      analyzeIntent: async ({ prompt }: { prompt: string }) => {
+        prompts.push(prompt);
+        return { success: true, data: responses.shift() };
+      },
+    },
+    nodeContextService: {},
+    mcpClient: {},
+    sessionRepo,
+    loggers: { orchestrator: quiet },
+  });
+
+  const first = await runner.run({ sessionId: "wf_clarify", prompt: PROMPT });
+  check(
+    "discovery waits for the whole round",
+    first.success && first.pendingClarifications?.length === 4,
+    first
+  );
+
+  const session = await sessionRepo.load();
+  const ids = session!.state.pendingClarifications.map((q) => q.questionId);
+
+  const invalid = await runner.handleClarification({
+    sessionId: "wf_clarify",
+    answers: [{ questionId: ids[0], value: ["opened"] }],
+  });
+  check(
+    "invalid round rejected without rerunning discovery",
+    !invalid.success &&
+      invalid.error?.code === "INVALID_CLARIFICATION" &&
+      invalid.pendingClarifications?.length === 4 &&
+      prompts.length === 1,
+    invalid
+  );
+
+  const second = await runner.handleClarification({
+    sessionId: "wf_clarify",
+    answers: [
+      { questionId: ids[0], value: ["opened", "reopened"] },
+      { questionId: ids[1], value: "slack" },
+      { questionId: ids[2], value: "now" },
+    ],
+  });
+  const state = (await sessionRepo.load())!.state;
+  check(
+    "answers stored in the history",
+    state.clarificationHistory.map((entry) => entry.response).join("|") ===
+      "New issues, Reopened issues|Slack|Right away|" &&
+      sessionRepo.persisted.filter((op) => op.type === "clarificationResponse").length === 4,
+    state.clarificationHistory
+  );
+  check(
+    "discovery rerun with the answers in the prompt",
+    prompts[1] ===
+      `${PROMPT}\n\nClarifications from the user:\n` +
+        "- Which issues should trigger a message? → New issues, Reopened issues\n" +
+        "- Where should the message go? → Slack\n" +
+        "- How urgent are these? → Right away",
+    prompts[1]
+  );
+  check("stored prompt is the user's own", state.userPrompt === PROMPT);
+  check(
+    "follow-up round pending",
+    second.pendingClarifications?.length === 1 &&
+      state.pendingClarifications.map((q) => q.question).join() === "Which channel?",
+    second
+  );
+}
+
+const SLACK_ESSENTIALS = {
+  nodeType: "n8n-nodes-base.slack",
+  requiredProperties: [
+    {
+      name: "select",
+      options: [
+        { name: "Channel", value: "channel", description: "Post to a channel" },
+        { name: "User", value: "user" },
+      ],
+    },
+  ],
+  commonProperties: [{ name: "channelId" }, { name: "resource", options: ["message", "file"] }],
+};
+
+async function testNodeValues() {
+  console.log(chalk.cyan("\n🧩 Node values"));
+
+  const options = optionsFromEssentials(SLACK_ESSENTIALS, "parameters.select");
+  check(
+    "options taken from the property in the essentials",
+    options.map((o) => `${o.value}:${o.label}`).join() === "channel:Channel,user:User" &&
+      options[0].description === "Post to a channel",
+    options
+  );
+  check(
+    "plain options used as value and label",
+    optionsFromEssentials(SLACK_ESSENTIALS, "parameters.resource")[1]?.label === "file"
+  );
+  check(
+    "no options for free properties or unknown fields",
+    optionsFromEssentials(SLACK_ESSENTIALS, "parameters.channelId").length === 0 &&
+      optionsFromEssentials(SLACK_ESSENTIALS, "parameters.missing").length === 0 &&
+      optionsFromEssentials(null, "parameters.select").length === 0
+  );
+
+  const history = [
+    {
+      questionId: "a",
+      question: "Which channel?",
+      response: "Channel",
+      value: "channel",
+      context: { nodeId: "slack_1", field: "parameters.select" },
+      timestamp: new Date(),
+    },
+    {
+      questionId: "b",
+      question: "Which events?",
+      response: "Push, Issue",
+      value: ["push", "issues"],
+      context: { nodeId: "slack_1", field: "parameters.events" },
+      timestamp: new Date(),
+    },
+    {
+      questionId: "c",
+      question: "Which sheet?",
+      response: "abc",
+      context: { nodeId: "sheet_1", field: "parameters.sheetId" },
+      timestamp: new Date(),
+    },
+  ];
+  check(
+    "option values listed for the node's fields",
+    formatNodeValues(history, "slack_1") ===
+      "Values the user supplied for this node (use them exactly):\n" +
+        "- parameters.select: channel\n" +
+        "- parameters.events: push, issues",
+    formatNodeValues(history, "slack_1")
+  );
+  check("nothing listed for other nodes", formatNodeValues(history, "set_1") === "");
+}
+
+async function testConfigurationRunner() {
+  console.log(chalk.cyan("\n⚙️  Configuration runner"));
+
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const nodes: DiscoveredNode[] = [
+    { id: "slack_1", type: "n8n-nodes-base.slack", purpose: "Post the alert", displayName: "Slack" },
+    { id: "set_1", type: "n8n-nodes-base.set", purpose: "Shape the message" },
+  ];
+  const sessionRepo = fakeSessionRepo();
+  await sessionRepo.initialize("wf_configure", PROMPT);
+  (await sessionRepo.load())!.state.discovered = nodes;
+
+  // Claude asks for the Slack channel until the prompt carries it
+  const calls: Array<{ nodeId: string; prompt: string }> = [];
+  const quiet = { debug() {}, info() {}, warn() {}, error() {} };
+  const runner = new ConfigurationRunner({
+    claudeService: {
+      execute: async ({ prompt, selectedNodes }: { prompt: string; selectedNodes: string[] }) => {
+        const [nodeId] = selectedNodes;
+        calls.push({ nodeId, prompt });
+        if (nodeId === "slack_1" && !prompt.includes("- parameters.channelId: C0123")) {
+          return {
+            success: true,
+            data: {
+              operations: [
+                {
+                  type: "requestClarification",
+                  questionId: "slack_channel",
+                  question: "Which Slack channel should get the alert?",
+                  answerType: "free_text",
+                  context: { field: "parameters.channelId", reason: "No channel in the goal" },
+                },
+                {
+                  type: "requestClarification",
+                  questionId: "slack_select",
+                  question: "Post to a channel or a user?",
+                  context: { field: "parameters.select" },
+                },
+              ],
+              reasoning: ["The goal names no channel"],
+            },
+          };
+        }
+        return {
+          success: true,
+          data: {
+            operations: [
+              {
+                type: "configureNode",
+                nodeId,
+                config: { typeVersion: 1, parameters: { channelId: "C0123" } },
+              },
+            ],
+            reasoning: [],
+          },
+        };
+      },
+    },
+    nodeContextService: {
+      getNodeEssentials: async (nodeType: string) =>
+        nodeType === SLACK_ESSENTIALS.nodeType ? SLACK_ESSENTIALS : { nodeType },
+      validateNodeConfig: async () => ({ isValid: true, validationErrors: [] }),
+    },
+    sessionRepo,
+    loggers: { orchestrator: quiet },
+  });
+
+  const first = await runner.run({ sessionId: "wf_configure" });
+  const [channel, select] = first.pendingClarifications || [];
+  check(
+    "node paused with its questions",
+    first.success &&
+      first.pendingClarifications?.length === 2 &&
+      channel.context?.nodeId === "slack_1" &&
+      channel.context?.field === "parameters.channelId" &&
+      channel.context?.nodeName === "Slack",
+    first
+  );
+  check(
+    "options for a question filled in from the node essentials",
+    select?.answerType === "single_choice" &&
+      select.options?.map((o) => o.value).join() === "channel,user",
+    select
+  );
+  check(
+    "other nodes configured, phase left open",
+    first.configured.map((n) => n.id).join() === "set_1" &&
+      !first.operations.some((op) => op.type === "completePhase"),
+    first.configured
+  );
+
+  const state = (await sessionRepo.load())!.state;
+  check("questions pending in the session", state.pendingClarifications.length === 2);
+
+  const invalid = await runner.handleClarification({
+    sessionId: "wf_configure",
+    answers: [
+      { questionId: channel.questionId, value: "C0123" },
+      { questionId: select.questionId, value: "group" },
+    ],
+  });
+  check(
+    "answer outside the node's options rejected",
+    invalid.error?.code === "INVALID_CLARIFICATION" && calls.length === 2,
+    invalid.error
+  );
+
+  const resumed = await runner.handleClarification({
+    sessionId: "wf_configure",
+    answers: [
+      { questionId: channel.questionId, value: "C0123" },
+      { questionId: select.questionId, value: "channel" },
+    ],
+  });
+  const resumedCalls = calls.slice(2);
+  check(
+    "only the paused node configured again",
+    resumedCalls.map((call) => call.nodeId).join() === "slack_1" &&
+      resumed.configured.map((n) => n.id).join() === "slack_1",
+    resumedCalls.map((call) => call.nodeId)
+  );
+  check(
+    "supplied values in the node's prompt",
+    resumedCalls[0]?.prompt.includes(
+      "Values the user supplied for this node (use them exactly):\n" +
+        "- parameters.channelId: C0123\n" +
+        "- parameters.select: channel"
+    )
+  );
+  check(
+    "configuration completed once nothing is pending",
+    resumed.success &&
+      !resumed.pendingClarifications &&
+      resumed.operations.some((op) => op.type === "completePhase") &&
+      (await sessionRepo.load())!.state.pendingClarifications.length === 0,
+    resumed
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 CLARIFICATION ROUNDS TEST"));
+  console.log("===========================");
+
+  await testQuestions();
+  await testReducer();
+  await testAnswers();
+  await testPromptInjection();
+  await testDiscoveryRunner();
+  await testNodeValues();
+  await testConfigurationRunner();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
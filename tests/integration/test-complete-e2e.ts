@@ -11,6 +11,14 @@
  * 5. Documentation phase - Add sticky notes for documentation
  * 
  * Saves the final output as JSON that can be imported directly into n8n.
+ *
+ * With --record, live Claude and MCP calls are written to
+ * tests/cassettes/complete-e2e.json; with --replay the run is served from
+ * that cassette without network access (see lib/cassettes). Session state
+ * is kept in memory for both, so replay needs no Supabase. Session IDs
+ * are fixed per scenario while a cassette is in use, since they pick the
+ * prompt variant and so shape the recorded requests
+ * (npm run test:complete:replay).
  */
 
 import * as dotenv from 'dotenv';
@@ -39,6 +47,13 @@ const isVerbose = args.includes('--verbose') || args.includes('-v');
 const skipPrompts = args.includes('--no-prompt') || args.includes('-n');
 const testPrompt = args.find(a => a.startsWith('--prompt='))?.split('=')[1];
 const shouldDeploy = true; // Always deploy - we can change this logic later if needed
+const cassetteMode = args.includes('--record') ? 'record' : args.includes('--replay') ? 'replay' : undefined;
+
+if (cassetteMode) {
+  process.env.CASSETTE_MODE = cassetteMode;
+  process.env.CASSETTE_PATH =
+    process.env.CASSETTE_PATH || path.join(process.cwd(), 'tests', 'cassettes', 'complete-e2e.json');
+}
 
 if (isVerbose) {
   process.env.LOG_LEVEL = 'debug';
@@ -224,7 +239,8 @@ async function deployWorkflow(workflow: any, name: string, mcpClient?: any): Pro
 }
 
 async function runCompleteWorkflow(orchestrator: any, name: string, prompt: string): Promise<TestResult> {
-  const sessionId = `complete_e2e_${name.replace(/\s+/g, '_').toLowerCase()}_${Date.now()}`;
+  const baseId = `complete_e2e_${name.replace(/\s+/g, '_').toLowerCase()}`;
+  const sessionId = cassetteMode ? baseId : `${baseId}_${Date.now()}`;
   const startTime = Date.now();
   const phaseResults: any = {};
   let reportPath: string | undefined;
@@ -242,8 +258,8 @@ async function runCompleteWorkflow(orchestrator: any, name: string, prompt: stri
   console.log();
 
   try {
-    // Initialize session
-    await orchestrator.sessionRepo.initialize(sessionId, prompt);
+    // Start from a fresh session - with a cassette the ID repeats between runs
+    await orchestrator.sessionRepo.reset(sessionId, prompt);
     
     // === PHASE 1: DISCOVERY ===
     console.log(chalk.blue('🔍 Phase 1: Discovery'));
@@ -253,29 +269,34 @@ async function runCompleteWorkflow(orchestrator: any, name: string, prompt: stri
     phaseResults.discovery = discoveryResult;
     
     // Handle clarifications if needed
-    while (discoveryResult.pendingClarification) {
+    while (discoveryResult.pendingClarifications) {
       console.log(chalk.yellow('\n   ❓ Clarification needed:'));
-      console.log(chalk.yellow(`      ${discoveryResult.pendingClarification.question}`));
-      
-      let response: string;
       
       // Check if we're in non-interactive mode (using --prompt flag or --no-prompt)
       if (testPrompt || skipPrompts) {
         // Can't ask for input in non-interactive mode, skip clarification
+        discoveryResult.pendingClarifications.forEach(q => console.log(chalk.yellow(`      ${q.question}`)));
         console.log(chalk.yellow('      ⚠️ Running in non-interactive mode, cannot ask for clarification'));
         console.log(chalk.yellow('      Please run without --prompt flag to answer clarification questions'));
         throw new Error('Clarification needed but running in non-interactive mode');
-      } else {
-        // Get user input in interactive mode
-        response = await getUserInput('Your response');
       }
       
-      // Submit clarification response
-      discoveryResult = await orchestrator.handleClarificationResponse(
-        sessionId,
-        discoveryResult.pendingClarification.questionId,
-        response
-      );
+      // Get user input in interactive mode, one answer per question
+      const answers = [];
+      for (const question of discoveryResult.pendingClarifications) {
+        console.log(chalk.yellow(`      ${question.question}`));
+        const options = question.options || [];
+        options.forEach((option, index) => console.log(chalk.gray(`         ${index + 1}. ${option.label}`)));
+        const response = await getUserInput(options.length > 0 ? 'Your choice (numbers)' : 'Your response');
+        const values = response.split(',').map(entry => options[Number(entry.trim()) - 1]?.value ?? entry.trim());
+        answers.push({
+          questionId: question.questionId,
+          value: question.answerType === 'multi_choice' ? values : options.length > 0 ? values[0] : response,
+        });
+      }
+      
+      // Submit clarification answers
+      discoveryResult = await orchestrator.handleClarificationResponse(sessionId, answers);
       
       // Update phase results with new discovery result
       phaseResults.discovery = discoveryResult;
@@ -636,6 +657,8 @@ ${chalk.gray('Options:')}
   --no-prompt, -n     Skip interactive prompts and run all scenarios
   --prompt="..."      Run with specific prompt
   --deploy, -d        Deploy workflow to n8n after successful generation
+  --record            Record Claude and MCP calls to tests/cassettes/complete-e2e.json
+  --replay            Replay recorded calls offline; unrecorded requests fail
   --help, -h          Show this help message
 
 ${chalk.gray('Examples:')}
@@ -645,6 +668,7 @@ ${chalk.gray('Examples:')}
   npm run test:complete:e2e --no-prompt
   npm run test:complete:e2e --deploy
   npm run test:complete:e2e --prompt="Create webhook to Slack" --deploy
+  npm run test:complete:replay
 
 ${chalk.gray('What this tests:')}
   - Complete workflow generation pipeline
@@ -658,6 +682,7 @@ ${chalk.gray('What this tests:')}
 
 ${chalk.gray('Environment Variables:')}
   N8N_API_KEY         API key for n8n deployment (optional)
+  CASSETTE_PATH       Cassette used by --record and --replay
   N8N_API_URL         n8n instance URL (optional)
 
 ${chalk.gray('Output:')}
@@ -670,6 +695,12 @@ ${chalk.gray('Output:')}
   const { WorkflowOrchestrator } = await import('@/lib/workflow-orchestrator');
   const orchestrator = new WorkflowOrchestrator();
 
+  if (cassetteMode) {
+    // Recorded and replayed runs keep session state in memory, so replay needs no Supabase
+    const { orchestratorHooks } = await import('@/lib/workflow-orchestrator-hooks');
+    orchestratorHooks.useMemoryStore();
+  }
+
   const results: any[] = [];
 
   try {
@@ -728,7 +759,14 @@ ${chalk.gray('Output:')}
     console.log(chalk.green(`\n   💾 Output saved to: ${path.relative(process.cwd(), outputDir)}/`));
     console.log(chalk.gray(`      Files can be imported directly into n8n`));
     
-    const allPassed = passed === results.length;
+    // Unrecorded requests may have been caught along the way
+    const { getActiveCassette } = await import('@/lib/cassettes');
+    const mismatches = getActiveCassette()?.mismatches ?? 0;
+    if (mismatches > 0) {
+      console.log(chalk.red(`   ❌ ${mismatches} request(s) not found in the cassette - record it again with --record`));
+    }
+
+    const allPassed = passed === results.length && mismatches === 0;
     console.log(chalk.bold[allPassed ? 'green' : 'red'](`\n${allPassed ? '✅' : '❌'} Overall: ${allPassed ? 'All tests passed!' : 'Some tests failed'}`));
     
     rl.close();
@@ -0,0 +1,308 @@
+#!/usr/bin/env tsx
+
+/**
+ * Deployment Test
+ *
+ * Checks what POST /api/workflow/[sessionId]/deploy relies on: mapping the
+ * config analysis' missing credentials onto nodes, creating the workflow
+ * on the first deployment, updating it on redeploys and recording each
+ * deployment as a new version, and the MCP deployment target reading the
+ * results of the n8n MCP tools.
+ *
+ * Runs fully offline - n8n and MCP are faked, no Supabase required.
+ */
+
+import chalk from "chalk";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DeploymentError,
+  InMemoryDeploymentStore,
+  McpDeployTarget,
+  WorkflowDeployer,
+  applyCredentialMapping,
+  parseWorkflowId,
+  type WorkflowDeployTarget,
+} from "@/lib/deployments";
+import type { MCPClient } from "@/lib/mcp-client";
+import type {
+  NodeConfigStatus,
+  WorkflowConfigAnalysis,
+  WorkflowSession,
+} from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+function nodeStatus(
+  id: string,
+  needsCredentials: NodeConfigStatus["needsCredentials"]
+): NodeConfigStatus {
+  return {
+    id,
+    name: id,
+    type: `n8n-nodes-base.${id}`,
+    purpose: "",
+    status: needsCredentials.length > 0 ? "needs_credentials" : "configured",
+    configured: [],
+    needsCredentials,
+    needsDecisions: [],
+    isReady: needsCredentials.length === 0,
+  };
+}
+
+const analysis: WorkflowConfigAnalysis = {
+  timestamp: "2026-03-15T09:00:00Z",
+  isComplete: false,
+  totalNodes: 3,
+  configuredNodes: 1,
+  missingCredentials: ["SLACKAPI", "SLACKOAUTH2API", "GITHUBAPI", "API_KEY"],
+  nodes: [
+    nodeStatus("slack", [
+      { field: "credentials", credentialType: "slackApi", variable: "SLACKAPI", description: "Option: slackApi", isAlternative: true },
+      { field: "credentials", credentialType: "slackOAuth2Api", variable: "SLACKOAUTH2API", description: "Option: slackOAuth2Api", isAlternative: true },
+    ]),
+    nodeStatus("github", [
+      { field: "credentials", credentialType: "githubApi", variable: "GITHUBAPI", description: "Requires githubApi" },
+    ]),
+    nodeStatus("http", [
+      { field: "apiKey", credentialType: "API Key", variable: "API_KEY", description: "Placeholder" },
+    ]),
+  ],
+};
+
+function createSession(): WorkflowSession {
+  const node = (id: string) => ({
+    id,
+    name: id,
+    type: `n8n-nodes-base.${id}`,
+    position: [0, 0] as [number, number],
+    parameters: {},
+  });
+  return {
+    sessionId: "wf_deploy",
+    createdAt: new Date("2026-03-15T09:00:00Z"),
+    state: {
+      phase: "complete",
+      userPrompt: "Post new GitHub issues to Slack",
+      discovered: [],
+      selected: [],
+      configured: new Map(),
+      validated: new Map(),
+      workflow: {
+        name: "GitHub to Slack",
+        nodes: [node("github"), node("slack"), node("http")],
+        connections: {},
+        settings: { name: "GitHub to Slack", executionOrder: "v1" },
+      } as any,
+      operationHistory: [],
+      configAnalysis: analysis,
+    },
+  };
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+  return { content: [{ type: "text", text }], isError };
+}
+
+/**
+ * Fake n8n: keeps created workflows by ID
+ */
+function createTarget() {
+  const workflows = new Map<string, any>();
+  const calls: string[] = [];
+  let nextId = 1;
+
+  const target: WorkflowDeployTarget = {
+    async createWorkflow(workflow) {
+      const id = `n8n_${nextId++}`;
+      calls.push(`create:${id}`);
+      workflows.set(id, workflow);
+      return id;
+    },
+    async updateWorkflow(id, workflow) {
+      calls.push(`update:${id}`);
+      if (!workflows.has(id)) return false;
+      workflows.set(id, workflow);
+      return true;
+    },
+  };
+  return { target, workflows, calls };
+}
+
+function testCredentialMapping() {
+  console.log(chalk.cyan("\n🔑 Credential mapping"));
+
+  const { nodes } = createSession().state.workflow;
+  const result = applyCredentialMapping(nodes, analysis, {
+    SLACKOAUTH2API: { id: "cred_slack", name: "Team Slack" },
+    GITHUBAPI: { id: "cred_gh" },
+  });
+
+  const slack = result.nodes.find((n) => n.id === "slack");
+  const github = result.nodes.find((n) => n.id === "github");
+  check(
+    "credential set under its n8n credential type",
+    slack?.credentials?.slackOAuth2Api?.id === "cred_slack" &&
+      slack.credentials.slackOAuth2Api.name === "Team Slack",
+    slack?.credentials
+  );
+  check(
+    "credential name defaults to its type",
+    github?.credentials?.githubApi?.name === "githubApi",
+    github?.credentials
+  );
+  check(
+    "mapped alternative covers the other option, parameters stay unmapped",
+    result.unmapped.join(",") === "API_KEY",
+    result.unmapped
+  );
+  check("session nodes left untouched", !nodes.find((n) => n.id === "slack")?.credentials);
+
+  const unknown = applyCredentialMapping(nodes, analysis, { NOTIONAPI: { id: "x" } });
+  check("variables not in missingCredentials reported", unknown.unknown.join(",") === "NOTIONAPI");
+}
+
+async function testDeployer() {
+  console.log(chalk.cyan("\n🚀 Deployer"));
+
+  const store = new InMemoryDeploymentStore();
+  const { target, workflows, calls } = createTarget();
+  const deployer = new WorkflowDeployer(store, () => target);
+  const session = createSession();
+
+  const first = await deployer.deploy(session, {
+    profile: "staging",
+    credentials: { GITHUBAPI: { id: "cred_gh" } },
+  });
+  const created = workflows.get(first.deployment.remoteWorkflowId);
+  check(
+    "first deployment creates the workflow",
+    first.deployment.action === "created" && first.deployment.version === 1,
+    first.deployment
+  );
+  check(
+    "only n8n workflow properties sent",
+    Object.keys(created).sort().join(",") === "connections,name,nodes,settings" &&
+      created.name === "GitHub to Slack" &&
+      !("name" in created.settings),
+    created
+  );
+  check(
+    "unmapped credentials returned",
+    first.unmappedCredentials.includes("SLACKAPI") &&
+      first.unmappedCredentials.includes("SLACKOAUTH2API")
+  );
+
+  const second = await deployer.deploy(session, {
+    profile: "staging",
+    credentials: { GITHUBAPI: { id: "cred_gh" }, SLACKAPI: { id: "cred_slack" } },
+    name: "Renamed",
+  });
+  check(
+    "redeploy updates the same workflow",
+    second.deployment.action === "updated" &&
+      second.deployment.version === 2 &&
+      second.deployment.remoteWorkflowId === first.deployment.remoteWorkflowId &&
+      workflows.size === 1,
+    calls
+  );
+  check(
+    "updated workflow has the new name",
+    workflows.get(first.deployment.remoteWorkflowId).name === "Renamed"
+  );
+
+  const other = await deployer.deploy(session, { profile: "production" });
+  check(
+    "each profile gets its own workflow",
+    other.deployment.action === "created" &&
+      other.deployment.version === 1 &&
+      other.deployment.remoteWorkflowId !== first.deployment.remoteWorkflowId
+  );
+
+  // Deleted in n8n since the last deployment
+  workflows.delete(first.deployment.remoteWorkflowId);
+  const recreated = await deployer.deploy(session, { profile: "staging" });
+  check(
+    "workflow deleted in n8n is created again",
+    recreated.deployment.action === "created" &&
+      recreated.deployment.version === 3 &&
+      recreated.deployment.remoteWorkflowId !== first.deployment.remoteWorkflowId,
+    recreated.deployment
+  );
+
+  const history = await deployer.listDeployments("wf_deploy");
+  check(
+    "history lists every deployment newest first",
+    history.map((d) => `${d.profile}:${d.version}`).join(",") ===
+      "staging:3,production:1,staging:2,staging:1",
+    history.map((d) => `${d.profile}:${d.version}`)
+  );
+
+  let error: unknown;
+  try {
+    await deployer.deploy(session, {
+      profile: "staging",
+      credentials: { NOTIONAPI: { id: "cred_notion" } },
+    });
+  } catch (e) {
+    error = e;
+  }
+  check(
+    "unknown credentials rejected before deploying",
+    error instanceof DeploymentError && error.code === "INVALID_CREDENTIALS"
+  );
+  check("nothing deployed for a rejected mapping", calls.length === 5, calls);
+}
+
+async function testMcpTarget() {
+  console.log(chalk.cyan("\n🔌 MCP target"));
+
+  const results: Record<string, CallToolResult> = {
+    create: textResult('{"success":true,"data":{"id":"abc123"}}'),
+    update: textResult("Workflow with ID abc123 not found", true),
+  };
+  const client = {
+    createWorkflow: async () => results.create,
+    updateWorkflow: async () => results.update,
+  } as unknown as MCPClient;
+  const target = new McpDeployTarget(client);
+  const workflow = { name: "Test", nodes: [], connections: {} };
+
+  check("created workflow ID read from the tool result", (await target.createWorkflow(workflow)) === "abc123");
+  check("missing workflow reported as not updated", (await target.updateWorkflow("abc123", workflow)) === false);
+
+  results.create = textResult("n8n API error: 401 Unauthorized", true);
+  let error: unknown;
+  try {
+    await target.createWorkflow(workflow);
+  } catch (e) {
+    error = e;
+  }
+  check(
+    "tool errors surface as DEPLOY_FAILED",
+    error instanceof DeploymentError &&
+      error.code === "DEPLOY_FAILED" &&
+      String(error.details).includes("401")
+  );
+
+  console.log(chalk.cyan("\n🆔 Workflow IDs"));
+
+  check("n8n-mcp response", parseWorkflowId(textResult('{"success":true,"data":{"id":"abc123"}}')) === "abc123");
+  check("plain id field", parseWorkflowId(textResult('{"id":42}')) === "42");
+  check("text response", parseWorkflowId(textResult("Workflow created with ID: xyz-9")) === "xyz-9");
+  check("no ID", parseWorkflowId(textResult('{"success":true}')) === undefined);
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 DEPLOYMENT TEST"));
+  console.log("==================");
+
+  testCredentialMapping();
+  await testDeployer();
+  await testMcpTarget();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -188,24 +188,26 @@ class DiscoveryIntegrationTest {
       let result = await this.orchestrator.runDiscoveryPhase(sessionId, scenario.prompt);
       
       // Handle clarifications if needed (same simple pattern as build-workflow.ts)
-      while (result.pendingClarification) {
+      while (result.pendingClarifications) {
         console.log(chalk.yellow(`\n   ❓ Clarification needed:`));
-        console.log(chalk.yellow(`   ${result.pendingClarification.question}`));
         
-        // For tests, always auto-respond with scenario-specific or default response
+        // For tests, always auto-respond: the first option of choices,
+        // the scenario-specific or default response otherwise
         const response = scenario.clarificationResponse || 
                         "Proceed with the most common approach for this workflow";
-        console.log(chalk.gray(`   Auto-responding: "${response}"`));
+        const answers = result.pendingClarifications.map(question => {
+          const first = question.options?.[0]?.value;
+          const value = question.answerType === 'multi_choice' ? [first ?? response] : first ?? response;
+          console.log(chalk.yellow(`   ${question.question}`));
+          console.log(chalk.gray(`   Auto-responding: ${JSON.stringify(value)}`));
+          return { questionId: question.questionId, value };
+        });
         
         // Small delay to let MCP connection stabilize (simulates user thinking time)
         await new Promise(resolve => setTimeout(resolve, 500));
         
-        // Submit clarification response (exactly like build-workflow.ts)
-        result = await this.orchestrator.handleClarificationResponse(
-          sessionId,
-          result.pendingClarification.questionId,
-          response
-        );
+        // Submit clarification answers (exactly like build-workflow.ts)
+        result = await this.orchestrator.handleClarificationResponse(sessionId, answers);
       }
       
       const duration = Date.now() - startTime;
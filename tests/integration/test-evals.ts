@@ -0,0 +1,443 @@
+#!/usr/bin/env tsx
+
+/**
+ * Eval Harness Test
+ *
+ * Checks the offline eval harness: golden suite parsing, discovery
+ * precision/recall, expected connections and must-not-contain rules,
+ * clarification questions answered from the case, the run summary and its
+ * comparison to a baseline.
+ *
+ * Runs fully offline - the orchestrator and session store are fakes.
+ */
+
+import chalk from "chalk";
+import {
+  DEFAULT_EVAL_SUITE_PATH,
+  answerClarifications,
+  compareEvalSummaries,
+  findMissingConnections,
+  findViolations,
+  formatEvalReport,
+  loadEvalSuite,
+  parseEvalSuite,
+  runEvalCase,
+  runEvalSuite,
+  scoreDiscovery,
+  type EvalRunnerDeps,
+} from "@/lib/evals";
+import { createDefaultPromptRegistry } from "@/services/claude/prompts/registry";
+import { PROMPT_VERSIONS } from "@/services/claude/prompts/common";
+import type { PipelineResult } from "@/lib/workflow-orchestrator";
+import type { ClarificationQuestion, WorkflowSession } from "@/types/workflow";
+import type { EvalCase, EvalSuite } from "@/types/evals";
+import { check, reportChecks } from "./helpers/checks";
+
+function throws(run: () => unknown): string {
+  try {
+    run();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const WEBHOOK_TO_SLACK: EvalCase = {
+  id: "webhook-to-slack",
+  prompt: "Send webhook data to Slack",
+  expectedNodeTypes: ["nodes-base.webhook", "n8n-nodes-base.slack"],
+  expectedConnections: [{ from: "nodes-base.webhook", to: "nodes-base.slack" }],
+  mustNotContain: [{ nodeType: "nodes-base.gmail" }, { text: "xoxb-" }],
+};
+
+/**
+ * Webhook -> Set -> Slack, with a sticky note mentioning a token
+ */
+function slackWorkflow() {
+  return {
+    nodes: [
+      { name: "Webhook", type: "n8n-nodes-base.webhook" },
+      { name: "Shape", type: "n8n-nodes-base.set" },
+      { name: "Slack", type: "n8n-nodes-base.slack" },
+      { name: "Note", type: "n8n-nodes-base.stickyNote", parameters: { content: "Token looks like xoxb-..." } },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: "Shape", type: "main", index: 0 }]] },
+      Shape: { main: [[{ node: "Slack", type: "main", index: 0 }]] },
+    },
+  };
+}
+
+function testSuite() {
+  console.log(chalk.cyan("\n📄 Suite"));
+
+  const golden = loadEvalSuite(DEFAULT_EVAL_SUITE_PATH);
+  check("golden suite loads", golden.name === "golden-prompts" && golden.cases.length > 0);
+  check(
+    "case without expected nodes rejected",
+    throws(() =>
+      parseEvalSuite({ name: "s", version: "1", cases: [{ id: "a", prompt: "p", expectedNodeTypes: [] }] })
+    ).startsWith("Eval suite is invalid: cases.0.expectedNodeTypes")
+  );
+  check(
+    "duplicate case ids rejected",
+    throws(() =>
+      parseEvalSuite({
+        name: "s",
+        version: "1",
+        cases: [WEBHOOK_TO_SLACK, WEBHOOK_TO_SLACK],
+      })
+    ).includes('duplicate case id "webhook-to-slack"')
+  );
+  check(
+    "unknown rule rejected",
+    throws(() =>
+      parseEvalSuite({
+        name: "s",
+        version: "1",
+        cases: [{ ...WEBHOOK_TO_SLACK, mustNotContain: [{ node: "x" }] }],
+      })
+    ).includes("cases.0.mustNotContain.0")
+  );
+}
+
+function testScoring() {
+  console.log(chalk.cyan("\n🎯 Scoring"));
+
+  const exact = scoreDiscovery(WEBHOOK_TO_SLACK.expectedNodeTypes, ["n8n-nodes-base.webhook", "nodes-base.slack"]);
+  check("both node type forms match", exact.precision === 1 && exact.recall === 1, exact);
+
+  const partial = scoreDiscovery(WEBHOOK_TO_SLACK.expectedNodeTypes, [
+    "n8n-nodes-base.webhook",
+    "n8n-nodes-base.set",
+    "n8n-nodes-base.code",
+    "n8n-nodes-base.webhook",
+  ]);
+  check(
+    "precision and recall of a partial selection",
+    partial.precision === 1 / 3 &&
+      partial.recall === 0.5 &&
+      partial.missing.join() === "nodes-base.slack" &&
+      partial.unexpected.join() === "nodes-base.set,nodes-base.code",
+    partial
+  );
+  check("nothing selected scores zero", scoreDiscovery(["nodes-base.slack"], []).precision === 0);
+
+  const workflow = slackWorkflow();
+  check(
+    "connection through an intermediate node found",
+    findMissingConnections(WEBHOOK_TO_SLACK.expectedConnections!, workflow).length === 0
+  );
+  check(
+    "reversed connection missing",
+    findMissingConnections([{ from: "nodes-base.slack", to: "nodes-base.webhook" }], workflow).length === 1
+  );
+  check(
+    "connection to a node type not in the workflow missing",
+    findMissingConnections([{ from: "nodes-base.webhook", to: "nodes-base.gmail" }], workflow).length === 1
+  );
+
+  check("sticky notes ignored by text rules", findViolations(WEBHOOK_TO_SLACK.mustNotContain!, workflow).length === 0);
+  const violations = findViolations(
+    [{ nodeType: "nodes-base.set" }, { text: "SLACK" }, { text: "DROP TABLE" }],
+    workflow
+  );
+  check(
+    "node type and text rules reported",
+    violations.join("|") === 'contains nodes-base.set node(s): Shape|contains "SLACK"',
+    violations
+  );
+}
+
+function testClarificationAnswers() {
+  console.log(chalk.cyan("\n❓ Clarification answers"));
+
+  const questions: ClarificationQuestion[] = [
+    {
+      questionId: "q_service",
+      question: "Which chat app?",
+      answerType: "single_choice",
+      options: [
+        { label: "Slack", value: "slack" },
+        { label: "Microsoft Teams", value: "teams" },
+      ],
+      required: true,
+    },
+    {
+      questionId: "q_events",
+      question: "Which events?",
+      answerType: "multi_choice",
+      options: [
+        { label: "Created", value: "created" },
+        { label: "Closed", value: "closed" },
+      ],
+      required: true,
+    },
+    { questionId: "q_channel", question: "Which channel?", answerType: "free_text", required: true },
+  ];
+
+  const remaining = ["Microsoft Teams", "created, Closed", "#alerts", "extra"];
+  const round = answerClarifications(questions, remaining);
+  check(
+    "options matched by label or value, text kept",
+    JSON.stringify(round.answers.map((answer) => answer.value)) === '["teams",["created","closed"],"#alerts"]',
+    round.answers
+  );
+  check("answers consumed in order", remaining.join() === "extra");
+
+  const short = answerClarifications(questions, ["slack"]);
+  check(
+    "questions without an answer reported",
+    short.unanswered.join("|") === "Which events?|Which channel?",
+    short.unanswered
+  );
+}
+
+/**
+ * Orchestrator that plays back pipeline results, over sessions that start
+ * out as a finished webhook -> Slack build
+ */
+function fakeDeps(script: {
+  pipeline: PipelineResult[];
+  clarification?: { phase: "discovery" | "configuration"; pendingClarifications?: ClarificationQuestion[] };
+  throwOn?: string;
+}) {
+  const sessions = new Map<string, WorkflowSession>();
+  const calls: string[] = [];
+  let clock = 0;
+
+  const deps: EvalRunnerDeps = {
+    sessionRepo: {
+      async reset(sessionId, prompt) {
+        sessions.set(sessionId, {
+          sessionId,
+          createdAt: new Date(),
+          state: {
+            phase: "discovery",
+            userPrompt: prompt,
+            discovered: [
+              { id: "n1", type: "nodes-base.webhook", purpose: "Receive" },
+              { id: "n2", type: "nodes-base.slack", purpose: "Post" },
+              { id: "n3", type: "nodes-base.gmail", purpose: "Unused" },
+            ],
+            selected: ["n1", "n2"],
+            configured: new Map(),
+            validated: new Map(),
+            workflow: slackWorkflow() as any,
+            operationHistory: [],
+            pendingClarifications: [],
+            clarificationHistory: [],
+            validationReport: { initial: {}, fixesApplied: [], final: {}, attempts: 2 },
+            tokenUsage: {
+              byPhase: { discovery: 1200, building: 800 },
+              byCalls: [
+                {
+                  phase: "discovery",
+                  method: "analyzeIntent",
+                  tokens: 1200,
+                  inputTokens: 1000,
+                  outputTokens: 200,
+                  model: "claude-sonnet-4-20250514",
+                },
+                { phase: "building", method: "build", tokens: 800 },
+              ],
+              total: 2000,
+            },
+          },
+        });
+      },
+      async load(sessionId) {
+        return sessions.get(sessionId) || null;
+      },
+    },
+    orchestrator: {
+      async runPipelineFrom(sessionId, startPhase) {
+        calls.push(`pipeline:${startPhase}`);
+        if (script.throwOn === startPhase) throw new Error("MCP server unreachable");
+        return script.pipeline.shift()!;
+      },
+      async handleClarificationResponse(sessionId, answers) {
+        calls.push(`answer:${answers.map((answer) => answer.value).join()}`);
+        return {
+          success: true,
+          operations: [],
+          phase: script.clarification!.phase,
+          discoveredNodes: [],
+          selectedNodeIds: [],
+          pendingClarifications: script.clarification!.pendingClarifications,
+        };
+      },
+    },
+    promptRegistry: createDefaultPromptRegistry(),
+    now: () => new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)),
+  };
+  return { deps, calls, sessions };
+}
+
+const COMPLETE: PipelineResult = {
+  success: true,
+  startPhase: "discovery",
+  completedPhases: ["discovery", "configuration", "building", "validation", "documentation"],
+};
+
+const CHANNEL_QUESTION: ClarificationQuestion = {
+  questionId: "q_channel",
+  question: "Which Slack channel?",
+  answerType: "free_text",
+  required: true,
+};
+
+async function testRunner() {
+  console.log(chalk.cyan("\n🏃 Runner"));
+
+  const passing = fakeDeps({ pipeline: [{ ...COMPLETE }] });
+  const result = await runEvalCase(WEBHOOK_TO_SLACK, "eval_a", passing.deps);
+  check(
+    "complete workflow passes",
+    result.passed &&
+      result.validationPassed &&
+      result.validationAttempts === 2 &&
+      result.discovery.precision === 1 &&
+      result.durationMs === 1000,
+    result
+  );
+  check(
+    "tokens, cost and models from the session",
+    result.tokens === 2000 &&
+      result.costUsd > 0 &&
+      result.models.join() === "claude-sonnet-4-20250514" &&
+      result.promptVersions.discovery === PROMPT_VERSIONS.discovery,
+    result
+  );
+
+  const failedValidation = fakeDeps({
+    pipeline: [{ ...COMPLETE, completedPhases: ["discovery", "configuration", "building", "documentation"] }],
+  });
+  const invalid = await runEvalCase(WEBHOOK_TO_SLACK, "eval_b", failedValidation.deps);
+  check("workflow that failed validation fails", !invalid.passed && !invalid.validationPassed);
+
+  const clarified = fakeDeps({
+    pipeline: [
+      {
+        success: true,
+        startPhase: "discovery",
+        completedPhases: ["discovery", "configuration"],
+        pendingClarifications: [CHANNEL_QUESTION],
+      },
+      { ...COMPLETE, startPhase: "building", completedPhases: ["building", "validation", "documentation"] },
+    ],
+    clarification: { phase: "configuration" },
+  });
+  const answered = await runEvalCase({ ...WEBHOOK_TO_SLACK, answers: ["#alerts"] }, "eval_c", clarified.deps);
+  check(
+    "configuration question answered and pipeline resumed from building",
+    answered.passed && clarified.calls.join() === "pipeline:discovery,answer:#alerts,pipeline:building",
+    clarified.calls
+  );
+
+  const unanswered = fakeDeps({
+    pipeline: [
+      { success: true, startPhase: "discovery", completedPhases: ["discovery"], pendingClarifications: [CHANNEL_QUESTION] },
+    ],
+  });
+  const stopped = await runEvalCase(WEBHOOK_TO_SLACK, "eval_d", unanswered.deps);
+  check(
+    "case without answers stops at the question",
+    !stopped.passed && stopped.unansweredClarifications?.join() === "Which Slack channel?",
+    stopped
+  );
+
+  const crashing = fakeDeps({ pipeline: [], throwOn: "discovery" });
+  const crashed = await runEvalCase(WEBHOOK_TO_SLACK, "eval_e", crashing.deps);
+  check("errors fail the case", !crashed.passed && crashed.error === "MCP server unreachable", crashed);
+
+  const suite: EvalSuite = {
+    name: "golden",
+    version: "1.0.0",
+    cases: [WEBHOOK_TO_SLACK, { ...WEBHOOK_TO_SLACK, id: "webhook-to-gmail", expectedNodeTypes: ["nodes-base.gmail"] }],
+  };
+  const run = fakeDeps({ pipeline: [{ ...COMPLETE }, { ...COMPLETE }] });
+  const summary = await runEvalSuite(suite, run.deps);
+  check(
+    "session IDs stable per case",
+    Array.from(run.sessions.keys()).join() === "eval_golden_webhook-to-slack,eval_golden_webhook-to-gmail",
+    Array.from(run.sessions.keys())
+  );
+  check(
+    "suite summarized",
+    summary.metrics.cases === 2 &&
+      summary.metrics.passed === 1 &&
+      summary.metrics.passRate === 0.5 &&
+      summary.metrics.discoveryRecall === 0.5 &&
+      summary.metrics.totalTokens === 4000 &&
+      summary.promptVersions.building?.join() === PROMPT_VERSIONS.building,
+    summary.metrics
+  );
+  check(
+    "unknown case rejected",
+    await runEvalSuite(suite, run.deps, { caseIds: ["nope"] }).then(
+      () => false,
+      (error) => error.message === "Unknown eval case(s) in golden: nope"
+    )
+  );
+}
+
+async function testComparison() {
+  console.log(chalk.cyan("\n📊 Comparison"));
+
+  const suite: EvalSuite = { name: "golden", version: "1.0.0", cases: [WEBHOOK_TO_SLACK] };
+  const baseline = await runEvalSuite(suite, fakeDeps({ pipeline: [{ ...COMPLETE }] }).deps);
+  const same = await runEvalSuite(suite, fakeDeps({ pipeline: [{ ...COMPLETE }] }).deps);
+  check("same results don't regress", compareEvalSummaries(baseline, same).regressions.length === 0);
+
+  const worse = await runEvalSuite(
+    suite,
+    fakeDeps({ pipeline: [{ ...COMPLETE, completedPhases: ["discovery", "configuration", "building"] }] }).deps
+  );
+  const comparison = compareEvalSummaries(baseline, worse);
+  check(
+    "dropped pass rate and failing case reported",
+    comparison.comparable &&
+      comparison.regressions.map((r) => r.caseId ?? r.metric).join() === "passRate,validationPassRate,webhook-to-slack" &&
+      comparison.changes.passRate === -1,
+    comparison.regressions
+  );
+
+  const moreTokens = { ...same, metrics: { ...same.metrics, avgTokens: same.metrics.avgTokens * 1.5 } };
+  check(
+    "token increase beyond tolerance reported",
+    compareEvalSummaries(baseline, moreTokens).regressions.map((r) => r.metric).join() === "avgTokens"
+  );
+
+  const bumped = { ...worse, suiteVersion: "1.1.0" };
+  const other = compareEvalSummaries(baseline, bumped);
+  check("other suite version not compared", !other.comparable && other.regressions.length === 0);
+
+  const report = formatEvalReport(worse, comparison);
+  check(
+    "scorecard lists regressions and cases",
+    report.startsWith("# Eval: golden v1.0.0") &&
+      report.includes("- webhook-to-slack passed in the baseline and fails now") &&
+      report.includes("| webhook-to-slack | ❌ |") &&
+      report.includes("| passRate | 0.0% | -100.0% |"),
+    report
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 EVAL HARNESS TEST"));
+  console.log("====================");
+
+  testSuite();
+  testScoring();
+  testClarificationAnswers();
+  await testRunner();
+  await testComparison();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,525 @@
+#!/usr/bin/env tsx
+
+/**
+ * Fork and Resume Test
+ *
+ * Checks SessionManager.forkSession (fork points, ownership, rerunning
+ * discovery on a fork), WorkflowOrchestrator.runPipelineFrom, which
+ * create, clarify, fork, resume, import and edit all run phases through,
+ * the session owner check of the session routes, the resume and edit
+ * routes, and concurrent writes of a session's state.
+ *
+ * Runs fully offline - Supabase is a fake table, phases are stubs.
+ */
+
+import chalk from "chalk";
+import {
+  SessionAccessError,
+  SessionManager,
+  sessionManager,
+} from "@/lib/services/session-manager";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+} from "@/lib/services/session-state-reducer";
+import { WorkflowOrchestrator } from "@/lib/workflow-orchestrator";
+import { cancellationRegistry } from "@/lib/utils/cancellation";
+import { authorizeSessionOwner, requestAuth } from "@/lib/auth";
+import { POST as resume } from "@/app/api/workflow/[sessionId]/resume/route";
+import { POST as cancel } from "@/app/api/workflow/[sessionId]/cancel/route";
+import { POST as edit } from "@/app/api/workflow/[sessionId]/edit/route";
+import { GET as listDeployments } from "@/app/api/workflow/[sessionId]/deploy/route";
+import type { WorkflowOperation, WorkflowPhase } from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+/**
+ * Read a column or JSON path (state->metadata->lastError->>timestamp) of a row
+ */
+function columnValue(row: any, column: string): unknown {
+  return column.split(/->>?/).reduce((value, key) => value?.[key], row);
+}
+
+/**
+ * A workflow_sessions table with the query shapes SessionManager uses
+ */
+function fakeSupabase(rows: Map<string, any>) {
+  return {
+    from() {
+      const filters: Array<[string, unknown]> = [];
+      let write: { insert?: any; update?: any } = {};
+
+      const run = () => {
+        if (write.insert) {
+          const row = { ...write.insert, created_at: new Date().toISOString() };
+          rows.set(row.session_id, row);
+          return [row];
+        }
+        const matches = Array.from(rows.values()).filter((row) =>
+          filters.every(([column, value]) => columnValue(row, column) === value)
+        );
+        if (write.update) {
+          for (const row of matches) {
+            // Stored as JSON, like the jsonb column
+            rows.set(row.session_id, JSON.parse(JSON.stringify({ ...row, ...write.update })));
+          }
+        }
+        return matches.map((row) => JSON.parse(JSON.stringify(rows.get(row.session_id))));
+      };
+
+      const query: any = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        insert: (row: any) => {
+          write = { insert: row };
+          return query;
+        },
+        update: (patch: any) => {
+          write = { update: patch };
+          return query;
+        },
+        single: async () => {
+          const [row] = run();
+          return row
+            ? { data: row, error: null }
+            : { data: null, error: { code: "PGRST116", message: "No rows" } };
+        },
+        then: (resolve: (result: unknown) => unknown, reject?: (error: unknown) => unknown) =>
+          Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+      };
+      return query;
+    },
+  };
+}
+
+const DISCOVERY: WorkflowOperation[] = [
+  {
+    type: "discoverNode",
+    node: { id: "webhook_1", type: "n8n-nodes-base.webhook", purpose: "Receive alerts" },
+  },
+  { type: "selectNode", nodeId: "webhook_1" },
+  {
+    type: "discoverNode",
+    node: { id: "slack_1", type: "n8n-nodes-base.slack", purpose: "Post to #alerts" },
+  },
+  { type: "selectNode", nodeId: "slack_1" },
+];
+
+const HISTORY: WorkflowOperation[] = [
+  ...DISCOVERY,
+  { type: "setPhase", phase: "configuration" },
+  {
+    type: "configureNode",
+    nodeId: "slack_1",
+    nodeType: "n8n-nodes-base.slack",
+    config: { channel: "#alerts" },
+  },
+  { type: "setPhase", phase: "building" },
+];
+
+function sourceRow(sessionId: string, userId: string) {
+  const prompt = "Send webhook alerts to Slack";
+  return {
+    session_id: sessionId,
+    user_id: userId,
+    user_prompt: prompt,
+    created_at: new Date().toISOString(),
+    state: applyOperationsToState(createInitialSessionState(prompt), HISTORY),
+  };
+}
+
+async function testForkSession() {
+  console.log(chalk.cyan("\n🍴 Forking sessions"));
+
+  const rows = new Map<string, any>([["wf_source", sourceRow("wf_source", "user_a")]]);
+  const manager = new SessionManager();
+  (manager as any).supabase = fakeSupabase(rows);
+
+  const atConfiguration = await manager.forkSession("wf_source", "wf_fork_1", {
+    phase: "configuration",
+    userId: "user_a",
+  });
+  const forked = rows.get("wf_fork_1");
+  check(
+    "fork at a phase replays to its start",
+    atConfiguration?.operationIndex === DISCOVERY.length &&
+      atConfiguration.resumePhase === "configuration" &&
+      forked.state.discovered.length === 2 &&
+      Object.keys(forked.state.configured).length === 0,
+    { operationIndex: atConfiguration?.operationIndex, resumePhase: atConfiguration?.resumePhase }
+  );
+  check(
+    "fork records its parent and owner",
+    forked.user_id === "user_a" &&
+      forked.state.metadata.forkedFrom.sessionId === "wf_source" &&
+      forked.operations.length === DISCOVERY.length
+  );
+
+  const denied = await manager
+    .forkSession("wf_source", "wf_fork_2", { userId: "user_b" })
+    .catch((error) => error);
+  check(
+    "other users can't fork the session",
+    denied instanceof SessionAccessError && !rows.has("wf_fork_2"),
+    String(denied)
+  );
+
+  check(
+    "unknown session not forked",
+    (await manager.forkSession("wf_missing", "wf_fork_3", { userId: "user_a" })) === null
+  );
+
+  const unreached = await manager
+    .forkSession("wf_source", "wf_fork_4", { phase: "documentation", userId: "user_a" })
+    .catch((error) => error);
+  check("unreached phase rejected", unreached instanceof RangeError, String(unreached));
+
+  // A fork inside discovery reruns discovery on the nodes found so far
+  const midDiscovery = await manager.forkSession("wf_source", "wf_fork_5", {
+    atOperation: 3,
+    userId: "user_a",
+  });
+  const rerun = applyOperationsToState(rows.get("wf_fork_5").state, DISCOVERY);
+  check(
+    "rerunning discovery on a fork doesn't duplicate nodes",
+    midDiscovery?.resumePhase === "discovery" &&
+      rerun.discovered.map((node) => node.id).join() === "webhook_1,slack_1" &&
+      rerun.selected.join() === "webhook_1,slack_1",
+    rerun.discovered
+  );
+}
+
+/**
+ * An orchestrator whose phases are stubs recording the order they ran in
+ */
+function stubbedOrchestrator(
+  outcomes: Partial<Record<WorkflowPhase, () => Promise<any>>> = {}
+) {
+  const ran: WorkflowPhase[] = [];
+  const orchestrator = new WorkflowOrchestrator({
+    mcpClient: {} as any,
+    sessionRepo: {
+      load: async () => ({ state: { userPrompt: "Send webhook alerts to Slack" } }),
+    } as any,
+  });
+  const phase = (name: WorkflowPhase, result: any) => async () => {
+    ran.push(name);
+    return (await outcomes[name]?.()) ?? result;
+  };
+
+  Object.assign(orchestrator, {
+    runDiscoveryPhase: phase("discovery", { success: true, selectedNodeIds: ["slack_1"] }),
+    runConfigurationPhase: phase("configuration", { success: true }),
+    runBuildingPhase: phase("building", { success: true }),
+    runValidationPhase: phase("validation", { success: true }),
+    runDocumentationPhase: phase("documentation", { success: true }),
+  });
+  return { orchestrator, ran };
+}
+
+async function testRunPipelineFrom() {
+  console.log(chalk.cyan("\n🏃 Running the pipeline from a phase"));
+
+  const full = stubbedOrchestrator();
+  const complete = await full.orchestrator.runPipelineFrom("wf_pipeline_1", "discovery");
+  check(
+    "runs every phase from discovery",
+    complete.success && full.ran.join() === "discovery,configuration,building,validation,documentation" &&
+      complete.completedPhases.length === 5,
+    full.ran
+  );
+
+  const later = stubbedOrchestrator();
+  await later.orchestrator.runPipelineFrom("wf_pipeline_2", "validation");
+  check("earlier phases not rerun", later.ran.join() === "validation,documentation", later.ran);
+
+  const failing = stubbedOrchestrator({
+    configuration: async () => ({ success: false, error: { code: "CONFIG_FAILED", message: "No config" } }),
+  });
+  const stopped = await failing.orchestrator.runPipelineFrom("wf_pipeline_3", "configuration");
+  check(
+    "stops at a failed configuration",
+    !stopped.success &&
+      stopped.failedPhase === "configuration" &&
+      stopped.error?.code === "CONFIG_FAILED" &&
+      failing.ran.join() === "configuration",
+    failing.ran
+  );
+
+  const asking = stubbedOrchestrator({
+    configuration: async () => ({ success: true, pendingClarifications: [{ id: "q1" }] }),
+  });
+  const waiting = await asking.orchestrator.runPipelineFrom("wf_pipeline_4", "configuration");
+  check(
+    "waits for configuration clarifications",
+    waiting.success && waiting.pendingClarifications?.length === 1 && asking.ran.join() === "configuration"
+  );
+
+  const clarifying = stubbedOrchestrator({
+    discovery: async () => ({ success: true, selectedNodeIds: [], pendingClarifications: [{ id: "q1" }] }),
+  });
+  const clarification = await clarifying.orchestrator.runPipelineFrom("wf_pipeline_5", "discovery");
+  check(
+    "waits for discovery clarifications",
+    clarification.success &&
+      clarification.completedPhases.join() === "discovery" &&
+      clarifying.ran.join() === "discovery"
+  );
+
+  const invalid = stubbedOrchestrator({
+    validation: async () => {
+      throw new Error("Validation phase timeout");
+    },
+  });
+  const documented = await invalid.orchestrator.runPipelineFrom("wf_pipeline_6", "building");
+  check(
+    "documents the workflow when validation fails",
+    documented.success &&
+      invalid.ran.join() === "building,validation,documentation" &&
+      documented.completedPhases.join() === "building,documentation",
+    documented
+  );
+
+  const cancelling = stubbedOrchestrator({
+    building: async () => {
+      cancellationRegistry.cancel("wf_pipeline_7");
+      return { success: false };
+    },
+  });
+  const cancelled = await cancelling.orchestrator.runPipelineFrom("wf_pipeline_7", "building");
+  check(
+    "stops when the session is cancelled",
+    !cancelled.success && cancelled.cancelled === true && cancelling.ran.join() === "building",
+    cancelled
+  );
+  cancellationRegistry.reset("wf_pipeline_7");
+}
+
+/**
+ * Sign a user in for the routes, or out with null
+ */
+function signIn(userId: string | null) {
+  requestAuth.getUser = async () => (userId ? ({ id: userId } as any) : null);
+}
+
+async function testSessionAccess() {
+  console.log(chalk.cyan("\n🔐 Session access"));
+
+  const rows = new Map<string, any>([["wf_owned", sourceRow("wf_owned", "user_a")]]);
+  (sessionManager as any).supabase = fakeSupabase(rows);
+  const status = async (sessionId: string) => (await authorizeSessionOwner(sessionId)).response?.status;
+
+  signIn(null);
+  check("signed out gets 401", (await status("wf_owned")) === 401);
+
+  signIn("user_b");
+  check("other user gets 403", (await status("wf_owned")) === 403);
+  check("unknown session gets 404", (await status("wf_nope")) === 404);
+
+  signIn("user_a");
+  const access = await authorizeSessionOwner("wf_owned");
+  check("owner allowed", !access.response && access.user?.id === "user_a");
+
+  signIn("user_b");
+  const listed = await listDeployments(new Request("http://localhost/api/workflow/wf_owned/deploy"), {
+    params: { sessionId: "wf_owned" },
+  });
+  check("deployments hidden from other users", listed.status === 403, await listed.json());
+
+  const cancelled = await cancel(
+    new Request("http://localhost/api/workflow/wf_owned/cancel", { method: "POST", body: "{}" }),
+    { params: { sessionId: "wf_owned" } }
+  );
+  check(
+    "other users can't cancel the session",
+    cancelled.status === 403 && rows.get("wf_owned").state.phase === "building",
+    await cancelled.json()
+  );
+}
+
+async function testResume() {
+  console.log(chalk.cyan("\n🔁 Resuming sessions"));
+
+  const rows = new Map<string, any>();
+  (sessionManager as any).supabase = fakeSupabase(rows);
+  const resumed: Array<{ sessionId: string; phase: WorkflowPhase }> = [];
+  WorkflowOrchestrator.prototype.runPipelineFrom = async function (sessionId, startPhase) {
+    resumed.push({ sessionId, phase: startPhase });
+    return { success: true, startPhase, completedPhases: [] };
+  };
+
+  const post = async (sessionId: string, body: unknown = {}) => {
+    const response = await resume(
+      new Request(`http://localhost/api/workflow/${sessionId}/resume`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+      { params: { sessionId } }
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  // Building failed after it had moved the session on to validation
+  const failed = sourceRow("wf_failed", "user_a");
+  failed.state = applyOperationsToState(failed.state, [{ type: "setPhase", phase: "validation" }]);
+  failed.state.metadata = {
+    ...failed.state.metadata,
+    lastError: { message: "Claude API error", phase: "building", timestamp: "2026-10-18T10:00:00.000Z" },
+  };
+  rows.set("wf_failed", failed);
+
+  signIn(null);
+  check("signed out gets 401", (await post("wf_failed")).status === 401);
+  signIn("user_b");
+  check(
+    "other user gets 403",
+    (await post("wf_failed")).status === 403 && resumed.length === 0 &&
+      Boolean(rows.get("wf_failed").state.metadata.lastError)
+  );
+  signIn("user_a");
+
+  const [first, second] = await Promise.all([post("wf_failed"), post("wf_failed")]);
+  const [accepted, rejected] = first.status === 200 ? [first, second] : [second, first];
+  check(
+    "resumes from the phase that failed",
+    accepted.status === 200 &&
+      accepted.body.resumedFrom === "building" &&
+      resumed.length === 1 &&
+      resumed[0].phase === "building",
+    { first, second, resumed }
+  );
+  check(
+    "concurrent resume gets 409",
+    rejected.status === 409 && rejected.body.error === "Session is already being resumed",
+    rejected
+  );
+  check("failure cleared", !rows.get("wf_failed").state.metadata.lastError);
+
+  const again = await post("wf_failed");
+  check("resume without a failure gets 409", again.status === 409 && resumed.length === 1, again);
+
+  const cancelled = sourceRow("wf_cancelled", "user_a");
+  cancelled.state = applyOperationsToState(cancelled.state, [
+    { type: "cancelSession", fromPhase: "building", reason: "user" },
+  ]);
+  rows.set("wf_cancelled", cancelled);
+  const afterCancel = await post("wf_cancelled");
+  check(
+    "cancelled session resumes where it stopped",
+    afterCancel.status === 200 &&
+      afterCancel.body.resumedFrom === "building" &&
+      rows.get("wf_cancelled").state.phase === "building" &&
+      (await post("wf_cancelled")).status === 409,
+    afterCancel
+  );
+
+  const missing = await post("wf_missing");
+  check("unknown session gets 404", missing.status === 404);
+}
+
+async function testEdit() {
+  console.log(chalk.cyan("\n✏️ Editing sessions"));
+
+  const rows = new Map<string, any>();
+  (sessionManager as any).supabase = fakeSupabase(rows);
+  let editResult: any = { success: true, editOperations: 1, skippedOperations: 0 };
+  const edits: string[] = [];
+  WorkflowOrchestrator.prototype.runEditPhase = async function (sessionId) {
+    edits.push(sessionId);
+    return editResult;
+  };
+  WorkflowOrchestrator.prototype.runPipelineFrom = async function (_sessionId, startPhase) {
+    return { success: true, startPhase, completedPhases: [] };
+  };
+
+  const post = async (sessionId: string) => {
+    const response = await edit(
+      new Request(`http://localhost/api/workflow/${sessionId}/edit`, {
+        method: "POST",
+        body: JSON.stringify({ request: "Also post to Teams" }),
+      }),
+      { params: { sessionId } }
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  const completed = sourceRow("wf_completed", "user_a");
+  completed.state = applyOperationsToState(completed.state, [{ type: "setPhase", phase: "complete" }]);
+  rows.set("wf_completed", completed);
+
+  signIn(null);
+  check("signed out gets 401", (await post("wf_completed")).status === 401 && edits.length === 0);
+  signIn("user_b");
+  check("other user gets 403", (await post("wf_completed")).status === 403 && edits.length === 0);
+
+  signIn("user_a");
+  editResult = { success: false, error: { code: "NO_EDIT_OPERATIONS", userMessage: "No change" } };
+  const unapplied = await post("wf_completed");
+  check(
+    "failed edit leaves the session complete",
+    unapplied.status === 422 && rows.get("wf_completed").state.phase === "complete",
+    unapplied
+  );
+
+  editResult = { success: true, editOperations: 1, skippedOperations: 0 };
+  edits.length = 0;
+  const [first, second] = await Promise.all([post("wf_completed"), post("wf_completed")]);
+  const [accepted, rejected] = first.status === 200 ? [first, second] : [second, first];
+  check(
+    "only one of two concurrent edits runs",
+    accepted.status === 200 && rejected.status === 409 && edits.length === 1,
+    { first, second, edits }
+  );
+  check("session claimed for validation", rows.get("wf_completed").state.phase === "validation");
+}
+
+async function testConcurrentWrites() {
+  console.log(chalk.cyan("\n🧮 Concurrent state writes"));
+
+  const rows = new Map<string, any>([["wf_busy", sourceRow("wf_busy", "user_a")]]);
+  const manager = new SessionManager();
+  (manager as any).supabase = fakeSupabase(rows);
+
+  await Promise.all([
+    manager.recordTokenUsage("wf_busy", 100, "building", "generateWorkflow"),
+    manager.applyOperations("wf_busy", [{ type: "setPhase", phase: "validation" }]),
+    manager.recordTokenUsage("wf_busy", 50, "validation", "fixWorkflow"),
+  ]);
+
+  const state = rows.get("wf_busy").state;
+  check(
+    "token usage and operations both kept",
+    state.tokenUsage?.total === 150 &&
+      state.tokenUsage.byCalls.length === 2 &&
+      state.metadata.claudeTokensUsed === 150 &&
+      state.phase === "validation",
+    { tokenUsage: state.tokenUsage, phase: state.phase }
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 FORK AND RESUME TEST"));
+  console.log("=======================");
+
+  // The orchestrator creates its Supabase clients up front; none are used
+  process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || "test-service-key";
+  process.env.NEXT_PUBLIC_SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || "https://test.supabase.co";
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "test-key";
+  process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "sk-test";
+
+  await testForkSession();
+  await testRunPipelineFrom();
+  await testSessionAccess();
+  await testResume();
+  await testEdit();
+  await testConcurrentWrites();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,420 @@
+#!/usr/bin/env tsx
+
+/**
+ * LLM Providers Test
+ *
+ * Checks the OpenAI-compatible provider against the local mock chat
+ * completions server - prefill handling, usage reporting, the tool-use
+ * loop, retries and errors - and routing single phases to it through
+ * createPhaseServices and LLM_PHASE_PROVIDERS.
+ *
+ * Runs fully offline - the mock server listens on localhost.
+ */
+
+import chalk from "chalk";
+import {
+  createPhaseServices,
+  getPhaseProviderConfig,
+  OpenAICompatibleProvider,
+  ProviderError,
+  type CompletionParams,
+  type CompletionResult,
+  type LLMProvider,
+} from "@/services/claude";
+import { stripPrefill } from "@/services/claude/providers";
+import { startMockOpenAIServer } from "@/lib/mocks/openai-server";
+import type { ToolCall } from "@/types/tools";
+import type { TokenCallBreakdown } from "@/types/usage";
+import { check, reportChecks } from "./helpers/checks";
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+const request: CompletionParams = {
+  systemPrompt: "You write workflow documentation.",
+  userMessage: "Document the workflow.",
+  prefill: '{"operations":[',
+  maxTokens: 1000,
+  phase: "documentation",
+};
+
+/**
+ * Stands in for the shared Anthropic client of the phases that aren't
+ * routed elsewhere
+ */
+class RecordingProvider implements LLMProvider {
+  calls: CompletionParams[] = [];
+  budgetGuard?: () => Promise<void>;
+
+  async completeJSON(params: CompletionParams): Promise<CompletionResult> {
+    this.calls.push(params);
+    return { content: "", fullContent: params.prefill || "" };
+  }
+  setOnUsageCallback(): void {}
+  setContext(): void {}
+  setAbortSignal(): void {}
+  setBudgetGuard(guard?: () => Promise<void>): void {
+    this.budgetGuard = guard;
+  }
+  setToolExecutor(): void {}
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+function testPrefill() {
+  console.log(chalk.cyan("\n✂️ Prefill"));
+
+  check(
+    "echoed prefill removed",
+    stripPrefill('{"operations":[{"a":1}]}', '{"operations":[') === '{"a":1}]}'
+  );
+  check(
+    "whitespace and code fences ignored",
+    stripPrefill('```json\n{ "operations": [ {"a":1}]}\n```', '{"operations":[') ===
+      ' {"a":1}]}'
+  );
+  check(
+    "answer without the prefill kept as is",
+    stripPrefill('{"a":1}]}', '{"operations":[') === '{"a":1}]}'
+  );
+}
+
+async function testCompletion() {
+  console.log(chalk.cyan("\n💬 Completion"));
+
+  const server = await startMockOpenAIServer({
+    apiKey: "local-key",
+    model: "local-model",
+    replies: [
+      {
+        content: '{"operations":[],"reasoning":["nothing to add"]}',
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      },
+    ],
+  });
+
+  try {
+    const usage: Array<{ tokens: number; method?: string; breakdown?: TokenCallBreakdown }> = [];
+    const provider = new OpenAICompatibleProvider({
+      baseURL: `${server.url}/`,
+      model: "local-model",
+      apiKey: "local-key",
+      onUsageCallback: (tokens, method, breakdown) => usage.push({ tokens, method, breakdown }),
+    });
+    provider.setContext("documentation", "generateDocumentation");
+
+    const result = await provider.completeJSON(request);
+    const body = server.requests[0];
+
+    check(
+      "result continues the prefill",
+      result.fullContent === '{"operations":[],"reasoning":["nothing to add"]}' &&
+        result.content === '],"reasoning":["nothing to add"]}',
+      result
+    );
+    check(
+      "system prompt and prefill instruction sent",
+      body?.messages?.[0]?.role === "system" &&
+        body.messages[1]?.content.endsWith('starting with: {"operations":[') &&
+        body.messages.length === 2,
+      body?.messages
+    );
+    check(
+      "model and limits sent",
+      body?.model === "local-model" && body.max_tokens === 1000 && body.temperature === 0 && !body.tools,
+      body
+    );
+    check(
+      "usage returned",
+      result.usage?.promptTokens === 120 && result.usage.totalTokens === 150 && !result.usage.wasTruncated,
+      result.usage
+    );
+    check(
+      "usage reported with the model",
+      usage.length === 1 &&
+        usage[0].tokens === 150 &&
+        usage[0].method === "generateDocumentation" &&
+        usage[0].breakdown?.model === "local-model" &&
+        usage[0].breakdown.outputTokens === 30,
+      usage
+    );
+  } finally {
+    await server.close();
+  }
+}
+
+async function testTools() {
+  console.log(chalk.cyan("\n🔧 Tool-use loop"));
+
+  const server = await startMockOpenAIServer({
+    model: "local-model",
+    replies: [
+      {
+        toolCalls: [
+          { id: "call_1", name: "search_nodes", arguments: { query: "slack" } },
+          { id: "call_2", name: "get_node_info", arguments: { nodeType: "n8n-nodes-base.slack" } },
+        ],
+      },
+      { content: '{"operations":[]}' },
+    ],
+  });
+
+  try {
+    const executed: ToolCall[] = [];
+    const provider = new OpenAICompatibleProvider({ baseURL: server.url, model: "local-model" });
+    provider.setToolExecutor({
+      executeMultiple: async (calls: ToolCall[]) => {
+        executed.push(...calls);
+        return calls.map((call) => ({
+          type: "tool_result" as const,
+          tool_use_id: call.id,
+          content: `result of ${call.name}`,
+        }));
+      },
+    } as any);
+
+    const result = await provider.completeJSON({
+      ...request,
+      tools: [
+        {
+          name: "search_nodes",
+          description: "Search n8n nodes",
+          input_schema: { type: "object", properties: { query: { type: "string" } } },
+        },
+      ],
+    });
+    const [first, second] = server.requests;
+
+    check(
+      "tools sent as functions",
+      first?.tools?.[0]?.type === "function" &&
+        first.tools[0].function.name === "search_nodes" &&
+        first.tools[0].function.parameters.properties.query.type === "string" &&
+        first.tool_choice === "auto",
+      first?.tools
+    );
+    check(
+      "tool calls executed with parsed arguments",
+      executed.length === 2 &&
+        executed[0].type === "tool_use" &&
+        executed[0].input.query === "slack" &&
+        executed[1].id === "call_2",
+      executed
+    );
+    check(
+      "tool results sent back",
+      server.requests.length === 2 &&
+        second.messages.at(-3)?.tool_calls?.length === 2 &&
+        second.messages.at(-2)?.role === "tool" &&
+        second.messages.at(-2)?.tool_call_id === "call_1" &&
+        second.messages.at(-1)?.content === "result of get_node_info",
+      second?.messages
+    );
+    check("final answer returned", result.fullContent === '{"operations":[]}', result);
+  } finally {
+    await server.close();
+  }
+}
+
+async function testErrors() {
+  console.log(chalk.cyan("\n🚨 Errors and retries"));
+
+  const server = await startMockOpenAIServer({
+    apiKey: "local-key",
+    replies: [
+      { status: 503, message: "model is loading" },
+      { content: '{"operations":[]}' },
+      { status: 400, message: "max_tokens is too large" },
+    ],
+  });
+
+  try {
+    const provider = new OpenAICompatibleProvider({
+      baseURL: server.url,
+      model: "local-model",
+      apiKey: "local-key",
+    });
+
+    const retried = await provider.completeJSON(request);
+    check(
+      "server error retried",
+      server.requests.length === 2 && retried.fullContent === '{"operations":[]}'
+    );
+
+    const invalid = await rejection(provider.completeJSON(request));
+    check(
+      "bad request not retried",
+      invalid instanceof ProviderError &&
+        invalid.statusCode === 400 &&
+        !invalid.retryable &&
+        invalid.message.includes("max_tokens is too large") &&
+        server.requests.length === 3,
+      invalid instanceof Error ? invalid.message : invalid
+    );
+
+    const unauthorized = await rejection(
+      new OpenAICompatibleProvider({ baseURL: server.url, model: "local-model" }).completeJSON(request)
+    );
+    check(
+      "rejected API key is an auth error",
+      unauthorized instanceof ProviderError &&
+        unauthorized.errorCode === "auth_error" &&
+        server.requests.length === 3,
+      unauthorized instanceof Error ? unauthorized.message : unauthorized
+    );
+
+    provider.setBudgetGuard(async () => {
+      throw new Error("budget exceeded");
+    });
+    const guarded = await rejection(provider.completeJSON(request));
+    check(
+      "budget guard stops the request",
+      guarded instanceof Error && guarded.message === "budget exceeded" && server.requests.length === 3
+    );
+  } finally {
+    await server.close();
+  }
+
+  check(
+    "missing model rejected",
+    (() => {
+      try {
+        new OpenAICompatibleProvider({ baseURL: "http://localhost:1/v1", model: "" });
+        return false;
+      } catch (error) {
+        return error instanceof ProviderError && error.errorCode === "missing_model";
+      }
+    })()
+  );
+}
+
+function testConfig() {
+  console.log(chalk.cyan("\n⚙️ Phase provider config"));
+
+  check("unset config is empty", Object.keys(getPhaseProviderConfig("")).length === 0);
+
+  const config = getPhaseProviderConfig(
+    JSON.stringify({
+      documentation: { provider: "openai-compatible", baseURL: "http://localhost:11434/v1", model: "llama3.1" },
+      seo: { provider: "anthropic", model: "claude-3-haiku-20240307" },
+    })
+  );
+  check(
+    "phases parsed",
+    config.documentation?.provider === "openai-compatible" &&
+      config.documentation.model === "llama3.1" &&
+      config.seo?.provider === "anthropic",
+    config
+  );
+
+  const invalid = [
+    "{not json",
+    JSON.stringify({ deployment: { provider: "anthropic" } }),
+    JSON.stringify({ documentation: { provider: "gemini" } }),
+    JSON.stringify({ documentation: { provider: "openai-compatible", baseURL: "localhost" } }),
+  ].map((raw) => {
+    try {
+      getPhaseProviderConfig(raw);
+      return null;
+    } catch (error) {
+      return error;
+    }
+  });
+  check(
+    "invalid JSON, unknown phases, unknown providers and bad URLs rejected",
+    invalid.every(
+      (error) => error instanceof ProviderError && error.errorCode === "invalid_provider_config"
+    ),
+    invalid.map((error) => (error instanceof Error ? error.message : error))
+  );
+}
+
+async function testPhaseRouting() {
+  console.log(chalk.cyan("\n🧭 Phase routing"));
+
+  const server = await startMockOpenAIServer({
+    model: "local-model",
+    replies: [
+      {
+        content: JSON.stringify({
+          operations: [
+            {
+              type: "addStickyNote",
+              note: { id: "note_1", content: "## Trigger\nStarts the flow", nodeGroupIds: ["github_1"] },
+            },
+          ],
+          reasoning: ["Documented the trigger"],
+        }),
+      },
+    ],
+  });
+
+  try {
+    const shared = new RecordingProvider();
+    const services = createPhaseServices({
+      client: shared,
+      providers: {
+        documentation: { provider: "openai-compatible", baseURL: server.url, model: "local-model" },
+      },
+    });
+
+    const result = await services.documentation.execute(
+      {
+        userPrompt: "Post new GitHub issues to Slack",
+        workflow: { name: "Issues", nodes: [], connections: {} },
+        nodeMetadata: [{ id: "github_1", name: "GitHub Trigger", type: "n8n-nodes-base.githubTrigger" }],
+      },
+      { sessionId: "wf_providers", userIntent: "Post new GitHub issues to Slack" }
+    );
+
+    check(
+      "routed phase runs on its own provider",
+      result.success &&
+        server.requests.length === 1 &&
+        result.data?.operations[0]?.type === "addStickyNote" &&
+        shared.calls.length === 0,
+      result.error?.message
+    );
+
+    const guard = async () => {};
+    for (const service of Object.values(services)) service.setBudgetGuard(guard);
+    check("budget guard reaches the shared client", shared.budgetGuard === guard);
+
+    await services.edit.execute(
+      { userPrompt: "x", workflow: { name: "Issues", nodes: [], connections: {} }, request: "rename it" },
+      { sessionId: "wf_providers", userIntent: "rename it" }
+    );
+    check(
+      "other phases use the shared client",
+      shared.calls.length === 1 && shared.calls[0].phase === "edit" && server.requests.length === 1
+    );
+  } finally {
+    await server.close();
+  }
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 LLM PROVIDERS TEST"));
+  console.log("=====================");
+
+  testPrefill();
+  await testCompletion();
+  await testTools();
+  await testErrors();
+  testConfig();
+  await testPhaseRouting();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
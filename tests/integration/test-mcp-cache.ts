@@ -0,0 +1,266 @@
+#!/usr/bin/env tsx
+
+/**
+ * MCP Cache Test
+ *
+ * Checks the shared cache of MCP tool results: per-tool TTLs, uncached
+ * tools, error results, invalidation, hit/miss counts, the filesystem
+ * store shared between cache instances, a failing store falling back to
+ * live calls, an invalid configuration turning caching off, and MCPClient
+ * serving repeated node lookups from the cache of the server they came from.
+ *
+ * Runs fully offline - against the in-process mock MCP server.
+ */
+
+import chalk from "chalk";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileMCPCacheStore,
+  InMemoryMCPCacheStore,
+  MCPCache,
+  getMCPCache,
+  getMCPCacheTtls,
+  useMCPCache,
+  type MCPCacheStore,
+} from "@/lib/mcp-cache";
+import { MCPClient } from "@/lib/mcp-client";
+import { startMockMcpServer } from "@/lib/mocks/mcp-server";
+import { NodeContextService } from "@/lib/orchestrator/context/NodeContextService";
+import { TaskService } from "@/services/mcp/task-service";
+import { perfTracker } from "@/lib/utils/performance-tracker";
+import { check, reportChecks } from "./helpers/checks";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-cache-"));
+
+/**
+ * Live call that counts how often it ran
+ */
+function counter(result: unknown = { content: [{ type: "text", text: "{}" }] }) {
+  const live = async () => {
+    live.calls++;
+    return structuredClone(result);
+  };
+  live.calls = 0;
+  return live;
+}
+
+async function testCache() {
+  console.log(chalk.cyan("\n🗄️ Cache"));
+
+  let now = new Date("2026-01-01T00:00:00Z");
+  const cache = new MCPCache(
+    new InMemoryMCPCacheStore(),
+    { get_node_essentials: 3600, search_nodes: 60 },
+    () => now
+  );
+
+  const essentials = counter({ nodeType: "nodes-base.slack" });
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.slack" }, essentials);
+  const hit = await cache.fetch("get_node_essentials", { nodeType: "nodes-base.slack" }, essentials);
+  check("repeated call served from the cache", essentials.calls === 1 && (hit as any).nodeType === "nodes-base.slack");
+
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.gmail" }, essentials);
+  check("other arguments fetched", essentials.calls === 2);
+
+  const search = counter();
+  await cache.fetch("search_nodes", { query: "slack", limit: 5 }, search);
+  await cache.fetch("search_nodes", { limit: 5, query: "slack" }, search);
+  check("arguments matched regardless of key order", search.calls === 1);
+
+  now = new Date(now.getTime() + 120_000);
+  await cache.fetch("search_nodes", { query: "slack", limit: 5 }, search);
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.slack" }, essentials);
+  check("TTL per tool", search.calls === 2 && essentials.calls === 2);
+
+  const validate = counter();
+  await cache.fetch("validate_workflow", { workflow: {} }, validate);
+  await cache.fetch("validate_workflow", { workflow: {} }, validate);
+  check("tools without a TTL not cached", validate.calls === 2 && !cache.isCached("validate_workflow"));
+
+  const notFound = counter({ isError: true });
+  const cacheable = (result: any) => !result.isError;
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.nope" }, notFound, cacheable);
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.nope" }, notFound, cacheable);
+  check("error results not cached", notFound.calls === 2);
+
+  const stats = cache.stats();
+  check(
+    "hits and misses counted per tool",
+    stats.hits === 3 &&
+      stats.byTool.search_nodes?.hits === 1 &&
+      stats.byTool.search_nodes?.misses === 2 &&
+      !stats.byTool.validate_workflow,
+    stats
+  );
+  check(
+    "hits and misses counted in perfTracker",
+    perfTracker.getCount("MCP_Cache_Hit_get_node_essentials") === 2 &&
+      perfTracker.getCount("MCP_Cache_Miss_search_nodes") === 2
+  );
+
+  check("invalidate one tool", (await cache.invalidate("search_nodes")) === 1);
+  await cache.fetch("search_nodes", { query: "slack", limit: 5 }, search);
+  await cache.fetch("get_node_essentials", { nodeType: "nodes-base.gmail" }, essentials);
+  check("only that tool refetched", search.calls === 3 && essentials.calls === 2);
+  check("invalidate everything", (await cache.invalidate()) === 3);
+
+  const perServer = counter();
+  await cache.fetch("search_nodes", { query: "slack" }, perServer, undefined, "http://a/mcp#default");
+  await cache.fetch("search_nodes", { query: "slack" }, perServer, undefined, "http://b/mcp#default");
+  await cache.fetch("search_nodes", { query: "slack" }, perServer, undefined, "http://a/mcp#default");
+  check("results kept apart per server", perServer.calls === 2);
+}
+
+async function testFileStore() {
+  console.log(chalk.cyan("\n📁 Filesystem store"));
+
+  const cacheDir = path.join(dir, "mcp");
+  const live = counter({ nodeType: "nodes-base.code" });
+  await new MCPCache(new FileMCPCacheStore(cacheDir)).fetch("get_node_info", { nodeType: "nodes-base.code" }, live);
+
+  // A new cache, as another process would create
+  const other = new MCPCache(new FileMCPCacheStore(cacheDir));
+  const result = await other.fetch("get_node_info", { nodeType: "nodes-base.code" }, live);
+  check("shared between caches", live.calls === 1 && (result as any).nodeType === "nodes-base.code");
+
+  await other.fetch("search_nodes", { query: "code" }, counter());
+  check("invalidate one tool", (await other.invalidate("get_node_info")) === 1 && fs.readdirSync(cacheDir).length === 1);
+
+  const expired = new MCPCache(new FileMCPCacheStore(cacheDir), undefined, () => new Date(Date.now() + 2 * 3600_000));
+  const refetch = counter();
+  await expired.fetch("search_nodes", { query: "code" }, refetch);
+  check("expired entries refetched", refetch.calls === 1);
+}
+
+async function testFailingStore() {
+  console.log(chalk.cyan("\n💥 Failing store"));
+
+  const broken: MCPCacheStore = {
+    get: async () => {
+      throw new Error("relation mcp_cache does not exist");
+    },
+    set: async () => {
+      throw new Error("relation mcp_cache does not exist");
+    },
+    invalidate: async () => 0,
+  };
+  const live = counter({ nodeType: "nodes-base.if" });
+  const result = await new MCPCache(broken).fetch("get_node_info", { nodeType: "nodes-base.if" }, live);
+  check("call made live", live.calls === 1 && (result as any).nodeType === "nodes-base.if");
+}
+
+async function testConfig() {
+  console.log(chalk.cyan("\n⚙️ Configuration"));
+
+  const ttls = getMCPCacheTtls('{"search_nodes":600,"get_node_for_task":0}');
+  check(
+    "TTL overrides merged with defaults",
+    ttls.search_nodes === 600 && ttls.get_node_for_task === 0 && ttls.get_node_essentials === 86400
+  );
+
+  const invalid = (() => {
+    try {
+      getMCPCacheTtls('{"search_nodes":"long"}');
+      return null;
+    } catch (error) {
+      return error;
+    }
+  })();
+  check("invalid TTLs rejected", invalid instanceof Error);
+
+  const env = { MCP_CACHE: process.env.MCP_CACHE, MCP_CACHE_TTLS: process.env.MCP_CACHE_TTLS };
+  const cacheWith = (config: { MCP_CACHE?: string; MCP_CACHE_TTLS?: string }) => {
+    Object.assign(process.env, { MCP_CACHE: "memory", MCP_CACHE_TTLS: "", ...config });
+    useMCPCache(undefined);
+    return getMCPCache();
+  };
+  try {
+    check("invalid backend turns caching off", cacheWith({ MCP_CACHE: "redis" }) === null);
+    check("invalid TTLs turn caching off", cacheWith({ MCP_CACHE_TTLS: "{not json" }) === null);
+    check("valid configuration cached", cacheWith({ MCP_CACHE_TTLS: '{"search_nodes":60}' }) instanceof MCPCache);
+  } finally {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    useMCPCache(undefined);
+  }
+}
+
+async function testMcpClient() {
+  console.log(chalk.cyan("\n🔌 MCP client"));
+
+  const server = await startMockMcpServer();
+  const cache = new MCPCache(new InMemoryMCPCacheStore());
+  useMCPCache(cache);
+  const client = MCPClient.forProfile("mcp-cache", { serverUrl: server.url, apiKey: "" });
+  try {
+    const context = new NodeContextService(client);
+    const calls = (name: string) => server.calls.filter((call) => call.name === name).length;
+
+    // Two generations prefetching the same essentials
+    for (let run = 0; run < 2; run++) {
+      await Promise.all(["n8n-nodes-base.slack", "n8n-nodes-base.webhook"].map((type) => context.getNodeEssentials(type)));
+    }
+    check("essentials fetched once per node", calls("get_node_essentials") === 2, server.calls);
+
+    await context.validateWorkflow({ nodes: [], connections: {} });
+    await context.validateWorkflow({ nodes: [], connections: {} });
+    check("validation always live", calls("validate_workflow") === 2);
+
+    const tasks = new TaskService(client);
+    const first = await tasks.fetchTaskNodes(["send_slack_message"]);
+    const second = await tasks.fetchTaskNodes(["send_slack_message"]);
+    check(
+      "task templates cached",
+      calls("get_node_for_task") === 1 &&
+        JSON.stringify(first.successful[0].config) === JSON.stringify(second.successful[0].config),
+      second
+    );
+    await tasks.clearCache();
+    await tasks.fetchTaskNodes(["send_slack_message"]);
+    check("task cache cleared", calls("get_node_for_task") === 2);
+
+    // Another server may have another node catalog
+    const otherServer = await startMockMcpServer();
+    const otherClient = MCPClient.forProfile("mcp-cache-other", { serverUrl: otherServer.url, apiKey: "" });
+    try {
+      await new NodeContextService(otherClient).getNodeEssentials("n8n-nodes-base.slack");
+      check(
+        "other server not served from this server's cache",
+        otherServer.calls.filter((call) => call.name === "get_node_essentials").length === 1
+      );
+    } finally {
+      await otherClient.disconnect();
+      await otherServer.close();
+    }
+  } finally {
+    useMCPCache(undefined);
+    await client.disconnect();
+    await server.close();
+  }
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 MCP CACHE TEST"));
+  console.log("=================");
+
+  try {
+    await testCache();
+    await testFileStore();
+    await testFailingStore();
+    await testConfig();
+    await testMcpClient();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+#!/usr/bin/env tsx
+
+/**
+ * Mock MCP Server Test
+ *
+ * Connects the real MCPClient to the in-process n8n-mcp stand-in and checks
+ * that the services built on it - NodeContextService, TaskService,
+ * GapSearchService and ToolExecutor - get answers they can use: node
+ * search, essentials, task templates, input/output schemas and node and
+ * workflow validation.
+ *
+ * Runs fully offline - the server listens on a local port.
+ */
+
+import chalk from "chalk";
+import { MCPClient } from "@/lib/mcp-client";
+import { startMockMcpServer, type MockMcpServer } from "@/lib/mocks/mcp-server";
+import { NodeContextService } from "@/lib/orchestrator/context/NodeContextService";
+import { TaskService } from "@/services/mcp/task-service";
+import { GapSearchService } from "@/services/mcp/gap-search-service";
+import { ToolExecutor } from "@/services/claude/tool-executor";
+import { check, reportChecks } from "./helpers/checks";
+
+const workflow = {
+  name: "Webhook to Slack",
+  nodes: [
+    {
+      id: "1",
+      name: "Webhook",
+      type: "n8n-nodes-base.webhook",
+      typeVersion: 2,
+      position: [0, 0],
+      parameters: { httpMethod: "POST", path: "orders" },
+    },
+    {
+      id: "2",
+      name: "Slack",
+      type: "n8n-nodes-base.slack",
+      typeVersion: 2,
+      position: [200, 0],
+      parameters: { select: "channel", channelId: { mode: "name", value: "#orders" }, text: "={{ $json.id }}" },
+    },
+  ],
+  connections: {
+    Webhook: { main: [[{ node: "Slack", type: "main", index: 0 }]] },
+  },
+};
+
+async function testNodeContext(client: MCPClient) {
+  console.log(chalk.cyan("\n🔎 Node context"));
+  const context = new NodeContextService(client);
+
+  const found = await context.searchNodes("slack message");
+  check("search finds the node", found[0]?.nodeType === "nodes-base.slack", found);
+
+  const essentials = await context.getNodeEssentials("n8n-nodes-base.slack");
+  check(
+    "essentials for the workflow node type",
+    essentials?.nodeType === "nodes-base.slack" &&
+      essentials.requiredProperties.some((p: any) => p.name === "text"),
+    essentials
+  );
+  check("unknown node has no essentials", (await context.getNodeEssentials("n8n-nodes-base.nope")) === null);
+
+  const info = await context.getNodeInfo("@n8n/n8n-nodes-langchain.agent");
+  check("info for a scoped package node", info?.displayName === "AI Agent", info);
+
+  const docs = await context.getNodeDocumentation("nodes-base.gmail");
+  check("documentation as markdown", !!docs?.startsWith("# Gmail"), docs);
+
+  const properties = await context.searchNodeProperties("nodes-base.httpRequest", "authentication");
+  check("property search", properties?.matches?.[0]?.name === "authentication", properties);
+
+  const missing = await context.validateNodeConfig("n8n-nodes-base.gmail", {
+    parameters: { sendTo: "ops@example.com" },
+  });
+  check(
+    "missing required fields reported",
+    !missing.isValid &&
+      missing.validationErrors.join() === "Missing required field: subject,Missing required field: message",
+    missing
+  );
+
+  const valid = await context.validateNodeConfig("n8n-nodes-base.slack", workflow.nodes[1]);
+  check("complete node config valid", valid.isValid, valid);
+
+  const result = await context.validateWorkflow(workflow);
+  check("valid workflow", result.valid && result.errors.length === 0, result);
+
+  const broken = await context.validateWorkflow({
+    ...workflow,
+    nodes: [{ ...workflow.nodes[0], typeVersion: 1, parameters: {} }],
+  });
+  check(
+    "workflow errors and outdated versions reported",
+    !broken.valid &&
+      broken.errors.some((e: any) => e.node === "Webhook" && e.message.includes("'path'")) &&
+      broken.errors.some((e: any) => e.message.includes('non-existent node: "Slack"')) &&
+      broken.warnings.some((w: any) => w.message === "Outdated typeVersion: 1. Latest is 2"),
+    broken
+  );
+}
+
+async function testTasksAndGaps(client: MCPClient) {
+  console.log(chalk.cyan("\n📦 Tasks and gap search"));
+
+  const tasks = await new TaskService(client).fetchTaskNodes(["send_slack_message", "no_such_task"]);
+  check(
+    "known task template fetched",
+    tasks.successful.length === 1 &&
+      tasks.successful[0].nodeType === "nodes-base.slack" &&
+      tasks.successful[0].config.operation === "post",
+    tasks.successful
+  );
+  check("unknown task reported failed", tasks.failed.map((f) => f.taskName).join() === "no_such_task", tasks.failed);
+
+  const gaps = await new GapSearchService(client).searchForGaps([
+    { name: "spreadsheet", description: "Read rows", searchTerms: ["google sheets"] },
+  ]);
+  check(
+    "gap filled from search",
+    gaps.summary.found === 1 &&
+      gaps.results.spreadsheet?.nodes.some((n: any) => n.nodeType === "nodes-base.googleSheets"),
+    gaps
+  );
+}
+
+async function testToolExecutor(client: MCPClient) {
+  console.log(chalk.cyan("\n🔧 Tool executor"));
+  const executor = new ToolExecutor(client);
+
+  const [validation, docs] = await executor.executeMultiple([
+    { id: "t1", name: "validate_node_minimal", input: { nodeType: "nodes-base.slack", config: { select: "channel" } } },
+    { id: "t2", name: "get_node_documentation", input: { nodeType: "nodes-base.code" } },
+  ]);
+  check(
+    "validation tool result",
+    !validation.is_error && String(validation.content).includes('"missingRequiredFields"'),
+    validation
+  );
+  check("documentation tool result", !docs.is_error && String(docs.content).includes("# Code"), docs);
+
+  const [triggerInputs, ifInputs, ifOutputs, webhookOutputs] = await executor.executeMultiple([
+    { id: "t3", name: "get_input_schema", input: { nodeType: "n8n-nodes-base.webhook" } },
+    { id: "t4", name: "get_input_schema", input: { nodeType: "nodes-base.if" } },
+    { id: "t5", name: "get_output_schema", input: { nodeType: "nodes-base.if" } },
+    { id: "t6", name: "get_output_schema", input: { nodeType: "nodes-base.webhook" } },
+  ]);
+  const parse = (result: { content: unknown }) => JSON.parse(String(result.content));
+  check(
+    "input schemas: triggers take no input",
+    !triggerInputs.is_error &&
+      parse(triggerInputs).inputs.length === 0 &&
+      parse(ifInputs).inputs[0]?.type === "main",
+    [triggerInputs, ifInputs]
+  );
+  check(
+    "output schemas: named branches and item fields",
+    parse(ifOutputs).outputs.map((output: any) => output.name).join() === "true,false" &&
+      Object.keys(parse(webhookOutputs).itemSchema.properties).join() === "headers,params,query,body",
+    [ifOutputs, webhookOutputs]
+  );
+}
+
+async function testBuildingTools(client: MCPClient) {
+  console.log(chalk.cyan("\n🏗️  Building tools"));
+  const text = (result: any) => JSON.parse(result.content[0].text);
+
+  const generated = text(
+    await client.generateWorkflow(
+      [
+        { name: "Webhook", type: "nodes-base.webhook", parameters: { path: "orders" } },
+        { name: "Slack", type: "n8n-nodes-base.slack" },
+      ],
+      [{ from: "Webhook", to: "Slack" }]
+    )
+  ).workflow;
+  check(
+    "workflow generated from nodes and connections",
+    generated.nodes.map((node: any) => node.type).join() === "n8n-nodes-base.webhook,n8n-nodes-base.slack" &&
+      generated.connections.Webhook?.main[0][0].node === "Slack",
+    generated
+  );
+
+  const optimized = text(await client.optimizeWorkflow(generated));
+  check(
+    "optimize returns the workflow with suggestions",
+    optimized.workflow.nodes.length === 2 && Array.isArray(optimized.suggestions),
+    optimized
+  );
+}
+
+async function testApiKey() {
+  console.log(chalk.cyan("\n🔐 API key"));
+  const server = await startMockMcpServer({ apiKey: "local-key" });
+  try {
+    const wrong = MCPClient.forProfile("mock-wrong-key", { serverUrl: server.url, apiKey: "other" });
+    check("wrong api key rejected", !(await wrong.healthCheck()));
+    await wrong.disconnect();
+
+    const right = MCPClient.forProfile("mock-right-key", { serverUrl: server.url, apiKey: "local-key" });
+    check("matching api key accepted", await right.healthCheck());
+    await right.disconnect();
+  } finally {
+    await server.close();
+  }
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 MOCK MCP SERVER TEST"));
+  console.log("=======================");
+
+  let server: MockMcpServer | undefined;
+  let client: MCPClient | undefined;
+  try {
+    server = await startMockMcpServer();
+    client = MCPClient.forProfile("mock", { serverUrl: server.url, apiKey: "" });
+    await client.connect();
+
+    const tools = await client.listTools();
+    check(
+      "n8n-mcp tools listed",
+      [
+        "search_nodes",
+        "get_node_essentials",
+        "get_node_for_task",
+        "get_input_schema",
+        "get_output_schema",
+        "validate_node_operation",
+        "validate_workflow",
+        "generate_workflow",
+        "optimize_workflow",
+      ].every(
+        (name) => tools.tools.some((tool) => tool.name === name)
+      )
+    );
+
+    await testNodeContext(client);
+    await testTasksAndGaps(client);
+    await testToolExecutor(client);
+    await testBuildingTools(client);
+    check("calls recorded by the server", server.calls.some((call) => call.name === "get_node_for_task"));
+
+    await testApiKey();
+  } finally {
+    await client?.disconnect();
+    await server?.close();
+  }
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+#!/usr/bin/env tsx
+
+/**
+ * n8n API Deployment Test
+ *
+ * Checks the n8n REST API client against the local mock n8n server - workflow
+ * create/update/get, activation, credential pagination and API errors - and
+ * deploying a session through WorkflowDeployer with the REST API target.
+ *
+ * Runs fully offline - the mock server listens on localhost.
+ */
+
+import chalk from "chalk";
+import { N8nApiClient, N8nApiError } from "@/lib/n8n-api-client";
+import { startMockN8nServer, type MockN8nServer } from "@/lib/mocks/n8n-server";
+import {
+  DeploymentError,
+  InMemoryDeploymentStore,
+  N8nApiDeployTarget,
+  WorkflowDeployer,
+} from "@/lib/deployments";
+import type { WorkflowSession } from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+const API_KEY = "test-api-key";
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+function createSession(): WorkflowSession {
+  return {
+    sessionId: "wf_n8n_api",
+    createdAt: new Date("2026-03-15T09:00:00Z"),
+    state: {
+      phase: "complete",
+      userPrompt: "Post new GitHub issues to Slack",
+      discovered: [],
+      selected: [],
+      configured: new Map(),
+      validated: new Map(),
+      workflow: {
+        name: "GitHub to Slack",
+        nodes: [
+          {
+            id: "github",
+            name: "GitHub",
+            type: "n8n-nodes-base.github",
+            position: [0, 0],
+            parameters: {},
+          },
+        ],
+        connections: {},
+        settings: { name: "GitHub to Slack", executionOrder: "v1" },
+      } as any,
+      operationHistory: [],
+    },
+  };
+}
+
+async function testClient(server: MockN8nServer) {
+  console.log(chalk.cyan("\n🌐 n8n API client"));
+
+  const client = new N8nApiClient({ baseUrl: `${server.url}/api/v1/`, apiKey: API_KEY });
+  const input = { name: "Daily report", nodes: [], connections: {} };
+
+  const created = await client.createWorkflow(input);
+  check("workflow created with an ID", !!created.id && server.workflows.has(created.id));
+  check("new workflows start inactive", created.active === false);
+
+  const updated = await client.updateWorkflow(created.id, { ...input, name: "Weekly report" });
+  check("workflow updated in place", updated.id === created.id && updated.name === "Weekly report");
+  check("workflow read back", (await client.getWorkflow(created.id)).name === "Weekly report");
+
+  check("workflow activated", (await client.activateWorkflow(created.id)).active === true);
+  check("workflow deactivated", (await client.deactivateWorkflow(created.id)).active === false);
+
+  const credentials = await client.listCredentials();
+  check(
+    "credentials listed across pages",
+    credentials.map((c) => c.id).join(",") === "1,2,3",
+    credentials
+  );
+
+  let error = await rejection(client.getWorkflow("missing"));
+  check(
+    "missing workflow reported as not found",
+    error instanceof N8nApiError && error.isNotFound,
+    error instanceof Error ? error.message : error
+  );
+
+  error = await rejection(client.createWorkflow({ ...input, id: "1" } as any));
+  check("unknown properties rejected", error instanceof N8nApiError && error.status === 400);
+
+  const unauthorized = new N8nApiClient({ baseUrl: server.url, apiKey: "wrong" });
+  error = await rejection(unauthorized.listCredentials());
+  check("wrong API key rejected", error instanceof N8nApiError && error.status === 401);
+
+  const unreachable = new N8nApiClient({ baseUrl: "http://127.0.0.1:1", apiKey: API_KEY });
+  error = await rejection(unreachable.getWorkflow("1"));
+  check("network errors reported with status 0", error instanceof N8nApiError && error.status === 0);
+}
+
+async function testDeployer(server: MockN8nServer) {
+  console.log(chalk.cyan("\n🚀 Deploying through the REST API"));
+
+  const target = new N8nApiDeployTarget(new N8nApiClient({ baseUrl: server.url, apiKey: API_KEY }));
+  const deployer = new WorkflowDeployer(new InMemoryDeploymentStore(), () => target);
+  const session = createSession();
+
+  const first = await deployer.deploy(session, { profile: "n8n-api" });
+  const remote = server.workflows.get(first.deployment.remoteWorkflowId);
+  check("first deployment creates the workflow", first.deployment.action === "created" && !!remote);
+  check("workflow sent as generated", remote?.name === "GitHub to Slack" && remote.nodes.length === 1);
+
+  const second = await deployer.deploy(session, { profile: "n8n-api", name: "Issues to Slack" });
+  check(
+    "redeploy updates the same workflow",
+    second.deployment.action === "updated" &&
+      second.deployment.remoteWorkflowId === first.deployment.remoteWorkflowId &&
+      second.deployment.version === 2
+  );
+  check(
+    "updated name stored in n8n",
+    server.workflows.get(first.deployment.remoteWorkflowId)?.name === "Issues to Slack"
+  );
+
+  server.workflows.delete(first.deployment.remoteWorkflowId);
+  const third = await deployer.deploy(session, { profile: "n8n-api" });
+  check(
+    "workflow deleted in n8n is created again",
+    third.deployment.action === "created" &&
+      third.deployment.remoteWorkflowId !== first.deployment.remoteWorkflowId
+  );
+
+  const failing = new WorkflowDeployer(
+    new InMemoryDeploymentStore(),
+    () => new N8nApiDeployTarget(new N8nApiClient({ baseUrl: server.url, apiKey: "wrong" }))
+  );
+  const error = await rejection(failing.deploy(session, { profile: "n8n-api" }));
+  check(
+    "API errors surface as DEPLOY_FAILED",
+    error instanceof DeploymentError && error.code === "DEPLOY_FAILED",
+    error instanceof Error ? error.message : error
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 N8N API DEPLOYMENT TEST"));
+  console.log("==========================");
+
+  const server = await startMockN8nServer({
+    apiKey: API_KEY,
+    pageSize: 2,
+    credentials: [
+      { id: "1", name: "GitHub", type: "githubApi" },
+      { id: "2", name: "Slack", type: "slackApi" },
+      { id: "3", name: "Slack OAuth", type: "slackOAuth2Api" },
+    ],
+  });
+
+  try {
+    await testClient(server);
+    await testDeployer(server);
+  } finally {
+    await server.close();
+  }
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
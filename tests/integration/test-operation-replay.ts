@@ -0,0 +1,351 @@
+#!/usr/bin/env tsx
+
+/**
+ * Operation Replay Test
+ *
+ * Replays recorded operation histories through the shared session state
+ * reducer and checks that the rebuilt state matches what was recorded.
+ * Also exercises the validation/documentation delta operations
+ * (fields, connections, nodes, settings, sticky notes).
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import chalk from "chalk";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+  deserializeSessionState,
+  findPhaseStartIndex,
+  serializeSessionState,
+} from "@/lib/services/session-state-reducer";
+import type { WorkflowOperation } from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+const RECORDED_REPORT = path.join(
+  process.cwd(),
+  "tests/complete-test-outputs",
+  "report-user-test-2025-08-17T14-43-24-026Z.json"
+);
+
+/**
+ * JSON.stringify with sorted keys so property order doesn't matter
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+async function testRecordedHistory() {
+  console.log(chalk.cyan("\n📼 Replaying recorded operation history"));
+
+  const report = JSON.parse(await fs.readFile(RECORDED_REPORT, "utf-8"));
+  const recorded = report.phases.configuration.sessionState.state;
+  const history: WorkflowOperation[] = recorded.operationHistory;
+
+  const replayed = applyOperationsToState(
+    createInitialSessionState(recorded.userPrompt),
+    history
+  );
+
+  check("phase matches recorded state", replayed.phase === recorded.phase, {
+    replayed: replayed.phase,
+    recorded: recorded.phase,
+  });
+  check(
+    "discovered nodes match",
+    JSON.stringify(replayed.discovered) === JSON.stringify(recorded.discovered)
+  );
+  check(
+    "selected nodes match",
+    JSON.stringify(replayed.selected) === JSON.stringify(recorded.selected)
+  );
+  check(
+    "SEO metadata matches",
+    JSON.stringify(replayed.seo) === JSON.stringify(recorded.seo)
+  );
+  check(
+    "every selected node is configured",
+    recorded.selected.every((id: string) => replayed.configured[id])
+  );
+  check(
+    "operation count recorded in metadata",
+    replayed.metadata?.operationCount === history.length
+  );
+
+  // Replaying a prefix must reproduce the earlier recorded phase snapshot
+  const discoverySnapshot = report.phases.discovery.sessionState.state;
+  const prefix = applyOperationsToState(
+    createInitialSessionState(recorded.userPrompt),
+    history.slice(0, discoverySnapshot.operationHistory.length)
+  );
+  check(
+    "prefix replay matches discovery snapshot",
+    prefix.phase === discoverySnapshot.phase &&
+      JSON.stringify(prefix.selected) ===
+        JSON.stringify(discoverySnapshot.selected),
+    { replayed: prefix.phase, recorded: discoverySnapshot.phase }
+  );
+
+  // Forking at the start of configuration keeps discovery but nothing configured
+  const configStart = findPhaseStartIndex(history, "configuration");
+  const forked = applyOperationsToState(
+    createInitialSessionState(recorded.userPrompt),
+    history.slice(0, configStart)
+  );
+  check(
+    "phase fork point precedes configuration",
+    configStart > 0 &&
+      forked.discovered.length === recorded.discovered.length &&
+      Object.keys(forked.configured).length === 0,
+    { configStart }
+  );
+  check(
+    "unreached phase has no fork point",
+    findPhaseStartIndex(history, "documentation") === -1
+  );
+
+  // Replaying twice from scratch must give identical results
+  const again = applyOperationsToState(
+    createInitialSessionState(recorded.userPrompt),
+    history
+  );
+  check(
+    "replay is deterministic",
+    JSON.stringify(again) === JSON.stringify(replayed)
+  );
+}
+
+function testDeltaOperations() {
+  console.log(chalk.cyan("\n🔧 Applying delta operations"));
+
+  const initial = createInitialSessionState("Webhook to Slack");
+  initial.configured.slack_1 = {
+    nodeId: "slack_1",
+    nodeType: "n8n-nodes-base.slack",
+    parameters: { channel: "#general" },
+  };
+  initial.workflow = {
+    nodes: [
+      {
+        id: "webhook_1",
+        name: "Webhook",
+        type: "n8n-nodes-base.webhook",
+        position: [250, 300],
+        parameters: { path: "incoming" },
+      },
+      {
+        id: "slack_1",
+        name: "Send Slack",
+        type: "n8n-nodes-base.slack",
+        position: [500, 300],
+        parameters: { channel: "#general" },
+      },
+    ],
+    connections: {},
+    settings: { executionOrder: "v1" },
+  };
+  const snapshot = JSON.stringify(initial);
+
+  const state = applyOperationsToState(initial, [
+    { type: "addConnection", from: "Webhook", to: "slack_1" },
+    { type: "addConnection", from: "Webhook", to: "Send Slack" },
+    { type: "updateField", nodeId: "slack_1", field: "channel", value: "#alerts" },
+    { type: "addField", nodeId: "slack_1", field: "options.mrkdwn", value: true },
+    { type: "updateField", nodeId: "slack_1", field: "retryOnFail", value: true },
+    { type: "removeField", nodeId: "webhook_1", field: "path" },
+    {
+      type: "addNode",
+      node: { id: "set_1", name: "Format", type: "n8n-nodes-base.set" },
+    },
+    { type: "addConnection", from: "Send Slack", to: "Format" },
+    { type: "removeConnection", from: "Send Slack", to: "Format" },
+    { type: "updateWorkflowSettings", settings: { timezone: "UTC" } },
+    { type: "setWorkflowName", name: "Webhook Alerts" },
+    {
+      type: "addStickyNote",
+      note: { id: "note_1", content: "## Intake", nodeGroupIds: ["webhook_1"] },
+    },
+  ]);
+
+  const slack = state.workflow.nodes.find((n: any) => n.id === "slack_1");
+  const webhook = state.workflow.nodes.find((n: any) => n.id === "webhook_1");
+
+  check("input state is not mutated", JSON.stringify(initial) === snapshot);
+  check(
+    "connection added once, keyed by node name",
+    JSON.stringify(state.workflow.connections) ===
+      JSON.stringify({
+        Webhook: { main: [[{ node: "Send Slack", type: "main", index: 0 }]] },
+      }),
+    state.workflow.connections
+  );
+  check("parameter updated", slack.parameters.channel === "#alerts");
+  check("nested parameter added", slack.parameters.options?.mrkdwn === true);
+  check(
+    "node-level property placed on node",
+    slack.retryOnFail === true && !("retryOnFail" in slack.parameters)
+  );
+  check(
+    "configured snapshot kept in sync",
+    state.configured.slack_1.parameters.channel === "#alerts"
+  );
+  check("parameter removed", !("path" in webhook.parameters));
+  check(
+    "node added with position",
+    state.workflow.nodes.some(
+      (n: any) => n.id === "set_1" && Array.isArray(n.position)
+    )
+  );
+  check(
+    "workflow settings merged",
+    state.workflow.settings.executionOrder === "v1" &&
+      state.workflow.settings.timezone === "UTC"
+  );
+  check(
+    "workflow name set",
+    (state.workflow as any).name === "Webhook Alerts"
+  );
+  check(
+    "sticky note added as stickyNote node",
+    state.workflow.nodes.some(
+      (n: any) =>
+        n.id === "note_1" &&
+        n.type === "n8n-nodes-base.stickyNote" &&
+        n.parameters.content === "## Intake"
+    )
+  );
+
+  // In-memory (Map-based) state must round-trip to the same serialized form
+  const roundTripped = serializeSessionState(deserializeSessionState(state));
+  check(
+    "serialize/deserialize round-trip",
+    stableStringify(roundTripped) === stableStringify(state)
+  );
+}
+
+function testSessionOperations() {
+  console.log(chalk.cyan("\n🧩 Applying session-specific operations"));
+
+  const initial = createInitialSessionState("Schedule to Sheets");
+  initial.discovered = [
+    {
+      id: "sheets_1",
+      type: "n8n-nodes-base.googleSheets",
+      purpose: "Append rows",
+      displayName: "Append to Sheet",
+      category: "output",
+    },
+  ];
+
+  const state = applyOperationsToState(initial, [
+    { type: "updateNodeConfig", nodeId: "sheets_1", path: "operation", value: "append" },
+    { type: "updateNodeConfig", nodeId: "sheets_1", path: "options.range", value: "A:C" },
+    { type: "addToWorkflow", nodeId: "sheets_1", position: [600, 300] },
+    {
+      type: "addValidationError",
+      nodeId: "sheets_1",
+      error: { nodeId: "sheets_1", field: "sheetId", message: "Missing sheet", severity: "error" },
+    },
+    {
+      type: "validationHistory",
+      nodeId: "sheets_1",
+      nodeType: "n8n-nodes-base.googleSheets",
+      history: [],
+      finalValid: false,
+      totalAttempts: 1,
+    },
+    {
+      type: "setValidationReport",
+      report: {
+        initial: null,
+        final: null,
+        attempts: 2,
+        fixesApplied: [
+          {
+            type: "entity-replacement",
+            attempt: 1,
+            timestamp: "2026-01-01T00:00:00.000Z",
+            description: "Replaced 1 nodes",
+            reasoning: ["sheetId was missing"],
+            entitiesFixed: { nodes: ["sheets_1"], connections: false },
+            nodes: [
+              {
+                nodeId: "sheets_1",
+                name: "Append to Sheet",
+                before: { operation: "append" },
+                after: { operation: "append", sheetId: "abc" },
+              },
+            ],
+          },
+        ],
+      },
+    },
+  ]);
+
+  const sheets = state.workflow.nodes.find((n: any) => n.id === "sheets_1");
+
+  check(
+    "updateNodeConfig creates configuration from discovered node",
+    state.configured.sheets_1?.nodeType === "n8n-nodes-base.googleSheets" &&
+      state.configured.sheets_1.parameters.operation === "append" &&
+      state.configured.sheets_1.parameters.options.range === "A:C"
+  );
+  check(
+    "addToWorkflow places configured node",
+    sheets?.name === "Append to Sheet" &&
+      sheets.position[0] === 600 &&
+      sheets.parameters.operation === "append"
+  );
+  check(
+    "addValidationError marks node invalid",
+    state.validated.sheets_1?.valid === false &&
+      state.validated.sheets_1.errors?.length === 1
+  );
+  check(
+    "setValidationReport keeps parameters before and after each fix",
+    state.validationReport?.fixesApplied[0].nodes[0].after.sheetId === "abc"
+  );
+  check(
+    "every operation recorded in history",
+    state.operationHistory.length === 6
+  );
+
+  const rediscovered = applyOperationsToState(initial, [
+    {
+      type: "discoverNode",
+      node: { ...initial.discovered[0], purpose: "Append signups" },
+    },
+    {
+      type: "discoverNode",
+      node: { id: "schedule_1", type: "n8n-nodes-base.scheduleTrigger", purpose: "Run daily" },
+    },
+  ]);
+  check(
+    "discoverNode replaces a node discovered again",
+    rediscovered.discovered.length === 2 &&
+      rediscovered.discovered[0].purpose === "Append signups",
+    rediscovered.discovered
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 OPERATION REPLAY TEST"));
+  console.log("========================");
+
+  await testRecordedHistory();
+  testDeltaOperations();
+  testSessionOperations();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,316 @@
+#!/usr/bin/env tsx
+
+/**
+ * Phase Job Queue Test
+ *
+ * Drives the phase worker against the in-memory queue with a scripted
+ * executor: pipeline progression, retries of transient Claude/MCP failures,
+ * permanent failures, clarification stops and lease expiry.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import {
+  InMemoryPhaseJobQueue,
+  PhaseWorker,
+  isTransientFailure,
+  type PhaseJobExecutor,
+  type PhaseRunOutcome,
+} from "@/lib/jobs";
+import { ProviderError } from "@/services/claude";
+import { MCPConnectionError } from "@/lib/mcp-error-handler";
+import type { PhaseJob } from "@/types/jobs";
+import type { ErrorResponse, WorkflowPhase } from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+type Step = PhaseRunOutcome | Error;
+
+/**
+ * Executor that plays back scripted outcomes per phase
+ * (succeeds once a phase's script runs out)
+ */
+function scriptedExecutor(script: Partial<Record<WorkflowPhase, Step[]>> = {}) {
+  const calls: WorkflowPhase[] = [];
+  const executor: PhaseJobExecutor = {
+    async runPhase(job: PhaseJob) {
+      calls.push(job.phase);
+      const step = script[job.phase]?.shift();
+      if (step instanceof Error) throw step;
+      return step || { success: true };
+    },
+  };
+  return { executor, calls };
+}
+
+function failure(
+  type: ErrorResponse["error"]["type"],
+  retryable: boolean
+): PhaseRunOutcome {
+  return {
+    success: false,
+    error: {
+      type,
+      code: "TEST_ERROR",
+      message: `${type} failure`,
+      userMessage: "Test failure",
+      retryable,
+    },
+  };
+}
+
+/**
+ * Queue whose clock can be moved forward to make retries due
+ */
+function testQueue() {
+  let offset = 0;
+  const now = () => new Date(Date.now() + offset);
+  const queue = new InMemoryPhaseJobQueue(now);
+  return { queue, now, advance: (ms: number) => (offset += ms) };
+}
+
+async function drain(worker: PhaseWorker, limit = 20) {
+  for (let i = 0; i < limit; i++) {
+    if (!(await worker.runOnce())) return;
+  }
+}
+
+async function testPipelineProgression() {
+  console.log(chalk.cyan("\n⏭️  Pipeline progression"));
+
+  const { queue } = testQueue();
+  const { executor, calls } = scriptedExecutor();
+  const worker = new PhaseWorker({ queue, executor, workerId: "w1" });
+
+  const first = await queue.enqueue({
+    sessionId: "wf_1",
+    phase: "discovery",
+    payload: { prompt: "Webhook to Slack", userId: "user_1" },
+  });
+  const duplicate = await queue.enqueue({ sessionId: "wf_1", phase: "discovery" });
+  check("enqueue returns the active job for the same phase", duplicate.id === first.id);
+
+  await drain(worker);
+  const jobs = await queue.listForSession("wf_1");
+
+  check(
+    "every phase runs in order",
+    calls.join(",") === "discovery,configuration,building,validation,documentation",
+    calls
+  );
+  check(
+    "every job succeeded",
+    jobs.length === 5 && jobs.every((job) => job.status === "succeeded"),
+    jobs.map((job) => `${job.phase}:${job.status}`)
+  );
+  check(
+    "payload carried to follow-up jobs",
+    jobs.every((job) => job.payload.userId === "user_1")
+  );
+}
+
+async function testTransientRetries() {
+  console.log(chalk.cyan("\n🔁 Transient failure retries"));
+
+  const { queue, now, advance } = testQueue();
+  const { executor, calls } = scriptedExecutor({
+    configuration: [
+      new ProviderError("Overloaded", 529, "overloaded_error", true),
+      failure("mcp_server", true),
+    ],
+  });
+  const worker = new PhaseWorker({
+    queue,
+    executor,
+    workerId: "w1",
+    retryBaseMs: 1000,
+    now,
+  });
+
+  await queue.enqueue({ sessionId: "wf_2", phase: "configuration" });
+
+  await worker.runOnce();
+  let [job] = await queue.listForSession("wf_2");
+  check(
+    "thrown retryable ProviderError requeues the job",
+    job.status === "queued" && job.attempts === 1 && job.lastError === "Overloaded",
+    job
+  );
+  check("retry is not due before the backoff", (await worker.runOnce()) === null);
+
+  advance(1000);
+  await worker.runOnce();
+  [job] = await queue.listForSession("wf_2");
+  check(
+    "retryable MCP failure result requeues the job",
+    job.status === "queued" && job.attempts === 2
+  );
+
+  advance(1000);
+  check("backoff doubles per attempt", (await worker.runOnce()) === null);
+
+  advance(1000);
+  await drain(worker);
+  const jobs = await queue.listForSession("wf_2");
+  check(
+    "job succeeds on the third attempt and the pipeline continues",
+    jobs[0].status === "succeeded" &&
+      jobs[0].attempts === 3 &&
+      calls.filter((phase) => phase === "configuration").length === 3 &&
+      jobs[jobs.length - 1].phase === "documentation",
+    jobs.map((job) => `${job.phase}:${job.status}`)
+  );
+}
+
+async function testPermanentFailures() {
+  console.log(chalk.cyan("\n🛑 Permanent failures"));
+
+  const { queue } = testQueue();
+  const { executor } = scriptedExecutor({
+    building: [failure("client", true)],
+    configuration: [
+      failure("claude_api", true),
+      failure("claude_api", true),
+      failure("claude_api", true),
+    ],
+    validation: [failure("validation", false)],
+  });
+  const worker = new PhaseWorker({ queue, executor, workerId: "w1", retryBaseMs: 0 });
+
+  await queue.enqueue({ sessionId: "wf_3", phase: "building" });
+  await drain(worker);
+  let jobs = await queue.listForSession("wf_3");
+  check(
+    "non-transient failure is not retried",
+    jobs.length === 1 && jobs[0].status === "failed" && jobs[0].attempts === 1,
+    jobs
+  );
+
+  await queue.enqueue({ sessionId: "wf_4", phase: "configuration" });
+  await drain(worker);
+  jobs = await queue.listForSession("wf_4");
+  check(
+    "transient failure gives up after maxAttempts",
+    jobs.length === 1 && jobs[0].status === "failed" && jobs[0].attempts === 3,
+    jobs
+  );
+
+  await queue.enqueue({ sessionId: "wf_5", phase: "validation" });
+  await drain(worker);
+  jobs = await queue.listForSession("wf_5");
+  check(
+    "failed validation still queues documentation",
+    jobs.map((job) => `${job.phase}:${job.status}`).join(",") ===
+      "validation:failed,documentation:succeeded",
+    jobs.map((job) => `${job.phase}:${job.status}`)
+  );
+}
+
+async function testAwaitingInput() {
+  console.log(chalk.cyan("\n❓ Clarification stops the pipeline"));
+
+  const { queue } = testQueue();
+  const { executor } = scriptedExecutor({
+    discovery: [{ success: true, awaitingInput: true }],
+  });
+  const worker = new PhaseWorker({ queue, executor, workerId: "w1" });
+
+  await queue.enqueue({
+    sessionId: "wf_6",
+    phase: "discovery",
+    payload: { prompt: "Something vague" },
+  });
+  await drain(worker);
+  const jobs = await queue.listForSession("wf_6");
+  check(
+    "no follow-up job while waiting for the user",
+    jobs.length === 1 && jobs[0].status === "succeeded",
+    jobs
+  );
+}
+
+async function testLeaseExpiry() {
+  console.log(chalk.cyan("\n⏱️  Lease expiry"));
+
+  const { queue, advance } = testQueue();
+  const job = await queue.enqueue({ sessionId: "wf_7", phase: "building" });
+
+  const claimed = await queue.claim("crashed", 1000);
+  check("claim leases the job", claimed?.id === job.id && claimed.leaseOwner === "crashed");
+  check("leased job can't be claimed twice", (await queue.claim("other", 1000)) === null);
+
+  advance(1500);
+  const reclaimed = await queue.claim("other", 1000);
+  check(
+    "expired lease is reclaimed by another worker",
+    reclaimed?.id === job.id && reclaimed.attempts === 2
+  );
+  check(
+    "original worker lost its lease",
+    !(await queue.extendLease(job.id, "crashed", 1000))
+  );
+
+  let rejected = false;
+  await queue.complete(job.id, "crashed").catch(() => (rejected = true));
+  check("original worker can't complete the job", rejected);
+
+  // The worker of the final attempt dies too
+  const final = testQueue();
+  const last = await final.queue.enqueue({ sessionId: "wf_8", phase: "validation", maxAttempts: 1 });
+  await final.queue.claim("crashed", 1000);
+  final.advance(1500);
+  check("expired final attempt isn't reclaimed", (await final.queue.claim("other", 1000)) === null);
+  const [abandoned] = await final.queue.listForSession("wf_8");
+  check(
+    "expired final attempt fails",
+    abandoned.status === "failed" && abandoned.lastError === "Lease expired on final attempt",
+    abandoned
+  );
+  const requeued = await final.queue.enqueue({ sessionId: "wf_8", phase: "validation" });
+  check("session can queue the phase again", requeued.id !== last.id && requeued.status === "queued");
+}
+
+function testTransientClassification() {
+  console.log(chalk.cyan("\n🏷️  Transient error classification"));
+
+  check(
+    "retryable ProviderError is transient",
+    isTransientFailure(new ProviderError("Rate limited", 429, "rate_limit_error", true))
+  );
+  check(
+    "non-retryable ProviderError is not",
+    !isTransientFailure(new ProviderError("Bad request", 400, "invalid_request_error"))
+  );
+  check(
+    "MCPConnectionError is transient by default",
+    isTransientFailure(new MCPConnectionError("Connection reset"))
+  );
+  check(
+    "MCPConnectionError flagged non-retryable is not",
+    !isTransientFailure(new MCPConnectionError("Unknown tool", false))
+  );
+  check("plain errors are not", !isTransientFailure(new Error("boom")));
+  check(
+    "retryable database failure result is not",
+    !isTransientFailure(failure("database", true).error)
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 PHASE JOB QUEUE TEST"));
+  console.log("========================");
+
+  await testPipelineProgression();
+  await testTransientRetries();
+  await testPermanentFailures();
+  await testAwaitingInput();
+  await testLeaseExpiry();
+  testTransientClassification();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+#!/usr/bin/env tsx
+
+/**
+ * Prompt Experiments Test
+ *
+ * Checks the prompt registry: PROMPT_EXPERIMENTS parsing, sessions
+ * assigned to prompt versions deterministically and by weight, prompts
+ * tagged with their version, phase services building their prompt from
+ * the session's version, and the recorded outcomes summarized per version.
+ *
+ * Runs fully offline - the model is a recording fake.
+ */
+
+import chalk from "chalk";
+import {
+  PromptRegistry,
+  createDefaultPromptRegistry,
+  getPromptExperimentConfig,
+  usePromptRegistry,
+} from "@/services/claude/prompts/registry";
+import { PROMPT_VERSIONS } from "@/services/claude/prompts/common";
+import { DiscoveryPhaseService } from "@/services/claude/phases/discovery";
+import {
+  InMemoryPromptVariantRunStore,
+  summarizePromptVariants,
+} from "@/lib/prompt-experiments";
+import type { CompletionParams, CompletionResult } from "@/services/claude/client";
+import type { LLMProvider } from "@/services/claude/providers";
+import { check, reportChecks } from "./helpers/checks";
+
+function throws(run: () => unknown): string {
+  try {
+    run();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Provider that records requests and answers with an empty analysis
+ */
+class RecordingProvider implements LLMProvider {
+  calls: CompletionParams[] = [];
+
+  async completeJSON(params: CompletionParams): Promise<CompletionResult> {
+    this.calls.push(params);
+    return { content: "", fullContent: "{}" };
+  }
+  setOnUsageCallback(): void {}
+  setContext(): void {}
+  setAbortSignal(): void {}
+  setBudgetGuard(): void {}
+  setToolExecutor(): void {}
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+const CANDIDATE = "1.1.0";
+
+function experimentRegistry(weights: Record<string, number>) {
+  return createDefaultPromptRegistry({ discovery: weights }).register(
+    "discovery",
+    CANDIDATE,
+    (userPrompt) => ({
+      system: "Candidate discovery prompt",
+      user: `Analyze: ${userPrompt}`,
+      prefill: '{"',
+    })
+  );
+}
+
+function testConfig() {
+  console.log(chalk.cyan("\n⚙️  Configuration"));
+
+  check("no experiments by default", Object.keys(getPromptExperimentConfig(undefined)).length === 0);
+  check(
+    "weights read per phase",
+    getPromptExperimentConfig('{"discovery":{"1.0.0":3,"1.1.0":1}}').discovery?.["1.1.0"] === 1
+  );
+  check(
+    "invalid JSON rejected",
+    throws(() => getPromptExperimentConfig("{discovery")).startsWith("PROMPT_EXPERIMENTS is not valid JSON")
+  );
+  check(
+    "unknown phase rejected",
+    throws(() => getPromptExperimentConfig('{"edit":{"1.0.0":1}}')).startsWith("PROMPT_EXPERIMENTS is invalid")
+  );
+  check(
+    "negative weight rejected",
+    throws(() => getPromptExperimentConfig('{"building":{"1.0.0":-1}}')).includes("building.1.0.0")
+  );
+  check(
+    "experiment on an unregistered version rejected",
+    throws(() =>
+      createDefaultPromptRegistry({ building: { "1.0.0": 1, "9.9.9": 1 } }).assertExperimentsRegistered()
+    ) === "PROMPT_EXPERIMENTS uses unregistered building prompt version(s): 9.9.9"
+  );
+}
+
+function testAssignment() {
+  console.log(chalk.cyan("\n🎲 Assignment"));
+
+  const plain = experimentRegistry({});
+  check(
+    "default version without an experiment",
+    plain.assign("discovery", "wf_1") === PROMPT_VERSIONS.discovery &&
+      !plain.hasExperiment("discovery") &&
+      plain.versions("discovery").join() === `${PROMPT_VERSIONS.discovery},${CANDIDATE}`
+  );
+
+  const registry = experimentRegistry({ [PROMPT_VERSIONS.discovery]: 1, [CANDIDATE]: 1 });
+  const sessions = Array.from({ length: 400 }, (_, i) => `wf_${i}`);
+  const assigned = sessions.map((id) => registry.assign("discovery", id));
+  check(
+    "same session always gets the same version",
+    sessions.every((id, i) => registry.assign("discovery", id) === assigned[i])
+  );
+  const candidates = assigned.filter((version) => version === CANDIDATE).length;
+  check("sessions split by weight", candidates > 150 && candidates < 250, { candidates });
+  check(
+    "other phases keep their default",
+    registry.assign("building", "wf_1") === PROMPT_VERSIONS.building && !registry.hasExperiment("building")
+  );
+  check("without a session the default is used", registry.assign("discovery") === PROMPT_VERSIONS.discovery);
+
+  const weighted = experimentRegistry({ [PROMPT_VERSIONS.discovery]: 3, [CANDIDATE]: 1 });
+  const weightedCandidates = sessions.filter((id) => weighted.assign("discovery", id) === CANDIDATE).length;
+  check("heavier version gets more sessions", weightedCandidates > 60 && weightedCandidates < 140, {
+    weightedCandidates,
+  });
+
+  const paused = experimentRegistry({ [PROMPT_VERSIONS.discovery]: 1, [CANDIDATE]: 0 });
+  check(
+    "version with no weight gets no sessions",
+    sessions.every((id) => paused.assign("discovery", id) === PROMPT_VERSIONS.discovery) &&
+      !paused.hasExperiment("discovery")
+  );
+
+  const sessionId = sessions[assigned.indexOf(CANDIDATE)];
+  const prompt = registry.build("discovery", sessionId, "Post new issues to Slack");
+  check(
+    "prompt built by the assigned version and tagged with it",
+    prompt.user === "Analyze: Post new issues to Slack" &&
+      prompt.version === CANDIDATE &&
+      prompt.metadata?.phase === "discovery" &&
+      prompt.metadata?.sessionId === sessionId,
+    prompt
+  );
+  check(
+    "unregistered assigned version rejected",
+    throws(() =>
+      new PromptRegistry({ documentation: { "2.0.0": 1 } }).build("documentation", "wf_1", "", {}, [])
+    ) === "No documentation prompt registered as version 2.0.0"
+  );
+}
+
+function testDefaultPrompts() {
+  console.log(chalk.cyan("\n📄 Default prompts"));
+
+  const registry = createDefaultPromptRegistry();
+  const configuration = registry.build("configuration", "wf_1", {
+    node: { id: "slack_1", type: "n8n-nodes-base.slack", purpose: "Post the alert" },
+    essentials: { requiredProperties: [] },
+    workflowContext: { description: "Alert the team", userPrompt: "Alert the team" },
+  });
+  check(
+    "configuration prompt from the node template",
+    configuration.user.includes("n8n-nodes-base.slack") &&
+      configuration.prefill === '{"operations":[' &&
+      configuration.version === PROMPT_VERSIONS.configuration
+  );
+
+  const building = registry.build("building", "wf_1", { userIntent: "Alert the team", configuredNodes: [] });
+  check("building prompt tagged", building.version === PROMPT_VERSIONS.building && !!building.system);
+
+  const fixes = registry.build("validation", "wf_1", ["Missing channel"], { nodes: [] }, { nodes: [] });
+  check("validation fixes prompt tagged", fixes.user.includes("Missing channel") && fixes.version === PROMPT_VERSIONS.validation);
+}
+
+async function testPhaseService() {
+  console.log(chalk.cyan("\n🔍 Phase service"));
+
+  const registry = experimentRegistry({ [PROMPT_VERSIONS.discovery]: 1, [CANDIDATE]: 1 });
+  usePromptRegistry(registry);
+  try {
+    const sessions = Array.from({ length: 50 }, (_, i) => `wf_${i}`);
+    const candidateSession = sessions.find((id) => registry.assign("discovery", id) === CANDIDATE)!;
+    const defaultSession = sessions.find((id) => registry.assign("discovery", id) !== CANDIDATE)!;
+
+    const provider = new RecordingProvider();
+    const service = new DiscoveryPhaseService({ client: provider });
+    await service.analyzeIntent({ prompt: "Post new issues to Slack", sessionId: candidateSession });
+    await service.analyzeIntent({ prompt: "Post new issues to Slack", sessionId: defaultSession });
+
+    check(
+      "candidate session sent the candidate prompt",
+      provider.calls[0]?.systemPrompt === "Candidate discovery prompt",
+      provider.calls[0]?.systemPrompt?.slice(0, 60)
+    );
+    check(
+      "other session sent the current prompt",
+      !!provider.calls[1] && provider.calls[1].systemPrompt !== "Candidate discovery prompt"
+    );
+  } finally {
+    usePromptRegistry(undefined);
+  }
+}
+
+async function testOutcomes() {
+  console.log(chalk.cyan("\n📊 Outcomes"));
+
+  const store = new InMemoryPromptVariantRunStore(() => new Date("2026-01-01T00:00:00Z"));
+  await store.record({ sessionId: "wf_1", phase: "validation", version: "1.0.0", success: false, validationAttempts: 3, tokens: 1000 });
+  await store.record({ sessionId: "wf_1", phase: "validation", version: "1.0.0", success: true, validationAttempts: 2, tokens: 1400 });
+  await store.record({ sessionId: "wf_2", phase: "validation", version: "1.0.0", success: false, validationAttempts: 4, tokens: 600 });
+  await store.record({ sessionId: "wf_3", phase: "validation", version: "1.1.0", success: true, validationAttempts: 1, tokens: 500 });
+  await store.record({ sessionId: "wf_3", phase: "discovery", version: "1.0.0", success: true, tokens: 200 });
+
+  const validation = await store.list("validation");
+  check(
+    "rerun of a phase replaces its outcome",
+    validation.length === 3 &&
+      validation.find((run) => run.sessionId === "wf_1")?.success === true &&
+      validation[0].recordedAt === "2026-01-01T00:00:00.000Z",
+    validation
+  );
+
+  const summary = summarizePromptVariants(await store.list());
+  check(
+    "outcomes summarized per phase and version",
+    summary.map((s) => `${s.phase}@${s.version}:${s.runs}`).join() ===
+      "discovery@1.0.0:1,validation@1.0.0:2,validation@1.1.0:1",
+    summary
+  );
+  const current = summary[1];
+  check(
+    "success rate, tokens and attempts averaged",
+    current.successRate === 0.5 && current.avgTokens === 1000 && current.avgValidationAttempts === 3,
+    current
+  );
+  check("no attempts average without attempts", summary[0].avgValidationAttempts === undefined);
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 PROMPT EXPERIMENTS TEST"));
+  console.log("==========================");
+
+  testConfig();
+  testAssignment();
+  testDefaultPrompts();
+  await testPhaseService();
+  await testOutcomes();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
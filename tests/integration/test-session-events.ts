@@ -0,0 +1,205 @@
+#!/usr/bin/env tsx
+
+/**
+ * Session Events Test
+ *
+ * Checks the progress events behind GET /api/workflow/[sessionId]/events:
+ * operation → event mapping, the in-process event bus (subscribe, replay
+ * after Last-Event-ID), the events OperationLogger publishes and each
+ * event being published once.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import {
+  SessionEventBus,
+  eventsFromOperations,
+  sessionEvents,
+} from "@/lib/events/session-events";
+import { OperationLogger } from "@/lib/orchestrator/utils/OperationLogger";
+import { SessionRepo } from "@/lib/orchestrator/context/SessionRepo";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import type { SessionEvent } from "@/types/events";
+import { check, reportChecks } from "./helpers/checks";
+
+function testOperationMapping() {
+  console.log(chalk.cyan("\n🗺️  Operation to event mapping"));
+
+  const events = eventsFromOperations([
+    { type: "setPhase", phase: "discovery" },
+    {
+      type: "discoverNode",
+      node: { id: "slack_1", type: "n8n-nodes-base.slack", purpose: "Notify" },
+    },
+    { type: "selectNode", nodeId: "slack_1" },
+    {
+      type: "configureNode",
+      nodeId: "slack_1",
+      nodeType: "n8n-nodes-base.slack",
+      config: {},
+    },
+    {
+      type: "setWorkflow",
+      workflow: {
+        nodes: [
+          { id: "slack_1", type: "n8n-nodes-base.slack" },
+          { id: "note_1", type: "n8n-nodes-base.stickyNote" },
+          { id: "note_2", type: "n8n-nodes-base.stickyNote" },
+        ],
+        connections: {},
+        settings: {},
+      },
+    },
+    { type: "setWorkflowName", name: "Alerts" },
+    { type: "completePhase", phase: "documentation" },
+  ]);
+  const types = events.map((e) => e.type);
+
+  check("setPhase is not mapped", !types.includes("phase_started"));
+  check(
+    "node operations mapped in order",
+    types.slice(0, 3).join(",") === "node_discovered,node_selected,node_configured",
+    types
+  );
+  check(
+    "sticky notes counted from workflow",
+    events.some((e) => e.type === "sticky_notes_added" && e.count === 2)
+  );
+  check(
+    "workflow size excludes sticky notes",
+    events.some((e) => e.type === "workflow_updated" && e.nodeCount === 1)
+  );
+  check(
+    "other operations pass through generically",
+    events.some((e) => e.type === "operation" && e.operationType === "setWorkflowName")
+  );
+}
+
+function testEventBus() {
+  console.log(chalk.cyan("\n📡 Event bus"));
+
+  const bus = new SessionEventBus();
+  const received: SessionEvent[] = [];
+  const unsubscribe = bus.subscribe("wf_1", (e) => received.push(e));
+
+  const first = bus.publish("wf_1", { type: "phase_started", phase: "discovery" });
+  bus.publish("wf_2", { type: "phase_started", phase: "discovery" });
+  bus.publish("wf_1", { type: "node_selected", nodeId: "slack_1" });
+  unsubscribe();
+  bus.publish("wf_1", { type: "phase_completed", phase: "discovery" });
+
+  check(
+    "subscriber only gets its session's events until unsubscribed",
+    received.length === 2 && received.every((e) => e.sessionId === "wf_1"),
+    received
+  );
+  check(
+    "event ids increase",
+    received[1].id > received[0].id && typeof first.timestamp === "string"
+  );
+  check("recent events buffered per session", bus.getRecent("wf_1").length === 3);
+  check(
+    "replay skips events up to Last-Event-ID",
+    bus.getRecent("wf_1", first.id).map((e) => e.type).join(",") ===
+      "node_selected,phase_completed"
+  );
+}
+
+async function testOperationLogger() {
+  console.log(chalk.cyan("\n📝 OperationLogger events"));
+
+  // Keep persistence out of the way - only the published events matter here
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const received: SessionEvent[] = [];
+  const unsubscribe = sessionEvents.subscribe("wf_logger", (e) => received.push(e));
+
+  const operationLogger = new OperationLogger("wf_logger", "validation");
+  operationLogger.startPhase();
+  operationLogger.emitProgress({
+    type: "validation_attempt",
+    attempt: 1,
+    maxAttempts: 5,
+    errorCount: 2,
+  });
+  const { onTokenUsage } = operationLogger.withTokenTracking();
+  onTokenUsage(1200);
+  onTokenUsage(800);
+  await operationLogger.logPhaseCompletion(2000);
+  await operationLogger.logError(new Error("MCP timeout"));
+  unsubscribe();
+
+  const types = received.map((e) => e.type);
+  check(
+    "phase lifecycle published",
+    types.join(",") ===
+      "phase_started,validation_attempt,tokens_used,tokens_used,phase_completed,phase_failed",
+    types
+  );
+  check(
+    "token events carry the phase total",
+    received.some((e) => e.type === "tokens_used" && e.phaseTotal === 2000)
+  );
+  check(
+    "phase completion carries duration and tokens",
+    received.some(
+      (e) =>
+        e.type === "phase_completed" &&
+        e.phase === "validation" &&
+        e.tokensUsed === 2000 &&
+        typeof e.durationMs === "number"
+    )
+  );
+  check(
+    "errors published as phase_failed",
+    received.some((e) => e.type === "phase_failed" && e.message === "MCP timeout")
+  );
+}
+
+async function testPublishedOnce() {
+  console.log(chalk.cyan("\n1️⃣  Published once"));
+
+  orchestratorHooks.persistOperations = async () => {};
+
+  const received: SessionEvent[] = [];
+  const unsubscribe = sessionEvents.subscribe("wf_once", (e) => received.push(e));
+
+  const operationLogger = new OperationLogger("wf_once", "discovery");
+  const discovered = {
+    type: "discoverNode" as const,
+    node: { id: "slack_1", type: "n8n-nodes-base.slack", purpose: "Notify" },
+  };
+  operationLogger.startPhase();
+  await operationLogger.logOperation(discovered);
+
+  const repo = new SessionRepo();
+  await repo.updatePhase("wf_once", "discovery");
+  await repo.persistOperations("wf_once", [discovered]);
+  unsubscribe();
+
+  const types = received.map((e) => e.type);
+  check(
+    "phase start and node published once each",
+    types.join(",") === "phase_started,node_discovered",
+    types
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 SESSION EVENTS TEST"));
+  console.log("======================");
+
+  testOperationMapping();
+  testEventBus();
+  await testOperationLogger();
+  await testPublishedOnce();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,360 @@
+#!/usr/bin/env tsx
+
+/**
+ * Structural Validation Test
+ *
+ * Checks the local workflow validator (node names, trigger presence,
+ * connection shape and targets, cycles, orphaned nodes, expression syntax)
+ * and that the validation runner fixes structural errors before spending
+ * an MCP validate_workflow call.
+ *
+ * Runs fully offline - Claude and MCP are fakes.
+ */
+
+import chalk from "chalk";
+import { validateWorkflowStructure } from "@/lib/validation";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { ValidationRunner } from "@/lib/orchestrator/runners/validation.runner";
+import type { ValidationIssue } from "@/types/validation";
+import { check, reportChecks } from "./helpers/checks";
+
+const to = (node: string) => [[{ node, type: "main", index: 0 }]];
+
+/**
+ * Webhook -> Set -> Slack
+ */
+function workflow(overrides: { nodes?: any[]; connections?: any } = {}) {
+  return {
+    name: "Alerts",
+    nodes: overrides.nodes ?? [
+      { id: "n1", name: "Webhook", type: "n8n-nodes-base.webhook", parameters: { path: "alerts" } },
+      { id: "n2", name: "Shape", type: "n8n-nodes-base.set", parameters: { value: "={{ $json.body.text }}" } },
+      { id: "n3", name: "Slack", type: "n8n-nodes-base.slack", parameters: { text: "=Alert: {{ $json.value }}" } },
+    ],
+    connections: overrides.connections ?? {
+      Webhook: { main: to("Shape") },
+      Shape: { main: to("Slack") },
+    },
+    settings: {},
+  };
+}
+
+const messages = (issues: ValidationIssue[]) => issues.map((issue) => `${issue.severity}: ${issue.message}`);
+
+function testNodesAndTriggers() {
+  console.log(chalk.cyan("\n🧩 Nodes and triggers"));
+
+  check("valid workflow has no issues", validateWorkflowStructure(workflow()).length === 0);
+
+  const base = workflow().nodes;
+  const duplicate = validateWorkflowStructure(
+    workflow({ nodes: [...base, { id: "n4", name: "Slack", type: "n8n-nodes-base.slack" }] })
+  );
+  check(
+    "duplicate node names reported",
+    duplicate.some((issue) => issue.type === "workflow_error" && issue.nodeName === "Slack" && issue.actual === 2),
+    messages(duplicate)
+  );
+
+  const untriggered = validateWorkflowStructure(
+    workflow({ nodes: base.slice(1), connections: { Shape: { main: to("Slack") } } })
+  );
+  check(
+    "missing trigger is a warning",
+    messages(untriggered).join() ===
+      "warning: No trigger node recognized - unless one of the nodes starts the workflow, add a trigger (e.g. a Manual, Schedule or Webhook trigger)",
+    messages(untriggered)
+  );
+
+  // A trigger whose type doesn't end in Trigger
+  const imap = validateWorkflowStructure(
+    workflow({
+      nodes: [
+        { id: "n1", name: "Email", type: "n8n-nodes-base.emailReadImap" },
+        { id: "n2", name: "Slack", type: "n8n-nodes-base.slack", parameters: { text: "={{ $json.subject }}" } },
+      ],
+      connections: { Email: { main: to("Slack") } },
+    })
+  );
+  check(
+    "unrecognized trigger not an error",
+    imap.length === 1 && imap[0].severity === "warning",
+    messages(imap)
+  );
+
+  const unnamed = validateWorkflowStructure(workflow({ nodes: [...base, { id: "n9", type: "n8n-nodes-base.code" }] }));
+  check(
+    "unnamed node reported",
+    unnamed.some((issue) => issue.type === "missing_required_field" && issue.nodeId === "n9"),
+    messages(unnamed)
+  );
+
+  check(
+    "missing nodes array reported",
+    validateWorkflowStructure({ connections: {} })[0]?.message === "Workflow has no nodes array"
+  );
+}
+
+function testConnections() {
+  console.log(chalk.cyan("\n🔗 Connections"));
+
+  const listed = validateWorkflowStructure(workflow({ connections: [{ source: "n1", target: "n2" }] }));
+  check(
+    "connections list rejected",
+    messages(listed).join() === "error: Connections must be an object keyed by source node name",
+    messages(listed)
+  );
+
+  const shapeless = validateWorkflowStructure(
+    workflow({
+      connections: {
+        Webhook: { main: [[{ node: "Shape", type: "main" }]] },
+        Shape: { main: [{ node: "Slack", type: "main", index: 0 }] },
+      },
+    })
+  );
+  check(
+    "malformed outputs and targets reported",
+    shapeless.length === 2 &&
+      shapeless.every((issue) => issue.type === "invalid_connection") &&
+      shapeless[0].path?.join(".") === "connections.Webhook.main.0.0" &&
+      shapeless[1].message === 'Output 0 of node "Shape" must be an array of connections',
+    messages(shapeless)
+  );
+
+  const dangling = validateWorkflowStructure(
+    workflow({
+      connections: {
+        n1: { main: to("Shape") },
+        Shape: { main: [[...to("Slack")[0], { node: "Teams", type: "main", index: 0 }]] },
+      },
+    })
+  );
+  check(
+    "node IDs and unknown targets reported",
+    messages(dangling).join("|") ===
+      'error: Connection from "n1" uses node ID instead of node name "Webhook"|' +
+        'error: Connection to "Teams", which is not a node in the workflow (from node "Shape")|' +
+        'warning: Node "Webhook" has no connections, so it never runs',
+    messages(dangling)
+  );
+
+  const cycle = validateWorkflowStructure(
+    workflow({
+      connections: {
+        Webhook: { main: to("Shape") },
+        Shape: { main: to("Slack") },
+        Slack: { main: to("Shape") },
+      },
+    })
+  );
+  check(
+    "cycle reported once",
+    messages(cycle).join() === 'error: Connections form a cycle: "Shape" → "Slack" → "Shape"',
+    messages(cycle)
+  );
+
+  const loop = validateWorkflowStructure(
+    workflow({
+      nodes: [
+        { id: "n1", name: "Start", type: "n8n-nodes-base.manualTrigger" },
+        { id: "n2", name: "Loop Over Items", type: "n8n-nodes-base.splitInBatches" },
+        { id: "n3", name: "Post", type: "n8n-nodes-base.slack" },
+      ],
+      connections: {
+        Start: { main: to("Loop Over Items") },
+        "Loop Over Items": { main: [[], [{ node: "Post", type: "main", index: 0 }]] },
+        Post: { main: to("Loop Over Items") },
+      },
+    })
+  );
+  check("loop through Loop Over Items allowed", loop.length === 0, messages(loop));
+
+  const notes = validateWorkflowStructure(
+    workflow({
+      nodes: [...workflow().nodes, { id: "s1", name: "About", type: "n8n-nodes-base.stickyNote", parameters: { content: "{{ not checked" } }],
+    })
+  );
+  check("sticky notes not orphaned or checked", notes.length === 0, messages(notes));
+}
+
+function testExpressions() {
+  console.log(chalk.cyan("\n🧮 Expressions"));
+
+  const withParameters = (parameters: Record<string, unknown>) =>
+    validateWorkflowStructure(
+      workflow({
+        nodes: [
+          { id: "n1", name: "Webhook", type: "n8n-nodes-base.webhook" },
+          { id: "n2", name: "Shape", type: "n8n-nodes-base.set", parameters },
+        ],
+        connections: { Webhook: { main: to("Shape") } },
+      })
+    );
+
+  check(
+    "object literals and several expressions accepted",
+    withParameters({
+      body: '={{ JSON.stringify({ user: { id: $json.id }}) }} and {{ $("Webhook").item.json.name }}',
+      list: [{ text: "={{ $json.items.map(i => i.name).join(', ') }}" }],
+    }).length === 0
+  );
+
+  const unclosed = withParameters({ fields: { values: [{ value: "={{ $json.name" }] } });
+  check(
+    "unclosed expression reported with its field",
+    unclosed.length === 1 &&
+      unclosed[0].field === "fields.values.0.value" &&
+      unclosed[0].message === 'Node "Shape" fields.values.0.value: expression opened with {{ at position 0 is never closed with }}',
+    unclosed
+  );
+
+  const invalid = withParameters({ value: "=Total: {{ $json.amount * }}" });
+  check(
+    "invalid JavaScript reported",
+    invalid.length === 1 &&
+      invalid[0].severity === "error" &&
+      invalid[0].message.startsWith('Node "Shape" value: expression at position 7 is not valid JavaScript'),
+    messages(invalid)
+  );
+
+  check("empty expression reported", withParameters({ value: "={{   }}" })[0]?.message.includes("empty expression"));
+
+  const literal = withParameters({ value: "{{ $json.name }}" });
+  check(
+    "expression without = is a warning",
+    literal.length === 1 && literal[0].severity === "warning" && literal[0].type === "invalid_field_value",
+    messages(literal)
+  );
+}
+
+/**
+ * Validation runner over fake Claude and MCP
+ */
+function createRunner(fixes: Array<{ fixedConnections?: any; fixedNodes?: any[] }>, mcpResult: any) {
+  const fixRequests: Array<{ errors: string[]; entities: any }> = [];
+  const mcpCalls: any[] = [];
+  const quiet = { debug() {}, info() {}, warn() {}, error() {} };
+
+  const runner = new ValidationRunner({
+    claudeService: {
+      generateEntityFixes: async ({ errors, entities }: { errors: string[]; entities: any }) => {
+        fixRequests.push({ errors, entities });
+        return { success: true, data: { reasoning: [], ...fixes.shift() } };
+      },
+    },
+    nodeContextService: {
+      validateWorkflow: async (workflow: any) => {
+        mcpCalls.push(workflow);
+        return mcpResult;
+      },
+    },
+    sessionRepo: {
+      load: async () => null,
+      persistOperations: async () => {},
+      save: async () => {},
+      recordError: async () => {},
+      updatePhase: async () => {},
+      updateTokenUsage: async () => {},
+    },
+    loggers: { orchestrator: quiet },
+  });
+  return { runner, fixRequests, mcpCalls };
+}
+
+async function testRunner() {
+  console.log(chalk.cyan("\n🏃 Validation runner"));
+
+  // Keep persistence out of the way - nothing is loaded from the session
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const byId = workflow({ connections: { n1: { main: to("n2") }, Shape: { main: to("Slack") } } });
+  const fixed = workflow().connections;
+  const { runner, fixRequests, mcpCalls } = createRunner(
+    [{ fixedConnections: fixed }],
+    { valid: true, errors: [], warnings: [] }
+  );
+
+  const result = await runner.run({ sessionId: "wf_structure", buildingResult: { workflow: byId } } as any);
+  check(
+    "structural errors fixed without calling MCP first",
+    result.success &&
+      result.validationReport.attempts === 2 &&
+      mcpCalls.length === 1 &&
+      mcpCalls[0].connections === fixed,
+    { attempts: result.validationReport.attempts, mcpCalls: mcpCalls.length }
+  );
+  check(
+    "fix request carries the connection errors and connections",
+    fixRequests.length === 1 &&
+      fixRequests[0].errors[0] === 'Connection from "n1" uses node ID instead of node name "Webhook" [Node: Webhook]' &&
+      fixRequests[0].entities.connections?.n1 !== undefined,
+    fixRequests[0]
+  );
+  check(
+    "structural issues kept in the report",
+    result.validationReport.initial.structure.length === 2 &&
+      result.validationReport.initial.connections.errors.length === 1 &&
+      result.validationReport.initial.workflow.warnings[0]?.type === "orphaned_node" &&
+      result.validationReport.final.structure.length === 0,
+    result.validationReport.initial.structure
+  );
+  check(
+    "phase completed",
+    result.operations.some((op: any) => op.type === "completePhase" && op.phase === "validation")
+  );
+
+  // MCP unreachable: NodeContextService reports no errors
+  const cyclic = workflow({
+    connections: { Webhook: { main: to("Shape") }, Shape: { main: to("Slack") }, Slack: { main: to("Shape") } },
+  });
+  const down = createRunner([{}], { valid: false, errors: [], warnings: [] });
+  const stillBroken = await down.runner.run({ sessionId: "wf_down", buildingResult: { workflow: cyclic } } as any);
+  check(
+    "structural errors caught when MCP reports nothing",
+    stillBroken.success &&
+      stillBroken.workflow.valid === false &&
+      down.mcpCalls.length === 0 &&
+      !stillBroken.operations.some((op: any) => op.type === "completePhase") &&
+      stillBroken.validationReport.final.connections.errors[0]?.message.startsWith("Connections form a cycle"),
+    stillBroken.validationReport.final
+  );
+
+  // emailReadImap starts the workflow without a *Trigger type, MCP knows it
+  const imap = workflow({
+    nodes: [
+      { id: "n1", name: "Email", type: "n8n-nodes-base.emailReadImap" },
+      { id: "n2", name: "Slack", type: "n8n-nodes-base.slack", parameters: { text: "={{ $json.subject }}" } },
+    ],
+    connections: { Email: { main: to("Slack") } },
+  });
+  const triggered = createRunner([], { valid: true, errors: [], warnings: [] });
+  const passed = await triggered.runner.run({ sessionId: "wf_imap", buildingResult: { workflow: imap } } as any);
+  check(
+    "unrecognized trigger validated by MCP without fix attempts",
+    passed.success &&
+      triggered.mcpCalls.length === 1 &&
+      triggered.fixRequests.length === 0 &&
+      passed.validationReport.attempts === 1 &&
+      passed.operations.some((op: any) => op.type === "completePhase" && op.phase === "validation"),
+    { attempts: passed.validationReport.attempts, mcpCalls: triggered.mcpCalls.length }
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 STRUCTURAL VALIDATION TEST"));
+  console.log("=============================");
+
+  testNodesAndTriggers();
+  testConnections();
+  testExpressions();
+  await testRunner();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,314 @@
+#!/usr/bin/env tsx
+
+/**
+ * Token Budget Test
+ *
+ * Checks the per-session and per-user token budgets: limits from the
+ * environment and per-user overrides, the usage summary returned by
+ * GET /api/users/[userId]/usage, AnthropicClient refusing a request once
+ * the budget guard throws, runners handing the guard of their run to
+ * their phase service and wrapPhase reporting BUDGET_EXCEEDED.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import {
+  BudgetExceededError,
+  TokenBudgetService,
+  summarizeTokenCalls,
+  type TokenUsageStore,
+} from "@/lib/usage";
+import { wrapPhase } from "@/lib/orchestrator/utils/wrapPhase";
+import { EditRunner } from "@/lib/orchestrator/runners/edit.runner";
+import { loggers } from "@/lib/utils/logger";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { AnthropicClient } from "@/services/claude";
+import type { TokenBudgetLimits, TokenUsageCall } from "@/types/usage";
+import { check, reportChecks } from "./helpers/checks";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+function call(timestamp: string, phase: string, tokens: number): TokenUsageCall {
+  return { phase, method: "request", tokens, timestamp };
+}
+
+/**
+ * Two sessions of user_1: wf_today (today) and wf_earlier (this month)
+ */
+function createStore(limits: TokenBudgetLimits | null = null): TokenUsageStore {
+  const sessions: Record<string, { userId: string; calls: TokenUsageCall[] }> = {
+    wf_today: {
+      userId: "user_1",
+      calls: [
+        call("2026-03-15T09:00:00Z", "discovery", 1000),
+        call("2026-03-15T09:05:00Z", "configuration", 3000),
+      ],
+    },
+    wf_earlier: {
+      userId: "user_1",
+      calls: [
+        call("2026-02-27T10:00:00Z", "discovery", 500),
+        call("2026-03-02T10:00:00Z", "building", 6000),
+      ],
+    },
+  };
+
+  return {
+    async getSessionUsage(sessionId) {
+      const session = sessions[sessionId];
+      if (!session) return null;
+      return {
+        userId: session.userId,
+        total: session.calls.reduce((sum, c) => sum + c.tokens, 0),
+      };
+    },
+    async listUserCalls(userId, since) {
+      const matching = Object.values(sessions)
+        .filter((s) => s.userId === userId)
+        .map((s) => s.calls.filter((c) => new Date(c.timestamp) >= since))
+        .filter((calls) => calls.length > 0);
+      return { sessionCount: matching.length, calls: matching.flat() };
+    },
+    async getUserTotals(userId, dayStart, monthStart) {
+      const calls = Object.values(sessions)
+        .filter((s) => s.userId === userId)
+        .flatMap((s) => s.calls);
+      const sum = (since: Date) =>
+        calls
+          .filter((c) => new Date(c.timestamp) >= since)
+          .reduce((total, c) => total + c.tokens, 0);
+      return { usedToday: sum(dayStart), usedThisMonth: sum(monthStart) };
+    },
+    async getUserLimits() {
+      return limits;
+    },
+  };
+}
+
+async function testBudgets() {
+  console.log(chalk.cyan("\n💰 Budgets"));
+
+  const unlimited = new TokenBudgetService(createStore(), {}, () => NOW);
+  check("no limits configured", (await unlimited.checkBudget("wf_today")) === null);
+
+  const perSession = new TokenBudgetService(
+    createStore(),
+    { perSession: 4000 },
+    () => NOW
+  );
+  const sessionExceeded = await perSession.checkBudget("wf_today");
+  check(
+    "session budget reached",
+    sessionExceeded?.scope === "session" && sessionExceeded.used === 4000,
+    sessionExceeded?.message
+  );
+
+  const daily = new TokenBudgetService(
+    createStore(),
+    { perUserDaily: 5000, perUserMonthly: 20000 },
+    () => NOW
+  );
+  check("within daily and monthly budgets", (await daily.checkBudget("wf_today")) === null);
+
+  const monthly = new TokenBudgetService(
+    createStore(),
+    { perUserMonthly: 10000 },
+    () => NOW
+  );
+  const monthExceeded = await monthly.checkBudget("wf_today");
+  check(
+    "monthly budget counts every session of the user",
+    monthExceeded?.scope === "user_monthly" && monthExceeded.used === 10000,
+    monthExceeded?.message
+  );
+
+  const overridden = new TokenBudgetService(
+    createStore({ perUserDaily: 2000 }),
+    { perUserDaily: 5000 },
+    () => NOW
+  );
+  let error: unknown;
+  try {
+    await overridden.assertWithinBudget("wf_today");
+  } catch (e) {
+    error = e;
+  }
+  check(
+    "per-user limit overrides the default",
+    error instanceof BudgetExceededError &&
+      error.scope === "user_daily" &&
+      error.limit === 2000,
+    error instanceof Error ? error.message : error
+  );
+}
+
+async function testUsageSummary() {
+  console.log(chalk.cyan("\n📊 Usage summary"));
+
+  const service = new TokenBudgetService(
+    createStore(),
+    { perUserDaily: 5000 },
+    () => NOW
+  );
+  const usage = await service.getUserUsage("user_1", 7);
+
+  check("window starts 6 days before today", usage.since === "2026-03-09T00:00:00.000Z", usage.since);
+  check("only calls inside the window counted", usage.totalTokens === 4000 && usage.callCount === 2, usage);
+  check(
+    "tokens by phase",
+    usage.byPhase.discovery === 1000 && usage.byPhase.configuration === 3000,
+    usage.byPhase
+  );
+  check(
+    "tokens by day",
+    usage.byDay.length === 1 && usage.byDay[0].date === "2026-03-15",
+    usage.byDay
+  );
+  check(
+    "today and this month reported against the limits",
+    usage.usedToday === 4000 &&
+      usage.usedThisMonth === 10000 &&
+      usage.limits.perUserDaily === 5000,
+    usage
+  );
+
+  const summary = summarizeTokenCalls(
+    [
+      call("2026-03-02T10:00:00Z", "building", 6000),
+      call("2026-03-01T10:00:00Z", "building", 100),
+    ],
+    new Date("2026-03-01T00:00:00Z")
+  );
+  check(
+    "days sorted oldest first",
+    summary.byDay.map((d) => d.date).join(",") === "2026-03-01,2026-03-02",
+    summary.byDay
+  );
+}
+
+async function testAnthropicClient() {
+  console.log(chalk.cyan("\n🤖 AnthropicClient"));
+
+  // Nothing listens here - the guard has to stop the request first
+  const client = new AnthropicClient({
+    apiKey: "test-key",
+    baseURL: "http://127.0.0.1:9",
+  });
+  client.setBudgetGuard(async () => {
+    throw new BudgetExceededError("session", 100, 150);
+  });
+
+  let error: unknown;
+  try {
+    await client.completeJSON({
+      systemPrompt: "Reply with JSON",
+      userMessage: "{}",
+      maxTokens: 16,
+      phase: "building",
+    });
+  } catch (e) {
+    error = e;
+  }
+  check(
+    "request refused once the budget is used up",
+    error instanceof BudgetExceededError,
+    error instanceof Error ? error.message : error
+  );
+}
+
+async function testRunnerGuard() {
+  console.log(chalk.cyan("\n🏃 Runner budget guard"));
+
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const guards: Array<(() => Promise<void>) | undefined> = [];
+  const runner = new EditRunner({
+    claudeService: {
+      setBudgetGuard: (guard?: () => Promise<void>) => void guards.push(guard),
+      execute: async () => ({ success: false, error: new Error("not called") }),
+    },
+    sessionRepo: {
+      load: async () => null,
+      persistOperations: async () => {},
+      save: async () => {},
+      recordError: async () => {},
+    },
+    loggers,
+  });
+
+  const guard = async () => {};
+  await runner.run({ sessionId: "wf_guarded", request: "rename it", budgetGuard: guard });
+  await runner.run({ sessionId: "wf_unguarded", request: "rename it" });
+  check(
+    "each run sets its own guard on the service",
+    guards.length === 2 && guards[0] === guard && guards[1] === undefined,
+    guards
+  );
+}
+
+async function testWrapPhase() {
+  console.log(chalk.cyan("\n🎁 wrapPhase"));
+
+  // Keep persistence out of the way - only the phase result matters here
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  let recorded = 0;
+  const runner = {
+    deps: {
+      sessionRepo: {
+        persistOperations: async () => {},
+        save: async () => {},
+        recordError: async () => void recorded++,
+      },
+    },
+  };
+
+  const run = wrapPhase("configuration", async (_input: { sessionId: string }) => {
+    throw new BudgetExceededError("user_daily", 5000, 5200);
+  });
+  const result = await run.call(runner, { sessionId: "wf_wrap" });
+
+  check("phase failed", !result.success);
+  check("error code is BUDGET_EXCEEDED", result.error?.code === "BUDGET_EXCEEDED", result.error);
+  check(
+    "not retryable and explained to the user",
+    result.error?.retryable === false &&
+      result.error.type === "client" &&
+      result.error.userMessage.includes("5,000"),
+    result.error
+  );
+  check("recorded so the session can be resumed", recorded === 1);
+
+  // A budget error swallowed by a phase service only survives in the message
+  const swallowed = wrapPhase("building", async (_input: { sessionId: string }) => {
+    throw new Error("Claude API error: BUDGET_EXCEEDED: session token budget of 100 reached (150 used)");
+  });
+  const swallowedResult = await swallowed.call(runner, { sessionId: "wf_wrap" });
+  check(
+    "code recovered from the error message",
+    swallowedResult.error?.code === "BUDGET_EXCEEDED" &&
+      swallowedResult.error.retryable === false,
+    swallowedResult.error
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 TOKEN BUDGET TEST"));
+  console.log("====================");
+
+  await testBudgets();
+  await testUsageSummary();
+  await testAnthropicClient();
+  await testRunnerGuard();
+  await testWrapPhase();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
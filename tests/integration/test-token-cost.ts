@@ -0,0 +1,171 @@
+#!/usr/bin/env tsx
+
+/**
+ * Token Cost Test
+ *
+ * Checks the USD cost estimates shown by the state API and test reporter:
+ * pricing of a call's input, output and cache tokens, per-phase and
+ * per-session totals, and the token breakdown AnthropicClient passes to
+ * its usage callback.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import http from "http";
+import type { AddressInfo } from "net";
+import { estimateCallCost, estimateSessionCost } from "@/lib/usage/cost";
+import { AnthropicClient, MODEL_PRICING, MODELS } from "@/services/claude";
+import type { TokenCallBreakdown } from "@/types/usage";
+import { check, reportChecks } from "./helpers/checks";
+
+function close(a: number, b: number) {
+  return Math.abs(a - b) < 1e-9;
+}
+
+function testPricing() {
+  console.log(chalk.cyan("\n💲 Pricing"));
+
+  check(
+    "every model in MODELS has a price",
+    Object.values(MODELS).every((model) => model in MODEL_PRICING)
+  );
+
+  const cost = estimateCallCost({
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    cacheCreationTokens: 200_000,
+    cacheReadTokens: 1_000_000,
+    model: MODELS.default,
+  });
+  // 3 + 1.5 + 0.75 + 0.3 for Sonnet 4
+  check("input, output and cache tokens priced", cost !== null && close(cost, 5.55), cost);
+
+  check(
+    "unknown model left unpriced",
+    estimateCallCost({
+      inputTokens: 10,
+      outputTokens: 10,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      model: "claude-unknown",
+    }) === null
+  );
+}
+
+function testSessionCost() {
+  console.log(chalk.cyan("\n🧾 Session cost"));
+
+  const timestamp = "2026-03-15T09:00:00Z";
+  const estimate = estimateSessionCost({
+    total: 1_700_000,
+    byPhase: { discovery: 1_000_000, building: 700_000 },
+    byCalls: [
+      {
+        phase: "discovery",
+        method: "selectNodes",
+        tokens: 1_000_000,
+        timestamp,
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        model: MODELS.default,
+      },
+      {
+        phase: "building",
+        method: "buildWorkflow",
+        tokens: 200_000,
+        timestamp,
+        inputTokens: 100_000,
+        outputTokens: 100_000,
+        cacheReadTokens: 500_000,
+        model: MODELS.powerful,
+      },
+      // Recorded before breakdowns were kept
+      { phase: "building", method: "request", tokens: 500_000, timestamp },
+    ],
+  });
+
+  check("cost by phase", close(estimate.byPhase.discovery, 3) && close(estimate.byPhase.building, 9.75), estimate.byPhase);
+  check("session total", close(estimate.total, 12.75), estimate.total);
+  check("calls without a breakdown reported as unpriced", estimate.unpricedTokens === 500_000);
+  check("no usage costs nothing", estimateSessionCost(undefined).total === 0);
+}
+
+async function testAnthropicClient() {
+  console.log(chalk.cyan("\n🤖 AnthropicClient"));
+
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: MODELS.default,
+        content: [{ type: "text", text: '"ok"}' }],
+        stop_reason: "end_turn",
+        usage: {
+          input_tokens: 120,
+          output_tokens: 30,
+          cache_creation_input_tokens: 400,
+          cache_read_input_tokens: 900,
+        },
+      })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  let reported: { tokens: number; method?: string; breakdown?: TokenCallBreakdown } | undefined;
+  const client = new AnthropicClient({
+    apiKey: "test-key",
+    baseURL: `http://127.0.0.1:${port}`,
+    onUsageCallback: (tokens, method, breakdown) => {
+      reported = { tokens, method, breakdown };
+    },
+  });
+  client.setContext("building", "buildWorkflow");
+
+  try {
+    const result = await client.completeJSON({
+      systemPrompt: "Reply with JSON",
+      userMessage: "{}",
+      prefill: '{"status":',
+      maxTokens: 64,
+    });
+
+    check(
+      "cache tokens kept in the completion usage",
+      result.usage?.cacheCreationTokens === 400 && result.usage.cacheReadTokens === 900,
+      result.usage
+    );
+    check(
+      "usage callback gets the call's breakdown",
+      reported?.tokens === 150 &&
+        reported.method === "buildWorkflow" &&
+        reported.breakdown?.inputTokens === 120 &&
+        reported.breakdown.outputTokens === 30 &&
+        reported.breakdown.cacheReadTokens === 900 &&
+        reported.breakdown.model === MODELS.default,
+      reported
+    );
+  } finally {
+    server.close();
+  }
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 TOKEN COST TEST"));
+  console.log("==================");
+
+  testPricing();
+  testSessionCost();
+  await testAnthropicClient();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+#!/usr/bin/env tsx
+
+/**
+ * Workflow Edit Test
+ *
+ * Checks what POST /api/workflow/[sessionId]/edit relies on: the edit
+ * runner turning Claude's delta operations into session operations that
+ * send a completed workflow back to validation.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import { EditRunner } from "@/lib/orchestrator/runners/edit.runner";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+} from "@/lib/services/session-state-reducer";
+import { workflowEditResponseSchema } from "@/services/claude/validation/schemas";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { loggers } from "@/lib/utils/logger";
+import type { WorkflowOperation } from "@/types/workflow";
+import { check, reportChecks } from "./helpers/checks";
+
+// A completed session: documented workflow with a sticky note and build phases
+function completedState() {
+  return applyOperationsToState(
+    createInitialSessionState("Post new GitHub issues to Slack"),
+    [
+      {
+        type: "setWorkflow",
+        workflow: {
+          name: "Issues to Slack",
+          nodes: [
+            {
+              id: "github_1",
+              name: "GitHub Trigger",
+              type: "n8n-nodes-base.githubTrigger",
+              position: [240, 300],
+              parameters: { events: ["issues"] },
+            },
+            {
+              id: "slack_1",
+              name: "Post to Slack",
+              type: "n8n-nodes-base.slack",
+              position: [460, 300],
+              parameters: { channel: "#issues" },
+            },
+            {
+              id: "sticky_triggers",
+              name: "Triggers",
+              type: "n8n-nodes-base.stickyNote",
+              position: [200, 100],
+              parameters: { content: "## Triggers" },
+            },
+          ],
+          connections: {
+            "GitHub Trigger": {
+              main: [[{ node: "Post to Slack", type: "main", index: 0 }]],
+            },
+          },
+          settings: { executionOrder: "v1" },
+        },
+      },
+      {
+        type: "setBuildPhases",
+        phases: [
+          { type: "trigger", description: "Triggers", nodeIds: ["github_1"] },
+          { type: "output", description: "Notify", nodeIds: ["slack_1"] },
+        ],
+      },
+      { type: "setPhase", phase: "complete" },
+    ] as WorkflowOperation[]
+  );
+}
+
+function createRunner(operations: any[]) {
+  const state = completedState();
+  const calls: any[] = [];
+  let onUsage: ((tokens: number, method?: string) => Promise<void>) | undefined;
+  const runner = new EditRunner({
+    claudeService: {
+      execute: async (input: any, context: any) => {
+        calls.push({ input, context });
+        await onUsage?.(120, "editWorkflow");
+        return { success: true, data: { operations, reasoning: ["r"] } };
+      },
+      setOnUsageCallback: (callback: any) => {
+        onUsage = callback;
+      },
+    },
+    sessionRepo: {
+      load: async () => ({ sessionId: "wf_edit", state }),
+      persistOperations: async () => {},
+      save: async () => {},
+      recordError: async () => {},
+    },
+    loggers,
+  });
+  return { runner, state, calls };
+}
+
+function testSchema() {
+  console.log(chalk.cyan("\n📐 Response schema"));
+
+  const parsed = workflowEditResponseSchema.safeParse({
+    operations: [
+      {
+        type: "addNode",
+        node: { id: "teams_1", name: "Post to Teams", type: "n8n-nodes-base.microsoftTeams", typeVersion: 2 },
+      },
+      { type: "addConnection", from: "GitHub Trigger", to: "Post to Teams" },
+      { type: "updateField", nodeId: "slack_1", field: "channel", value: "#bugs" },
+    ],
+    reasoning: ["add teams", "connect", "rename channel"],
+  });
+  check("delta operations accepted", parsed.success, !parsed.success && parsed.error.issues);
+
+  const rejected = workflowEditResponseSchema.safeParse({
+    operations: [{ type: "discoverNode", node: { id: "x" } }],
+  });
+  check("non-edit operations rejected", !rejected.success);
+}
+
+// Phase keys the edit's tokens were recorded under
+const tokenPhases: Array<string | undefined> = [];
+
+async function testEdit() {
+  console.log(chalk.cyan("\n✏️ Applying an edit"));
+
+  const { runner, state, calls } = createRunner([
+    {
+      type: "addNode",
+      node: { id: "teams_1", name: "Post to Teams", type: "n8n-nodes-base.microsoftTeams", typeVersion: 2, parameters: {} },
+    },
+    { type: "addConnection", from: "GitHub Trigger", to: "Post to Teams" },
+    { type: "updateField", nodeId: "slack_1", field: "channel", value: "#bugs" },
+    { type: "updateField", nodeId: "missing_1", field: "text", value: "x" },
+    { type: "addConnection", from: "Post to Teams", to: "Nowhere" },
+  ]);
+
+  const result = await runner.run({ sessionId: "wf_edit", request: "Also post to Teams" });
+  const types = result.operations.map((op) => op.type);
+
+  check("edit succeeds", result.success, result.error);
+  check("tokens counted under edit", tokenPhases.join() === "edit", tokenPhases);
+  check(
+    "Claude sees the workflow without sticky notes",
+    calls[0]?.input.workflow.nodes.length === 2 &&
+      calls[0]?.input.request === "Also post to Teams"
+  );
+  check(
+    "unknown node references skipped",
+    result.editOperations === 3 && result.skippedOperations === 2,
+    { applied: result.editOperations, skipped: result.skippedOperations }
+  );
+  check(
+    "change request recorded first",
+    types[0] === "requestEdit" && types[1] === "setWorkflow",
+    types
+  );
+  check("session sent back to validation", types[types.length - 1] === "setPhase");
+
+  const next = applyOperationsToState(state, result.operations);
+  const names = next.workflow.nodes.map((n: any) => n.name);
+
+  check("reducer applies the edit", next.phase === "validation");
+  check("old sticky notes removed", !names.includes("Triggers"), names);
+  check("new node added", names.includes("Post to Teams"), names);
+  check(
+    "new node connected",
+    next.workflow.connections["GitHub Trigger"].main[0].some(
+      (c: any) => c.node === "Post to Teams"
+    )
+  );
+  check(
+    "parameter updated",
+    next.workflow.nodes.find((n: any) => n.id === "slack_1")?.parameters.channel === "#bugs"
+  );
+  check(
+    "new node joins its upstream node's build phase",
+    next.buildPhases?.[0].nodeIds.join(",") === "github_1,teams_1",
+    next.buildPhases
+  );
+  check(
+    "config analysis covers the new node",
+    next.configAnalysis?.totalNodes === 3,
+    next.configAnalysis?.totalNodes
+  );
+  check(
+    "result carries the edited workflow",
+    result.workflow.nodes.length === 3 && result.workflow.name === "Issues to Slack"
+  );
+}
+
+async function testNothingApplicable() {
+  console.log(chalk.cyan("\n🚫 Nothing to apply"));
+
+  const { runner } = createRunner([
+    { type: "updateField", nodeId: "missing_1", field: "text", value: "x" },
+  ]);
+  const result = await runner.run({ sessionId: "wf_edit", request: "Change it" });
+
+  check(
+    "fails with NO_EDIT_OPERATIONS",
+    !result.success && result.error?.code === "NO_EDIT_OPERATIONS",
+    result.error
+  );
+  check("no operations persisted", result.operations.length === 0);
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 WORKFLOW EDIT TEST"));
+  console.log("=====================");
+
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async (_sessionId, _tokens, phase) => {
+    tokenPhases.push(phase);
+  };
+
+  testSchema();
+  await testEdit();
+  await testNothingApplicable();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
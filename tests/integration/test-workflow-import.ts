@@ -0,0 +1,246 @@
+#!/usr/bin/env tsx
+
+/**
+ * Workflow Import Test
+ *
+ * Checks what POST /api/workflow/import relies on: checking and normalizing
+ * n8n export JSON, the operations that turn it into session state, and the
+ * documentation phase running on an imported session.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import {
+  WorkflowImportError,
+  createImportOperations,
+  parseN8nWorkflowExport,
+} from "@/lib/services/workflow-import";
+import {
+  applyOperationsToState,
+  createInitialSessionState,
+} from "@/lib/services/session-state-reducer";
+import { DocumentationRunner } from "@/lib/orchestrator/runners/documentation.runner";
+import { orchestratorHooks } from "@/lib/workflow-orchestrator-hooks";
+import { loggers } from "@/lib/utils/logger";
+import { check, reportChecks } from "./helpers/checks";
+
+function importError(input: unknown): string[] {
+  try {
+    parseN8nWorkflowExport(input);
+  } catch (error) {
+    if (error instanceof WorkflowImportError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+// Shaped like a workflow downloaded from the n8n editor
+const exported = {
+  name: "GitHub issues to Slack",
+  nodes: [
+    {
+      id: "8a1c52c4-3b9f-4b52-9d7e-2f7c2b9b0a01",
+      name: "GitHub Trigger",
+      type: "n8n-nodes-base.githubTrigger",
+      typeVersion: 1,
+      position: [240, 300],
+      parameters: { owner: "acme", repository: "api", events: ["issues"] },
+      credentials: { githubApi: { id: "7", name: "GitHub account" } },
+    },
+    {
+      name: "Format",
+      type: "n8n-nodes-base.set",
+      typeVersion: 3,
+      position: [460, 300],
+      parameters: { values: { string: [{ name: "title", value: "={{ $json.issue.title }}" }] } },
+    },
+    {
+      id: "c9e1",
+      name: "Slack",
+      type: "n8n-nodes-base.slack",
+      typeVersion: 2,
+      position: [680, 300],
+      parameters: { channel: "#issues", text: "={{ $json.title }}" },
+    },
+    {
+      id: "note",
+      name: "Sticky Note",
+      type: "n8n-nodes-base.stickyNote",
+      position: [200, 100],
+      parameters: { content: "## Issues" },
+    },
+  ],
+  connections: {
+    "GitHub Trigger": { main: [[{ node: "Format", type: "main", index: 0 }]] },
+    Format: { main: [[{ node: "Slack", type: "main", index: 0 }]] },
+  },
+  settings: { executionOrder: "v1" },
+  pinData: {},
+  versionId: "3f1e",
+  meta: { instanceId: "abc" },
+};
+
+function testParse() {
+  console.log(chalk.cyan("\n📥 Parsing n8n export JSON"));
+
+  const workflow = parseN8nWorkflowExport(exported);
+  const ids = workflow.nodes.map((n) => n.id);
+
+  check("workflow name kept", workflow.name === "GitHub issues to Slack");
+  check("sticky notes dropped", workflow.nodes.length === 3, ids);
+  check("node without ID gets one", ids[1] === "node_2", ids);
+  check("trigger nodes categorized", workflow.nodes[0].category === "trigger" && !workflow.nodes[1].category);
+  check("credentials kept on nodes", !!workflow.nodes[0].credentials?.githubApi);
+  check(
+    "connections stay keyed by node name",
+    workflow.connections.Format?.main[0][0].node === "Slack"
+  );
+  check(
+    "instance metadata left out",
+    !("versionId" in workflow) && !("pinData" in workflow) && !("meta" in workflow)
+  );
+
+  check("non-object rejected", importError([]).length === 1);
+  check("missing nodes rejected", importError({ name: "x" })[0] === "nodes must be an array");
+  check("empty workflow rejected", importError({ nodes: [] })[0] === "workflow has no nodes");
+
+  const issues = importError({
+    nodes: [
+      { name: "A", type: "n8n-nodes-base.set" },
+      { name: "A", type: "n8n-nodes-base.set" },
+      { name: "B" },
+    ],
+    connections: {
+      A: { main: [[{ node: "Missing", type: "main", index: 0 }]] },
+      Ghost: { main: [] },
+    },
+  });
+  check(
+    "every problem reported",
+    issues.length === 4 &&
+      issues.some((i) => i.includes('"A" is used more than once')) &&
+      issues.some((i) => i.includes("has no type")) &&
+      issues.some((i) => i.includes('unknown node "Missing"')) &&
+      issues.some((i) => i.includes('unknown node "Ghost"')),
+    issues
+  );
+
+  const shapes = importError({
+    nodes: [
+      { name: "A", type: "n8n-nodes-base.set" },
+      { name: "B", type: "n8n-nodes-base.set" },
+      { name: "C", type: "n8n-nodes-base.set" },
+    ],
+    connections: { A: { main: {} }, B: { main: [{}] }, C: [] },
+  });
+  check(
+    "malformed connections rejected",
+    shapes.join("|") ===
+      'connections from "A" must list its outputs in a main array|' +
+        'output 0 of "B" must be an array of connections|' +
+        'connections from "C" must be an object like { main: [[...]] }',
+    shapes
+  );
+
+  const fallbackIds = parseN8nWorkflowExport({
+    nodes: [
+      { id: "node_2", name: "A", type: "n8n-nodes-base.set" },
+      { name: "B", type: "n8n-nodes-base.set" },
+    ],
+  }).nodes.map((n) => n.id);
+  check("generated ID doesn't collide", fallbackIds.join() === "node_2,node_3", fallbackIds);
+}
+
+function importedState(startPhase: "validation" | "documentation") {
+  const workflow = parseN8nWorkflowExport(exported);
+  return applyOperationsToState(
+    createInitialSessionState("Improve the n8n workflow"),
+    createImportOperations(workflow, startPhase)
+  );
+}
+
+function testOperations() {
+  console.log(chalk.cyan("\n🧩 Session state"));
+
+  const state = importedState("validation");
+
+  check("session enters the pipeline at the start phase", state.phase === "validation");
+  check(
+    "every node discovered with its name",
+    state.discovered.map((n) => n.displayName).join(",") === "GitHub Trigger,Format,Slack"
+  );
+  check(
+    "every node selected",
+    state.selected.join(",") === "8a1c52c4-3b9f-4b52-9d7e-2f7c2b9b0a01,node_2,c9e1"
+  );
+  check(
+    "parameters stored as configuration",
+    state.configured.c9e1?.nodeType === "n8n-nodes-base.slack" &&
+      state.configured.c9e1.parameters.channel === "#issues"
+  );
+  check(
+    "workflow stored as the draft",
+    state.workflow.nodes.length === 3 &&
+      state.workflow.connections["GitHub Trigger"] !== undefined &&
+      state.workflow.settings.name === "GitHub issues to Slack" &&
+      state.workflow.settings.executionOrder === "v1"
+  );
+  check(
+    "configuration analysed for deployment",
+    state.configAnalysis?.totalNodes === 3,
+    state.configAnalysis?.totalNodes
+  );
+  check(
+    "documentation can be the start phase",
+    importedState("documentation").phase === "documentation"
+  );
+}
+
+async function testDocumentation() {
+  console.log(chalk.cyan("\n📝 Documentation phase"));
+
+  orchestratorHooks.persistOperations = async () => {};
+  orchestratorHooks.updateTokenUsage = async () => {};
+
+  const state = importedState("documentation");
+  const session = { sessionId: "wf_import", state };
+  const runner = new DocumentationRunner({
+    sessionRepo: {
+      load: async () => session,
+      persistOperations: async () => {},
+      save: async () => {},
+      recordError: async () => {},
+    },
+    loggers,
+  });
+
+  const result = await runner.run({ sessionId: "wf_import" });
+  const stickies = result.workflow.nodes.filter(
+    (n: any) => n.type === "n8n-nodes-base.stickyNote"
+  );
+
+  check("imported workflow documented", result.success, result.error);
+  check("imported nodes kept", result.workflow.nodes.length - stickies.length === 3);
+  check(
+    "phase notes added without build phases",
+    stickies.some((n: any) => n.parameters.content.includes("Triggers")),
+    stickies.map((n: any) => n.parameters.content.split("\n")[0])
+  );
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 WORKFLOW IMPORT TEST"));
+  console.log("=======================");
+
+  testParse();
+  testOperations();
+  await testDocumentation();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+
+/**
+ * Workflow Versions Test
+ *
+ * Checks what the versions endpoints rely on: numbering snapshots per
+ * session and the structural diff between two of them.
+ *
+ * Runs fully offline - no Claude, MCP or Supabase required.
+ */
+
+import chalk from "chalk";
+import {
+  InMemoryWorkflowVersionStore,
+  diffWorkflows,
+  isEmptyDiff,
+  toVersionSummary,
+} from "@/lib/versions";
+import type { WorkflowSnapshot } from "@/types/versions";
+import { check, reportChecks } from "./helpers/checks";
+
+const built: WorkflowSnapshot = {
+  name: "Issues to Slack",
+  nodes: [
+    {
+      id: "github_1",
+      name: "GitHub Trigger",
+      type: "n8n-nodes-base.githubTrigger",
+      position: [240, 300],
+      parameters: { owner: "acme", events: ["issues"] },
+    },
+    {
+      id: "slack_1",
+      name: "Slack",
+      type: "n8n-nodes-base.slack",
+      position: [460, 300],
+      parameters: { channel: "#issues", options: { unfurl: true } },
+    },
+  ],
+  connections: {
+    "GitHub Trigger": { main: [[{ node: "Slack", type: "main", index: 0 }]] },
+  },
+  settings: { executionOrder: "v1" },
+};
+
+// Edited: Slack renamed and reconfigured, Teams added, layout moved
+const edited: WorkflowSnapshot = {
+  name: "Issues to Slack and Teams",
+  nodes: [
+    {
+      ...built.nodes[0],
+      position: [100, 100],
+      parameters: { owner: "acme", events: ["issues", "pull_request"] },
+    },
+    {
+      id: "slack_1",
+      name: "Post to Slack",
+      type: "n8n-nodes-base.slack",
+      position: [460, 300],
+      retryOnFail: true,
+      parameters: { channel: "#bugs", text: "={{ $json.title }}" },
+    },
+    {
+      id: "teams_1",
+      name: "Post to Teams",
+      type: "n8n-nodes-base.microsoftTeams",
+      position: [460, 500],
+      parameters: {},
+    },
+  ],
+  connections: {
+    "GitHub Trigger": {
+      main: [
+        [
+          { node: "Post to Slack", type: "main", index: 0 },
+          { node: "Post to Teams", type: "main", index: 0 },
+        ],
+      ],
+    },
+  },
+  settings: { executionOrder: "v1", timezone: "Europe/Berlin" },
+};
+
+async function testStore() {
+  console.log(chalk.cyan("\n🗂️ Version store"));
+
+  const store = new InMemoryWorkflowVersionStore(
+    () => new Date("2026-01-01T00:00:00Z")
+  );
+  const first = await store.record({ sessionId: "wf_a", source: "building", workflow: built });
+  await store.record({ sessionId: "wf_b", source: "building", workflow: built });
+  const second = await store.record({ sessionId: "wf_a", source: "edit", workflow: edited });
+
+  check("versions numbered per session", first.version === 1 && second.version === 2);
+
+  const listed = await store.listForSession("wf_a");
+  check(
+    "session versions listed oldest first",
+    listed.map((v) => v.source).join(",") === "building,edit"
+  );
+
+  built.nodes[0].parameters.owner = "changed";
+  const stored = await store.get("wf_a", 1);
+  built.nodes[0].parameters.owner = "acme";
+  check(
+    "snapshot not affected by later changes",
+    stored?.workflow.nodes[0].parameters.owner === "acme"
+  );
+  check("missing version is null", (await store.get("wf_a", 3)) === null);
+
+  const summary = toVersionSummary(second);
+  check(
+    "summary leaves out the workflow",
+    summary.nodeCount === 3 && summary.source === "edit" && !("workflow" in summary),
+    summary
+  );
+}
+
+function testDiff() {
+  console.log(chalk.cyan("\n🔍 Structural diff"));
+
+  const diff = diffWorkflows(built, edited);
+  const slack = diff.nodes.changed.find((n) => n.id === "slack_1");
+  const github = diff.nodes.changed.find((n) => n.id === "github_1");
+  const slackPaths = slack?.changes.map((c) => `${c.kind}:${c.path}`).sort();
+
+  check(
+    "added node reported",
+    diff.nodes.added.length === 1 && diff.nodes.added[0].name === "Post to Teams",
+    diff.nodes.added
+  );
+  check("nothing removed", diff.nodes.removed.length === 0, diff.nodes.removed);
+  check(
+    "rename is a change, not remove and add",
+    slack?.changes.some(
+      (c) => c.path === "name" && c.before === "Slack" && c.after === "Post to Slack"
+    ) === true
+  );
+  check(
+    "parameter-level changes reported",
+    JSON.stringify(slackPaths) ===
+      JSON.stringify([
+        "added:parameters.text",
+        "added:retryOnFail",
+        "changed:name",
+        "changed:parameters.channel",
+        "removed:parameters.options",
+      ]),
+    slackPaths
+  );
+  check(
+    "arrays compared as a whole",
+    github?.changes.length === 1 && github.changes[0].path === "parameters.events",
+    github?.changes
+  );
+  check(
+    "positions ignored",
+    !diff.nodes.changed.some((n) => n.changes.some((c) => c.path === "position"))
+  );
+  check(
+    "renamed connection target is not a connection change",
+    diff.connections.removed.length === 0,
+    diff.connections.removed
+  );
+  check(
+    "new connection reported by name",
+    diff.connections.added.length === 1 &&
+      diff.connections.added[0].from === "GitHub Trigger" &&
+      diff.connections.added[0].to === "Post to Teams",
+    diff.connections.added
+  );
+  check(
+    "workflow name and settings changes reported",
+    diff.workflow.map((c) => c.path).join(",") === "name,settings.timezone",
+    diff.workflow
+  );
+
+  const reverse = diffWorkflows(edited, built);
+  check(
+    "reverse diff removes the node and its connection",
+    reverse.nodes.removed[0]?.id === "teams_1" &&
+      reverse.connections.removed.length === 1 &&
+      reverse.connections.added.length === 0
+  );
+
+  check("identical versions have an empty diff", isEmptyDiff(diffWorkflows(built, built)));
+  check("changed versions don't", !isEmptyDiff(diff));
+}
+
+async function main() {
+  console.log(chalk.bold("\n🧪 WORKFLOW VERSIONS TEST"));
+  console.log("=========================");
+
+  await testStore();
+  testDiff();
+
+  reportChecks();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
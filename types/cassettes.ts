@@ -0,0 +1,47 @@
+/**
+ * Cassette Types
+ *
+ * Types for the recorded Claude and MCP calls that let the pipeline run
+ * offline and deterministically.
+ */
+
+// ==========================================
+// Cassettes
+// ==========================================
+
+/**
+ * record: make live calls and write them to the cassette
+ * replay: serve calls from the cassette only, failing on unknown requests
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * The kinds of calls that are recorded
+ */
+export type CassetteCallKind = "claude" | "mcp";
+
+/**
+ * A failed call, replayed by throwing an error with the same name and
+ * message
+ */
+export interface RecordedError {
+  name: string;
+  message: string;
+}
+
+export interface CassetteEntry {
+  kind: CassetteCallKind;
+  hash: string; // SHA-256 of the kind and the canonical request JSON
+  request: unknown;
+  response?: unknown;
+  error?: RecordedError;
+}
+
+/**
+ * A cassette as stored on disk
+ */
+export interface CassetteFile {
+  version: 1;
+  recordedAt: string; // ISO timestamp
+  entries: CassetteEntry[];
+}
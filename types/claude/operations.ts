@@ -32,10 +32,29 @@ export interface DeselectNodeOperation {
   nodeId: string;
 }
 
+/**
+ * How a clarification question is answered: one option, several options,
+ * free text, or the service or credential to use for a step
+ */
+export type ClarificationAnswerType =
+  | "single_choice"
+  | "multi_choice"
+  | "free_text"
+  | "service";
+
+export interface ClarificationOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
 export interface RequestClarificationOperation {
   type: "requestClarification";
   questionId: string;
   question: string;
+  answerType?: ClarificationAnswerType; // free_text when missing
+  options?: ClarificationOption[]; // Choices for single_choice, multi_choice and service
+  required?: boolean; // Defaults to true
   context: {
     reason: string;
     [key: string]: any;
@@ -96,6 +115,7 @@ export interface AddNodeOperation {
     id: string;
     name: string;
     type: string;
+    typeVersion?: number;
     position?: [number, number];
     parameters?: Record<string, any>;
   };
@@ -149,6 +169,9 @@ export type ValidationFixOperation =
 
 export type DocumentationOperation = AddStickyNoteOperation;
 
+// Follow-up edits of a completed workflow use the same delta operations
+export type WorkflowEditOperation = ValidationFixOperation;
+
 export type ClaudeOperation = 
   | DiscoveryOperation
   | ConfigurationOperation
@@ -11,9 +11,12 @@ import type {
   SelectNodeOperation,
   DeselectNodeOperation,
   RequestClarificationOperation,
+  ClarificationAnswerType,
+  ClarificationOption,
   ConfigureNodeOperation,
   ValidationFixOperation,
   AddStickyNoteOperation,
+  WorkflowEditOperation,
 } from "./operations";
 
 // ==========================================
@@ -90,6 +93,15 @@ export interface ClaudeAnalysisResponse extends BaseClaudeResponse {
   workflow_pattern: string;
   complexity: "simple" | "medium" | "complex" | "unknown";
   clarification_needed: boolean;
+  /** Questions asked together in one round */
+  clarifications?: Array<{
+    question: string;
+    answerType: ClarificationAnswerType;
+    options?: ClarificationOption[];
+    required?: boolean;
+    context?: string;
+  }>;
+  /** Single free-text question, from before clarification rounds */
   clarification?: {
     question: string;
     context: string;
@@ -171,7 +183,8 @@ export interface DiscoveryOperationsResponse extends BaseClaudeResponse {
  * }
  */
 export interface ConfigurationOperationsResponse extends BaseClaudeResponse {
-  operations: ConfigureNodeOperation[];
+  /** requestClarification asks the user for a value instead of guessing it */
+  operations: Array<ConfigureNodeOperation | RequestClarificationOperation>;
 }
 
 // ==========================================
@@ -375,6 +388,30 @@ export interface DocumentationOperationsResponse extends BaseClaudeResponse {
   operations: AddStickyNoteOperation[];
 }
 
+// ==========================================
+// Edit Types
+// ==========================================
+
+/**
+ * Delta operations that apply a follow-up change to a completed workflow
+ * Used in: generateEdit()
+ *
+ * @example
+ * {
+ *   "operations": [
+ *     {
+ *       "type": "addNode",
+ *       "node": { "id": "teams_1", "name": "Post to Teams", "type": "n8n-nodes-base.microsoftTeams" }
+ *     },
+ *     { "type": "addConnection", "from": "Format Message", "to": "Post to Teams" }
+ *   ],
+ *   "reasoning": ["Added a Teams node next to Slack", "Fed it the same formatted message"]
+ * }
+ */
+export interface WorkflowEditResponse extends BaseClaudeResponse {
+  operations: WorkflowEditOperation[];
+}
+
 // ==========================================
 // Combined Response Types for Claude Service
 // ==========================================
@@ -389,7 +426,8 @@ export type ClaudeResponse =
   | WorkflowBuildResponse
   | ValidationFixesResponse
   | ValidatedWorkflowResponse
-  | DocumentationOperationsResponse;
+  | DocumentationOperationsResponse
+  | WorkflowEditResponse;
 
 /**
  * Response with operations (Discovery, Configuration, Documentation phases)
@@ -0,0 +1,61 @@
+/**
+ * Workflow Deployment Types
+ *
+ * Types for deploying generated workflows to an n8n instance and the
+ * deployment history kept in the workflow_deployments table.
+ */
+
+// ==========================================
+// Credential Mapping
+// ==========================================
+
+/**
+ * An existing credential in the target n8n instance
+ */
+export interface CredentialReference {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Credentials chosen by the user, keyed by the variables listed in
+ * WorkflowConfigAnalysis.missingCredentials (e.g. "SLACKAPI")
+ */
+export type CredentialMapping = Record<string, CredentialReference>;
+
+// ==========================================
+// Deployments
+// ==========================================
+
+export type DeploymentAction = "created" | "updated";
+
+export interface WorkflowDeployment {
+  id: string;
+  sessionId: string;
+  profile: string; // n8n instance profile the workflow was deployed to
+  remoteWorkflowId: string;
+  version: number; // 1 for the first deployment to a profile, then +1 per redeploy
+  action: DeploymentAction;
+  credentials: CredentialMapping;
+  deployedAt: string; // ISO timestamp
+}
+
+export interface RecordDeploymentInput {
+  sessionId: string;
+  profile: string;
+  remoteWorkflowId: string;
+  action: DeploymentAction;
+  credentials: CredentialMapping;
+}
+
+export interface DeployWorkflowInput {
+  profile: string;
+  credentials?: CredentialMapping;
+  name?: string; // Defaults to the generated workflow's name
+}
+
+export interface DeployWorkflowResult {
+  deployment: WorkflowDeployment;
+  // missingCredentials variables left unmapped - set them in n8n before activating
+  unmappedCredentials: string[];
+}
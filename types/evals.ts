@@ -0,0 +1,129 @@
+/**
+ * Evaluation Types
+ *
+ * Types for the offline eval harness: a versioned suite of golden prompts
+ * with what each generated workflow must (and must not) contain, the score
+ * of every case, and the summary runs are compared by to catch regressions
+ * when prompts or models change.
+ */
+
+import type { PromptPhase } from "./prompt-experiments";
+
+// ==========================================
+// Suite
+// ==========================================
+
+/**
+ * A rule the generated workflow must not break: no node of the given type,
+ * or no occurrence of the text anywhere in the workflow (case-insensitive)
+ */
+export type EvalForbiddenRule = { nodeType: string } | { text: string };
+
+/**
+ * Node types that must be connected, from upstream to downstream. Nodes in
+ * between are allowed, so webhook -> slack also matches webhook -> set -> slack.
+ */
+export interface EvalExpectedConnection {
+  from: string;
+  to: string;
+}
+
+/**
+ * One golden prompt and what its workflow is expected to look like
+ *
+ * Node types may be given in either form (n8n-nodes-base.slack or
+ * nodes-base.slack).
+ */
+export interface EvalCase {
+  id: string;
+  prompt: string;
+  expectedNodeTypes: string[];
+  expectedConnections?: EvalExpectedConnection[];
+  mustNotContain?: EvalForbiddenRule[];
+  answers?: string[]; // Answers to clarification questions, in the order they're asked
+}
+
+export interface EvalSuite {
+  name: string;
+  version: string; // Bumped whenever cases change, so only like runs are compared
+  description?: string;
+  cases: EvalCase[];
+}
+
+// ==========================================
+// Scores
+// ==========================================
+
+export interface EvalDiscoveryScore {
+  expected: string[];
+  selected: string[];
+  missing: string[];
+  unexpected: string[];
+  precision: number;
+  recall: number;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  sessionId: string;
+  passed: boolean;
+  completedPhases: string[];
+  failedPhase?: string;
+  error?: string;
+  unansweredClarifications?: string[]; // Questions the case had no answer for
+  discovery: EvalDiscoveryScore;
+  validationPassed: boolean;
+  validationAttempts: number;
+  missingConnections: EvalExpectedConnection[];
+  violations: string[]; // mustNotContain rules the workflow broke
+  tokens: number;
+  costUsd: number;
+  models: string[];
+  promptVersions: Partial<Record<PromptPhase, string>>;
+  durationMs: number;
+}
+
+/**
+ * Totals of one eval run; averages are over all cases
+ */
+export interface EvalMetrics {
+  cases: number;
+  passed: number;
+  passRate: number;
+  discoveryPrecision: number;
+  discoveryRecall: number;
+  validationPassRate: number;
+  avgValidationAttempts: number;
+  totalTokens: number;
+  avgTokens: number;
+  totalCostUsd: number;
+}
+
+export interface EvalSummary {
+  suite: string;
+  suiteVersion: string;
+  startedAt: string;
+  completedAt: string;
+  models: string[];
+  promptVersions: Partial<Record<PromptPhase, string[]>>;
+  metrics: EvalMetrics;
+  results: EvalCaseResult[];
+}
+
+// ==========================================
+// Comparison
+// ==========================================
+
+export interface EvalRegression {
+  metric: keyof EvalMetrics | "case";
+  caseId?: string; // Set for a case that passed in the baseline and fails now
+  baseline: number;
+  current: number;
+  message: string;
+}
+
+export interface EvalComparison {
+  comparable: boolean; // False when the suites or their versions differ
+  regressions: EvalRegression[];
+  changes: Partial<Record<keyof EvalMetrics, number>>; // current - baseline
+}
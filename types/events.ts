@@ -0,0 +1,49 @@
+/**
+ * Session Event Types
+ *
+ * Progress events streamed to clients over
+ * GET /api/workflow/[sessionId]/events (Server-Sent Events).
+ */
+
+import type { WorkflowPhase } from "./workflow";
+
+// ==========================================
+// Event Payloads
+// ==========================================
+
+export type SessionEventPayload =
+  | { type: "phase_started"; phase: WorkflowPhase }
+  | {
+      type: "phase_completed";
+      phase: WorkflowPhase;
+      durationMs?: number;
+      tokensUsed?: number;
+    }
+  | { type: "phase_failed"; phase: WorkflowPhase; message: string }
+  | { type: "node_discovered"; nodeId: string; nodeType: string; displayName?: string }
+  | { type: "node_selected"; nodeId: string }
+  | { type: "node_configured"; nodeId: string; nodeType?: string }
+  | { type: "node_validated"; nodeId: string; valid: boolean }
+  | {
+      type: "validation_attempt";
+      attempt: number;
+      maxAttempts: number;
+      errorCount: number;
+    }
+  | { type: "sticky_notes_added"; count: number }
+  | { type: "workflow_updated"; nodeCount: number }
+  | { type: "clarification_requested"; questionId: string; question: string }
+  | { type: "tokens_used"; phase: WorkflowPhase; tokens: number; phaseTotal: number }
+  | { type: "session_cancelled"; fromPhase: WorkflowPhase; reason?: string }
+  | { type: "operation"; operationType: string };
+
+export type SessionEventType = SessionEventPayload["type"];
+
+/**
+ * Event as delivered to subscribers
+ */
+export type SessionEvent = SessionEventPayload & {
+  id: number; // Increases per process, used as the SSE event id
+  sessionId: string;
+  timestamp: string;
+};
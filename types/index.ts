@@ -12,6 +12,15 @@ export * from './claude';
 export * from './validation';
 export * from './orchestrator';
 export * from './utils';
+export * from './jobs';
+export * from './events';
+export * from './usage';
+export * from './deployments';
+export * from './versions';
+export * from './cassettes';
+export * from './mcp-cache';
+export * from './prompt-experiments';
+export * from './evals';
 
 // ==========================================
 // Convenience Type Unions
@@ -0,0 +1,51 @@
+/**
+ * Phase Job Types
+ *
+ * Types for the durable background queue that runs workflow phases
+ * outside the request that started them.
+ */
+
+import type { WorkflowPhase } from "./workflow";
+
+// ==========================================
+// Job Types
+// ==========================================
+
+export type PhaseJobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Inputs a phase needs that aren't stored in the session
+ */
+export interface PhaseJobPayload {
+  prompt?: string;
+  userId?: string;
+}
+
+export interface PhaseJob {
+  id: string;
+  sessionId: string;
+  phase: WorkflowPhase;
+  status: PhaseJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  payload: PhaseJobPayload;
+  runAfter: string; // ISO timestamp - not claimable before this
+  leaseOwner?: string | null;
+  leaseExpiresAt?: string | null;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueuePhaseJobInput {
+  sessionId: string;
+  phase: WorkflowPhase;
+  payload?: PhaseJobPayload;
+  maxAttempts?: number;
+  runAfter?: Date;
+}
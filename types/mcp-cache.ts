@@ -0,0 +1,46 @@
+/**
+ * MCP Cache Types
+ *
+ * Types for the shared cache of MCP node metadata (node info, essentials,
+ * documentation, search results and task templates).
+ */
+
+// ==========================================
+// Cache Entries
+// ==========================================
+
+/**
+ * Where cached tool results are kept
+ *
+ * memory: for the life of the process
+ * filesystem: JSON files under MCP_CACHE_DIR, shared by local processes
+ * supabase: the mcp_cache table, shared by every instance
+ */
+export type MCPCacheBackend = "memory" | "filesystem" | "supabase";
+
+/**
+ * A cached tool result
+ */
+export interface MCPCacheEntry {
+  key: string; // SHA-256 of the tool name and the canonical arguments JSON
+  tool: string;
+  args: unknown;
+  value: unknown;
+  createdAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * How long results of each tool are kept, in seconds. Tools without an
+ * entry (validation, deployment) are never cached.
+ */
+export type MCPCacheTtls = Record<string, number>;
+
+export interface MCPCacheToolStats {
+  hits: number;
+  misses: number;
+}
+
+export interface MCPCacheStats extends MCPCacheToolStats {
+  byTool: Record<string, MCPCacheToolStats>;
+}
@@ -93,4 +93,6 @@ export interface OrchestratorDeps {
   nodeContextService?: any;
   /** Optional Anthropic client for Claude services */
   anthropicClient?: any;
+  /** Optional store for workflow snapshots (see lib/versions) */
+  versionStore?: any;
 }
@@ -12,6 +12,8 @@ import type { PhaseResult } from './base';
  */
 export interface BuildingInput {
   sessionId: string;
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
 }
 
 /**
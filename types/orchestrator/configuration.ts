@@ -4,7 +4,7 @@
  * Types for the configuration phase of workflow building.
  */
 
-import type { WorkflowPhase, DiscoveredNode } from '../workflow';
+import type { WorkflowPhase, DiscoveredNode, ClarificationQuestion } from '../workflow';
 import type { PhaseResult } from './base';
 
 /**
@@ -12,6 +12,9 @@ import type { PhaseResult } from './base';
  */
 export interface ConfigurationInput {
   sessionId: string;
+  nodeIds?: string[]; // Configure only these nodes, e.g. after their clarifications were answered
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
 }
 
 /**
@@ -33,6 +36,7 @@ export interface ConfiguredNode {
 export interface ConfigurationOutput extends PhaseResult {
   phase: WorkflowPhase;
   configured: ConfiguredNode[];
+  pendingClarifications?: ClarificationQuestion[]; // Set when nodes wait for values from the user
 }
 
 /**
@@ -4,7 +4,12 @@
  * Types for the discovery phase of workflow building.
  */
 
-import type { WorkflowPhase, DiscoveredNode } from '../workflow';
+import type {
+  WorkflowPhase,
+  DiscoveredNode,
+  ClarificationAnswer,
+  ClarificationQuestion,
+} from '../workflow';
 import type { PhaseResult } from './base';
 
 /**
@@ -14,15 +19,19 @@ export interface DiscoveryInput {
   sessionId: string;
   prompt: string;
   userId?: string; // Optional user ID for workflow ownership
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
 }
 
 /**
- * Input for handling clarification responses
+ * Input for handling clarification responses: the answers to the pending
+ * round of questions, asked in discovery or configuration
  */
 export interface ClarificationInput {
   sessionId: string;
-  questionId: string;
-  response: string;
+  answers: ClarificationAnswer[];
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
 }
 
 /**
@@ -32,10 +41,7 @@ export interface DiscoveryOutput extends PhaseResult {
   phase: WorkflowPhase;
   discoveredNodes: DiscoveredNode[];
   selectedNodeIds: string[];
-  pendingClarification?: {
-    questionId: string;
-    question: string;
-  };
+  pendingClarifications?: ClarificationQuestion[]; // Set when discovery waits for answers
 }
 
 /**
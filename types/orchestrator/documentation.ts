@@ -13,6 +13,7 @@ import type { PhaseResult } from './base';
 export interface DocumentationInput {
   sessionId: string;
   validationResult?: any; // Avoid circular dependency
+  signal?: AbortSignal; // Aborted when the session is cancelled
 }
 
 /**
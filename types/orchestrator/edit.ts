@@ -0,0 +1,42 @@
+/**
+ * Edit Types
+ * 
+ * Types for follow-up edits of a completed workflow.
+ */
+
+import type { WorkflowPhase } from '../workflow';
+import type { PhaseResult } from './base';
+
+/**
+ * Input for the edit runner
+ */
+export interface EditInput {
+  sessionId: string;
+  request: string; // Natural-language change, e.g. "also post to Teams"
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
+}
+
+/**
+ * Output from the edit runner
+ */
+export interface EditOutput extends PhaseResult {
+  phase: WorkflowPhase;
+  workflow: {
+    name: string;
+    nodes: any[];
+    connections: any;
+    settings: any;
+  };
+  editOperations?: number; // Delta operations applied to the workflow
+  skippedOperations?: number; // Operations dropped for referencing unknown nodes
+}
+
+/**
+ * Dependencies for the edit runner
+ */
+export interface EditRunnerDeps {
+  claudeService: any;
+  sessionRepo: any;
+  loggers: any;
+}
@@ -10,4 +10,5 @@ export * from './configuration';
 export * from './building';
 export * from './validation';
 export * from './documentation';
-export * from './patches';
\ No newline at end of file
+export * from './patches';
+export * from './edit';
@@ -13,6 +13,8 @@ import type { PhaseResult } from './base';
 export interface ValidationInput {
   sessionId: string;
   buildingResult?: any; // Avoid circular dependency
+  signal?: AbortSignal; // Aborted when the session is cancelled
+  budgetGuard?: () => Promise<void>; // Checked before every Claude call
 }
 
 /**
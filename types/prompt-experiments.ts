@@ -0,0 +1,64 @@
+/**
+ * Prompt Experiment Types
+ *
+ * Types for running several versions of a phase prompt side by side: the
+ * weights sessions are split by, and the outcome of each session's
+ * variant kept in the prompt_variant_runs table.
+ */
+
+// ==========================================
+// Experiments
+// ==========================================
+
+/**
+ * Phases whose prompt can be versioned. Validation versions the prompt
+ * that fixes validation errors.
+ */
+export type PromptPhase =
+  | "discovery"
+  | "configuration"
+  | "building"
+  | "validation"
+  | "documentation";
+
+/**
+ * Relative weights of the prompt versions a phase runs, e.g.
+ * { "1.0.0": 1, "1.1.0": 1 } for an even split. Phases without an entry
+ * always use their default version.
+ */
+export type PromptExperimentConfig = Partial<
+  Record<PromptPhase, Record<string, number>>
+>;
+
+// ==========================================
+// Outcomes
+// ==========================================
+
+/**
+ * How a session's phase went with the prompt version it was assigned
+ *
+ * One row per session and phase; running the phase again replaces it.
+ */
+export interface PromptVariantRun {
+  sessionId: string;
+  phase: PromptPhase;
+  version: string;
+  success: boolean;
+  validationAttempts?: number; // Validation phase only
+  tokens: number; // Tokens the session used in the phase
+  recordedAt: string; // ISO timestamp
+}
+
+export type RecordPromptVariantRunInput = Omit<PromptVariantRun, "recordedAt">;
+
+/**
+ * Outcomes of one prompt version, for comparing variants
+ */
+export interface PromptVariantSummary {
+  phase: PromptPhase;
+  version: string;
+  runs: number;
+  successRate: number; // 0-1
+  avgTokens: number;
+  avgValidationAttempts?: number; // Unset when no run reported attempts
+}
@@ -0,0 +1,82 @@
+/**
+ * Token Usage Types
+ *
+ * Types for per-session and per-user token budgets, the usage summary
+ * returned by GET /api/users/[userId]/usage and USD cost estimates.
+ */
+
+import type { WorkflowSession } from "./workflow";
+
+// ==========================================
+// Usage Records
+// ==========================================
+
+/**
+ * Token usage stored in a session (state.tokenUsage)
+ */
+export type SessionTokenUsage = NonNullable<
+  WorkflowSession["state"]["tokenUsage"]
+>;
+
+/**
+ * One Claude call recorded in tokenUsage.byCalls
+ */
+export type TokenUsageCall = SessionTokenUsage["byCalls"][number];
+
+/**
+ * Token counts of one Claude response, as reported by the API
+ */
+export interface TokenCallBreakdown {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  model?: string;
+}
+
+// ==========================================
+// Budgets
+// ==========================================
+
+export type TokenBudgetScope = "session" | "user_daily" | "user_monthly";
+
+/**
+ * Token limits - an unset limit is not enforced
+ */
+export interface TokenBudgetLimits {
+  perSession?: number;
+  perUserDaily?: number;
+  perUserMonthly?: number;
+}
+
+// ==========================================
+// Usage Summary
+// ==========================================
+
+export interface UserUsageSummary {
+  userId: string;
+  since: string; // ISO timestamp - start of the summarized window
+  totalTokens: number;
+  callCount: number;
+  sessionCount: number;
+  byPhase: Record<string, number>;
+  byDay: Array<{ date: string; tokens: number }>; // date is YYYY-MM-DD (UTC)
+  limits: TokenBudgetLimits;
+  usedToday: number;
+  usedThisMonth: number;
+}
+
+// ==========================================
+// Cost Estimates
+// ==========================================
+
+/**
+ * Estimated cost of a session's Claude calls (see MODEL_PRICING)
+ */
+export interface SessionCostEstimate {
+  currency: "USD";
+  total: number;
+  byPhase: Record<string, number>;
+  // Tokens of calls without a breakdown or with a model we have no price for
+  unpricedTokens: number;
+}
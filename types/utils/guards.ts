@@ -71,6 +71,7 @@ export function isWorkflowPhase(value: any): value is WorkflowPhase {
     "building",
     "documentation",
     "complete",
+    "cancelled",
   ].includes(value);
 }
 
@@ -135,6 +135,47 @@ export interface ValidationFixReport {
   remainingIssues: ValidationIssue[];
 }
 
+// ==========================================
+// Validation Phase Report
+// ==========================================
+
+/**
+ * A node's parameters before and after the validation phase replaced it
+ */
+export interface ValidationNodeFix {
+  nodeId: string;
+  name: string;
+  before: Record<string, any>; // Empty for a node the fix added
+  after: Record<string, any>;
+}
+
+/**
+ * One fix attempt of the validation phase
+ */
+export interface ValidationPhaseFix {
+  type: 'entity-replacement';
+  attempt: number;
+  timestamp: string;
+  description: string;
+  reasoning: string[];
+  entitiesFixed: {
+    nodes?: string[];
+    connections: boolean;
+  };
+  nodes: ValidationNodeFix[];
+}
+
+/**
+ * Report of a validation phase run: MCP validation results before the
+ * first and after the last attempt, and the fixes applied in between
+ */
+export interface ValidationPhaseReport {
+  initial: any;
+  fixesApplied: ValidationPhaseFix[];
+  final: any;
+  attempts: number;
+}
+
 // ==========================================
 // Validation Configuration
 // ==========================================
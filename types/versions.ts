@@ -0,0 +1,107 @@
+/**
+ * Workflow Version Types
+ *
+ * Types for the workflow snapshots kept in the workflow_versions table and
+ * the structural diff between two of them.
+ */
+
+// ==========================================
+// Versions
+// ==========================================
+
+/**
+ * What produced a snapshot: a phase that changed the workflow, or a
+ * follow-up edit before it is validated again
+ */
+export type WorkflowVersionSource =
+  | "building"
+  | "validation"
+  | "documentation"
+  | "edit";
+
+/**
+ * The workflow as stored in session state
+ */
+export interface WorkflowSnapshot {
+  name?: string;
+  nodes: any[];
+  connections: any;
+  settings: any;
+}
+
+export interface WorkflowVersion {
+  id: string;
+  sessionId: string;
+  version: number; // 1 for the first snapshot of a session, then +1
+  source: WorkflowVersionSource;
+  workflow: WorkflowSnapshot;
+  createdAt: string; // ISO timestamp
+}
+
+export interface RecordWorkflowVersionInput {
+  sessionId: string;
+  source: WorkflowVersionSource;
+  workflow: WorkflowSnapshot;
+}
+
+/**
+ * A version without its workflow, for listings
+ */
+export interface WorkflowVersionSummary {
+  version: number;
+  source: WorkflowVersionSource;
+  nodeCount: number;
+  createdAt: string;
+}
+
+// ==========================================
+// Diffs
+// ==========================================
+
+/**
+ * A value added, removed or changed at a path
+ *
+ * Node paths start with "parameters." for parameters; anything else is a
+ * node-level property (name, typeVersion, onError, ...).
+ */
+export interface FieldChange {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+}
+
+export interface NodeReference {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface NodeChange extends NodeReference {
+  changes: FieldChange[];
+}
+
+/**
+ * One connection between node outputs and inputs, by node name
+ */
+export interface ConnectionReference {
+  from: string;
+  to: string;
+  type: string; // Connection type, usually "main"
+  output: number; // Output index of the source node
+  input: number; // Input index of the target node
+}
+
+export interface WorkflowDiff {
+  nodes: {
+    added: NodeReference[];
+    removed: NodeReference[];
+    changed: NodeChange[];
+  };
+  connections: {
+    added: ConnectionReference[];
+    removed: ConnectionReference[];
+  };
+  // Workflow name and settings
+  workflow: FieldChange[];
+}
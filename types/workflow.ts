@@ -1,11 +1,14 @@
 // types/workflow.ts
 
 import type { WorkflowSEOMetadata } from "./seo";
+import type { ValidationPhaseReport } from "./validation";
 import type {
   DiscoverNodeOperation,
   SelectNodeOperation,
   DeselectNodeOperation,
   RequestClarificationOperation,
+  ClarificationAnswerType,
+  ClarificationOption,
   ConfigureNodeOperation,
   AddFieldOperation,
   UpdateFieldOperation,
@@ -68,7 +71,8 @@ export type WorkflowPhase =
   | "validation"
   | "building"
   | "documentation"
-  | "complete";
+  | "complete"
+  | "cancelled";
 
 // ==========================================
 // State Types
@@ -88,6 +92,7 @@ export interface WorkflowSession {
     configured: Map<string, NodeConfiguration>;
     validated: Map<string, ValidationResult>;
     workflow: {
+      name?: string; // Set by setWorkflowName
       nodes: WorkflowNode[];
       connections: WorkflowConnection[];
       settings: WorkflowSettings;
@@ -103,6 +108,7 @@ export interface WorkflowSession {
     nodeEssentials?: Map<string, any>; // Cache of node essentials by nodeType
     seo?: WorkflowSEOMetadata; // SEO metadata generated after discovery
     configAnalysis?: WorkflowConfigAnalysis; // Configuration analysis generated during building
+    validationReport?: ValidationPhaseReport; // Fixes applied by the last validation run
     tokenUsage?: {
       byPhase: Record<string, number>;
       byCalls: Array<{
@@ -110,6 +116,12 @@ export interface WorkflowSession {
         method: string;
         tokens: number;
         timestamp: string;
+        // Breakdown for cost estimates (missing on calls recorded before it)
+        inputTokens?: number;
+        outputTokens?: number;
+        cacheCreationTokens?: number;
+        cacheReadTokens?: number;
+        model?: string;
       }>;
       total: number;
     };
@@ -173,12 +185,18 @@ export type SessionOperation =
   | AddStickyNoteOperation
 
   // Additional session-specific operations not in Claude types
-  | { type: "clarificationResponse"; questionId: string; response: string }
+  | {
+      type: "clarificationResponse";
+      questionId: string;
+      response: string; // Answer as text, option labels joined with ", "
+      value?: string | string[]; // Option values, or the text of free_text answers
+    }
   | {
       type: "setUserPrompt";
       prompt: string;
       reason?: "clarification" | "user_edit";
     }
+  | { type: "requestEdit"; request: string }
   | { type: "updateNodeConfig"; nodeId: string; path: string; value: any }
   | { type: "validateNode"; nodeId: string; result: ValidationResult }
   | { type: "addValidationError"; nodeId: string; error: ValidationError }
@@ -197,6 +215,7 @@ export type SessionOperation =
     }
   | { type: "setPhase"; phase: WorkflowPhase }
   | { type: "completePhase"; phase: WorkflowPhase }
+  | { type: "cancelSession"; fromPhase: WorkflowPhase; reason?: string }
   | {
       type: "setBuildPhases";
       phases: Array<{
@@ -213,6 +232,10 @@ export type SessionOperation =
   | {
       type: "setConfigAnalysis";
       analysis: WorkflowConfigAnalysis;
+    }
+  | {
+      type: "setValidationReport";
+      report: ValidationPhaseReport;
     };
 
 /**
@@ -297,6 +320,9 @@ export interface ValidationError {
 export interface ClarificationRequest {
   questionId: string;
   question: string;
+  answerType?: ClarificationAnswerType; // free_text when missing
+  options?: ClarificationOption[];
+  required?: boolean;
   context: any; // Flexible context for different scenarios
   timestamp: Date;
 }
@@ -307,10 +333,35 @@ export interface ClarificationRequest {
 export interface ClarificationResponse {
   questionId: string;
   question: string;
+  answerType?: ClarificationAnswerType;
   response: string;
+  value?: string | string[];
+  context?: any; // Context of the question, e.g. the node and field it was about
   timestamp: Date;
 }
 
+/**
+ * A pending clarification question as shown to the user. All questions
+ * pending at once form one round and are answered together.
+ */
+export interface ClarificationQuestion {
+  questionId: string;
+  question: string;
+  answerType: ClarificationAnswerType;
+  options?: ClarificationOption[];
+  required: boolean;
+  context?: any;
+}
+
+/**
+ * The user's answer to one question: an option value for single_choice
+ * and service, option values for multi_choice, text for free_text
+ */
+export interface ClarificationAnswer {
+  questionId: string;
+  value: string | string[];
+}
+
 // ==========================================
 // Error Types
 // ==========================================
@@ -361,10 +412,7 @@ export interface ApplyOperationsResponse {
     validated?: number;
     errors?: ValidationError[];
   };
-  pendingClarification?: {
-    questionId: string;
-    question: string;
-  };
+  pendingClarifications?: ClarificationQuestion[];
 }
 
 /**